@@ -0,0 +1,293 @@
+"use server";
+
+/**
+ * @file saved-searches.ts
+ * @description 저장 검색 기능을 위한 Server Actions
+ *
+ * 로그인한 사용자가 홈페이지 검색 조건(검색어, 필터, 정렬)을 저장하고
+ * "내 저장 검색" 패널에서 마지막 확인 이후 새로 수정된 관광지 수를 확인할 수 있도록 합니다.
+ *
+ * 주요 기능:
+ * 1. 저장 검색 목록 + 새 항목 수 조회 (getSavedSearchesAction)
+ * 2. 검색 저장 (saveSearchAction)
+ * 3. 저장 검색 삭제 (removeSavedSearchAction)
+ * 4. 마지막 확인 시간 갱신 (markSavedSearchViewedAction)
+ *
+ * 핵심 구현 로직:
+ * - Clerk 인증을 통한 사용자 확인, Clerk user ID를 Supabase user_id로 변환
+ * - 검색 조건은 URL 쿼리 파라미터로 검증/정규화하여 저장 (같은 조건은 항상 같은 문자열)
+ * - 새 항목 수는 서버에서 areaBasedList2/searchKeyword2를 수정일순으로 조회하여 계산
+ *   (lib/api/tour-home.ts countHomeToursModifiedSince, 저장 검색별 조회 실패 시 null)
+ *   - 요청당 API 호출 수를 MAX_UPDATE_REQUESTS로 제한 (최근 저장한 검색부터, 한도를 넘는 검색은 null)
+ *   - 반려동물 동반 필터는 적용하지 않은 수 (목록 API 미지원, 패널에서 안내)
+ * - 사용자당 최대 MAX_SAVED_SEARCHES개까지 저장
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: 서버 사이드 Clerk 인증
+ * - lib/supabase/server.ts: 서버 사이드 Supabase 클라이언트
+ * - lib/api/supabase-api.ts: getSupabaseUserId
+ * - lib/api/saved-searches.ts: 저장 검색 CRUD 함수들
+ * - lib/api/tour-home.ts: countHomeToursModifiedSince, getHomeRequestCount, hasHomeTourQuery
+ * - lib/api/tour-transport-server.ts: 서버 트랜스포트 등록
+ * - lib/utils/search-params.ts: 검색 조건 파싱/정규화, 표시 이름 생성
+ * - lib/types/saved-search.ts: 타입 정의
+ *
+ * @see {@link components/saved-searches/saved-search-panel.tsx} - "내 저장 검색" 패널
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getSupabaseUserId } from "@/lib/api/supabase-api";
+import {
+  addSavedSearch,
+  getSavedSearches,
+  markSavedSearchViewed,
+  removeSavedSearch,
+} from "@/lib/api/saved-searches";
+import {
+  countHomeToursModifiedSince,
+  getHomeRequestCount,
+  hasHomeTourQuery,
+} from "@/lib/api/tour-home";
+import "@/lib/api/tour-transport-server";
+import {
+  getHomeSearchLabel,
+  getSavedSearchQuery,
+  parseHomeSearchParams,
+  type HomeSearchState,
+} from "@/lib/utils/search-params";
+import type {
+  SavedSearch,
+  SavedSearchWithUpdates,
+} from "@/lib/types/saved-search";
+
+/**
+ * 사용자당 최대 저장 검색 수
+ */
+const MAX_SAVED_SEARCHES = 20;
+
+/**
+ * 저장 검색 목록 조회 한 번에 새 항목 수를 세는 데 사용할 최대 API 호출 수
+ * (저장 검색마다 조합 수만큼 호출, 지역/관광 타입 다중 선택 시 최대 9회)
+ */
+const MAX_UPDATE_REQUESTS = 10;
+
+/**
+ * 로그인한 사용자의 Supabase 클라이언트와 user_id
+ * @throws 인증되지 않았거나 사용자 정보가 없으면 에러를 던집니다.
+ */
+async function getCurrentUser() {
+  // Clerk 인증 확인
+  const { userId: clerkUserId } = await auth();
+
+  if (!clerkUserId) {
+    throw new Error("로그인이 필요합니다.");
+  }
+
+  // Supabase 클라이언트 생성
+  const supabase = createClerkSupabaseClient();
+
+  // Supabase user_id 조회
+  const userId = await getSupabaseUserId(supabase, clerkUserId);
+
+  if (!userId) {
+    throw new Error("사용자 정보를 찾을 수 없습니다. 먼저 로그인해주세요.");
+  }
+
+  return { supabase, userId };
+}
+
+/**
+ * 저장 검색의 마지막 확인 이후 새 항목 수 조회 (실패 시 null)
+ */
+async function withUpdates(
+  search: SavedSearch,
+  state: HomeSearchState,
+): Promise<SavedSearchWithUpdates> {
+  try {
+    const { count, capped } = await countHomeToursModifiedSince(
+      state,
+      new Date(search.last_viewed_at),
+    );
+    return { ...search, newCount: count, newCountCapped: capped };
+  } catch (error) {
+    console.warn(
+      `저장 검색 새 항목 수 조회 실패 (id: ${search.id}):`,
+      error instanceof Error ? error.message : String(error),
+    );
+    return { ...search, newCount: null, newCountCapped: false };
+  }
+}
+
+/**
+ * 사용자의 저장 검색 목록을 새 항목 수와 함께 조회하는 Server Action
+ *
+ * @returns 저장 검색 목록 (created_at 내림차순, 저장 검색별 새 항목 수 포함 - 호출 한도를 넘으면 null)
+ * @throws 인증되지 않은 사용자 또는 에러 발생 시 에러를 던집니다.
+ *
+ * @example
+ * ```tsx
+ * 'use client';
+ *
+ * import { getSavedSearchesAction } from '@/actions/saved-searches';
+ *
+ * const searches = await getSavedSearchesAction();
+ * searches.forEach((search) => console.log(search.name, search.newCount));
+ * ```
+ */
+export async function getSavedSearchesAction(): Promise<
+  SavedSearchWithUpdates[]
+> {
+  try {
+    const { supabase, userId } = await getCurrentUser();
+    const searches = await getSavedSearches(supabase, userId);
+
+    // 저장 검색별 새 항목 수 조회 (병렬 처리, 개별 실패와 호출 한도를 넘는 검색은 null)
+    let remainingRequests = MAX_UPDATE_REQUESTS;
+    return await Promise.all(
+      searches.map((search) => {
+        const state = parseHomeSearchParams(new URLSearchParams(search.query));
+        const requests = getHomeRequestCount(state, null);
+        if (requests > remainingRequests) {
+          return { ...search, newCount: null, newCountCapped: false };
+        }
+
+        remainingRequests -= requests;
+        return withUpdates(search, state);
+      }),
+    );
+  } catch (error) {
+    console.error("getSavedSearchesAction error:", error);
+
+    // 에러 메시지가 이미 사용자 친화적이면 그대로 사용
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    // 알 수 없는 에러
+    throw new Error("저장한 검색을 가져오는 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 홈페이지 검색 조건을 저장하는 Server Action
+ *
+ * @param query - 홈페이지 URL 쿼리 문자열 (예: "area=39&type=39")
+ * @returns 생성된 저장 검색 객체 (새 항목 수 0으로 시작)
+ * @throws 인증되지 않은 사용자, 검색 조건 없음, 중복 저장, 저장 한도 초과 시 에러를 던집니다.
+ *
+ * @example
+ * ```tsx
+ * 'use client';
+ *
+ * import { saveSearchAction } from '@/actions/saved-searches';
+ *
+ * const saved = await saveSearchAction("area=39&type=39");
+ * console.log('저장됨:', saved.name); // "제주 + 음식점"
+ * ```
+ */
+export async function saveSearchAction(
+  query: string,
+): Promise<SavedSearchWithUpdates> {
+  try {
+    // 검색 조건 검증 및 정규화 (잘못된 값 제거, 페이지 번호 제외)
+    const state = parseHomeSearchParams(
+      new URLSearchParams(typeof query === "string" ? query : ""),
+    );
+    if (!hasHomeTourQuery(state, null)) {
+      throw new Error("저장할 검색어나 필터를 선택해주세요.");
+    }
+
+    const { supabase, userId } = await getCurrentUser();
+
+    const searches = await getSavedSearches(supabase, userId);
+    if (searches.length >= MAX_SAVED_SEARCHES) {
+      throw new Error(
+        `검색은 최대 ${MAX_SAVED_SEARCHES}개까지 저장할 수 있습니다. 사용하지 않는 검색을 삭제해주세요.`,
+      );
+    }
+
+    const saved = await addSavedSearch(supabase, userId, {
+      name: getHomeSearchLabel(state),
+      query: getSavedSearchQuery(state),
+    });
+
+    return { ...saved, newCount: 0, newCountCapped: false };
+  } catch (error) {
+    console.error("saveSearchAction error:", error);
+
+    // 에러 메시지가 이미 사용자 친화적이면 그대로 사용
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    // 알 수 없는 에러
+    throw new Error("검색을 저장하는 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 저장 검색을 삭제하는 Server Action
+ *
+ * @param id - 저장 검색 ID (UUID)
+ * @returns 삭제 성공 여부
+ * @throws 인증되지 않은 사용자 또는 에러 발생 시 에러를 던집니다.
+ */
+export async function removeSavedSearchAction(
+  id: string,
+): Promise<{ success: boolean }> {
+  try {
+    // 파라미터 검증
+    if (!id || typeof id !== "string") {
+      throw new Error("저장 검색 ID가 필요합니다.");
+    }
+
+    const { supabase, userId } = await getCurrentUser();
+
+    return await removeSavedSearch(supabase, userId, id);
+  } catch (error) {
+    console.error("removeSavedSearchAction error:", error);
+
+    // 에러 메시지가 이미 사용자 친화적이면 그대로 사용
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    // 알 수 없는 에러
+    throw new Error("저장한 검색을 삭제하는 중 오류가 발생했습니다.");
+  }
+}
+
+/**
+ * 저장 검색의 마지막 확인 시간을 갱신하는 Server Action
+ * 사용자가 저장 검색 결과를 열면 호출하여 새 항목 수를 초기화합니다.
+ *
+ * @param id - 저장 검색 ID (UUID)
+ * @returns 갱신된 마지막 확인 시간 (ISO 8601 형식 문자열)
+ * @throws 인증되지 않은 사용자 또는 에러 발생 시 에러를 던집니다.
+ */
+export async function markSavedSearchViewedAction(
+  id: string,
+): Promise<{ lastViewedAt: string }> {
+  try {
+    // 파라미터 검증
+    if (!id || typeof id !== "string") {
+      throw new Error("저장 검색 ID가 필요합니다.");
+    }
+
+    const { supabase, userId } = await getCurrentUser();
+    const lastViewedAt = await markSavedSearchViewed(supabase, userId, id);
+
+    return { lastViewedAt };
+  } catch (error) {
+    console.error("markSavedSearchViewedAction error:", error);
+
+    // 에러 메시지가 이미 사용자 친화적이면 그대로 사용
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    // 알 수 없는 에러
+    throw new Error("저장한 검색을 갱신하는 중 오류가 발생했습니다.");
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * @file page.tsx
+ * @description 한국관광공사 API 호출량 관리자 페이지
+ *
+ * 이 페이지는 KorService2 서비스 키의 일일 호출량을 엔드포인트별로 보여줍니다.
+ *
+ * 주요 기능:
+ * 1. 관리자 확인 (TOUR_ADMIN_USER_IDS에 등록된 Clerk 사용자만 접근)
+ * 2. 오늘 호출량 / 일일 한도 / 제한 단계 표시
+ * 3. 최근 7일 날짜별·엔드포인트별 호출량 표시
+ *
+ * 핵심 구현 로직:
+ * - Next.js 15 App Router Server Component (요청마다 새로 조회)
+ * - 관리자가 아니면 404로 처리하여 페이지 존재를 노출하지 않음
+ * - 호출량은 Supabase tour_api_usage 테이블에서 Service Role로 조회
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: auth
+ * - lib/api/tour-usage.ts: getTourApiUsageReport, getTourUsageDate
+ * - lib/api/tour-rate-limit.ts: getTourApiDailyQuota, getTourApiQuotaLevel
+ * - components/ui/card.tsx: 카드 컴포넌트
+ */
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { Activity } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  TOUR_API_BACKGROUND_QUOTA_RATIO,
+  getTourApiDailyQuota,
+  getTourApiQuotaLevel,
+  type TourApiQuotaLevel,
+} from "@/lib/api/tour-rate-limit";
+import {
+  getTourApiUsageReport,
+  getTourUsageDate,
+  type TourApiUsageRow,
+} from "@/lib/api/tour-usage";
+import { cn } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "API 호출량",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * 조회 일수
+ */
+const REPORT_DAYS = 7;
+
+const QUOTA_LEVEL_LABELS: Record<TourApiQuotaLevel, string> = {
+  normal: "정상",
+  degraded: "비필수 호출 제한 중",
+  exhausted: "모든 호출 제한 중",
+};
+
+const QUOTA_LEVEL_COLORS: Record<TourApiQuotaLevel, string> = {
+  normal: "bg-primary",
+  degraded: "bg-yellow-500",
+  exhausted: "bg-destructive",
+};
+
+/**
+ * 관리자 여부 (TOUR_ADMIN_USER_IDS: 쉼표로 구분한 Clerk 사용자 ID)
+ */
+function isTourAdmin(userId: string): boolean {
+  return (process.env.TOUR_ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .includes(userId);
+}
+
+/**
+ * 날짜별로 묶기 (입력 순서 유지)
+ */
+function groupByDate(rows: TourApiUsageRow[]): Map<string, TourApiUsageRow[]> {
+  const groups = new Map<string, TourApiUsageRow[]>();
+  for (const row of rows) {
+    groups.set(row.date, [...(groups.get(row.date) ?? []), row]);
+  }
+  return groups;
+}
+
+/**
+ * API 호출량 관리자 페이지 컴포넌트
+ */
+export default async function TourUsagePage() {
+  const { userId, redirectToSignIn } = await auth();
+
+  if (!userId) {
+    return redirectToSignIn();
+  }
+  if (!isTourAdmin(userId)) {
+    notFound();
+  }
+
+  let rows: TourApiUsageRow[] = [];
+  let error: string | null = null;
+
+  try {
+    rows = await getTourApiUsageReport(REPORT_DAYS);
+  } catch (err) {
+    error =
+      err instanceof Error
+        ? err.message
+        : "API 호출량을 불러오는 중 오류가 발생했습니다.";
+  }
+
+  const quota = getTourApiDailyQuota();
+  const groups = groupByDate(rows);
+  const todayRows = groups.get(getTourUsageDate()) ?? [];
+  const todayTotal = todayRows.reduce((sum, row) => sum + row.count, 0);
+  const level = getTourApiQuotaLevel(todayTotal, quota);
+  const ratio = Math.min(todayTotal / quota, 1);
+
+  return (
+    <main className="min-h-[calc(100vh-80px)] bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-6 lg:px-8 lg:py-10 space-y-6">
+        {/* 헤더 */}
+        <div className="space-y-2">
+          <h1 className="text-2xl lg:text-3xl font-bold flex items-center gap-2">
+            <Activity className="w-7 h-7" />
+            API 호출량
+          </h1>
+          <p className="text-muted-foreground">
+            한국관광공사 API(KorService2) 서비스 키의 일일 호출량입니다. 날짜는
+            한국 시간 기준입니다.
+          </p>
+        </div>
+
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {/* 오늘 호출량 */}
+        <Card>
+          <CardHeader>
+            <CardTitle>오늘</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-baseline justify-between gap-4">
+              <span className="text-3xl font-bold">
+                {todayTotal.toLocaleString()}
+                <span className="text-base font-normal text-muted-foreground">
+                  {" "}
+                  / {quota.toLocaleString()}회
+                </span>
+              </span>
+              <span className="text-sm text-muted-foreground">
+                {QUOTA_LEVEL_LABELS[level]}
+              </span>
+            </div>
+            <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+              <div
+                className={cn("h-full", QUOTA_LEVEL_COLORS[level])}
+                style={{ width: `${ratio * 100}%` }}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              한도의 {Math.round(TOUR_API_BACKGROUND_QUOTA_RATIO * 100)}%를
+              넘으면 사이트맵 샘플링 등 비필수 호출을 먼저 제한합니다.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* 날짜별 호출량 */}
+        {groups.size === 0 && !error ? (
+          <p className="text-sm text-muted-foreground">
+            최근 {REPORT_DAYS}일 동안 기록된 호출이 없습니다.
+          </p>
+        ) : (
+          Array.from(groups.entries()).map(([date, dateRows]) => (
+            <Card key={date}>
+              <CardHeader>
+                <CardTitle className="flex items-baseline justify-between">
+                  <span>{date}</span>
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {dateRows
+                      .reduce((sum, row) => sum + row.count, 0)
+                      .toLocaleString()}
+                    회
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-1 font-medium">엔드포인트</th>
+                      <th className="py-1 font-medium text-right">호출 수</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dateRows.map((row) => (
+                      <tr key={row.endpoint} className="border-t">
+                        <td className="py-1.5 font-mono">{row.endpoint}</td>
+                        <td className="py-1.5 text-right tabular-nums">
+                          {row.count.toLocaleString()}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </main>
+  );
+}
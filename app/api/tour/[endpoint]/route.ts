@@ -0,0 +1,159 @@
+/**
+ * @file route.ts
+ * @description 한국관광공사 API 프록시 라우트 (/api/tour/[endpoint])
+ *
+ * 브라우저의 KorService2 요청을 서버에서 대신 보냅니다. (lib/api/tour-transport.ts의 프록시 트랜스포트)
+ * API 키(TOUR_API_KEY)는 서버에서만 추가되며, 엔드포인트와 파라미터는 허용 목록으로 제한합니다.
+ *
+ * 핵심 구현 로직:
+ * - 서버의 fetchTourAPI를 거쳐 호출 (LRU 캐시, 동일 요청 병합, 장애 시 이전 응답 사용)
+ * - KorService2는 에러(resultCode ≠ "0000", 서비스 키 오류 XML)도 HTTP 200으로 응답하므로
+ *   본문을 확인한 결과만 공개 캐시(Cache-Control: public)로 응답하고, 나머지는 모두 no-store
+ * - KorService2 결과 에러는 같은 resultCode의 응답 본문으로 전달하여
+ *   클라이언트의 fetchTourAPI 에러 분류/재시도 처리가 동일하게 동작하도록 함
+ *
+ * 응답:
+ * - 허용되지 않은 엔드포인트: 404
+ * - 허용되지 않은 파라미터 또는 잘못된 값: 400
+ * - KorService2 결과 에러: 200 + resultCode 응답 본문 (no-store)
+ * - KorService2 HTTP 에러: 같은 상태 코드 (no-store)
+ * - 일일 호출 한도로 거절된 요청: 200 + resultCode "22" 응답 본문 (클라이언트에서 재시도하지 않음,
+ *   X-Tour-Priority: background 요청은 한도에 가까우면 먼저 거절)
+ * - 속도 제한 등 재시도 가능한 호출 제한: 429
+ * - KorService2 연결 실패, 서버 장애: 502
+ * - 사용할 수 없는 응답 형식: 422 (클라이언트에서 재시도하지 않음)
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: fetchTourProxyResponse 함수
+ * - lib/api/tour-transport-server.ts: 서버 트랜스포트 등록 (TOUR_API_MODE)
+ * - lib/api/tour-proxy.ts: 엔드포인트/파라미터 허용 목록
+ * - lib/api/tour-transport.ts: TOUR_PRIORITY_HEADER
+ *
+ * @see {@link lib/api/tour-transport.ts} - 브라우저 프록시 트랜스포트
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { fetchTourProxyResponse } from "@/lib/api/tour-api";
+import "@/lib/api/tour-transport-server";
+import {
+  type TourApiError,
+  TourApiValidationError,
+  isAbortError,
+  isTourApiError,
+} from "@/lib/api/tour-api-error";
+import {
+  getTourProxyEndpoint,
+  parseTourProxyParams,
+} from "@/lib/api/tour-proxy";
+import { TOUR_PRIORITY_HEADER } from "@/lib/api/tour-transport";
+import { logError } from "@/lib/utils/error-handler";
+
+/**
+ * 캐시하지 않는 응답 헤더
+ */
+const NO_STORE_HEADERS = { "Cache-Control": "no-store" };
+
+/**
+ * TourApiError → 프록시 에러 응답
+ */
+function toProxyErrorResponse(error: TourApiError): NextResponse {
+  // KorService2 결과 에러: 클라이언트가 같은 에러를 만들 수 있도록 resultCode 그대로 전달
+  // 일일 한도로 거절된 호출(재시도 불가)은 일일 트래픽 초과(22)로 전달
+  // (429로 응답하면 클라이언트가 재시도 가능한 에러로 만들기 때문)
+  const resultCode =
+    error.resultCode ??
+    (error.kind === "rate_limit" && !error.retryable ? "22" : undefined);
+  if (resultCode) {
+    return NextResponse.json(
+      {
+        response: {
+          header: {
+            resultCode,
+            resultMsg: error.resultMsg ?? "",
+          },
+        },
+      },
+      { headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const status =
+    error.status ??
+    (error.kind === "rate_limit"
+      ? 429
+      : error.kind === "server" || error.kind === "network"
+        ? 502
+        : 422);
+
+  return NextResponse.json(
+    {
+      error:
+        status === 502 ? "관광 정보 서버에 연결할 수 없습니다." : error.message,
+    },
+    { status, headers: NO_STORE_HEADERS },
+  );
+}
+
+/**
+ * 한국관광공사 API 프록시
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ endpoint: string }> },
+) {
+  const { endpoint } = await params;
+
+  const config = getTourProxyEndpoint(endpoint);
+  if (!config) {
+    return NextResponse.json(
+      { error: "지원하지 않는 엔드포인트입니다." },
+      { status: 404 },
+    );
+  }
+
+  let queryParams: Record<string, string>;
+  try {
+    queryParams = parseTourProxyParams(endpoint, request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof TourApiValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const priority =
+    request.headers.get(TOUR_PRIORITY_HEADER) === "background"
+      ? "background"
+      : "essential";
+
+  try {
+    const data = await fetchTourProxyResponse(`/${endpoint}`, queryParams, {
+      priority,
+      signal: request.signal,
+    });
+
+    // 장애로 받은 이전 응답은 캐시하지 않음 (장애가 끝나면 바로 새 응답을 받도록)
+    return NextResponse.json(data, {
+      headers: data.stale
+        ? NO_STORE_HEADERS
+        : {
+            "Cache-Control": `public, s-maxage=${config.revalidate}, stale-while-revalidate=${config.revalidate}`,
+          },
+    });
+  } catch (error) {
+    // 브라우저가 요청을 취소한 경우 (응답을 받을 곳이 없음)
+    if (isAbortError(error)) {
+      return new NextResponse(null, { status: 499, headers: NO_STORE_HEADERS });
+    }
+
+    if (isTourApiError(error)) {
+      return toProxyErrorResponse(error);
+    }
+
+    logError(error, `tour proxy - /${endpoint}`);
+    return NextResponse.json(
+      { error: "관광 정보 서버에 연결할 수 없습니다." },
+      { status: 502, headers: NO_STORE_HEADERS },
+    );
+  }
+}
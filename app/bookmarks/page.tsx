@@ -16,13 +16,15 @@
  * - Next.js 15 App Router Server Component
  * - Clerk 인증 확인 (auth())
  * - 북마크 목록 조회 후 각 관광지 정보 병렬 조회
- * - TourItem 형식으로 변환하여 TourList에 전달
+ * - 정규화 모듈로 TourItem 형식 변환하여 TourList에 전달
  * - 에러 처리: 일부 관광지 정보 조회 실패 시에도 나머지 표시
  *
  * @dependencies
  * - @clerk/nextjs/server: auth, redirectToSignIn
  * - actions/bookmarks.ts: getBookmarksAction
  * - lib/api/tour-api.ts: detailCommon2
+ * - lib/api/tour-transport-server.ts: 서버 트랜스포트 등록
+ * - lib/api/tour-normalize.ts: normalizeTourDetail, detailToTourItem
  * - components/tour-list.tsx: TourList 컴포넌트
  * - lib/types/bookmark.ts: Bookmark 타입
  * - lib/types/tour.ts: TourItem 타입
@@ -39,6 +41,11 @@ import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { getBookmarksAction } from "@/actions/bookmarks";
 import { detailCommon2 } from "@/lib/api/tour-api";
+import "@/lib/api/tour-transport-server";
+import {
+  detailToTourItem,
+  normalizeTourDetail,
+} from "@/lib/api/tour-normalize";
 import { BookmarkList } from "@/components/bookmarks/bookmark-list";
 import type { TourItem } from "@/lib/types/tour";
 
@@ -70,34 +77,14 @@ export default async function BookmarksPage() {
       const tourPromises = bookmarks.map(async (bookmark) => {
         try {
           const response = await detailCommon2(bookmark.content_id);
-          const items = response.response?.body?.items?.item;
+          const detail = normalizeTourDetail(response);
 
-          if (!items || items.length === 0) {
+          if (!detail) {
             return null;
           }
 
-          const item = items[0];
-
           // TourItem 형식으로 변환
-          const tourItem: TourItem = {
-            contentid: item.contentid,
-            contenttypeid: item.contenttypeid,
-            title: item.title,
-            addr1: item.addr1,
-            addr2: item.addr2,
-            areacode: "", // detailCommon2에는 없음, 빈 문자열로 처리
-            mapx: item.mapx,
-            mapy: item.mapy,
-            firstimage: item.firstimage,
-            firstimage2: item.firstimage2,
-            tel: item.tel,
-            cat1: item.cat1,
-            cat2: item.cat2,
-            cat3: item.cat3,
-            modifiedtime: item.modifiedtime,
-          };
-
-          return tourItem;
+          return detailToTourItem(detail);
         } catch (err) {
           // 개별 관광지 정보 조회 실패는 무시하고 계속 진행
           console.warn(
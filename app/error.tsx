@@ -10,7 +10,12 @@
  * 2. 사용자 친화적인 에러 메시지 표시
  * 3. 재시도 및 홈으로 가기 기능 제공
  *
+ * 핵심 구현 로직:
+ * - getErrorInfo로 에러를 분류하여 사용자 메시지와 재시도 버튼 표시 여부 결정
+ * - 서버 컴포넌트의 TourApiError는 digest로 분류 정보가 전달됨
+ *
  * @dependencies
+ * - @/lib/utils/error-handler: 에러 분류 및 사용자 메시지
  * - @/components/ui/card: 에러 메시지 표시용 카드 컴포넌트
  * - @/components/ui/button: 재시도 및 홈으로 가기 버튼
  * - lucide-react: AlertCircle 아이콘
@@ -23,6 +28,7 @@ import { AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import Link from "next/link";
+import { ErrorType, getErrorInfo } from "@/lib/utils/error-handler";
 
 interface ErrorProps {
   error: Error & { digest?: string };
@@ -30,6 +36,10 @@ interface ErrorProps {
 }
 
 export default function Error({ error, reset }: ErrorProps) {
+  const errorInfo = getErrorInfo(error);
+  // 분류되지 않은 에러는 재시도를 허용하고, 재시도해도 소용없는 에러(인증/검증 등)는 숨김
+  const showRetry = errorInfo.canRetry || errorInfo.type === ErrorType.UNKNOWN;
+
   useEffect(() => {
     // 에러 로깅 (개발 환경)
     if (process.env.NODE_ENV === "development") {
@@ -54,8 +64,9 @@ export default function Error({ error, reset }: ErrorProps) {
             <div className="space-y-2">
               <h2 className="text-2xl font-bold">오류가 발생했습니다</h2>
               <p className="text-muted-foreground">
-                {error.message ||
-                  "예상치 못한 오류가 발생했습니다. 잠시 후 다시 시도해주세요."}
+                {errorInfo.type === ErrorType.UNKNOWN && error.message
+                  ? error.message
+                  : errorInfo.userMessage}
               </p>
               {error.digest && (
                 <p className="text-xs text-muted-foreground mt-2">
@@ -64,9 +75,11 @@ export default function Error({ error, reset }: ErrorProps) {
               )}
             </div>
             <div className="flex gap-2 w-full">
-              <Button onClick={reset} variant="outline" className="flex-1">
-                다시 시도
-              </Button>
+              {showRetry && (
+                <Button onClick={reset} variant="outline" className="flex-1">
+                  다시 시도
+                </Button>
+              )}
               <Button asChild variant="default" className="flex-1">
                 <Link href="/">홈으로 가기</Link>
               </Button>
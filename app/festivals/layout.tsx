@@ -0,0 +1,22 @@
+/**
+ * @file layout.tsx
+ * @description 축제 캘린더 페이지 레이아웃 (메타데이터)
+ *
+ * 축제 페이지는 클라이언트 컴포넌트이므로 메타데이터를 레이아웃에서 정의합니다.
+ */
+
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "축제 캘린더",
+  description:
+    "전국에서 열리는 축제와 행사를 월별 달력과 목록으로 확인하세요. 진행 중, 예정, 종료된 축제를 한눈에 볼 수 있습니다.",
+};
+
+export default function FestivalsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
@@ -0,0 +1,277 @@
+/**
+ * @file page.tsx
+ * @description 축제 캘린더 페이지
+ *
+ * 이 페이지는 선택한 월에 열리는 축제/행사를 달력 또는 목록으로 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 월 선택 (이전 달 / 다음 달 / 이번 달)
+ * 2. 달력 보기 / 목록 보기 전환
+ * 3. 지역 필터 (TourFilters 재사용, 관광 타입 필터는 숨김)
+ * 4. 진행 상태 뱃지 (진행 중 / 예정 / 종료)
+ *
+ * 핵심 구현 로직:
+ * - searchFestival2 API로 해당 월(1일 ~ 말일)과 기간이 겹치는 행사 조회
+ *   (첫 페이지의 totalCount 기준으로 나머지 페이지를 조회, 최대 FESTIVAL_MAX_PAGES 페이지)
+ * - 최대 페이지 수를 넘는 달은 일부 행사만 표시한다는 안내 표시
+ * - 응답을 한 번 더 기간 기준으로 걸러 해당 월과 겹치는 행사만 표시
+ * - 행사 시작일 순으로 정렬
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: searchFestival2 함수
+ * - lib/api/tour-normalize.ts: normalizeFestivalList 함수
+ * - lib/utils/festival.ts: getMonthRange
+ * - components/tour-filters.tsx: 지역 필터
+ * - components/festivals/festival-calendar.tsx: 달력 보기
+ * - components/festivals/festival-list.tsx: 목록 보기
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CalendarDays, ChevronLeft, ChevronRight, List } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TourFilters } from "@/components/tour-filters";
+import { FestivalCalendar } from "@/components/festivals/festival-calendar";
+import { FestivalList } from "@/components/festivals/festival-list";
+import { searchFestival2 } from "@/lib/api/tour-api";
+import { normalizeFestivalList } from "@/lib/api/tour-normalize";
+import { getMonthRange } from "@/lib/utils/festival";
+import type { FestivalItem } from "@/lib/types/tour";
+import type { TourFiltersValues } from "@/components/tour-filters";
+import { cn } from "@/lib/utils";
+
+/**
+ * 보기 방식
+ */
+type FestivalView = "calendar" | "list";
+
+/**
+ * 한 번에 조회할 항목 수
+ */
+const FESTIVALS_PER_PAGE = 100;
+
+/**
+ * 한 달 조회 시 최대 페이지 수 (API 호출 수 제한, 최대 500개)
+ */
+const FESTIVAL_MAX_PAGES = 5;
+
+export default function FestivalsPage() {
+  // 조회 월 (month: 0부터 시작)
+  const [currentMonth, setCurrentMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+
+  // 보기 방식
+  const [view, setView] = useState<FestivalView>("calendar");
+
+  // 지역 필터
+  const [filters, setFilters] = useState<TourFiltersValues>({});
+
+  // 축제 목록 상태 관리
+  const [festivals, setFestivals] = useState<FestivalItem[]>([]);
+  // 조회 한도를 넘어 일부 행사만 표시하는지 여부
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { year, month } = currentMonth;
+
+  // 월/지역 변경 시 API 호출
+  useEffect(() => {
+    let cancelled = false;
+    const controller = new AbortController();
+
+    async function fetchFestivals() {
+      const { startDate, endDate } = getMonthRange(year, month);
+
+      const fetchPage = async (pageNo: number) =>
+        normalizeFestivalList(
+          await searchFestival2({
+            eventStartDate: startDate,
+            eventEndDate: endDate,
+            areaCode: filters.areaCode,
+            numOfRows: FESTIVALS_PER_PAGE,
+            pageNo,
+            signal: controller.signal,
+          }),
+        );
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        // 첫 페이지의 totalCount 기준으로 나머지 페이지 조회 (최대 FESTIVAL_MAX_PAGES)
+        const first = await fetchPage(1);
+        const totalPages = Math.ceil(
+          first.pagination.totalCount / FESTIVALS_PER_PAGE,
+        );
+        const lastPage = Math.min(totalPages, FESTIVAL_MAX_PAGES);
+        const rest = await Promise.all(
+          Array.from({ length: Math.max(lastPage - 1, 0) }, (_, index) =>
+            fetchPage(index + 2),
+          ),
+        );
+
+        if (cancelled) return;
+
+        const items = [first, ...rest].flatMap((page) => page.items);
+
+        // 해당 월과 기간이 겹치는 행사만 표시 (시작일 순)
+        const monthFestivals = items
+          .filter(
+            (festival) =>
+              festival.eventstartdate <= endDate &&
+              (festival.eventenddate || festival.eventstartdate) >= startDate,
+          )
+          .sort((a, b) => a.eventstartdate.localeCompare(b.eventstartdate));
+
+        setFestivals(monthFestivals);
+        setTruncated(totalPages > lastPage);
+      } catch (err) {
+        if (cancelled) return;
+        console.error("축제 조회 실패:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "축제 정보를 불러오는 중 오류가 발생했습니다.",
+        );
+        setFestivals([]);
+        setTruncated(false);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }
+
+    fetchFestivals();
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [year, month, filters.areaCode]);
+
+  // 월 이동 핸들러
+  const handleMonthChange = useCallback((offset: number) => {
+    setCurrentMonth((prev) => {
+      const date = new Date(prev.year, prev.month + offset, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+  }, []);
+
+  // 이번 달로 이동
+  const handleToday = useCallback(() => {
+    const now = new Date();
+    setCurrentMonth({ year: now.getFullYear(), month: now.getMonth() });
+  }, []);
+
+  // 필터 변경 핸들러 (관광 타입은 축제로 고정)
+  const handleFilterChange = useCallback((newFilters: TourFiltersValues) => {
+    setFilters({ areaCode: newFilters.areaCode });
+  }, []);
+
+  return (
+    <main className="min-h-[calc(100vh-80px)] bg-white dark:bg-gray-950">
+      <div className="max-w-7xl mx-auto px-4 py-6 lg:px-8 lg:py-10 space-y-6">
+        {/* 헤더 */}
+        <div className="space-y-2">
+          <h1 className="text-2xl lg:text-3xl font-bold">축제 캘린더</h1>
+          <p className="text-muted-foreground">
+            전국에서 열리는 축제와 행사를 월별로 확인하세요.
+          </p>
+        </div>
+
+        {/* 컨트롤 영역 */}
+        <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => handleMonthChange(-1)}
+              aria-label="이전 달"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="min-w-28 text-center text-lg font-semibold">
+              {year}년 {month + 1}월
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => handleMonthChange(1)}
+              aria-label="다음 달"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleToday}>
+              이번 달
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <TourFilters
+              values={filters}
+              onChange={handleFilterChange}
+              hideContentType
+            />
+            <div className="flex items-center rounded-md border p-0.5 shrink-0">
+              <Button
+                variant={view === "calendar" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setView("calendar")}
+                aria-pressed={view === "calendar"}
+                className="gap-1.5"
+              >
+                <CalendarDays className="w-4 h-4" />
+                <span className="hidden sm:inline">달력</span>
+              </Button>
+              <Button
+                variant={view === "list" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setView("list")}
+                aria-pressed={view === "list"}
+                className="gap-1.5"
+              >
+                <List className="w-4 h-4" />
+                <span className="hidden sm:inline">목록</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* 에러 메시지 표시 */}
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {/* 결과 요약 */}
+        {!loading && !error && (
+          <div className="text-sm text-muted-foreground">
+            {year}년 {month + 1}월 축제 {festivals.length.toLocaleString()}개
+            {truncated &&
+              " 이상 (행사가 많아 일부만 표시합니다. 지역을 선택하면 더 정확하게 볼 수 있습니다)"}
+          </div>
+        )}
+
+        {/* 달력 / 목록 */}
+        <div className={cn(loading && view === "calendar" && "opacity-60")}>
+          {view === "calendar" ? (
+            loading && festivals.length === 0 ? (
+              <Skeleton className="h-[480px] w-full" />
+            ) : (
+              <FestivalCalendar
+                year={year}
+                month={month}
+                festivals={festivals}
+              />
+            )
+          ) : (
+            <FestivalList festivals={festivals} loading={loading} />
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -6,413 +6,181 @@
  *
  * 주요 기능:
  * 1. 관광지 키워드 검색
- * 2. 지역 및 관광 타입 필터링
+ * 2. 지역(시/도, 시/군/구), 관광 타입 및 서비스 분류(대/중/소분류) 필터링 (지역/관광 타입은 여러 개 선택 가능)
  * 3. 관광지 목록 표시 (그리드 레이아웃)
+ * 4. "내 주변" 위치 기반 조회 (현재 위치 또는 직접 선택한 지점 + 반경)
+ * 5. 반려동물 동반 필터 (동반 가능 장소만 표시)
+ * 6. 지역/관광 타입별 목록 메타데이터 (제목, 설명, canonical URL)
  *
  * 핵심 구현 로직:
- * - 반응형 레이아웃: 데스크톱 및 모바일에서 전체 너비 사용
- * - 검색 및 필터 상태 관리 및 API 연동
- * - searchKeyword2 API (검색) 및 areaBasedList2 API (필터)를 통한 관광지 데이터 조회
- * - 검색 + 필터 조합 지원
+ * - Next.js 15 App Router Server Component (async searchParams 처리)
+ * - 첫 화면 목록은 URL 쿼리 파라미터 기준으로 서버에서 조회하여 HTML에 포함
+ *   (검색엔진이 지역/관광 타입별 목록을 색인할 수 있고, 모바일 첫 화면 표시(LCP)가 빨라짐)
+ *   - 목록 조회는 기다리지 않고 Promise로 넘겨 Suspense로 스트리밍 (검색창/필터는 먼저 표시)
+ *   - 서버 조회가 실패하면 null을 넘겨 클라이언트에서 다시 조회하고 에러 표시
+ *   - 거리순 정렬(sort=distance)은 위치 기반 모드 전용이므로 서버에서 조회하지 않음
+ * - 검색창, 필터, 정렬, 위치 기반 조회, 무한 스크롤은 클라이언트 컴포넌트 (components/home)
+ *   - 조건 변경은 URL 갱신(router.push) → 서버에서 새 목록 조회
+ *   - 위치 기반 모드, 무한 스크롤 다음 페이지, 목록 스냅샷 복원은 클라이언트에서 조회
+ * - 목록 조회 로직(검색/필터/위치 기반, 다중 선택 병합, 정렬)은 lib/api/tour-home.ts에서 공유
+ * - 검색어, 필터, 정렬, 페이지는 URL 쿼리 파라미터가 기준 (lib/utils/search-params.ts)
+ *   - 새로고침, 뒤로/앞으로 가기, 링크 공유 시 같은 결과 표시 (예: /?area=6&type=15&page=3)
+ *   - 위치 기반 기준점은 URL에 포함하지 않음 (새로고침 시 거리순 정렬은 최신순으로 표시)
+ *   - 지역/관광 타입을 여러 개 선택한 목록에서 조회할 수 없는 페이지면 마지막 페이지로 이동
+ * - 메타데이터: 지역/관광 타입이 있으면 "부산 축제/행사" 형식의 제목과 canonical URL 생성
+ *   - 키워드 검색 결과 페이지는 색인하지 않음 (noindex, 링크는 따라감)
  *
  * @dependencies
- * - components/tour-search.tsx (완료)
- * - components/tour-filters.tsx (완료)
- * - components/tour-list.tsx (완료)
- * - lib/api/tour-api.ts: searchKeyword2, areaBasedList2 함수
- * - lib/types/tour.ts: TourItem 타입
+ * - components/home/home-content.tsx: 검색/필터/정렬 컨트롤과 목록 영역
+ * - lib/api/tour-home.ts: fetchHomeTourList, getHomeMaxPage 함수, HomeTourList 타입
+ * - lib/api/tour-transport-server.ts: 서버 트랜스포트 등록
+ * - lib/utils/search-params.ts: 검색 상태 ↔ URL 쿼리 파라미터 변환
+ * - lib/constants/area-codes.ts: getAreaName 함수
+ * - lib/constants/content-types.ts: getContentTypeName 함수
  *
  * @see {@link /docs/PRD.md#2-mvp-핵심-기능} - 기능 명세
  * @see {@link /docs/Design.md#1-홈페이지--데스크톱} - 디자인 레이아웃
  */
 
-"use client";
-
-import { useState, useEffect, useMemo, Suspense, useCallback } from "react";
-import dynamic from "next/dynamic";
-import { TourList } from "@/components/tour-list";
-import { TourSearch } from "@/components/tour-search";
-import { areaBasedList2, searchKeyword2 } from "@/lib/api/tour-api";
-import type { TourItem, SortOption } from "@/lib/types/tour";
-import type { TourFiltersValues } from "@/components/tour-filters";
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { HomeContent } from "@/components/home/home-content";
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-import { Skeleton } from "@/components/ui/skeleton";
-
-// 동적 임포트: 무거운 컴포넌트들을 lazy load
-const TourFilters = dynamic(
-  () =>
-    import("@/components/tour-filters").then((mod) => ({
-      default: mod.TourFilters,
-    })),
-  {
-    loading: () => <Skeleton className="h-9 w-32" />,
-    ssr: true,
-  },
-);
-
-const Pagination = dynamic(
-  () =>
-    import("@/components/pagination").then((mod) => ({
-      default: mod.Pagination,
-    })),
-  {
-    loading: () => <Skeleton className="h-9 w-64" />,
-    ssr: true,
-  },
-);
-
-export default function Home() {
-  // 필터 상태 관리
-  const [filters, setFilters] = useState<TourFiltersValues>({});
-
-  // 검색 키워드 상태 관리
-  const [searchKeyword, setSearchKeyword] = useState<string | undefined>(
-    undefined,
-  );
-
-  // 관광지 목록 상태 관리
-  const [tours, setTours] = useState<TourItem[]>([]);
-
-  // 검색 결과 개수 상태 관리
-  const [totalCount, setTotalCount] = useState<number | null>(null);
-
-  // 로딩 상태 관리
-  const [loading, setLoading] = useState(false);
-
-  // 에러 상태 관리
-  const [error, setError] = useState<string | null>(null);
-
-  // 정렬 상태 관리
-  const [sortOption, setSortOption] = useState<SortOption>("latest");
-
-  // 페이지네이션 상태 관리
-  const [currentPage, setCurrentPage] = useState<number>(1);
-  const [itemsPerPage] = useState<number>(20); // PRD 요구사항: 페이지당 10-20개 항목
-
-  // 검색/필터 변경 시 API 호출
-  useEffect(() => {
-    async function fetchTours() {
-      // 검색 키워드가 있으면 searchKeyword2 사용, 없으면 areaBasedList2 사용
-      // 둘 다 없으면 빈 상태
-      const hasSearch = searchKeyword && searchKeyword.trim().length > 0;
-      const hasFilters = filters.areaCode || filters.contentTypeId;
-
-      if (!hasSearch && !hasFilters) {
-        setTours([]);
-        setTotalCount(null);
-        setLoading(false);
-        setError(null);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        setError(null);
-
-        // 검색 키워드가 있으면 searchKeyword2 API 사용 (필터와 조합 가능)
-        // 검색 키워드가 없고 필터만 있으면 areaBasedList2 API 사용
-        let response;
-        if (hasSearch) {
-          response = await searchKeyword2({
-            keyword: searchKeyword.trim(),
-            areaCode: filters.areaCode,
-            contentTypeId: filters.contentTypeId,
-            numOfRows: itemsPerPage, // PRD 요구사항: 페이지당 10-20개 항목
-            pageNo: currentPage,
-          });
-        } else {
-          response = await areaBasedList2({
-            areaCode: filters.areaCode,
-            contentTypeId: filters.contentTypeId,
-            numOfRows: itemsPerPage,
-            pageNo: currentPage,
-          });
-        }
-
-        // 검색 결과 개수 설정
-        if (response.response?.body?.totalCount !== undefined) {
-          setTotalCount(response.response.body.totalCount);
-        }
-
-        // API 응답 데이터 변환 (공통 로직)
-        const transformItems = (items: any[] | any): TourItem[] => {
-          if (Array.isArray(items)) {
-            return items.map((item) => ({
-              addr1: item.addr1,
-              addr2: item.addr2,
-              areacode: item.areacode,
-              contentid: item.contentid,
-              contenttypeid: item.contenttypeid,
-              title: item.title,
-              mapx: item.mapx,
-              mapy: item.mapy,
-              firstimage: item.firstimage,
-              firstimage2: item.firstimage2,
-              tel: item.tel,
-              cat1: item.cat1,
-              cat2: item.cat2,
-              cat3: item.cat3,
-              modifiedtime: item.modifiedtime,
-            }));
-          } else if (items) {
-            // 단일 항목인 경우 배열로 변환
-            return [
-              {
-                addr1: items.addr1,
-                addr2: items.addr2,
-                areacode: items.areacode,
-                contentid: items.contentid,
-                contenttypeid: items.contenttypeid,
-                title: items.title,
-                mapx: items.mapx,
-                mapy: items.mapy,
-                firstimage: items.firstimage,
-                firstimage2: items.firstimage2,
-                tel: items.tel,
-                cat1: items.cat1,
-                cat2: items.cat2,
-                cat3: items.cat3,
-                modifiedtime: items.modifiedtime,
-              },
-            ];
-          }
-          return [];
-        };
-
-        if (response.response?.body?.items?.item) {
-          const tourItems = transformItems(response.response.body.items.item);
-          setTours(tourItems);
-        } else {
-          // 결과가 없는 경우
-          setTours([]);
-        }
-      } catch (err) {
-        console.error("관광지 조회 실패:", err);
-        setError(
-          err instanceof Error
-            ? err.message
-            : hasSearch
-            ? "검색 중 오류가 발생했습니다."
-            : "관광지 목록을 불러오는 중 오류가 발생했습니다.",
-        );
-        setTours([]);
-        setTotalCount(null);
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    fetchTours();
-  }, [
-    searchKeyword,
-    filters.areaCode,
-    filters.contentTypeId,
-    currentPage,
-    itemsPerPage,
-  ]);
-
-  // 검색/필터 변경 시 페이지를 1로 초기화
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchKeyword, filters.areaCode, filters.contentTypeId]);
-
-  // 필터 변경 핸들러
-  const handleFilterChange = useCallback((newFilters: TourFiltersValues) => {
-    setFilters(newFilters);
-  }, []);
-
-  // 검색 실행 핸들러
-  const handleSearch = useCallback((keyword: string) => {
-    setSearchKeyword(keyword);
-  }, []);
-
-  // 검색어 변경 핸들러 (초기화용)
-  const handleSearchChange = useCallback((value: string) => {
-    if (value.trim().length === 0) {
-      setSearchKeyword(undefined);
-    }
-  }, []);
-
-  // 정렬된 관광지 목록 계산 (useMemo 사용)
-  const sortedTours = useMemo(() => {
-    if (!tours || tours.length === 0) {
-      return tours;
-    }
-
-    // 배열 복사본 생성 (원본 배열 변경 방지)
-    const sorted = [...tours];
-
-    if (sortOption === "latest") {
-      // 최신순: modifiedtime 기준 내림차순 (YYYYMMDDHHmmss 형식)
-      return sorted.sort((a, b) => {
-        // modifiedtime을 숫자로 변환하여 비교 (더 큰 값이 최신)
-        const timeA = parseInt(a.modifiedtime, 10) || 0;
-        const timeB = parseInt(b.modifiedtime, 10) || 0;
-        return timeB - timeA; // 내림차순
-      });
-    } else {
-      // 이름순: title 기준 가나다순 정렬 (오름차순)
-      return sorted.sort((a, b) => {
-        // 한글 정렬을 위해 localeCompare 사용
-        return a.title.localeCompare(b.title, "ko", {
-          numeric: true, // 숫자도 정렬
-          sensitivity: "base", // 대소문자 구분 안함
-        });
-      });
-    }
-  }, [tours, sortOption]);
-
-  // 정렬 옵션 변경 핸들러
-  const handleSortChange = useCallback((value: string) => {
-    setSortOption(value as SortOption);
-  }, []);
-
-  // 총 페이지 수 계산
-  const totalPages = useMemo(() => {
-    if (!totalCount || totalCount === 0 || itemsPerPage === 0) {
-      return 0;
-    }
-    return Math.ceil(totalCount / itemsPerPage);
-  }, [totalCount, itemsPerPage]);
-
-  // 페이지 변경 핸들러
-  const handlePageChange = useCallback((page: number) => {
-    setCurrentPage(page);
-    // 페이지 변경 시 목록 상단으로 스크롤 (UX 개선)
-    if (typeof window !== "undefined") {
-      window.scrollTo({ top: 0, behavior: "smooth" });
-    }
-  }, []);
+  fetchHomeTourList,
+  getHomeMaxPage,
+  hasHomeTourQuery,
+  type HomeTourList,
+} from "@/lib/api/tour-home";
+import "@/lib/api/tour-transport-server";
+import { getAreaName } from "@/lib/constants/area-codes";
+import { getContentTypeName } from "@/lib/constants/content-types";
+import {
+  getHomeSearchHref,
+  parseHomeSearchParams,
+  type HomeSearchState,
+} from "@/lib/utils/search-params";
 
-  return (
-    <main className="min-h-[calc(100vh-80px)] flex flex-col bg-white dark:bg-gray-950">
-      {/* HERO SECTION (Optional, 데스크톱만 표시) */}
-      <section className="hidden lg:block w-full bg-gradient-to-br from-primary/5 via-background to-background border-b">
-        <div className="max-w-7xl mx-auto px-8 py-16">
-          <div className="text-center space-y-6">
-            <h1 className="text-4xl lg:text-5xl font-bold text-foreground">
-              한국의 아름다운 관광지를 탐험하세요
-            </h1>
-            <div className="max-w-2xl mx-auto">
-              {/* 큰 검색창 */}
-              <TourSearch
-                value={searchKeyword}
-                onChange={handleSearchChange}
-                onSearch={handleSearch}
-                loading={loading}
-                placeholder="관광지 검색..."
-                className="w-full"
-              />
-            </div>
-          </div>
-        </div>
-      </section>
+interface PageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
 
-      {/* 모바일 검색 바 */}
-      <section className="lg:hidden w-full border-b bg-white dark:bg-gray-950 px-4 py-3">
-        <div className="w-full">
-          <TourSearch
-            value={searchKeyword}
-            onChange={handleSearchChange}
-            onSearch={handleSearch}
-            loading={loading}
-            placeholder="관광지 검색..."
-          />
-        </div>
-      </section>
+/**
+ * Next.js searchParams → 검색 상태
+ * 같은 이름의 파라미터가 여러 개면 첫 번째 값을 사용합니다.
+ */
+async function getSearchState(
+  searchParams: PageProps["searchParams"],
+): Promise<HomeSearchState> {
+  const params = await searchParams;
+  return parseHomeSearchParams({
+    get: (name) => {
+      const value = params[name];
+      return (Array.isArray(value) ? value[0] : value) ?? null;
+    },
+  });
+}
 
-      {/* 필터 및 컨트롤 영역 (Sticky) */}
-      <section className="w-full border-b bg-white dark:bg-gray-950 backdrop-blur-md sticky top-0 z-10 shadow-sm">
-        <div className="max-w-7xl mx-auto px-4 py-3 lg:px-8">
-          {/* 데스크톱 필터 */}
-          <div className="hidden lg:flex items-center gap-4">
-            <TourFilters values={filters} onChange={handleFilterChange} />
-            <div className="flex items-center gap-2 ml-auto">
-              <span className="text-muted-foreground text-sm">📅 정렬:</span>
-              <Select value={sortOption} onValueChange={handleSortChange}>
-                <SelectTrigger className="w-32 text-sm">
-                  <SelectValue placeholder="정렬 선택" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="latest">최신순</SelectItem>
-                  <SelectItem value="name">이름순</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
+/**
+ * 첫 화면 목록 조회 (서버)
+ * 조회 조건이 없거나 조회에 실패하면 null (실패 시 클라이언트에서 다시 조회)
+ */
+async function getInitialTourList(
+  state: HomeSearchState,
+): Promise<HomeTourList | null> {
+  if (!hasHomeTourQuery(state, null) || state.sort === "distance") {
+    return null;
+  }
+
+  try {
+    return await fetchHomeTourList(state, null, state.page);
+  } catch (error) {
+    console.warn(
+      "홈페이지 목록 서버 조회 실패:",
+      error instanceof Error ? error.message : String(error),
+    );
+    return null;
+  }
+}
 
-          {/* 모바일 필터 */}
-          <div className="lg:hidden space-y-2">
-            <TourFilters values={filters} onChange={handleFilterChange} />
-            <div className="flex items-center gap-2">
-              <span className="text-muted-foreground text-sm">📅 정렬:</span>
-              <Select value={sortOption} onValueChange={handleSortChange}>
-                <SelectTrigger className="w-32 text-sm">
-                  <SelectValue placeholder="정렬 선택" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="latest">최신순</SelectItem>
-                  <SelectItem value="name">이름순</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
+/**
+ * 지역/관광 타입 목록 제목 (예: "부산 축제/행사", "강원·경북 관광지")
+ * 지역/관광 타입이 없으면 undefined
+ */
+function getListingTitle(state: HomeSearchState): string | undefined {
+  const areaNames = (state.areaCodes ?? [])
+    .map((code) => getAreaName(code))
+    .filter(Boolean);
+  const typeNames = (state.contentTypeIds ?? [])
+    .map((id) => getContentTypeName(id))
+    .filter(Boolean);
+
+  if (areaNames.length === 0 && typeNames.length === 0) return undefined;
+
+  return [areaNames.join("·"), typeNames.join("·") || "관광지"]
+    .filter(Boolean)
+    .join(" ");
+}
 
-          {/* 에러 메시지 표시 */}
-          {error && (
-            <div className="mt-2 text-sm text-destructive">{error}</div>
-          )}
-        </div>
-      </section>
+/**
+ * 동적 메타데이터 생성 (지역/관광 타입별 목록, 검색 결과)
+ */
+export async function generateMetadata({
+  searchParams,
+}: PageProps): Promise<Metadata> {
+  const state = await getSearchState(searchParams);
+  const listingTitle = getListingTitle(state);
+
+  // 키워드 검색 결과는 색인하지 않음 (검색어 조합마다 페이지가 생기므로)
+  if (state.keyword) {
+    return {
+      title: `"${state.keyword}" 검색 결과`,
+      robots: { index: false, follow: true },
+    };
+  }
+
+  if (!listingTitle) {
+    return { alternates: { canonical: "/" } };
+  }
+
+  const title =
+    state.page > 1 ? `${listingTitle} (${state.page}페이지)` : listingTitle;
+  const description = `${listingTitle} 정보를 한눈에 확인하세요. 한국관광공사 공공 데이터로 주소, 사진, 운영 정보를 제공합니다.`;
+  // canonical은 목록 조건만 포함 (표시 옵션인 정렬/사진 필터는 제외)
+  const canonical = getHomeSearchHref({
+    areaCodes: state.areaCodes,
+    sigunguCode: state.sigunguCode,
+    contentTypeIds: state.contentTypeIds,
+    cat1: state.cat1,
+    cat2: state.cat2,
+    cat3: state.cat3,
+    page: state.page,
+  });
+
+  return {
+    title,
+    description,
+    alternates: { canonical },
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      url: canonical,
+    },
+  };
+}
 
-      {/* 컨텐츠 영역: 목록 (전체 너비) */}
-      <section className="flex-1 w-full bg-white dark:bg-gray-950">
-        <div className="max-w-7xl mx-auto h-full">
-          {/* 관광지 목록 영역 */}
-          <div className="overflow-y-auto">
-            <div className="p-4 lg:p-6">
-              {/* 검색 결과 개수 표시 */}
-              {totalCount !== null && tours.length > 0 && (
-                <div className="mb-4 text-sm text-muted-foreground">
-                  {searchKeyword
-                    ? `"${searchKeyword}" 검색 결과: ${totalCount.toLocaleString()}개`
-                    : `검색 결과: ${totalCount.toLocaleString()}개`}
-                </div>
-              )}
+/**
+ * 홈페이지
+ * 첫 화면 목록 조회는 기다리지 않고 넘겨서 목록 영역만 스트리밍합니다.
+ */
+export default async function Home({ searchParams }: PageProps) {
+  const state = await getSearchState(searchParams);
 
-              {/* TourList 컴포넌트 사용 - 검색/필터/정렬된 관광지 목록 표시 */}
-              <TourList
-                tours={sortedTours}
-                loading={loading}
-                emptyMessage={
-                  searchKeyword
-                    ? `"${searchKeyword}"에 대한 검색 결과가 없습니다.`
-                    : filters.areaCode || filters.contentTypeId
-                    ? "선택한 필터 조건에 맞는 관광지가 없습니다."
-                    : undefined
-                }
-              />
+  // 병합 목록에서 조회할 수 없는 페이지 (예: 직접 입력한 URL)
+  const maxPage = getHomeMaxPage(state, null);
+  if (state.page > maxPage) {
+    redirect(getHomeSearchHref({ ...state, page: maxPage }));
+  }
 
-              {/* 페이지네이션 */}
-              {totalPages > 1 && (
-                <div className="mt-6 flex justify-center">
-                  <Pagination
-                    currentPage={currentPage}
-                    totalPages={totalPages}
-                    onPageChange={handlePageChange}
-                  />
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
-      </section>
-    </main>
-  );
+  return <HomeContent initialList={getInitialTourList(state)} />;
 }
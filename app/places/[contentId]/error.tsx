@@ -3,6 +3,7 @@
  * @description 상세페이지 에러 상태
  *
  * 상세페이지에서 발생한 에러를 처리하는 컴포넌트
+ * getErrorInfo로 에러를 분류하여 사용자 메시지와 재시도 버튼 표시 여부를 결정합니다.
  */
 
 "use client";
@@ -12,6 +13,7 @@ import { AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import Link from "next/link";
+import { ErrorType, getErrorInfo } from "@/lib/utils/error-handler";
 
 interface ErrorProps {
   error: Error & { digest?: string };
@@ -19,6 +21,9 @@ interface ErrorProps {
 }
 
 export default function Error({ error, reset }: ErrorProps) {
+  const errorInfo = getErrorInfo(error);
+  const showRetry = errorInfo.canRetry || errorInfo.type === ErrorType.UNKNOWN;
+
   useEffect(() => {
     // 에러 로깅 (필요 시)
     console.error("상세페이지 에러:", error);
@@ -33,14 +38,17 @@ export default function Error({ error, reset }: ErrorProps) {
             <div className="space-y-2">
               <h2 className="text-2xl font-bold">오류가 발생했습니다</h2>
               <p className="text-muted-foreground">
-                {error.message ||
-                  "관광지 정보를 불러오는 중 문제가 발생했습니다."}
+                {errorInfo.type === ErrorType.UNKNOWN
+                  ? "관광지 정보를 불러오는 중 문제가 발생했습니다."
+                  : errorInfo.userMessage}
               </p>
             </div>
             <div className="flex gap-2 w-full">
-              <Button onClick={reset} variant="outline" className="flex-1">
-                다시 시도
-              </Button>
+              {showRetry && (
+                <Button onClick={reset} variant="outline" className="flex-1">
+                  다시 시도
+                </Button>
+              )}
               <Button asChild variant="default" className="flex-1">
                 <Link href="/">홈으로 가기</Link>
               </Button>
@@ -9,26 +9,40 @@
  * 2. detailCommon2 API를 통한 관광지 기본 정보 조회
  * 3. detailIntro2 API를 통한 관광지 운영 정보 조회
  * 4. detailImage2 API를 통한 관광지 이미지 목록 조회
- * 5. 이미지 갤러리 표시 (대표 이미지 + 서브 이미지)
- * 6. 기본 정보 표시 (이름, 이미지, 주소, 전화번호, 홈페이지, 개요)
- * 7. 운영 정보 표시 (운영시간, 휴무일, 이용요금, 주차 등)
- * 8. 뒤로가기 버튼
- * 9. 로딩/에러 상태 처리
+ * 5. detailInfo2 API를 통한 반복 정보 조회 (코스 일정, 객실, 추가 정보)
+ * 6. detailPetTour2 API를 통한 반려동물 동반 정책 조회
+ * 7. 이미지 갤러리 표시 (대표 이미지 + 서브 이미지)
+ * 8. 기본 정보 표시 (이름, 이미지, 주소, 전화번호, 홈페이지, 개요)
+ * 9. 운영 정보 표시 (운영시간, 휴무일, 이용요금, 주차 등)
+ * 10. 반려동물 동반 정책 표시 (동반 구역, 가능 크기, 필요사항 등)
+ * 11. 반복 정보 표시 (여행코스: 코스 일정, 숙박: 객실 정보, 그 외: 추가 정보 표)
+ * 12. 뒤로가기 버튼
+ * 13. 로딩/에러 상태 처리
  *
  * 핵심 구현 로직:
  * - Next.js 15 App Router Server Component
  * - async params 처리 (await props.params)
  * - detailCommon2 API 호출로 기본 정보 조회
+ * - 나머지 상세 API는 기본 정보 조회 후 Promise.allSettled로 병렬 조회 (개별 실패는 해당 섹션만 생략)
  * - notFound() 사용하여 404 처리
+ * - API 장애로 이전 응답(stale)을 받으면 에러 페이지 대신 안내 배너와 함께 표시
  * - generateMetadata로 동적 메타데이터 생성
  *
  * @dependencies
- * - lib/api/tour-api.ts: detailCommon2, detailIntro2, detailImage2 함수
- * - lib/types/tour.ts: TourDetail, TourIntro, TourImage 타입
+ * - lib/api/tour-api.ts: detailCommon2, detailIntro2, detailImage2, detailInfo2, detailPetTour2 함수
+ * - lib/api/tour-transport-server.ts: 서버 트랜스포트 등록
+ * - lib/api/tour-normalize.ts: 응답 정규화 함수
+ * - lib/utils/pet.ts: parsePetPolicy 함수
+ * - lib/types/tour.ts: TourDetail, TourIntro, TourImage, TourRepeatInfo, PetPolicy 타입
  * - lib/constants/content-types.ts: getContentTypeName 함수
  * - components/tour-detail/detail-gallery.tsx: 이미지 갤러리 컴포넌트
  * - components/tour-detail/detail-info.tsx: 기본 정보 컴포넌트
  * - components/tour-detail/detail-intro.tsx: 운영 정보 컴포넌트
+ * - components/tour-detail/detail-pet.tsx: 반려동물 동반 정책 컴포넌트
+ * - components/tour-detail/detail-course.tsx: 코스 일정 컴포넌트
+ * - components/tour-detail/detail-rooms.tsx: 객실 정보 컴포넌트
+ * - components/tour-detail/detail-extra-info.tsx: 추가 정보 컴포넌트
+ * - components/stale-data-banner.tsx: 이전 정보 표시 안내 배너
  * - components/ui/card.tsx: Card 컴포넌트
  * - components/ui/skeleton.tsx: Skeleton 컴포넌트
  * - next/image: Next.js Image 컴포넌트
@@ -43,15 +57,42 @@ import { notFound } from "next/navigation";
 import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { detailCommon2, detailIntro2, detailImage2 } from "@/lib/api/tour-api";
-import type { TourDetail, TourIntro, TourImage } from "@/lib/types/tour";
+import {
+  detailCommon2,
+  detailIntro2,
+  detailImage2,
+  detailInfo2,
+  detailPetTour2,
+} from "@/lib/api/tour-api";
+import "@/lib/api/tour-transport-server";
+import {
+  normalizePetTourInfo,
+  normalizeRepeatInfo,
+  normalizeTourDetail,
+  normalizeTourImages,
+  normalizeTourIntro,
+} from "@/lib/api/tour-normalize";
+import { parsePetPolicy } from "@/lib/utils/pet";
+import type {
+  PetPolicy,
+  TourDetail,
+  TourIntro,
+  TourImage,
+  TourRepeatInfo,
+} from "@/lib/types/tour";
 import { DetailInfo } from "@/components/tour-detail/detail-info";
+import { StaleDataBanner } from "@/components/stale-data-banner";
+import { DetailPet } from "@/components/tour-detail/detail-pet";
+import { DetailCourse } from "@/components/tour-detail/detail-course";
+import { DetailRooms } from "@/components/tour-detail/detail-rooms";
+import { DetailExtraInfo } from "@/components/tour-detail/detail-extra-info";
 import { ShareButton } from "@/components/tour-detail/share-button";
 import { BookmarkButton } from "@/components/bookmarks/bookmark-button";
 import dynamic from "next/dynamic";
 import { Suspense } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { Metadata } from "next";
+import { ErrorType, getErrorType } from "@/lib/utils/error-handler";
 
 // 동적 임포트: 무거운 컴포넌트들을 lazy load
 const DetailGallery = dynamic(
@@ -122,7 +163,7 @@ export async function generateMetadata({
 
     // API 호출하여 관광지 정보 가져오기
     const response = await detailCommon2(contentId);
-    const item = response.response?.body?.items?.item?.[0];
+    const item = normalizeTourDetail(response);
 
     if (!item) {
       return {
@@ -188,82 +229,69 @@ export default async function PlaceDetailPage({ params }: PageProps) {
   let detail: TourDetail | null = null;
   let intro: TourIntro | null = null;
   let images: TourImage[] | null = null;
+  let repeatInfo: TourRepeatInfo | null = null;
+  let petPolicy: PetPolicy | null = null;
+  let stale = false;
   let error: Error | null = null;
 
   try {
     // detailCommon2 API 호출
     const response = await detailCommon2(contentId);
 
-    // 응답 데이터 확인
-    const items = response.response?.body?.items?.item;
+    // 응답 데이터 정규화
+    detail = normalizeTourDetail(response);
+    stale = !!response.stale;
 
-    if (!items || items.length === 0) {
+    if (!detail) {
       notFound();
     }
 
-    // 첫 번째 항목을 TourDetail 타입으로 변환
-    const item = items[0];
-    detail = {
-      contentid: item.contentid,
-      contenttypeid: item.contenttypeid,
-      title: item.title,
-      addr1: item.addr1,
-      addr2: item.addr2,
-      zipcode: item.zipcode,
-      tel: item.tel,
-      homepage: item.homepage,
-      overview: item.overview,
-      firstimage: item.firstimage,
-      firstimage2: item.firstimage2,
-      mapx: item.mapx,
-      mapy: item.mapy,
-      cat1: item.cat1,
-      cat2: item.cat2,
-      cat3: item.cat3,
-      cpyrhtDivCd: item.cpyrhtDivCd,
-      modifiedtime: item.modifiedtime,
-    };
+    const { contentid, contenttypeid } = detail;
 
-    // detailIntro2 API 호출 (운영 정보)
-    try {
-      const introResponse = await detailIntro2(
-        item.contentid,
-        item.contenttypeid,
-      );
-      const introItems = introResponse.response?.body?.items?.item;
+    // 운영 정보, 이미지, 반복 정보, 반려동물 정보는 서로 독립적이므로 병렬 조회
+    // (각 API 에러는 치명적이지 않으므로 무시하고 해당 섹션만 표시하지 않음)
+    const [introResult, imageResult, infoResult, petResult] =
+      await Promise.allSettled([
+        detailIntro2(contentid, contenttypeid),
+        detailImage2(contentid),
+        detailInfo2(contentid, contenttypeid),
+        detailPetTour2(contentid),
+      ]);
 
-      if (introItems && introItems.length > 0) {
-        // 첫 번째 항목을 TourIntro 타입으로 변환
-        const introItem = introItems[0];
-        intro = {
-          contentid: introItem.contentid || item.contentid,
-          contenttypeid: introItem.contenttypeid || item.contenttypeid,
-          ...introItem,
-        };
-      }
-    } catch (introErr) {
-      // detailIntro2 에러는 치명적이지 않으므로 무시 (운영 정보만 표시 안 됨)
-      console.warn("운영 정보 조회 실패:", introErr);
+    // detailIntro2 (운영 정보)
+    if (introResult.status === "fulfilled") {
+      intro = normalizeTourIntro(introResult.value, {
+        contentid,
+        contenttypeid,
+      });
+    } else {
+      console.warn("운영 정보 조회 실패:", introResult.reason);
     }
 
-    // detailImage2 API 호출 (이미지 목록)
-    try {
-      const imageResponse = await detailImage2(item.contentid);
-      const imageItems = imageResponse.response?.body?.items?.item;
+    // detailImage2 (이미지 목록)
+    if (imageResult.status === "fulfilled") {
+      const imageItems = normalizeTourImages(imageResult.value, contentid);
 
-      if (imageItems && imageItems.length > 0) {
-        // TourImage 타입으로 변환
-        images = imageItems.map((img) => ({
-          contentid: img.contentid || item.contentid,
-          originimgurl: img.originimgurl,
-          serialnum: img.serialnum,
-          smallimageurl: img.smallimageurl,
-          imgname: img.imgname,
-        }));
+      if (imageItems.length > 0) {
+        images = imageItems;
       }
-    } catch (imageErr) {
-      // detailImage2 에러는 치명적이지 않으므로 무시 (이미지 갤러리만 표시 안 됨)
-      console.warn("이미지 목록 조회 실패:", imageErr);
+    } else {
+      console.warn("이미지 목록 조회 실패:", imageResult.reason);
+    }
+
+    // detailInfo2 (반복 정보: 코스 일정, 객실, 추가 정보)
+    if (infoResult.status === "fulfilled") {
+      repeatInfo = normalizeRepeatInfo(infoResult.value, contenttypeid);
+    } else {
+      console.warn("반복 정보 조회 실패:", infoResult.reason);
+    }
+
+    // detailPetTour2 (반려동물 동반 정책)
+    if (petResult.status === "fulfilled") {
+      const petInfo = normalizePetTourInfo(petResult.value);
+      petPolicy = petInfo ? parsePetPolicy(petInfo) : null;
+    } else {
+      console.warn("반려동물 동반 정보 조회 실패:", petResult.reason);
     }
   } catch (err) {
     // API 에러 처리
@@ -273,8 +301,11 @@ export default async function PlaceDetailPage({ params }: PageProps) {
         : new Error("관광지 정보를 불러오는 중 오류가 발생했습니다.");
   }
 
-  // 에러가 발생한 경우
+  // 에러가 발생한 경우 (데이터 없음은 404, 그 외는 에러 바운더리로 전달)
   if (error) {
+    if (getErrorType(error) === ErrorType.NOT_FOUND) {
+      notFound();
+    }
     throw error;
   }
 
@@ -308,6 +339,8 @@ export default async function PlaceDetailPage({ params }: PageProps) {
 
       {/* 메인 영역 */}
       <main className="container mx-auto px-4 py-6 max-w-4xl space-y-6">
+        {/* 장애로 이전 응답을 표시 중인 경우 안내 */}
+        {stale && <StaleDataBanner />}
         {/* 이미지 갤러리 (HERO IMAGE SECTION) */}
         <Suspense
           fallback={
@@ -331,6 +364,14 @@ export default async function PlaceDetailPage({ params }: PageProps) {
         >
           <DetailIntro intro={intro} />
         </Suspense>
+        {petPolicy && <DetailPet policy={petPolicy} />}
+        {repeatInfo?.kind === "course" && (
+          <DetailCourse stops={repeatInfo.items} />
+        )}
+        {repeatInfo?.kind === "room" && <DetailRooms rooms={repeatInfo.items} />}
+        {repeatInfo?.kind === "info" && (
+          <DetailExtraInfo items={repeatInfo.items} />
+        )}
       </main>
     </div>
   );
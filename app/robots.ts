@@ -49,6 +49,7 @@ export default function robots(): MetadataRoute.Robots {
       allow: "/",
       disallow: [
         "/api/", // API 라우트 차단
+        "/admin/", // 관리자 페이지 차단
         "/auth-test/", // 인증 테스트 페이지 차단
         "/storage-test/", // 스토리지 테스트 페이지 차단
         "/_next/", // Next.js 내부 파일 차단
@@ -5,18 +5,34 @@
  * Next.js 15 App Router의 sitemap.ts 파일을 사용하여 동적 사이트맵을 생성합니다.
  *
  * 주요 기능:
- * 1. 정적 페이지 URL 포함 (/, /bookmarks)
- * 2. 관광지 상세페이지 URL 동적 생성 (한국관광공사 API를 통한 샘플링)
- * 3. SEO 최적화를 위한 lastModified, changeFrequency, priority 설정
+ * 1. 정적 페이지 URL 포함 (/, /bookmarks, /festivals, /stays)
+ * 2. 지역별/관광 타입별 홈페이지 목록 URL 포함 (예: /?area=6, /?type=12 - 서버에서 목록 렌더링)
+ * 3. 관광지 상세페이지 URL 동적 생성 (한국관광공사 API를 통한 샘플링)
+ * 4. SEO 최적화를 위한 lastModified, changeFrequency, priority 설정
+ *
+ * 관광지 샘플링은 비필수 호출(priority: "background")이므로
+ * API 일일 호출량이 한도에 가까우면 건너뛰고 정적 페이지만 포함합니다.
  *
  * @dependencies
  * - @/lib/api/tour-api: 한국관광공사 API 클라이언트
+ * - @/lib/api/tour-transport-server: 서버 트랜스포트 등록
+ * - @/lib/api/tour-normalize: 응답 정규화
+ * - @/lib/api/tour-api-error: 호출 제한 에러 판별
+ * - @/lib/constants/area-codes: 지역 코드 목록
+ * - @/lib/constants/content-types: 관광 타입 목록
+ * - @/lib/utils/search-params: 홈페이지 목록 링크 생성
  *
  * @see {@link /docs/PRD.md#7.4-에러-처리} - SEO 최적화 요구사항 참조
  */
 
 import type { MetadataRoute } from "next";
 import { areaBasedList2 } from "@/lib/api/tour-api";
+import "@/lib/api/tour-transport-server";
+import { getTourApiErrorKind } from "@/lib/api/tour-api-error";
+import { normalizeTourList } from "@/lib/api/tour-normalize";
+import { AREA_CODE_LIST } from "@/lib/constants/area-codes";
+import { CONTENT_TYPE_LIST } from "@/lib/constants/content-types";
+import { getHomeSearchHref } from "@/lib/utils/search-params";
 
 /**
  * 사이트 기본 URL 가져오기
@@ -36,6 +52,29 @@ function getBaseUrl(): string {
   return "http://localhost:3000";
 }
 
+/**
+ * 지역별/관광 타입별 홈페이지 목록 URL 목록
+ * 홈페이지는 URL 쿼리 파라미터 기준으로 목록을 서버에서 렌더링하므로 조건별 목록을 색인할 수 있습니다.
+ */
+function getListingUrls(): MetadataRoute.Sitemap {
+  const baseUrl = getBaseUrl();
+  const hrefs = [
+    ...AREA_CODE_LIST.map((area) =>
+      getHomeSearchHref({ areaCodes: [area.code] })
+    ),
+    ...CONTENT_TYPE_LIST.map((type) =>
+      getHomeSearchHref({ contentTypeIds: [type.id] })
+    ),
+  ];
+
+  return hrefs.map((href) => ({
+    url: `${baseUrl}${href}`,
+    lastModified: new Date(),
+    changeFrequency: "daily" as const,
+    priority: 0.8,
+  }));
+}
+
 /**
  * 관광지 상세페이지 URL 목록 가져오기 (샘플링)
  * API 호출 실패 시 빈 배열 반환
@@ -54,10 +93,11 @@ async function getPlaceUrls(): Promise<MetadataRoute.Sitemap> {
           contentTypeId,
           numOfRows: 10, // 각 타입당 최대 10개
           pageNo: 1,
+          priority: "background",
         });
 
-        const items = response.response?.body?.items?.item || [];
-        
+        const { items } = normalizeTourList(response);
+
         for (const item of items) {
           if (item.contentid) {
             placeUrls.push({
@@ -71,6 +111,12 @@ async function getPlaceUrls(): Promise<MetadataRoute.Sitemap> {
           }
         }
       } catch (error) {
+        // 일일 호출 한도로 거절되면 나머지 타입도 거절되므로 중단
+        if (getTourApiErrorKind(error) === "rate_limit") {
+          console.warn("API 호출 한도에 가까워 관광지 샘플링을 건너뜁니다.");
+          break;
+        }
+
         // 개별 타입 조회 실패 시 무시하고 계속 진행
         console.warn(
           `관광 타입 ${contentTypeId} 조회 실패:`,
@@ -111,12 +157,27 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       changeFrequency: "daily",
       priority: 0.8,
     },
+    {
+      url: `${baseUrl}/festivals`,
+      lastModified: new Date(),
+      changeFrequency: "daily",
+      priority: 0.8,
+    },
+    {
+      url: `${baseUrl}/stays`,
+      lastModified: new Date(),
+      changeFrequency: "weekly",
+      priority: 0.7,
+    },
   ];
 
+  // 지역별/관광 타입별 목록 URL
+  const listingUrls = getListingUrls();
+
   // 관광지 상세페이지 URL (동적 생성)
   const placeUrls = await getPlaceUrls();
 
   // 정적 페이지와 동적 페이지 결합
-  return [...staticPages, ...placeUrls];
+  return [...staticPages, ...listingUrls, ...placeUrls];
 }
 
@@ -0,0 +1,22 @@
+/**
+ * @file layout.tsx
+ * @description 숙박 검색 페이지 레이아웃 (메타데이터)
+ *
+ * 숙박 검색 페이지는 클라이언트 컴포넌트이므로 메타데이터를 레이아웃에서 정의합니다.
+ */
+
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "숙박 검색",
+  description:
+    "지역과 시/군/구, 입실/퇴실 시간, 주차, 취사, 객실 수로 전국의 숙소를 찾아보세요.",
+};
+
+export default function StaysLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
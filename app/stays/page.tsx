@@ -0,0 +1,228 @@
+/**
+ * @file page.tsx
+ * @description 숙박 검색 페이지
+ *
+ * 이 페이지는 숙박(contentTypeId "32") 정보를 지역과 숙박 조건으로 검색하는 기능을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 지역 및 시/군/구 필터 (TourFilters 재사용, 관광 타입 필터는 숨김)
+ * 2. 숙박 조건 필터 (입실/퇴실 시각, 주차, 취사, 객실 수)
+ * 3. 숙소 목록 및 숙박 정보 요약 표시
+ * 4. 페이지네이션
+ *
+ * 핵심 구현 로직:
+ * - searchStay2 API로 지역/시군구 기준 숙소 목록 조회
+ * - 목록 표시 후 항목별 detailIntro2를 조회하여 숙박 정보 보강 (lib/api/tour-lodging.ts)
+ * - 숙박 조건은 현재 페이지의 숙박 정보로 필터링 (API가 숙박 조건 검색을 지원하지 않음)
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: searchStay2 함수
+ * - lib/api/tour-lodging.ts: fetchLodgingInfos 함수
+ * - lib/api/tour-normalize.ts: normalizeTourList 함수
+ * - lib/utils/lodging.ts: matchesLodgingFilters, hasLodgingFilters
+ * - components/tour-filters.tsx: 지역/시군구 필터
+ * - components/stays/lodging-filters.tsx: 숙박 조건 필터
+ * - components/stays/stay-list.tsx: 숙소 목록
+ * - components/pagination.tsx: 페이지네이션
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { TourFilters } from "@/components/tour-filters";
+import { LodgingFilters } from "@/components/stays/lodging-filters";
+import { StayList } from "@/components/stays/stay-list";
+import { Pagination } from "@/components/pagination";
+import { searchStay2 } from "@/lib/api/tour-api";
+import { fetchLodgingInfos } from "@/lib/api/tour-lodging";
+import { normalizeTourList } from "@/lib/api/tour-normalize";
+import { hasLodgingFilters, matchesLodgingFilters } from "@/lib/utils/lodging";
+import type {
+  LodgingFilters as LodgingFiltersValues,
+  LodgingInfo,
+  TourItem,
+} from "@/lib/types/tour";
+import type { TourFiltersValues } from "@/components/tour-filters";
+
+/**
+ * 페이지당 숙소 수
+ */
+const STAYS_PER_PAGE = 20;
+
+export default function StaysPage() {
+  // 지역/시군구 필터
+  const [filters, setFilters] = useState<TourFiltersValues>({});
+
+  // 숙박 조건 필터
+  const [lodgingFilters, setLodgingFilters] = useState<LodgingFiltersValues>(
+    {},
+  );
+
+  // 숙소 목록 상태 관리
+  const [stays, setStays] = useState<TourItem[]>([]);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 숙박 정보 (contentid → 정보, 조회 실패 시 null)
+  const [lodgingInfos, setLodgingInfos] = useState<
+    Map<string, LodgingInfo | null>
+  >(new Map());
+  const [loadingInfos, setLoadingInfos] = useState(false);
+
+  // 페이지네이션 상태 관리
+  const [currentPage, setCurrentPage] = useState(1);
+
+  // 지역/페이지 변경 시 API 호출
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchStays() {
+      try {
+        setLoading(true);
+        setError(null);
+        setLodgingInfos(new Map());
+
+        const response = await searchStay2({
+          areaCode: filters.areaCode,
+          sigunguCode: filters.sigunguCode,
+          numOfRows: STAYS_PER_PAGE,
+          pageNo: currentPage,
+        });
+        if (cancelled) return;
+
+        const { items, pagination } = normalizeTourList(response);
+        setStays(items);
+        setTotalCount(pagination.totalCount);
+        setLoading(false);
+
+        // 숙박 정보 보강 (목록은 먼저 표시)
+        setLoadingInfos(true);
+        const infos = await fetchLodgingInfos(items);
+        if (cancelled) return;
+        setLodgingInfos(infos);
+      } catch (err) {
+        if (cancelled) return;
+        console.error("숙박 조회 실패:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "숙박 정보를 불러오는 중 오류가 발생했습니다.",
+        );
+        setStays([]);
+        setTotalCount(null);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+          setLoadingInfos(false);
+        }
+      }
+    }
+
+    fetchStays();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters.areaCode, filters.sigunguCode, currentPage]);
+
+  // 지역 변경 시 페이지를 1로 초기화
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [filters.areaCode, filters.sigunguCode]);
+
+  // 필터 변경 핸들러 (관광 타입은 숙박으로 고정)
+  const handleFilterChange = useCallback((newFilters: TourFiltersValues) => {
+    setFilters({
+      areaCode: newFilters.areaCode,
+      sigunguCode: newFilters.sigunguCode,
+    });
+  }, []);
+
+  // 페이지 변경 핸들러
+  const handlePageChange = useCallback((page: number) => {
+    setCurrentPage(page);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }, []);
+
+  const filtering = hasLodgingFilters(lodgingFilters);
+
+  // 숙박 조건으로 걸러낸 목록
+  const filteredStays = useMemo(() => {
+    if (!filtering) return stays;
+    return stays.filter((stay) =>
+      matchesLodgingFilters(
+        lodgingInfos.get(stay.contentid) ?? null,
+        lodgingFilters,
+      ),
+    );
+  }, [stays, lodgingInfos, lodgingFilters, filtering]);
+
+  const totalPages =
+    totalCount && totalCount > 0 ? Math.ceil(totalCount / STAYS_PER_PAGE) : 0;
+
+  return (
+    <main className="min-h-[calc(100vh-80px)] bg-white dark:bg-gray-950">
+      <div className="max-w-7xl mx-auto px-4 py-6 lg:px-8 lg:py-10 space-y-6">
+        {/* 헤더 */}
+        <div className="space-y-2">
+          <h1 className="text-2xl lg:text-3xl font-bold">숙박 검색</h1>
+          <p className="text-muted-foreground">
+            지역과 숙박 조건으로 머물 곳을 찾아보세요.
+          </p>
+        </div>
+
+        {/* 필터 영역 */}
+        <div className="space-y-3">
+          <TourFilters
+            values={filters}
+            onChange={handleFilterChange}
+            hideContentType
+            showSigungu
+          />
+          <LodgingFilters
+            values={lodgingFilters}
+            onChange={setLodgingFilters}
+          />
+        </div>
+
+        {/* 에러 메시지 표시 */}
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {/* 결과 요약 */}
+        {totalCount !== null && !loading && (
+          <div className="text-sm text-muted-foreground">
+            {filtering
+              ? loadingInfos
+                ? "숙박 정보를 확인하는 중입니다..."
+                : `이 페이지 ${stays.length}개 숙소 중 ${filteredStays.length}개가 조건에 맞습니다. (전체 ${totalCount.toLocaleString()}개)`
+              : `숙소 ${totalCount.toLocaleString()}개`}
+          </div>
+        )}
+
+        {/* 숙소 목록 */}
+        <StayList
+          stays={filteredStays}
+          lodgingInfos={lodgingInfos}
+          loading={loading || (filtering && loadingInfos)}
+          emptyMessage={
+            filtering
+              ? "이 페이지에는 조건에 맞는 숙소가 없습니다. 다른 페이지를 확인하거나 조건을 줄여보세요."
+              : undefined
+          }
+        />
+
+        {/* 페이지네이션 */}
+        {totalPages > 1 && (
+          <div className="flex justify-center">
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              onPageChange={handlePageChange}
+            />
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
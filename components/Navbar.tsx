@@ -10,6 +10,18 @@ const Navbar = () => {
         SaaS Template
       </Link>
       <div className="flex gap-4 items-center">
+        <Link
+          href="/festivals"
+          className="text-sm font-medium text-muted-foreground hover:text-foreground"
+        >
+          축제
+        </Link>
+        <Link
+          href="/stays"
+          className="text-sm font-medium text-muted-foreground hover:text-foreground"
+        >
+          숙박
+        </Link>
         <SignedOut>
           <SignInButton mode="modal">
             <Button>로그인</Button>
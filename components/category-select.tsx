@@ -0,0 +1,181 @@
+/**
+ * @file category-select.tsx
+ * @description 서비스 분류 선택 컴포넌트 (대/중/소분류)
+ *
+ * 이 컴포넌트는 categoryCode2 분류 체계를 단계별로 선택하는 기능을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 대분류 선택 (관광 타입이 지정되면 해당 타입의 분류만)
+ * 2. 대분류 선택 시 중분류, 중분류 선택 시 소분류 표시
+ * 3. 상위 분류 변경 시 하위 분류 선택 초기화
+ *
+ * 핵심 구현 로직:
+ * - Controlled component 패턴 (values + onChange)
+ * - 분류 목록은 lib/api/tour-categories.ts 캐시를 통해 조회
+ * - Select의 "all" 값은 선택 해제(undefined)로 처리
+ *
+ * @dependencies
+ * - lib/api/tour-categories.ts: getCategoryChildren 함수
+ * - lib/types/tour.ts: CategoryCode, CategoryCodes 타입
+ * - components/ui/select.tsx: Select 컴포넌트
+ * - lucide-react: Layers 아이콘
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Layers } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getCategoryChildren } from "@/lib/api/tour-categories";
+import type { CategoryCode, CategoryCodes } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+
+interface CategorySelectProps {
+  /** 현재 선택된 분류 */
+  values: CategoryCodes;
+  /** 분류 변경 시 호출되는 콜백 */
+  onChange: (values: CategoryCodes) => void;
+  /** 관광 타입 ID (지정 시 해당 타입의 분류만 표시) */
+  contentTypeId?: string;
+  /** 비활성화 */
+  disabled?: boolean;
+  /** 추가 CSS 클래스 */
+  className?: string;
+}
+
+/**
+ * 하위 분류 목록 로드 훅 (상위 분류가 바뀔 때마다 조회)
+ * @param enabled 조회 여부 (상위 분류가 선택되지 않았으면 false)
+ */
+function useCategoryOptions(
+  enabled: boolean,
+  parent: Pick<CategoryCodes, "cat1" | "cat2">,
+  contentTypeId?: string,
+): CategoryCode[] {
+  const [options, setOptions] = useState<CategoryCode[]>([]);
+  const { cat1, cat2 } = parent;
+
+  useEffect(() => {
+    if (!enabled) {
+      setOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    getCategoryChildren({ cat1, cat2 }, contentTypeId)
+      .then((categories) => {
+        if (!cancelled) setOptions(categories);
+      })
+      .catch((error) => {
+        console.error("분류 목록 로드 실패:", error);
+        if (!cancelled) setOptions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, cat1, cat2, contentTypeId]);
+
+  return options;
+}
+
+/**
+ * 분류 단계별 Select
+ */
+function CategoryLevelSelect({
+  value,
+  options,
+  placeholder,
+  onValueChange,
+  disabled,
+}: {
+  value?: string;
+  options: CategoryCode[];
+  placeholder: string;
+  onValueChange: (value?: string) => void;
+  disabled: boolean;
+}) {
+  return (
+    <Select
+      value={value || "all"}
+      onValueChange={(next) => onValueChange(next === "all" ? undefined : next)}
+      disabled={disabled || options.length === 0}
+    >
+      <SelectTrigger className="w-32 lg:w-36" aria-label={placeholder}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">{placeholder} 전체</SelectItem>
+        {options.map((category) => (
+          <SelectItem key={category.code} value={category.code}>
+            {category.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * 서비스 분류 선택 컴포넌트
+ * @param values 현재 선택된 분류
+ * @param onChange 분류 변경 콜백
+ * @param contentTypeId 관광 타입 ID
+ * @param disabled 비활성화 여부
+ * @param className 추가 CSS 클래스
+ */
+export function CategorySelect({
+  values,
+  onChange,
+  contentTypeId,
+  disabled = false,
+  className,
+}: CategorySelectProps) {
+  const { cat1, cat2, cat3 } = values;
+
+  const cat1Options = useCategoryOptions(true, {}, contentTypeId);
+  const cat2Options = useCategoryOptions(!!cat1, { cat1 }, contentTypeId);
+  const cat3Options = useCategoryOptions(
+    !!cat1 && !!cat2,
+    { cat1, cat2 },
+    contentTypeId,
+  );
+
+  return (
+    <div className={cn("flex items-center gap-2 shrink-0", className)}>
+      <Layers className="w-4 h-4 text-muted-foreground shrink-0" />
+      <CategoryLevelSelect
+        value={cat1}
+        options={cat1Options}
+        placeholder="대분류"
+        onValueChange={(code) => onChange({ cat1: code })}
+        disabled={disabled}
+      />
+      {cat1 && (
+        <CategoryLevelSelect
+          value={cat2}
+          options={cat2Options}
+          placeholder="중분류"
+          onValueChange={(code) => onChange({ cat1, cat2: code })}
+          disabled={disabled}
+        />
+      )}
+      {cat1 && cat2 && (
+        <CategoryLevelSelect
+          value={cat3}
+          options={cat3Options}
+          placeholder="소분류"
+          onValueChange={(code) => onChange({ cat1, cat2, cat3: code })}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * @file did-you-mean.tsx
+ * @description "이것을 찾으셨나요?" 검색어 제안
+ *
+ * 키워드 검색 결과가 없을 때 초성/로마자 검색어를 해석한 결과나 비슷한 관광지명을
+ * 다시 검색할 수 있는 버튼으로 표시합니다.
+ *
+ * @dependencies
+ * - components/ui/button.tsx: Button 컴포넌트
+ * - lucide-react: Search 아이콘
+ *
+ * @see {@link lib/api/tour-query.ts} - getKeywordSuggestions
+ */
+
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface DidYouMeanProps {
+  /** 제안 검색어 목록 */
+  suggestions: string[];
+  /** 제안 검색어 선택 시 호출되는 콜백 */
+  onSelect: (keyword: string) => void;
+  /** 추가 CSS 클래스 */
+  className?: string;
+}
+
+/**
+ * "이것을 찾으셨나요?" 검색어 제안
+ * @param suggestions 제안 검색어 목록 (비어 있으면 표시하지 않음)
+ * @param onSelect 제안 검색어 선택 콜백
+ * @param className 추가 CSS 클래스
+ */
+export function DidYouMean({
+  suggestions,
+  onSelect,
+  className,
+}: DidYouMeanProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div
+      role="status"
+      className={cn("flex flex-wrap items-center gap-2 text-sm", className)}
+    >
+      <span className="text-muted-foreground">이것을 찾으셨나요?</span>
+      {suggestions.map((keyword) => (
+        <Button
+          key={keyword}
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onSelect(keyword)}
+          className="flex items-center gap-1.5"
+        >
+          <Search className="w-3 h-3" aria-hidden="true" />
+          {keyword}
+        </Button>
+      ))}
+    </div>
+  );
+}
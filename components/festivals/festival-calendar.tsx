@@ -0,0 +1,163 @@
+/**
+ * @file festival-calendar.tsx
+ * @description 축제 월간 달력 컴포넌트 (달력 보기)
+ *
+ * 이 컴포넌트는 선택한 월의 달력에 날짜별로 진행되는 축제를 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 월간 달력 그리드 (일요일 시작, 이전/다음 달 날짜는 흐리게)
+ * 2. 날짜별 진행 중인 축제 표시 (최대 3개, 나머지는 "+N")
+ * 3. 오늘 날짜 강조
+ * 4. 축제 클릭 시 상세페이지 이동
+ *
+ * 핵심 구현 로직:
+ * - 날짜 비교는 YYYYMMDD 문자열로 처리 (lib/utils/festival.ts)
+ * - 모바일에서는 축제명 대신 개수만 표시
+ *
+ * @dependencies
+ * - lib/utils/festival.ts: toEventDate, isFestivalOnDate, getFestivalStatus
+ * - lib/types/tour.ts: FestivalItem 타입
+ * - next/link
+ */
+
+import { useMemo } from "react";
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import {
+  getFestivalStatus,
+  isFestivalOnDate,
+  toEventDate,
+} from "@/lib/utils/festival";
+import type { FestivalItem } from "@/lib/types/tour";
+
+const WEEKDAYS = ["일", "월", "화", "수", "목", "금", "토"];
+
+/**
+ * 날짜 셀당 표시할 최대 축제 수
+ */
+const MAX_FESTIVALS_PER_DAY = 3;
+
+interface FestivalCalendarProps {
+  /** 연도 */
+  year: number;
+  /** 월 (0부터 시작) */
+  month: number;
+  /** 해당 월에 진행되는 축제 목록 */
+  festivals: FestivalItem[];
+}
+
+/**
+ * 축제 월간 달력 컴포넌트
+ * @param year 연도
+ * @param month 월 (0부터 시작)
+ * @param festivals 축제 목록
+ */
+export function FestivalCalendar({
+  year,
+  month,
+  festivals,
+}: FestivalCalendarProps) {
+  const today = toEventDate(new Date());
+
+  // 달력에 표시할 날짜 목록 (앞뒤 주의 날짜 포함, 7의 배수)
+  const days = useMemo(() => {
+    const firstDay = new Date(year, month, 1);
+    const lastDay = new Date(year, month + 1, 0);
+    const start = new Date(year, month, 1 - firstDay.getDay());
+    const totalDays =
+      Math.ceil((firstDay.getDay() + lastDay.getDate()) / 7) * 7;
+
+    return Array.from({ length: totalDays }, (_, index) => {
+      const date = new Date(
+        start.getFullYear(),
+        start.getMonth(),
+        start.getDate() + index,
+      );
+      const value = toEventDate(date);
+
+      return {
+        value,
+        day: date.getDate(),
+        inMonth: date.getMonth() === month,
+        festivals: festivals.filter((festival) =>
+          isFestivalOnDate(festival, value),
+        ),
+      };
+    });
+  }, [year, month, festivals]);
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="grid grid-cols-7 bg-muted/50 text-center text-xs font-medium text-muted-foreground">
+        {WEEKDAYS.map((weekday, index) => (
+          <div
+            key={weekday}
+            className={cn(
+              "py-2",
+              index === 0 && "text-red-500",
+              index === 6 && "text-blue-500",
+            )}
+          >
+            {weekday}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7">
+        {days.map(({ value, day, inMonth, festivals: dayFestivals }, index) => (
+          <div
+            key={value}
+            className={cn(
+              "min-h-20 lg:min-h-28 border-t p-1 lg:p-2 space-y-1",
+              index % 7 !== 0 && "border-l",
+              !inMonth && "bg-muted/30 text-muted-foreground/60",
+            )}
+          >
+            <div
+              className={cn(
+                "text-xs lg:text-sm w-6 h-6 flex items-center justify-center rounded-full",
+                value === today && "bg-primary text-primary-foreground font-semibold",
+              )}
+            >
+              {day}
+            </div>
+
+            {inMonth && dayFestivals.length > 0 && (
+              <>
+                {/* 모바일: 개수만 표시 */}
+                <div className="lg:hidden text-[10px] text-primary font-medium">
+                  {dayFestivals.length}개
+                </div>
+
+                {/* 데스크톱: 축제명 표시 */}
+                <ul className="hidden lg:block space-y-0.5">
+                  {dayFestivals.slice(0, MAX_FESTIVALS_PER_DAY).map((festival) => (
+                    <li key={festival.contentid}>
+                      <Link
+                        href={`/places/${festival.contentid}`}
+                        title={festival.title}
+                        className={cn(
+                          "block truncate rounded px-1 py-0.5 text-xs hover:underline",
+                          getFestivalStatus(festival) === "ended"
+                            ? "bg-muted text-muted-foreground"
+                            : "bg-primary/10 text-primary",
+                        )}
+                      >
+                        {festival.title}
+                      </Link>
+                    </li>
+                  ))}
+                  {dayFestivals.length > MAX_FESTIVALS_PER_DAY && (
+                    <li className="text-xs text-muted-foreground px-1">
+                      +{dayFestivals.length - MAX_FESTIVALS_PER_DAY}개
+                    </li>
+                  )}
+                </ul>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
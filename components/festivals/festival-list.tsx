@@ -0,0 +1,120 @@
+/**
+ * @file festival-list.tsx
+ * @description 축제 목록 컴포넌트 (목록 보기)
+ *
+ * 이 컴포넌트는 조회한 축제를 행사 시작일 순으로 카드 목록으로 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 축제 카드 (썸네일, 축제명, 행사 기간, 주소, 진행 상태 뱃지)
+ * 2. 클릭 시 상세페이지 이동
+ * 3. 로딩 스켈레톤 및 빈 상태 표시
+ *
+ * @dependencies
+ * - components/festivals/festival-status-badge.tsx: 진행 상태 뱃지
+ * - lib/utils/festival.ts: formatEventPeriod
+ * - lib/types/tour.ts: FestivalItem 타입
+ * - next/image, next/link
+ * - lucide-react: CalendarDays, MapPin 아이콘
+ */
+
+import Image from "next/image";
+import Link from "next/link";
+import { CalendarDays, MapPin } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FestivalStatusBadge } from "@/components/festivals/festival-status-badge";
+import { formatEventPeriod } from "@/lib/utils/festival";
+import type { FestivalItem } from "@/lib/types/tour";
+
+interface FestivalListProps {
+  /** 축제 목록 (행사 시작일 순으로 정렬된 상태) */
+  festivals: FestivalItem[];
+  /** 로딩 상태 */
+  loading?: boolean;
+  /** 빈 상태 메시지 */
+  emptyMessage?: string;
+}
+
+/**
+ * 축제 목록 컴포넌트
+ * @param festivals 축제 목록
+ * @param loading 로딩 상태
+ * @param emptyMessage 빈 상태 메시지
+ */
+export function FestivalList({
+  festivals,
+  loading = false,
+  emptyMessage = "이 기간에 열리는 축제가 없습니다.",
+}: FestivalListProps) {
+  if (loading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {Array.from({ length: 6 }).map((_, index) => (
+          <Skeleton key={index} className="h-32 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (festivals.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center text-muted-foreground">
+        <CalendarDays className="w-12 h-12 mb-4 opacity-50" />
+        <p>{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {festivals.map((festival) => {
+        const imageUrl = festival.firstimage || festival.firstimage2;
+
+        return (
+          <li key={festival.contentid}>
+            <Link href={`/places/${festival.contentid}`} className="block h-full">
+              <Card className="h-full overflow-hidden transition-all duration-200 hover:border-primary/50 hover:shadow-md">
+                <CardContent className="p-0 flex h-full">
+                  <div className="relative w-32 shrink-0 bg-muted">
+                    {imageUrl ? (
+                      <Image
+                        src={imageUrl}
+                        alt={festival.title}
+                        fill
+                        loading="lazy"
+                        className="object-cover"
+                        sizes="128px"
+                      />
+                    ) : (
+                      <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+                        <CalendarDays className="w-8 h-8 opacity-50" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0 p-4 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className="font-semibold leading-tight line-clamp-2">
+                        {festival.title}
+                      </h3>
+                      <FestivalStatusBadge festival={festival} />
+                    </div>
+                    <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                      <CalendarDays className="w-4 h-4 shrink-0" />
+                      {formatEventPeriod(festival)}
+                    </p>
+                    {festival.addr1 && (
+                      <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                        <MapPin className="w-4 h-4 shrink-0" />
+                        <span className="line-clamp-1">{festival.addr1}</span>
+                      </p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * @file festival-status-badge.tsx
+ * @description 축제 진행 상태 뱃지 컴포넌트
+ *
+ * 행사 기간(eventstartdate, eventenddate)으로 계산한 진행 상태(진행 중/예정/종료)를 뱃지로 표시합니다.
+ *
+ * @dependencies
+ * - lib/utils/festival.ts: getFestivalStatus, FESTIVAL_STATUS_LABELS
+ * - lib/types/tour.ts: FestivalItem, FestivalStatus 타입
+ */
+
+import { cn } from "@/lib/utils";
+import {
+  FESTIVAL_STATUS_LABELS,
+  getFestivalStatus,
+} from "@/lib/utils/festival";
+import type { FestivalItem, FestivalStatus } from "@/lib/types/tour";
+
+/**
+ * 상태별 뱃지 스타일
+ */
+const STATUS_STYLES: Record<FestivalStatus, string> = {
+  ongoing:
+    "bg-green-100 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-400 dark:border-green-800",
+  upcoming: "bg-primary/10 text-primary border-primary/20",
+  ended: "bg-muted text-muted-foreground border-border",
+};
+
+interface FestivalStatusBadgeProps {
+  /** 행사 정보 */
+  festival: Pick<FestivalItem, "eventstartdate" | "eventenddate">;
+  /** 추가 CSS 클래스 */
+  className?: string;
+}
+
+/**
+ * 축제 진행 상태 뱃지
+ * @param festival 행사 정보
+ * @param className 추가 CSS 클래스
+ */
+export function FestivalStatusBadge({
+  festival,
+  className,
+}: FestivalStatusBadgeProps) {
+  const status = getFestivalStatus(festival);
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border shrink-0",
+        STATUS_STYLES[status],
+        className,
+      )}
+    >
+      {FESTIVAL_STATUS_LABELS[status]}
+    </span>
+  );
+}
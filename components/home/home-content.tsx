@@ -0,0 +1,415 @@
+/**
+ * @file home-content.tsx
+ * @description 홈페이지 검색/필터/정렬 컨트롤과 목록 영역
+ *
+ * 서버 컴포넌트인 홈페이지(app/page.tsx)에서 렌더링하는 클라이언트 컴포넌트입니다.
+ * 목록은 서버에서 조회한 첫 화면 목록(Promise)을 받아 Suspense 안에서 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 관광지 키워드 검색 (데스크톱 히어로 영역 / 모바일 검색 바)
+ * 2. 지역/관광 타입(여러 개 선택), 시/군/구, 서비스 분류, 반려동물 동반 필터
+ * 3. "내 주변" 위치 기반 조회
+ * 4. 정렬, "사진 있는 곳만", 목록 표시 방식(페이지네이션 / 무한 스크롤) 전환
+ * 5. "내 저장 검색" (로그인 사용자, 현재 검색 저장 및 저장 검색 실행)
+ *
+ * 핵심 구현 로직:
+ * - 검색어, 필터, 정렬, 페이지는 URL 쿼리 파라미터가 기준 (lib/utils/search-params.ts)
+ *   - 조건 변경은 router.push로 히스토리에 추가, 검색/필터가 바뀌면 1페이지로 이동
+ *   - URL이 바뀌면 서버에서 새 목록을 조회하므로 router.push를 transition으로 실행하고,
+ *     새 목록이 도착할 때까지 이전 목록 대신 로딩 상태 표시 (useTransition)
+ * - 위치 기반 기준점은 URL에 포함하지 않고 이 컴포넌트 상태로 관리
+ *   - 키워드 검색을 실행하면 위치 기반 모드 해제
+ *   - 위치 기반 모드에서만 거리순 정렬 제공 (진입 시 기본 정렬)
+ * - 목록 표시 방식은 사용자 설정 (hooks/use-list-mode.ts)
+ *
+ * @dependencies
+ * - components/home/home-results.tsx: 관광지 목록 영역
+ * - components/saved-searches/saved-search-panel.tsx: "내 저장 검색" 패널
+ * - components/tour-search.tsx, components/tour-filters.tsx, components/tour-nearby.tsx
+ * - hooks/use-list-mode.ts: 목록 표시 방식 설정
+ * - lib/api/tour-home.ts: getHomeSortOption, hasHomeTourQuery 함수, HomeTourList 타입
+ * - lib/utils/search-params.ts: 검색 상태 ↔ URL 쿼리 파라미터 변환
+ *
+ * @see {@link app/page.tsx} - 서버 렌더링
+ */
+
+"use client";
+
+import { Suspense, useCallback, useMemo, useState, useTransition } from "react";
+import dynamic from "next/dynamic";
+import { useRouter, useSearchParams } from "next/navigation";
+import { ImageIcon, InfinityIcon } from "lucide-react";
+import { HomeResults } from "@/components/home/home-results";
+import { SavedSearchPanel } from "@/components/saved-searches/saved-search-panel";
+import { TourList } from "@/components/tour-list";
+import { TourSearch } from "@/components/tour-search";
+import { TourNearby } from "@/components/tour-nearby";
+import type { TourFiltersValues } from "@/components/tour-filters";
+import { useListMode } from "@/hooks/use-list-mode";
+import {
+  getHomeSortOption,
+  hasHomeTourQuery,
+  type HomeTourList,
+} from "@/lib/api/tour-home";
+import {
+  getHomeSearchHref,
+  parseHomeSearchParams,
+  type HomeSearchState,
+} from "@/lib/utils/search-params";
+import type { NearbyLocation, SortOption } from "@/lib/types/tour";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+// 동적 임포트: 무거운 컴포넌트들을 lazy load
+const TourFilters = dynamic(
+  () =>
+    import("@/components/tour-filters").then((mod) => ({
+      default: mod.TourFilters,
+    })),
+  {
+    loading: () => <Skeleton className="h-9 w-32" />,
+    ssr: true,
+  },
+);
+
+interface HomeContentProps {
+  /** 서버에서 조회한 첫 화면 목록 (조회하지 않았거나 실패하면 null) */
+  initialList: Promise<HomeTourList | null>;
+}
+
+/**
+ * 홈페이지 본문
+ * @param initialList 서버에서 조회한 첫 화면 목록
+ */
+export function HomeContent({ initialList }: HomeContentProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // URL 갱신 후 서버에서 새 목록을 받는 중인지 여부
+  const [navigating, startNavigation] = useTransition();
+
+  // URL 쿼리 파라미터 → 검색 상태 (검색어, 필터, 정렬, 페이지)
+  const searchState = useMemo(
+    () => parseHomeSearchParams(searchParams),
+    [searchParams],
+  );
+  const searchKeyword = searchState.keyword;
+  const filters = useMemo<TourFiltersValues>(
+    () => ({
+      areaCodes: searchState.areaCodes,
+      sigunguCode: searchState.sigunguCode,
+      contentTypeIds: searchState.contentTypeIds,
+      cat1: searchState.cat1,
+      cat2: searchState.cat2,
+      cat3: searchState.cat3,
+      petFriendly: searchState.petFriendly,
+    }),
+    [searchState],
+  );
+
+  // 위치 기반 조회 기준점 (null이면 위치 기반 모드 해제)
+  const [nearby, setNearby] = useState<NearbyLocation | null>(null);
+
+  // 정렬 (거리순은 위치 기반 모드에서만 유효)
+  const sortOption = getHomeSortOption(searchState, nearby);
+  const imageOnly = !!searchState.imageOnly;
+
+  // 목록 표시 방식 (페이지네이션 / 무한 스크롤, 사용자 설정)
+  const {
+    mode: listMode,
+    setMode: setListMode,
+    ready: listModeReady,
+  } = useListMode();
+  const infinite = listMode === "infinite";
+
+  // 검색 상태 변경 → URL 갱신 (히스토리에 추가, page를 지정하지 않으면 1페이지로 이동)
+  const updateSearchState = useCallback(
+    (changes: Partial<HomeSearchState>) => {
+      const href = getHomeSearchHref({ ...searchState, page: 1, ...changes });
+      if (href !== getHomeSearchHref(searchState)) {
+        startNavigation(() => {
+          router.push(href, { scroll: false });
+        });
+      }
+    },
+    [router, searchState],
+  );
+
+  // 필터 변경 핸들러 (값이 없는 필터는 URL에서 제거)
+  const handleFilterChange = useCallback(
+    (newFilters: TourFiltersValues) => {
+      updateSearchState({
+        areaCodes: newFilters.areaCodes,
+        sigunguCode: newFilters.sigunguCode,
+        contentTypeIds: newFilters.contentTypeIds,
+        cat1: newFilters.cat1,
+        cat2: newFilters.cat2,
+        cat3: newFilters.cat3,
+        petFriendly: newFilters.petFriendly,
+      });
+    },
+    [updateSearchState],
+  );
+
+  // 검색 실행 핸들러 (키워드 검색 시 위치 기반 모드 해제)
+  const handleSearch = useCallback(
+    (keyword: string) => {
+      setNearby(null);
+      updateSearchState({
+        keyword,
+        sort: sortOption === "distance" ? "latest" : sortOption,
+      });
+    },
+    [updateSearchState, sortOption],
+  );
+
+  // 위치 기반 기준점 변경 핸들러
+  const handleNearbyChange = useCallback(
+    (location: NearbyLocation | null) => {
+      // 위치 기반 모드 진입 시 거리순, 해제 시 최신순으로 전환
+      if (location && !nearby) {
+        updateSearchState({ keyword: undefined, sort: "distance" });
+      } else if (!location) {
+        updateSearchState({
+          sort: sortOption === "distance" ? "latest" : sortOption,
+        });
+      } else {
+        updateSearchState({});
+      }
+      setNearby(location);
+    },
+    [nearby, sortOption, updateSearchState],
+  );
+
+  // 저장 검색 선택 핸들러 (저장된 조건으로 검색, 위치 기반 모드 해제)
+  const handleSavedSearchSelect = useCallback(
+    (query: string) => {
+      setNearby(null);
+      updateSearchState({
+        ...parseHomeSearchParams(new URLSearchParams(query)),
+        page: 1,
+      });
+    },
+    [updateSearchState],
+  );
+
+  // 검색어 변경 핸들러 (초기화용)
+  const handleSearchChange = useCallback(
+    (value: string) => {
+      if (value.trim().length === 0) {
+        updateSearchState({ keyword: undefined });
+      }
+    },
+    [updateSearchState],
+  );
+
+  // 정렬 옵션 변경 핸들러 (전체 결과 기준 정렬이므로 1페이지부터 다시 조회)
+  const handleSortChange = useCallback(
+    (value: string) => {
+      updateSearchState({ sort: value as SortOption });
+    },
+    [updateSearchState],
+  );
+
+  // 목록 표시 방식 전환 (페이지 번호는 1로 초기화)
+  const handleListModeToggle = useCallback(() => {
+    setListMode(infinite ? "pagination" : "infinite");
+    updateSearchState({});
+  }, [setListMode, infinite, updateSearchState]);
+
+  // "사진 있는 곳만" 토글 핸들러
+  const handleImageOnlyToggle = useCallback(() => {
+    updateSearchState({ imageOnly: !imageOnly || undefined });
+  }, [updateSearchState, imageOnly]);
+
+  // 페이지 변경 핸들러
+  const handlePageChange = useCallback(
+    (page: number) => {
+      updateSearchState({ page });
+      // 페이지 변경 시 목록 상단으로 스크롤 (UX 개선)
+      if (typeof window !== "undefined") {
+        window.scrollTo({ top: 0, behavior: "smooth" });
+      }
+    },
+    [updateSearchState],
+  );
+
+  return (
+    <main className="min-h-[calc(100vh-80px)] flex flex-col bg-white dark:bg-gray-950">
+      {/* HERO SECTION (Optional, 데스크톱만 표시) */}
+      <section className="hidden lg:block w-full bg-gradient-to-br from-primary/5 via-background to-background border-b">
+        <div className="max-w-7xl mx-auto px-8 py-16">
+          <div className="text-center space-y-6">
+            <h1 className="text-4xl lg:text-5xl font-bold text-foreground">
+              한국의 아름다운 관광지를 탐험하세요
+            </h1>
+            <div className="max-w-2xl mx-auto">
+              {/* 큰 검색창 */}
+              <TourSearch
+                value={searchKeyword}
+                onChange={handleSearchChange}
+                onSearch={handleSearch}
+                loading={navigating}
+                placeholder="관광지 검색..."
+                className="w-full"
+              />
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* 모바일 검색 바 */}
+      <section className="lg:hidden w-full border-b bg-white dark:bg-gray-950 px-4 py-3">
+        <div className="w-full">
+          <TourSearch
+            value={searchKeyword}
+            onChange={handleSearchChange}
+            onSearch={handleSearch}
+            loading={navigating}
+            placeholder="관광지 검색..."
+          />
+        </div>
+      </section>
+
+      {/* 필터 및 컨트롤 영역 (Sticky) */}
+      <section className="w-full border-b bg-white dark:bg-gray-950 backdrop-blur-md sticky top-0 z-10 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-3 lg:px-8">
+          {/* 데스크톱 필터 */}
+          <div className="hidden lg:flex items-center gap-4">
+            <TourFilters
+              values={filters}
+              onChange={handleFilterChange}
+              disableArea={!!nearby}
+              showSigungu
+              showCategory
+              disableCategory={!!nearby}
+              showPetFriendly
+              multiple
+            />
+            <TourNearby value={nearby} onChange={handleNearbyChange} />
+            <div className="flex items-center gap-2 ml-auto">
+              <span className="text-muted-foreground text-sm">📅 정렬:</span>
+              <Select value={sortOption} onValueChange={handleSortChange}>
+                <SelectTrigger className="w-32 text-sm">
+                  <SelectValue placeholder="정렬 선택" />
+                </SelectTrigger>
+                <SelectContent>
+                  {nearby && <SelectItem value="distance">거리순</SelectItem>}
+                  <SelectItem value="latest">최신순</SelectItem>
+                  <SelectItem value="name">이름순</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant={imageOnly ? "default" : "outline"}
+                size="sm"
+                onClick={handleImageOnlyToggle}
+                aria-pressed={imageOnly}
+                className="shrink-0 flex items-center gap-1.5"
+              >
+                <ImageIcon className="w-4 h-4" />
+                사진 있는 곳만
+              </Button>
+              <Button
+                variant={infinite ? "default" : "outline"}
+                size="sm"
+                onClick={handleListModeToggle}
+                aria-pressed={infinite}
+                className="shrink-0 flex items-center gap-1.5"
+              >
+                <InfinityIcon className="w-4 h-4" />
+                무한 스크롤
+              </Button>
+            </div>
+          </div>
+
+          {/* 모바일 필터 */}
+          <div className="lg:hidden space-y-2">
+            <TourFilters
+              values={filters}
+              onChange={handleFilterChange}
+              disableArea={!!nearby}
+              showSigungu
+              showCategory
+              disableCategory={!!nearby}
+              showPetFriendly
+              multiple
+            />
+            <TourNearby value={nearby} onChange={handleNearbyChange} />
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground text-sm">📅 정렬:</span>
+              <Select value={sortOption} onValueChange={handleSortChange}>
+                <SelectTrigger className="w-32 text-sm">
+                  <SelectValue placeholder="정렬 선택" />
+                </SelectTrigger>
+                <SelectContent>
+                  {nearby && <SelectItem value="distance">거리순</SelectItem>}
+                  <SelectItem value="latest">최신순</SelectItem>
+                  <SelectItem value="name">이름순</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant={imageOnly ? "default" : "outline"}
+                size="sm"
+                onClick={handleImageOnlyToggle}
+                aria-pressed={imageOnly}
+                className="shrink-0 flex items-center gap-1.5"
+              >
+                <ImageIcon className="w-4 h-4" />
+                사진 있는 곳만
+              </Button>
+              <Button
+                variant={infinite ? "default" : "outline"}
+                size="sm"
+                onClick={handleListModeToggle}
+                aria-pressed={infinite}
+                className="shrink-0 flex items-center gap-1.5"
+              >
+                <InfinityIcon className="w-4 h-4" />
+                무한 스크롤
+              </Button>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* 컨텐츠 영역: 목록 (전체 너비) */}
+      <section className="flex-1 w-full bg-white dark:bg-gray-950">
+        <div className="max-w-7xl mx-auto h-full">
+          {/* 관광지 목록 영역 */}
+          <div className="overflow-y-auto">
+            <div className="p-4 lg:p-6">
+              {/* 내 저장 검색 (로그인 사용자만 표시, 위치 기반 모드는 저장 불가) */}
+              <SavedSearchPanel
+                searchState={searchState}
+                canSave={!nearby && hasHomeTourQuery(searchState, null)}
+                onSelect={handleSavedSearchSelect}
+                className="mb-4"
+              />
+
+              {/* 서버 조회 결과가 도착할 때까지 스켈레톤 표시 (스트리밍) */}
+              <Suspense fallback={<TourList tours={[]} loading />}>
+                <HomeResults
+                  initialList={initialList}
+                  searchState={searchState}
+                  nearby={nearby}
+                  infinite={infinite}
+                  listModeReady={listModeReady}
+                  navigating={navigating}
+                  onSearch={handleSearch}
+                  onPageChange={handlePageChange}
+                />
+              </Suspense>
+            </div>
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
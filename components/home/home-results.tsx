@@ -0,0 +1,570 @@
+/**
+ * @file home-results.tsx
+ * @description 홈페이지 관광지 목록 영역
+ *
+ * 서버에서 조회한 첫 화면 목록(Promise)을 use()로 읽어 표시하고,
+ * 서버에서 조회할 수 없는 목록(위치 기반, 무한 스크롤 등)은 클라이언트에서 조회합니다.
+ *
+ * 주요 기능:
+ * 1. 검색 결과 개수, 관광지 목록, 페이지네이션 표시
+ * 2. 무한 스크롤 (다음 페이지 이어 붙이기, 상세 페이지에서 돌아오면 목록/스크롤 위치 복원)
+ * 3. 반려동물 동반 필터 (현재 목록의 동반 정책 조회 후 필터링)
+ * 4. API 장애 시 이전 정보 안내 배너, 검색 결과가 없을 때 "이것을 찾으셨나요?" 검색어 제안
+ *
+ * 핵심 구현 로직:
+ * - 서버 조회 결과의 조건 키가 현재 목록 조건과 같으면 그대로 사용 (첫 렌더링 상태로 사용하여 HTML에 포함)
+ * - 서버 조회 결과는 브라우저 응답 캐시에도 넣어 검색어 자동완성의 관광지 제안에 사용
+ * - 서버 조회 결과가 없거나 조건이 다르면 클라이언트에서 조회
+ *   (위치 기반 모드, 무한 스크롤 모드의 1페이지, 서버 조회 실패 시 재시도)
+ * - 무한 스크롤: 목록 끝에 가까워지면 다음 페이지를 이어 붙임 (contentid 기준 중복 제거)
+ *   - 상세 페이지에서 돌아오면 불러온 목록과 스크롤 위치 복원 (sessionStorage 스냅샷, lib/utils/infinite-list.ts)
+ *   - 다음 페이지 요청이 실패하면 자동 요청을 멈추고 "더 보기" 버튼으로 재시도
+ * - 반려동물 동반 필터: 목록 조회 후 항목별 detailPetTour2를 조회하여 현재 페이지에서 필터링
+ *   (목록 API가 반려동물 동반 조건을 지원하지 않음, lib/api/tour-pet.ts)
+ *   - 전체 결과 개수는 필터 적용 전 개수이므로 표시하지 않고 페이지 단위 결과임을 안내
+ *   - 동반 정책은 contentid별로 한 번만 조회 (무한 스크롤에서는 새로 불러온 항목만 조회)
+ * - 현재 목록이 API에서 선택한 정렬로 조회되지 않은 경우에만 현재 페이지를 클라이언트에서 정렬
+ * - 검색 조건이 바뀌면 이전 요청을 AbortController로 취소하여
+ *   늦게 도착한 이전 응답이 현재 조건의 목록/결과 개수를 덮어쓰지 않도록 함
+ *
+ * @dependencies
+ * - components/tour-list.tsx, components/pagination.tsx
+ * - components/stale-data-banner.tsx: 이전 정보 표시 안내 배너
+ * - components/did-you-mean.tsx: "이것을 찾으셨나요?" 검색어 제안
+ * - lib/api/tour-home.ts: fetchHomeTourList, getHomeSearchKey, getHomeTourListKey, getHomeMaxPage 함수
+ * - lib/api/tour-api-error.ts: isAbortError 함수
+ * - lib/api/tour-pet.ts: fetchPetPolicies 함수
+ * - lib/api/tour-query.ts: seedLocalTourTitles 함수
+ * - lib/utils/pet.ts: isPetAccepted 함수
+ * - lib/utils/geo.ts: sortByDistance 함수
+ * - lib/utils/infinite-list.ts: 목록 이어 붙이기, 목록 스냅샷 저장/복원
+ *
+ * @see {@link components/home/home-content.tsx} - 검색/필터/정렬 컨트롤
+ */
+
+"use client";
+
+import { use, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import { toast } from "sonner";
+import { TourList } from "@/components/tour-list";
+import { StaleDataBanner } from "@/components/stale-data-banner";
+import { DidYouMean } from "@/components/did-you-mean";
+import {
+  fetchHomeTourList,
+  getHomeMaxPage,
+  getHomeSearchKey,
+  getHomeSortOption,
+  getHomeTourListKey,
+  hasHomeTourQuery,
+  HOME_PAGE_SIZE,
+  type HomeTourList,
+} from "@/lib/api/tour-home";
+import { isAbortError } from "@/lib/api/tour-api-error";
+import { fetchPetPolicies } from "@/lib/api/tour-pet";
+import { seedLocalTourTitles } from "@/lib/api/tour-query";
+import { isPetAccepted } from "@/lib/utils/pet";
+import { sortByDistance } from "@/lib/utils/geo";
+import type { HomeSearchState } from "@/lib/utils/search-params";
+import {
+  appendUniqueTours,
+  readTourListSnapshot,
+  saveTourListSnapshot,
+  type TourListSnapshot,
+} from "@/lib/utils/infinite-list";
+import type {
+  TourItem,
+  SortOption,
+  NearbyLocation,
+  PetPolicy,
+} from "@/lib/types/tour";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const Pagination = dynamic(
+  () =>
+    import("@/components/pagination").then((mod) => ({
+      default: mod.Pagination,
+    })),
+  {
+    loading: () => <Skeleton className="h-9 w-64" />,
+    ssr: true,
+  },
+);
+
+interface HomeResultsProps {
+  /** 서버에서 조회한 첫 화면 목록 (조회하지 않았거나 실패하면 null) */
+  initialList: Promise<HomeTourList | null>;
+  /** 검색 상태 (URL 쿼리 파라미터) */
+  searchState: HomeSearchState;
+  /** 위치 기반 조회 기준점 (null이면 위치 기반 모드 해제) */
+  nearby: NearbyLocation | null;
+  /** 무한 스크롤 모드 여부 */
+  infinite: boolean;
+  /** 저장된 목록 표시 방식을 읽었는지 여부 */
+  listModeReady: boolean;
+  /** URL 갱신 후 서버에서 새 목록을 받는 중인지 여부 */
+  navigating: boolean;
+  /** 제안 검색어 선택 시 호출되는 콜백 */
+  onSearch: (keyword: string) => void;
+  /** 페이지 변경 시 호출되는 콜백 */
+  onPageChange: (page: number) => void;
+}
+
+/**
+ * 홈페이지 관광지 목록
+ * @param initialList 서버에서 조회한 첫 화면 목록
+ * @param searchState 검색 상태
+ * @param nearby 위치 기반 조회 기준점
+ * @param infinite 무한 스크롤 모드 여부
+ * @param listModeReady 저장된 목록 표시 방식을 읽었는지 여부
+ * @param navigating 서버에서 새 목록을 받는 중인지 여부
+ * @param onSearch 제안 검색어 선택 콜백
+ * @param onPageChange 페이지 변경 콜백
+ */
+export function HomeResults({
+  initialList,
+  searchState,
+  nearby,
+  infinite,
+  listModeReady,
+  navigating,
+  onSearch,
+  onPageChange,
+}: HomeResultsProps) {
+  // 서버에서 조회한 첫 화면 목록 (도착할 때까지 Suspense fallback 표시)
+  const initial = use(initialList);
+
+  const searchKeyword = searchState.keyword;
+  const currentPage = searchState.page;
+  const petFriendly = !!searchState.petFriendly;
+  const sortOption = getHomeSortOption(searchState, nearby);
+  const hasSearch = !!searchKeyword && searchKeyword.trim().length > 0;
+  const hasQuery = hasHomeTourQuery(searchState, nearby);
+  // 지역/관광 타입을 여러 개 선택하면 병합 목록의 앞 페이지까지만 조회 가능
+  const maxPage = getHomeMaxPage(searchState, nearby);
+
+  // 조회 조건 키 (페이지 번호 제외, 위치 기반 기준점 포함)
+  const searchKey = useMemo(
+    () => getHomeSearchKey(searchState, nearby),
+    [searchState, nearby],
+  );
+
+  // 무한 스크롤 모드는 URL의 페이지 번호와 관계없이 1페이지부터 조회
+  const listPage = infinite ? 1 : currentPage;
+  const listKey = infinite
+    ? `infinite:${searchKey}`
+    : `page:${searchKey}:${listPage}`;
+
+  // 서버 조회 결과가 현재 목록 조건과 같으면 그대로 사용
+  const initialForList =
+    initial && initial.key === getHomeTourListKey(searchKey, listPage)
+      ? initial
+      : null;
+
+  // 서버 조회 결과를 자동완성 관광지 제안에 사용 (서버 렌더링 직후 브라우저 캐시가 비어 있음)
+  useEffect(() => {
+    if (initial) seedLocalTourTitles(initial.key, initial.tours);
+  }, [initial]);
+
+  // 관광지 목록 상태 관리 (서버 조회 결과로 시작하여 HTML에 포함)
+  const [tours, setTours] = useState<TourItem[]>(
+    () => initialForList?.tours ?? [],
+  );
+
+  // 반려동물 동반 정책 (contentid → 정책, 미등록/조회 실패 시 null)
+  const [petPolicies, setPetPolicies] = useState<Map<string, PetPolicy | null>>(
+    new Map(),
+  );
+
+  // 동반 정책을 조회했거나 조회 중인 contentid (같은 항목을 다시 조회하지 않음)
+  const requestedPetIdsRef = useRef<Set<string>>(new Set());
+
+  // 검색 결과 개수 상태 관리
+  const [totalCount, setTotalCount] = useState<number | null>(
+    () => initialForList?.totalCount ?? null,
+  );
+
+  // 로딩 상태 관리
+  const [loading, setLoading] = useState(false);
+
+  // 에러 상태 관리
+  const [error, setError] = useState<string | null>(null);
+
+  // 장애로 이전 응답을 표시 중인지 여부
+  const [stale, setStale] = useState(() => !!initialForList?.stale);
+
+  // 키워드 검색 결과가 없을 때 제안할 검색어 ("이것을 찾으셨나요?")
+  const [didYouMean, setDidYouMean] = useState<string[]>(
+    () => initialForList?.didYouMean ?? [],
+  );
+
+  // 현재 목록이 API에서 정렬된 기준 (다르면 클라이언트에서 정렬)
+  const [sortedBy, setSortedBy] = useState<SortOption | null>(
+    () => initialForList?.sortedBy ?? null,
+  );
+
+  // 무한 스크롤: 마지막으로 불러온 페이지, 다음 페이지 로딩/실패 상태
+  const [loadedPage, setLoadedPage] = useState(listPage);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
+  const loadMoreControllerRef = useRef<AbortController | null>(null);
+
+  // 현재 표시 중인 목록의 조회 조건 (같은 조건이면 다시 조회하지 않음)
+  const loadedListKeyRef = useRef<string | null>(
+    initialForList ? listKey : null,
+  );
+
+  // 상세 페이지에서 돌아왔을 때 복원할 스크롤 위치
+  const pendingScrollRef = useRef<number | null>(null);
+
+  // 검색/필터 변경 시 목록 갱신 (서버 조회 결과 사용 또는 클라이언트 조회)
+  useEffect(() => {
+    // 진행 중인 다음 페이지 요청 취소
+    loadMoreControllerRef.current?.abort();
+    setLoadingMore(false);
+    setLoadMoreFailed(false);
+
+    if (!hasQuery) {
+      loadedListKeyRef.current = null;
+      setTours([]);
+      setTotalCount(null);
+      setLoading(false);
+      setError(null);
+      setStale(false);
+      setDidYouMean([]);
+      return;
+    }
+
+    // 이미 같은 조건의 목록을 표시 중이면 다시 조회하지 않음
+    if (loadedListKeyRef.current === listKey) return;
+
+    // 상세 페이지에서 돌아온 경우 불러온 목록과 스크롤 위치 복원 (무한 스크롤)
+    const snapshot = infinite ? readTourListSnapshot(searchKey) : null;
+    if (snapshot) {
+      loadedListKeyRef.current = listKey;
+      pendingScrollRef.current = snapshot.scrollY;
+      setTours(snapshot.tours);
+      setTotalCount(snapshot.totalCount);
+      setLoadedPage(snapshot.page);
+      setSortedBy(sortOption);
+      setLoading(false);
+      setError(null);
+      setStale(false);
+      setDidYouMean([]);
+      return;
+    }
+
+    // 서버에서 같은 조건으로 조회한 목록이 있으면 그대로 표시
+    if (initialForList) {
+      loadedListKeyRef.current = listKey;
+      setTours(initialForList.tours);
+      setTotalCount(initialForList.totalCount);
+      setLoadedPage(listPage);
+      setSortedBy(initialForList.sortedBy);
+      setLoading(false);
+      setError(null);
+      setStale(initialForList.stale);
+      setDidYouMean(initialForList.didYouMean);
+      return;
+    }
+
+    // 저장된 목록 표시 방식을 읽은 뒤 조회
+    if (!listModeReady) return;
+
+    // 조건이 바뀌면 이전 요청 취소 (cleanup)
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    async function fetchTours() {
+      try {
+        setLoading(true);
+        setError(null);
+        setStale(false);
+        setDidYouMean([]);
+
+        const list = await fetchHomeTourList(
+          searchState,
+          nearby,
+          listPage,
+          signal,
+        );
+        if (signal.aborted) return;
+
+        loadedListKeyRef.current = listKey;
+        setTotalCount(list.totalCount);
+        setTours(list.tours);
+        setLoadedPage(listPage);
+        setSortedBy(list.sortedBy);
+        setStale(list.stale);
+        setDidYouMean(list.didYouMean);
+      } catch (err) {
+        // 취소된 이전 요청은 무시 (현재 조건의 요청이 상태를 갱신)
+        if (signal.aborted || isAbortError(err)) return;
+        console.error("관광지 조회 실패:", err);
+        loadedListKeyRef.current = null;
+        setError(
+          err instanceof Error
+            ? err.message
+            : nearby
+              ? "주변 관광지를 불러오는 중 오류가 발생했습니다."
+              : hasSearch
+                ? "검색 중 오류가 발생했습니다."
+                : "관광지 목록을 불러오는 중 오류가 발생했습니다.",
+        );
+        setTours([]);
+        setTotalCount(null);
+      } finally {
+        if (!signal.aborted) setLoading(false);
+      }
+    }
+
+    fetchTours();
+
+    return () => {
+      controller.abort();
+    };
+  }, [
+    listModeReady,
+    hasQuery,
+    listKey,
+    listPage,
+    infinite,
+    searchKey,
+    searchState,
+    nearby,
+    hasSearch,
+    sortOption,
+    initialForList,
+  ]);
+
+  // 무한 스크롤: 다음 페이지가 있는지 여부
+  const hasMore =
+    infinite &&
+    totalCount !== null &&
+    loadedPage * HOME_PAGE_SIZE < totalCount &&
+    loadedPage < maxPage;
+
+  // 무한 스크롤: 다음 페이지 불러오기 (contentid 기준 중복 제거)
+  const handleLoadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore) return;
+
+    const controller = new AbortController();
+    loadMoreControllerRef.current = controller;
+    const nextPage = loadedPage + 1;
+
+    try {
+      setLoadingMore(true);
+      setLoadMoreFailed(false);
+
+      const list = await fetchHomeTourList(
+        searchState,
+        nearby,
+        nextPage,
+        controller.signal,
+      );
+      if (controller.signal.aborted) return;
+
+      setTours((prev) => appendUniqueTours(prev, list.tours));
+      setTotalCount(list.totalCount);
+      setLoadedPage(nextPage);
+      if (list.stale) setStale(true);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      console.error("다음 페이지 조회 실패:", err);
+      // 자동 요청을 멈추고 "더 보기" 버튼으로 다시 시도
+      setLoadMoreFailed(true);
+      toast.error("다음 목록을 불러오지 못했습니다. 다시 시도해주세요.");
+    } finally {
+      if (!controller.signal.aborted) setLoadingMore(false);
+    }
+  }, [loading, loadingMore, hasMore, loadedPage, searchState, nearby]);
+
+  // 무한 스크롤 목록 스냅샷 (상세 페이지 이동 등으로 페이지를 떠날 때 저장)
+  const snapshotRef = useRef<Omit<
+    TourListSnapshot,
+    "scrollY" | "savedAt"
+  > | null>(null);
+  const scrollYRef = useRef(0);
+
+  useEffect(() => {
+    snapshotRef.current =
+      infinite && !loading && tours.length > 0
+        ? { key: searchKey, tours, totalCount, page: loadedPage }
+        : null;
+  }, [infinite, loading, searchKey, tours, totalCount, loadedPage]);
+
+  useEffect(() => {
+    const handleScroll = () => {
+      scrollYRef.current = window.scrollY;
+    };
+    window.addEventListener("scroll", handleScroll, { passive: true });
+
+    return () => {
+      window.removeEventListener("scroll", handleScroll);
+      if (snapshotRef.current) {
+        saveTourListSnapshot({
+          ...snapshotRef.current,
+          scrollY: scrollYRef.current,
+        });
+      }
+    };
+  }, []);
+
+  // 복원한 목록이 렌더링된 뒤 스크롤 위치 복원
+  useEffect(() => {
+    const scrollY = pendingScrollRef.current;
+    if (scrollY === null || tours.length === 0) return;
+
+    pendingScrollRef.current = null;
+    requestAnimationFrame(() => window.scrollTo({ top: scrollY }));
+  }, [tours]);
+
+  // 반려동물 동반 필터 사용 시 아직 조회하지 않은 항목의 동반 정책만 조회
+  useEffect(() => {
+    if (!petFriendly) return;
+
+    const requested = requestedPetIdsRef.current;
+    const missing = tours.filter((tour) => !requested.has(tour.contentid));
+    if (missing.length === 0) return;
+
+    missing.forEach((tour) => requested.add(tour.contentid));
+
+    // 목록이 바뀌어도 결과는 contentid 기준이므로 그대로 반영 (개별 실패는 null)
+    fetchPetPolicies(missing).then((policies) => {
+      setPetPolicies((prev) => new Map([...prev, ...policies]));
+    });
+  }, [tours, petFriendly]);
+
+  // 현재 목록 중 동반 정책을 아직 받지 못한 항목이 있는지 여부
+  const loadingPetPolicies =
+    petFriendly && tours.some((tour) => !petPolicies.has(tour.contentid));
+
+  // 반려동물 동반 필터 적용 (현재 페이지 기준)
+  const visibleTours = useMemo(() => {
+    if (!petFriendly) {
+      return tours;
+    }
+    return tours.filter((tour) =>
+      isPetAccepted(petPolicies.get(tour.contentid)),
+    );
+  }, [tours, petPolicies, petFriendly]);
+
+  // 정렬된 관광지 목록 계산 (API에서 정렬되지 않은 경우에만 현재 페이지 정렬)
+  const sortedTours = useMemo(() => {
+    if (!visibleTours || visibleTours.length === 0) {
+      return visibleTours;
+    }
+    if (sortedBy === sortOption) {
+      return visibleTours;
+    }
+
+    // 배열 복사본 생성 (원본 배열 변경 방지)
+    const sorted = [...visibleTours];
+
+    if (sortOption === "distance" && nearby) {
+      // 거리순: 기준점에서 가까운 순 (dist가 없으면 좌표로 계산, 거리를 알 수 없는 항목은 뒤로)
+      return sortByDistance(sorted, nearby);
+    } else if (sortOption === "latest") {
+      // 최신순: modifiedtime 기준 내림차순 (YYYYMMDDHHmmss 형식)
+      return sorted.sort((a, b) => {
+        // modifiedtime을 숫자로 변환하여 비교 (더 큰 값이 최신)
+        const timeA = parseInt(a.modifiedtime, 10) || 0;
+        const timeB = parseInt(b.modifiedtime, 10) || 0;
+        return timeB - timeA; // 내림차순
+      });
+    } else {
+      // 이름순: title 기준 가나다순 정렬 (오름차순)
+      return sorted.sort((a, b) => {
+        // 한글 정렬을 위해 localeCompare 사용
+        return a.title.localeCompare(b.title, "ko", {
+          numeric: true, // 숫자도 정렬
+          sensitivity: "base", // 대소문자 구분 안함
+        });
+      });
+    }
+  }, [visibleTours, sortOption, sortedBy, nearby]);
+
+  // 총 페이지 수 계산
+  const totalPages = useMemo(() => {
+    if (!totalCount || totalCount === 0) {
+      return 0;
+    }
+    return Math.min(Math.ceil(totalCount / HOME_PAGE_SIZE), maxPage);
+  }, [totalCount, maxPage]);
+
+  // 목록 로딩 중 (클라이언트 조회 또는 서버에서 새 목록을 받는 중)
+  const listLoading = loading || navigating;
+
+  return (
+    <>
+      {/* 에러 메시지 표시 */}
+      {error && !listLoading && (
+        <div className="mb-4 text-sm text-destructive">{error}</div>
+      )}
+
+      {/* 장애로 이전 응답을 표시 중인 경우 안내 */}
+      {stale && !listLoading && <StaleDataBanner className="mb-4" />}
+
+      {/* 검색 결과 개수 표시 */}
+      {totalCount !== null && tours.length > 0 && (
+        <div className="mb-4 text-sm text-muted-foreground">
+          {petFriendly
+            ? loadingPetPolicies
+              ? "반려동물 동반 정보를 확인하는 중입니다..."
+              : `${infinite ? "불러온" : "이 페이지"} ${tours.length}곳 중 ${visibleTours.length}곳이 반려동물 동반 가능합니다. (반려동물 동반 여부는 불러온 목록에서만 확인합니다)`
+            : nearby
+              ? `${nearby.label ?? "내 위치"} 주변 ${nearby.radius / 1000}km: ${totalCount.toLocaleString()}개`
+              : searchKeyword
+                ? `"${searchKeyword}" 검색 결과: ${totalCount.toLocaleString()}개`
+                : `검색 결과: ${totalCount.toLocaleString()}개`}
+          {!petFriendly &&
+            totalCount > maxPage * HOME_PAGE_SIZE &&
+            ` (여러 지역/관광 타입을 함께 선택하면 ${maxPage}페이지까지만 볼 수 있습니다)`}
+        </div>
+      )}
+
+      {/* 검색 결과가 없을 때 다시 검색할 검색어 제안 */}
+      {!listLoading && (
+        <DidYouMean
+          suggestions={didYouMean}
+          onSelect={onSearch}
+          className="mb-4"
+        />
+      )}
+
+      {/* TourList 컴포넌트 사용 - 검색/필터/정렬된 관광지 목록 표시 */}
+      <TourList
+        tours={sortedTours}
+        loading={
+          listLoading || (loadingPetPolicies && visibleTours.length === 0)
+        }
+        onLoadMore={infinite ? handleLoadMore : undefined}
+        hasMore={hasMore}
+        loadingMore={loadingMore || (infinite && loadingPetPolicies)}
+        autoLoadMore={!loadMoreFailed}
+        emptyMessage={
+          petFriendly && tours.length > 0
+            ? "이 페이지에는 반려동물 동반이 가능한 장소가 없습니다. 다른 페이지를 확인해보세요."
+            : nearby
+              ? "선택한 반경 안에 관광지가 없습니다. 반경을 넓혀보세요."
+              : searchKeyword
+                ? `"${searchKeyword}"에 대한 검색 결과가 없습니다.`
+                : hasQuery
+                  ? "선택한 필터 조건에 맞는 관광지가 없습니다."
+                  : undefined
+        }
+      />
+
+      {/* 페이지네이션 (무한 스크롤 모드에서는 숨김) */}
+      {!infinite && totalPages > 1 && (
+        <div className="mt-6 flex justify-center">
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={onPageChange}
+          />
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * @file multi-select.tsx
+ * @description 다중 선택 드롭다운 컴포넌트
+ *
+ * Select(components/ui/select.tsx)는 값 하나만 선택할 수 있으므로
+ * 지역/관광 타입처럼 여러 값을 고르는 필터에 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 선택 요약 표시 (예: "강원", "강원 외 1곳")
+ * 2. 체크 목록에서 여러 값 선택/해제, "전체"로 선택 초기화
+ * 3. 최대 선택 수 제한 (maxSelected, 초과 항목은 비활성화)
+ *
+ * 핵심 구현 로직:
+ * - Controlled component 패턴 (values + onChange)
+ * - 필터 바의 가로 스크롤(overflow)에 잘리지 않도록 목록은 body에 포털로 렌더링하고 트리거 위치에 고정
+ * - 목록 밖 클릭, Escape 키, 스크롤/창 크기 변경 시 닫기 (Escape는 트리거로 포커스 복귀)
+ * - 선택 순서와 관계없이 options 순서대로 onChange 호출 (같은 선택은 항상 같은 값)
+ *
+ * @dependencies
+ * - lucide-react: 아이콘 (Check, ChevronDown)
+ * - @/lib/utils: cn 유틸리티
+ */
+
+"use client";
+
+import { useEffect, useId, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { Check, ChevronDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+/**
+ * 선택 항목
+ */
+export interface MultiSelectOption {
+  value: string;
+  label: string;
+}
+
+interface MultiSelectProps {
+  /** 선택 항목 목록 */
+  options: MultiSelectOption[];
+  /** 선택된 값 */
+  values: string[];
+  /** 선택 변경 시 호출되는 콜백 */
+  onChange: (values: string[]) => void;
+  /** 선택이 없을 때 표시할 문구 */
+  placeholder?: string;
+  /** 최대 선택 수 */
+  maxSelected?: number;
+  /** 선택 요약의 단위 (예: "곳" → "강원 외 1곳") */
+  unit?: string;
+  /** 비활성화 */
+  disabled?: boolean;
+  /** 트리거 title (비활성화 사유 안내 등) */
+  title?: string;
+  /** 스크린 리더용 라벨 */
+  "aria-label"?: string;
+  /** 추가 CSS 클래스 (트리거) */
+  className?: string;
+}
+
+/**
+ * 다중 선택 드롭다운
+ * @param options 선택 항목 목록
+ * @param values 선택된 값
+ * @param onChange 선택 변경 콜백
+ * @param placeholder 선택이 없을 때 표시할 문구
+ * @param maxSelected 최대 선택 수
+ * @param unit 선택 요약의 단위
+ * @param disabled 비활성화 여부
+ * @param title 트리거 title
+ * @param className 추가 CSS 클래스
+ */
+export function MultiSelect({
+  options,
+  values,
+  onChange,
+  placeholder = "전체",
+  maxSelected,
+  unit = "개",
+  disabled = false,
+  title,
+  "aria-label": ariaLabel,
+  className,
+}: MultiSelectProps) {
+  const [open, setOpen] = useState(false);
+  const [position, setPosition] = useState<{
+    top: number;
+    left: number;
+    minWidth: number;
+  } | null>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const panelId = useId();
+
+  // 열려 있는 동안 바깥 클릭, Escape, 스크롤/창 크기 변경 시 닫기
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      const target = event.target as Node;
+      if (
+        !panelRef.current?.contains(target) &&
+        !triggerRef.current?.contains(target)
+      ) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        setOpen(false);
+        triggerRef.current?.focus();
+      }
+    };
+    const handleScroll = (event: Event) => {
+      if (!panelRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const close = () => setOpen(false);
+
+    document.addEventListener("mousedown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("scroll", handleScroll, true);
+    window.addEventListener("resize", close);
+    return () => {
+      document.removeEventListener("mousedown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("scroll", handleScroll, true);
+      window.removeEventListener("resize", close);
+    };
+  }, [open]);
+
+  // 열리면 목록의 첫 항목으로 포커스 이동 (목록은 body 끝에 렌더링되므로)
+  useEffect(() => {
+    if (open) panelRef.current?.querySelector("button")?.focus();
+  }, [open]);
+
+  // 비활성화되면 닫기
+  useEffect(() => {
+    if (disabled) setOpen(false);
+  }, [disabled]);
+
+  const handleToggleOpen = () => {
+    if (!open && triggerRef.current) {
+      const rect = triggerRef.current.getBoundingClientRect();
+      setPosition({
+        top: rect.bottom + 4,
+        left: rect.left,
+        minWidth: rect.width,
+      });
+    }
+    setOpen((prev) => !prev);
+  };
+
+  // 값 선택/해제 (options 순서 유지)
+  const handleToggleValue = (value: string) => {
+    const next = values.includes(value)
+      ? values.filter((item) => item !== value)
+      : [...values, value];
+    onChange(
+      options
+        .map((option) => option.value)
+        .filter((item) => next.includes(item)),
+    );
+  };
+
+  const selectedLabels = options
+    .filter((option) => values.includes(option.value))
+    .map((option) => option.label);
+  const summary =
+    selectedLabels.length === 0
+      ? placeholder
+      : selectedLabels.length === 1
+        ? selectedLabels[0]
+        : `${selectedLabels[0]} 외 ${selectedLabels.length - 1}${unit}`;
+  const limitReached =
+    maxSelected !== undefined && values.length >= maxSelected;
+
+  return (
+    <>
+      <button
+        ref={triggerRef}
+        type="button"
+        onClick={handleToggleOpen}
+        disabled={disabled}
+        title={title}
+        aria-label={ariaLabel}
+        aria-haspopup="true"
+        aria-expanded={open}
+        aria-controls={open ? panelId : undefined}
+        className={cn(
+          "border-input dark:bg-input/30 dark:hover:bg-input/50 flex h-9 items-center justify-between gap-2 rounded-md border bg-transparent px-3 py-2 text-sm whitespace-nowrap shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 disabled:cursor-not-allowed disabled:opacity-50",
+          selectedLabels.length === 0 && "text-muted-foreground",
+          className,
+        )}
+      >
+        <span className="truncate">{summary}</span>
+        <ChevronDown className="size-4 shrink-0 opacity-50" />
+      </button>
+
+      {open &&
+        position &&
+        createPortal(
+          <div
+            ref={panelRef}
+            id={panelId}
+            role="group"
+            aria-label={ariaLabel}
+            style={position}
+            // 포커스가 목록과 트리거 밖으로 나가면 닫기 (Tab 이동)
+            onBlur={(event) => {
+              const next = event.relatedTarget as Node | null;
+              if (
+                !panelRef.current?.contains(next) &&
+                !triggerRef.current?.contains(next)
+              ) {
+                setOpen(false);
+              }
+            }}
+            className="fixed z-50 max-h-72 overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            <button
+              type="button"
+              onClick={() => onChange([])}
+              className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+            >
+              <Check
+                className={cn("size-4", values.length > 0 && "invisible")}
+              />
+              {placeholder}
+            </button>
+            {options.map((option) => {
+              const checked = values.includes(option.value);
+              const optionDisabled = !checked && limitReached;
+
+              return (
+                <button
+                  key={option.value}
+                  type="button"
+                  role="checkbox"
+                  aria-checked={checked}
+                  onClick={() => handleToggleValue(option.value)}
+                  disabled={optionDisabled}
+                  title={
+                    optionDisabled
+                      ? `최대 ${maxSelected}${unit}까지 선택할 수 있습니다`
+                      : undefined
+                  }
+                  className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground disabled:pointer-events-none disabled:opacity-50"
+                >
+                  <Check className={cn("size-4", !checked && "invisible")} />
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>,
+          document.body,
+        )}
+    </>
+  );
+}
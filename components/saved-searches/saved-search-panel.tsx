@@ -0,0 +1,277 @@
+/**
+ * @file saved-search-panel.tsx
+ * @description "내 저장 검색" 패널
+ *
+ * 로그인한 사용자가 현재 홈페이지 검색 조건(검색어, 필터, 정렬)을 저장하고,
+ * 저장한 검색을 다시 실행할 수 있는 패널입니다.
+ *
+ * 주요 기능:
+ * 1. 저장 검색 목록 표시 (마지막 확인 이후 새로 수정된 관광지 수 뱃지)
+ * 2. 현재 검색 저장 (검색 조건이 없거나 이미 저장한 검색이면 비활성화)
+ * 3. 저장 검색 선택 시 해당 조건으로 검색, 삭제
+ *
+ * 핵심 구현 로직:
+ * - 로그인하지 않은 경우 표시하지 않음 (Clerk useAuth)
+ * - 새 항목 수는 서버에서 계산 (actions/saved-searches.ts getSavedSearchesAction)
+ *   - 반려동물 동반 필터가 있는 검색은 필터를 적용하지 않은 수이므로 "전체"로 표시
+ * - 현재 검색 조건이 저장 검색과 같으면 확인한 것으로 보고 마지막 확인 시간 갱신 (새 항목 수 0)
+ *   (저장 검색을 선택한 경우와 링크/새로고침으로 같은 조건을 연 경우 모두)
+ *
+ * @dependencies
+ * - actions/saved-searches.ts: 저장 검색 Server Actions
+ * - lib/utils/search-params.ts: getSavedSearchQuery 함수
+ * - lib/types/saved-search.ts: SavedSearchWithUpdates 타입
+ * - @clerk/nextjs: useAuth
+ * - sonner: 토스트 알림
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { BookmarkCheck, BookmarkPlus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  getSavedSearchesAction,
+  markSavedSearchViewedAction,
+  removeSavedSearchAction,
+  saveSearchAction,
+} from "@/actions/saved-searches";
+import {
+  getSavedSearchQuery,
+  parseHomeSearchParams,
+  type HomeSearchState,
+} from "@/lib/utils/search-params";
+import type { SavedSearchWithUpdates } from "@/lib/types/saved-search";
+import { cn } from "@/lib/utils";
+
+interface SavedSearchPanelProps {
+  /** 현재 검색 상태 */
+  searchState: HomeSearchState;
+  /** 현재 검색에 조회 조건이 있는지 여부 (없으면 저장 불가) */
+  canSave: boolean;
+  /** 저장 검색 선택 시 호출되는 콜백 (홈페이지 URL 쿼리 문자열) */
+  onSelect: (query: string) => void;
+  /** 추가 CSS 클래스 */
+  className?: string;
+}
+
+/**
+ * "내 저장 검색" 패널
+ * @param searchState 현재 검색 상태
+ * @param canSave 현재 검색을 저장할 수 있는지 여부
+ * @param onSelect 저장 검색 선택 콜백
+ * @param className 추가 CSS 클래스
+ */
+export function SavedSearchPanel({
+  searchState,
+  canSave,
+  onSelect,
+  className,
+}: SavedSearchPanelProps) {
+  const { isLoaded, userId } = useAuth();
+  const [searches, setSearches] = useState<SavedSearchWithUpdates[] | null>(
+    null,
+  );
+  const [saving, setSaving] = useState(false);
+
+  // 이번 방문에서 확인 처리한 저장 검색 ID (중복 갱신 방지)
+  const viewedIdsRef = useRef<Set<string>>(new Set());
+
+  const currentQuery = getSavedSearchQuery(searchState);
+  const currentSaved = searches?.find(
+    (search) => search.query === currentQuery,
+  );
+
+  // 로그인 사용자의 저장 검색 목록 조회 (새 항목 수는 서버에서 계산)
+  useEffect(() => {
+    if (!isLoaded || !userId) {
+      setSearches(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadSearches() {
+      try {
+        const result = await getSavedSearchesAction();
+        if (!cancelled) setSearches(result);
+      } catch (error) {
+        console.error("저장 검색 조회 오류:", error);
+        if (!cancelled) setSearches([]);
+      }
+    }
+
+    loadSearches();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoaded, userId]);
+
+  // 현재 검색 조건이 저장 검색과 같으면 확인한 것으로 보고 새 항목 수 초기화
+  const currentSavedId = currentSaved?.id;
+  useEffect(() => {
+    if (!currentSavedId || viewedIdsRef.current.has(currentSavedId)) return;
+    viewedIdsRef.current.add(currentSavedId);
+
+    markSavedSearchViewedAction(currentSavedId)
+      .then(({ lastViewedAt }) => {
+        setSearches(
+          (prev) =>
+            prev?.map((search) =>
+              search.id === currentSavedId
+                ? {
+                    ...search,
+                    last_viewed_at: lastViewedAt,
+                    newCount: 0,
+                    newCountCapped: false,
+                  }
+                : search,
+            ) ?? null,
+        );
+      })
+      .catch((error) => {
+        console.error("저장 검색 확인 처리 오류:", error);
+        viewedIdsRef.current.delete(currentSavedId);
+      });
+  }, [currentSavedId]);
+
+  // 현재 검색 저장
+  const handleSave = async () => {
+    if (saving || !canSave || currentSaved) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveSearchAction(currentQuery);
+      // 방금 저장한 검색은 이미 확인한 것으로 처리
+      viewedIdsRef.current.add(saved.id);
+      setSearches((prev) => [saved, ...(prev ?? [])]);
+      toast.success("검색을 저장했습니다.", { description: saved.name });
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "검색을 저장하는 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 저장 검색 삭제
+  const handleRemove = async (search: SavedSearchWithUpdates) => {
+    const previous = searches;
+    setSearches(
+      (prev) => prev?.filter((item) => item.id !== search.id) ?? null,
+    );
+    try {
+      await removeSavedSearchAction(search.id);
+    } catch (error) {
+      setSearches(previous);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "저장한 검색을 삭제하는 중 오류가 발생했습니다.",
+      );
+    }
+  };
+
+  // 로그인하지 않은 경우 표시하지 않음
+  if (!isLoaded || !userId) return null;
+
+  return (
+    <section
+      aria-label="내 저장 검색"
+      className={cn("rounded-lg border p-4", className)}
+    >
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold">내 저장 검색</h2>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleSave}
+          disabled={!canSave || !!currentSaved || saving || searches === null}
+          title={
+            canSave ? undefined : "검색어나 필터를 선택하면 저장할 수 있습니다"
+          }
+          className="flex items-center gap-1.5"
+        >
+          {currentSaved ? (
+            <BookmarkCheck className="w-4 h-4" aria-hidden="true" />
+          ) : (
+            <BookmarkPlus className="w-4 h-4" aria-hidden="true" />
+          )}
+          {currentSaved ? "저장된 검색" : "현재 검색 저장"}
+        </Button>
+      </div>
+
+      {searches === null ? (
+        <div className="flex flex-wrap gap-2">
+          <Skeleton className="h-8 w-28 rounded-full" />
+          <Skeleton className="h-8 w-36 rounded-full" />
+        </div>
+      ) : searches.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          자주 찾는 검색어와 필터를 저장하면 마지막으로 확인한 뒤 새로 바뀐
+          관광지 수를 알려드립니다.
+        </p>
+      ) : (
+        <ul className="flex flex-wrap gap-2">
+          {searches.map((search) => {
+            const active = search.id === currentSaved?.id;
+            const hasNew = !!search.newCount && search.newCount > 0;
+            // 반려동물 동반 필터는 새 항목 수에 적용되지 않음
+            const unfiltered =
+              hasNew &&
+              !!parseHomeSearchParams(new URLSearchParams(search.query))
+                .petFriendly;
+
+            return (
+              <li
+                key={search.id}
+                className={cn(
+                  "flex items-center rounded-full border text-sm",
+                  active && "border-primary bg-primary/5",
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelect(search.query)}
+                  aria-current={active ? "true" : undefined}
+                  className="flex items-center gap-2 rounded-l-full py-1.5 pl-3 pr-2 hover:bg-accent"
+                >
+                  <span>{search.name}</span>
+                  {hasNew && (
+                    <span
+                      className="rounded-full bg-primary px-2 py-0.5 text-xs font-medium text-primary-foreground"
+                      title={
+                        unfiltered
+                          ? "마지막으로 확인한 뒤 새로 등록되거나 수정된 관광지 수 (반려동물 동반 여부와 관계없는 전체 수)"
+                          : "마지막으로 확인한 뒤 새로 등록되거나 수정된 관광지 수"
+                      }
+                    >
+                      {unfiltered && "전체 "}새 {search.newCount}
+                      {search.newCountCapped && "+"}
+                    </span>
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(search)}
+                  aria-label={`${search.name} 저장 검색 삭제`}
+                  className="rounded-r-full py-1.5 pl-1 pr-2.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+                >
+                  <X className="w-3.5 h-3.5" aria-hidden="true" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
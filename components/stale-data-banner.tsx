@@ -0,0 +1,42 @@
+/**
+ * @file stale-data-banner.tsx
+ * @description 이전 정보 표시 안내 배너
+ *
+ * 한국관광공사 API 장애로 마지막으로 성공한 이전 응답(stale: true)을 보여줄 때
+ * 에러 페이지 대신 화면 상단에 표시합니다.
+ *
+ * @dependencies
+ * - lucide-react: TriangleAlert 아이콘
+ *
+ * @see {@link lib/api/tour-api.ts} - 장애 시 이전 응답 반환
+ */
+
+import { TriangleAlert } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StaleDataBannerProps {
+  /** 추가 CSS 클래스 */
+  className?: string;
+}
+
+/**
+ * 이전 정보 표시 안내 배너
+ * @param className 추가 CSS 클래스
+ */
+export function StaleDataBanner({ className }: StaleDataBannerProps) {
+  return (
+    <div
+      role="status"
+      className={cn(
+        "flex items-start gap-2 rounded-md border border-yellow-500/50 bg-yellow-50 px-4 py-3 text-sm text-yellow-900 dark:bg-yellow-950/40 dark:text-yellow-200",
+        className,
+      )}
+    >
+      <TriangleAlert className="w-4 h-4 mt-0.5 shrink-0" />
+      <p>
+        관광 정보 서버에 일시적으로 연결할 수 없어 이전에 불러온 정보를
+        표시합니다. 최신 정보가 아닐 수 있습니다.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+/**
+ * @file lodging-filters.tsx
+ * @description 숙박 검색 조건 컴포넌트
+ *
+ * 이 컴포넌트는 detailIntro2 숙박 정보를 기준으로 숙소를 좁히는 조건을 선택하는 기능을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 주차 가능 / 취사 가능 토글
+ * 2. 최소 객실 수 선택
+ * 3. 입실 가능 시각 / 퇴실 시각 선택
+ * 4. 조건 초기화
+ *
+ * 핵심 구현 로직:
+ * - Controlled component 패턴 (values + onChange)
+ * - Select의 "all" 값은 조건 해제(undefined)로 처리
+ *
+ * @dependencies
+ * - lib/types/tour.ts: LodgingFilters 타입
+ * - lib/utils/lodging.ts: hasLodgingFilters 함수
+ * - components/ui/select.tsx, button.tsx
+ * - lucide-react: 아이콘 (Car, CookingPot, BedDouble, LogIn, LogOut, RotateCcw)
+ */
+
+"use client";
+
+import {
+  BedDouble,
+  Car,
+  CookingPot,
+  LogIn,
+  LogOut,
+  RotateCcw,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { hasLodgingFilters } from "@/lib/utils/lodging";
+import type { LodgingFilters as LodgingFiltersValues } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+
+const MIN_ROOM_OPTIONS = [10, 30, 50, 100];
+const CHECK_IN_OPTIONS = [13, 14, 15, 16];
+const CHECK_OUT_OPTIONS = [11, 12, 13];
+
+interface LodgingFiltersProps {
+  /** 현재 숙박 검색 조건 */
+  values: LodgingFiltersValues;
+  /** 조건 변경 시 호출되는 콜백 */
+  onChange: (values: LodgingFiltersValues) => void;
+  /** 비활성화 (숙박 정보 조회 중) */
+  disabled?: boolean;
+  /** 추가 CSS 클래스 */
+  className?: string;
+}
+
+/**
+ * Select 값 → 숫자 조건 ("all"이면 undefined)
+ */
+function toNumberFilter(value: string): number | undefined {
+  return value === "all" ? undefined : Number(value);
+}
+
+/**
+ * 숙박 검색 조건 컴포넌트
+ * @param values 현재 조건
+ * @param onChange 조건 변경 콜백
+ * @param disabled 비활성화 여부
+ * @param className 추가 CSS 클래스
+ */
+export function LodgingFilters({
+  values,
+  onChange,
+  disabled = false,
+  className,
+}: LodgingFiltersProps) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 overflow-x-auto pb-2 lg:pb-0 lg:flex-wrap",
+        className,
+      )}
+    >
+      <Button
+        variant={values.parking ? "default" : "outline"}
+        size="sm"
+        onClick={() => onChange({ ...values, parking: !values.parking })}
+        aria-pressed={!!values.parking}
+        disabled={disabled}
+        className="shrink-0 gap-1.5"
+      >
+        <Car className="w-4 h-4" />
+        주차 가능
+      </Button>
+
+      <Button
+        variant={values.cooking ? "default" : "outline"}
+        size="sm"
+        onClick={() => onChange({ ...values, cooking: !values.cooking })}
+        aria-pressed={!!values.cooking}
+        disabled={disabled}
+        className="shrink-0 gap-1.5"
+      >
+        <CookingPot className="w-4 h-4" />
+        취사 가능
+      </Button>
+
+      <div className="flex items-center gap-1.5 shrink-0">
+        <BedDouble className="w-4 h-4 text-muted-foreground" />
+        <Select
+          value={values.minRooms?.toString() ?? "all"}
+          onValueChange={(value) =>
+            onChange({ ...values, minRooms: toNumberFilter(value) })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-32 text-sm" aria-label="최소 객실 수">
+            <SelectValue placeholder="객실 수" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">객실 수 전체</SelectItem>
+            {MIN_ROOM_OPTIONS.map((count) => (
+              <SelectItem key={count} value={String(count)}>
+                {count}실 이상
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-1.5 shrink-0">
+        <LogIn className="w-4 h-4 text-muted-foreground" />
+        <Select
+          value={values.checkInBy?.toString() ?? "all"}
+          onValueChange={(value) =>
+            onChange({ ...values, checkInBy: toNumberFilter(value) })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-36 text-sm" aria-label="입실 시각">
+            <SelectValue placeholder="입실" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">입실 시각 전체</SelectItem>
+            {CHECK_IN_OPTIONS.map((hour) => (
+              <SelectItem key={hour} value={String(hour)}>
+                {hour}시 이전 입실
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-1.5 shrink-0">
+        <LogOut className="w-4 h-4 text-muted-foreground" />
+        <Select
+          value={values.checkOutFrom?.toString() ?? "all"}
+          onValueChange={(value) =>
+            onChange({ ...values, checkOutFrom: toNumberFilter(value) })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-36 text-sm" aria-label="퇴실 시각">
+            <SelectValue placeholder="퇴실" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">퇴실 시각 전체</SelectItem>
+            {CHECK_OUT_OPTIONS.map((hour) => (
+              <SelectItem key={hour} value={String(hour)}>
+                {hour}시 이후 퇴실
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {hasLodgingFilters(values) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({})}
+          className="shrink-0 gap-1.5"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span className="hidden sm:inline">조건 초기화</span>
+        </Button>
+      )}
+    </div>
+  );
+}
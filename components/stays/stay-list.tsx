@@ -0,0 +1,113 @@
+/**
+ * @file stay-list.tsx
+ * @description 숙박 목록 컴포넌트
+ *
+ * 이 컴포넌트는 숙소 카드(TourCard)와 함께 입실/퇴실 시간, 주차, 취사, 객실 수 요약을 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 숙소 카드 그리드 (TourCard 재사용)
+ * 2. 숙박 정보 요약 (조회 중이면 스켈레톤)
+ * 3. 로딩 및 빈 상태 표시
+ *
+ * @dependencies
+ * - components/tour-card.tsx: TourCard 컴포넌트
+ * - lib/types/tour.ts: TourItem, LodgingInfo 타입
+ * - lucide-react: BedDouble 아이콘
+ */
+
+import { BedDouble } from "lucide-react";
+import { TourCard } from "@/components/tour-card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { LodgingInfo, TourItem } from "@/lib/types/tour";
+
+interface StayListProps {
+  /** 숙소 목록 */
+  stays: TourItem[];
+  /** contentid → 숙박 정보 (조회 전이면 항목 없음, 실패 시 null) */
+  lodgingInfos: Map<string, LodgingInfo | null>;
+  /** 목록 로딩 상태 */
+  loading?: boolean;
+  /** 빈 상태 메시지 */
+  emptyMessage?: string;
+}
+
+/**
+ * 숙박 정보 요약 문자열 목록
+ */
+function getLodgingSummary(info: LodgingInfo): string[] {
+  const summary: string[] = [];
+
+  if (info.checkInTime || info.checkOutTime) {
+    summary.push(
+      `입실 ${info.checkInTime ?? "-"} / 퇴실 ${info.checkOutTime ?? "-"}`,
+    );
+  }
+  if (info.parking !== undefined) {
+    summary.push(info.parking ? "주차 가능" : "주차 불가");
+  }
+  if (info.cooking !== undefined) {
+    summary.push(info.cooking ? "취사 가능" : "취사 불가");
+  }
+  if (info.roomCount !== undefined) {
+    summary.push(`객실 ${info.roomCount}실`);
+  }
+
+  return summary;
+}
+
+/**
+ * 숙박 목록 컴포넌트
+ * @param stays 숙소 목록
+ * @param lodgingInfos 숙박 정보
+ * @param loading 로딩 상태
+ * @param emptyMessage 빈 상태 메시지
+ */
+export function StayList({
+  stays,
+  lodgingInfos,
+  loading = false,
+  emptyMessage = "조건에 맞는 숙소가 없습니다.",
+}: StayListProps) {
+  if (loading) {
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {Array.from({ length: 6 }).map((_, index) => (
+          <Skeleton key={index} className="h-80 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (stays.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center text-muted-foreground">
+        <BedDouble className="w-12 h-12 mb-4 opacity-50" />
+        <p>{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+      {stays.map((stay) => {
+        const info = lodgingInfos.get(stay.contentid);
+        const summary = info ? getLodgingSummary(info) : [];
+
+        return (
+          <div key={stay.contentid} className="flex flex-col gap-2">
+            <TourCard tour={stay} />
+            {info === undefined ? (
+              <Skeleton className="h-4 w-3/4" />
+            ) : (
+              summary.length > 0 && (
+                <p className="text-xs text-muted-foreground px-1">
+                  {summary.join(" · ")}
+                </p>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -7,10 +7,11 @@
  * 주요 기능:
  * 1. 썸네일 이미지 표시 (기본 이미지 fallback)
  * 2. 관광지명 표시
- * 3. 주소 표시
- * 4. 관광 타입 뱃지 표시
- * 5. 클릭 시 상세페이지 이동
- * 6. 호버 효과 및 스타일링
+ * 3. 지역 경로(예: "부산 > 해운대구") 및 주소 표시
+ * 4. 관광 타입 뱃지 및 서비스 분류명 표시 (예: "국립공원")
+ * 5. 거리 표시 (위치 기반 조회 결과인 경우)
+ * 6. 클릭 시 상세페이지 이동
+ * 7. 호버 효과 및 스타일링
  *
  * 핵심 구현 로직:
  * - TourItem 타입을 props로 받아 표시
@@ -21,10 +22,13 @@
  * @dependencies
  * - lib/types/tour.ts: TourItem 타입
  * - lib/constants/content-types.ts: getContentTypeName 함수
+ * - lib/utils/geo.ts: formatDistance 함수
+ * - hooks/use-category-path.ts: 분류 코드 → 분류명 변환 훅
+ * - hooks/use-area-path.ts: 지역 코드 → 지역명 변환 훅
  * - components/ui/card.tsx: shadcn Card 컴포넌트
  * - next/image: Next.js Image 컴포넌트
  * - next/link: Next.js Link 컴포넌트
- * - lucide-react: MapPin 아이콘
+ * - lucide-react: MapPin, Navigation 아이콘
  *
  * @see {@link /docs/PRD.md#2-1-관광지-목록--지역타입-필터} - 기능 명세
  */
@@ -32,11 +36,14 @@
 import { useState, memo } from "react";
 import Image from "next/image";
 import Link from "next/link";
-import { MapPin } from "lucide-react";
+import { MapPin, Navigation } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { TourItem } from "@/lib/types/tour";
 import { getContentTypeName } from "@/lib/constants/content-types";
+import { formatDistance } from "@/lib/utils/geo";
+import { useCategoryPath } from "@/hooks/use-category-path";
+import { useAreaPath } from "@/hooks/use-area-path";
 import { cn } from "@/lib/utils";
 
 interface TourCardProps {
@@ -57,9 +64,15 @@ export const TourCard = memo(function TourCard({ tour, className }: TourCardProp
     title,
     addr1,
     addr2,
+    areacode,
+    sigungucode,
     firstimage,
     firstimage2,
     contenttypeid,
+    cat1,
+    cat2,
+    cat3,
+    dist,
   } = tour;
 
   // 이미지 로딩 상태 관리
@@ -74,6 +87,16 @@ export const TourCard = memo(function TourCard({ tour, className }: TourCardProp
     contenttypeid as Parameters<typeof getContentTypeName>[0],
   );
 
+  // 지역 경로 (시/도 > 시/군/구)
+  const areaNames = useAreaPath(areacode, sigungucode);
+
+  // 서비스 분류명 (가장 하위 분류만 표시)
+  const categoryNames = useCategoryPath(cat1, cat2, cat3);
+  const categoryName = categoryNames[categoryNames.length - 1];
+
+  // 거리 표시 (위치 기반 조회 결과인 경우에만)
+  const distanceLabel = formatDistance(dist);
+
   // 기본 placeholder 이미지 (이미지가 없을 경우)
   const defaultImageUrl =
     "https://via.placeholder.com/400x225/CCCCCC/666666?text=No+Image";
@@ -133,6 +156,11 @@ export const TourCard = memo(function TourCard({ tour, className }: TourCardProp
           <div className="flex items-start gap-1.5 text-sm text-muted-foreground">
             <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0" />
             <div className="flex-1 min-w-0">
+              {areaNames.length > 0 && (
+                <p className="line-clamp-1 text-xs font-medium text-foreground/80">
+                  {areaNames.join(" > ")}
+                </p>
+              )}
               <p className="line-clamp-1">{addr1}</p>
               {addr2 && (
                 <p className="line-clamp-1 text-xs text-muted-foreground/80">
@@ -142,12 +170,25 @@ export const TourCard = memo(function TourCard({ tour, className }: TourCardProp
             </div>
           </div>
 
-          {/* 관광 타입 뱃지 */}
-          {contentTypeName && (
+          {/* 관광 타입 뱃지 및 거리 */}
+          {(contentTypeName || categoryName || distanceLabel) && (
             <div className="flex items-center gap-2 pt-1">
-              <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary border border-primary/20">
-                {contentTypeName}
-              </span>
+              {contentTypeName && (
+                <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary border border-primary/20">
+                  {contentTypeName}
+                </span>
+              )}
+              {categoryName && (
+                <span className="text-xs text-muted-foreground line-clamp-1">
+                  {categoryName}
+                </span>
+              )}
+              {distanceLabel && (
+                <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                  <Navigation className="w-3 h-3" />
+                  {distanceLabel}
+                </span>
+              )}
             </div>
           )}
         </CardContent>
@@ -0,0 +1,103 @@
+/**
+ * @file detail-course.tsx
+ * @description 여행코스 일정 섹션 컴포넌트
+ *
+ * 이 컴포넌트는 여행코스(contentTypeId "25")의 하위 코스를 순서대로 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 코스 순번과 코스명 표시 (타임라인 형태)
+ * 2. 코스 개요 및 이미지 표시 (있는 경우)
+ * 3. 하위 코스의 관광지 상세페이지 링크 (subcontentid가 있는 경우)
+ *
+ * 핵심 구현 로직:
+ * - TourCourseStop 목록은 normalizeRepeatInfo에서 순번 순으로 정렬된 상태로 전달
+ * - 개요의 HTML 태그는 텍스트로 변환
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourCourseStop 타입
+ * - lib/utils/html.ts: stripHtml
+ * - components/ui/card.tsx: Card 컴포넌트
+ * - lucide-react: Route, ChevronRight 아이콘
+ */
+
+import Image from "next/image";
+import Link from "next/link";
+import { Route, ChevronRight } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { stripHtml } from "@/lib/utils/html";
+import type { TourCourseStop } from "@/lib/types/tour";
+
+interface DetailCourseProps {
+  /** 하위 코스 목록 (순번 순) */
+  stops: TourCourseStop[];
+}
+
+/**
+ * 여행코스 일정 섹션 컴포넌트
+ */
+export function DetailCourse({ stops }: DetailCourseProps) {
+  if (stops.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          <span>코스 일정</span>
+          <span className="text-sm font-normal text-muted-foreground">
+            총 {stops.length}곳
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="relative space-y-6 border-l border-border ml-3">
+          {stops.map((stop, index) => {
+            const overview = stop.subdetailoverview
+              ? stripHtml(stop.subdetailoverview)
+              : "";
+
+            return (
+              <li key={`${stop.subnum}-${stop.subname}`} className="ml-6">
+                <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-primary text-xs font-semibold text-primary-foreground">
+                  {index + 1}
+                </span>
+                <div className="space-y-2">
+                  {stop.subcontentid ? (
+                    <Link
+                      href={`/places/${stop.subcontentid}`}
+                      className="inline-flex items-center gap-1 font-semibold hover:text-primary hover:underline"
+                    >
+                      {stop.subname}
+                      <ChevronRight className="h-4 w-4" />
+                    </Link>
+                  ) : (
+                    <p className="font-semibold">{stop.subname}</p>
+                  )}
+                  {stop.subdetailimg && (
+                    <div className="relative w-full max-w-sm aspect-video rounded-md overflow-hidden bg-muted">
+                      <Image
+                        src={stop.subdetailimg}
+                        alt={stop.subdetailalt || stop.subname}
+                        fill
+                        loading="lazy"
+                        className="object-cover"
+                        sizes="(max-width: 768px) 100vw, 384px"
+                      />
+                    </div>
+                  )}
+                  {overview && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">
+                      {overview}
+                    </p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
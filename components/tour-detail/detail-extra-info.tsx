@@ -0,0 +1,61 @@
+/**
+ * @file detail-extra-info.tsx
+ * @description 추가 정보 섹션 컴포넌트 (반복 정보 표)
+ *
+ * 이 컴포넌트는 detailInfo2의 반복 정보(화장실, 입장료, 이용 안내 등)를 항목/내용 표로 표시합니다.
+ * 여행코스와 숙박을 제외한 콘텐츠 타입에서 사용합니다.
+ *
+ * 핵심 구현 로직:
+ * - 내용의 HTML 태그는 텍스트로 변환 (<br>은 줄바꿈)
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourInfoItem 타입
+ * - lib/utils/html.ts: stripHtml
+ * - components/ui/card.tsx: Card 컴포넌트
+ * - lucide-react: ListChecks 아이콘
+ */
+
+import { ListChecks } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { stripHtml } from "@/lib/utils/html";
+import type { TourInfoItem } from "@/lib/types/tour";
+
+interface DetailExtraInfoProps {
+  /** 반복 정보 항목 목록 */
+  items: TourInfoItem[];
+}
+
+/**
+ * 추가 정보 섹션 컴포넌트
+ */
+export function DetailExtraInfo({ items }: DetailExtraInfoProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          <span>추가 정보</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <dl className="divide-y">
+          {items.map((item) => (
+            <div
+              key={`${item.serialnum}-${item.infoname}`}
+              className="grid grid-cols-1 sm:grid-cols-[8rem_1fr] gap-1 sm:gap-4 py-3"
+            >
+              <dt className="text-sm text-muted-foreground">{item.infoname}</dt>
+              <dd className="text-base whitespace-pre-wrap break-words">
+                {stripHtml(item.infotext)}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,13 +5,13 @@
  * 이 컴포넌트는 관광지의 기본 정보를 표시합니다.
  *
  * 주요 기능:
- * 1. 관광지명 표시 (대제목)
+ * 1. 관광지명 및 지역 경로 표시 (대제목, 예: 부산 > 해운대구)
  * 2. 대표 이미지 표시 (크게)
  * 3. 주소 표시 및 복사 기능
  * 4. 전화번호 표시 및 클릭 시 전화 연결 (tel: 링크)
  * 5. 홈페이지 표시 (링크)
  * 6. 개요 표시 (긴 설명문)
- * 7. 관광 타입 및 카테고리 뱃지 표시
+ * 7. 관광 타입 뱃지 및 서비스 분류 경로 표시 (예: 자연 > 자연관광지 > 국립공원)
  * 8. 정보 없는 항목 숨김 처리
  *
  * 핵심 구현 로직:
@@ -23,6 +23,8 @@
  * @dependencies
  * - lib/types/tour.ts: TourDetail 타입
  * - lib/constants/content-types.ts: getContentTypeName 함수
+ * - hooks/use-category-path.ts: 분류 코드 → 분류명 변환 훅
+ * - hooks/use-area-path.ts: 지역 코드 → 지역명 변환 훅
  * - components/ui/card.tsx: Card 컴포넌트
  * - components/ui/button.tsx: Button 컴포넌트
  * - next/image: Next.js Image 컴포넌트
@@ -42,6 +44,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import type { TourDetail } from "@/lib/types/tour";
 import { getContentTypeName } from "@/lib/constants/content-types";
+import { useCategoryPath } from "@/hooks/use-category-path";
+import { useAreaPath } from "@/hooks/use-area-path";
 import { toast } from "sonner";
 
 interface DetailInfoProps {
@@ -55,6 +59,12 @@ interface DetailInfoProps {
 export function DetailInfo({ detail }: DetailInfoProps) {
   const [copied, setCopied] = useState(false);
 
+  // 서비스 분류명 경로 (대분류 > 중분류 > 소분류)
+  const categoryNames = useCategoryPath(detail.cat1, detail.cat2, detail.cat3);
+
+  // 지역 경로 (시/도 > 시/군/구)
+  const areaNames = useAreaPath(detail.areacode, detail.sigungucode);
+
   // 관광 타입명 조회
   const contentTypeName = getContentTypeName(
     detail.contenttypeid as Parameters<typeof getContentTypeName>[0],
@@ -131,18 +141,21 @@ export function DetailInfo({ detail }: DetailInfoProps) {
 
       {/* 관광지명 및 타입 뱃지 */}
       <div>
+        {areaNames.length > 0 && (
+          <p className="text-sm text-muted-foreground mb-1">
+            {areaNames.join(" > ")}
+          </p>
+        )}
         <h1 className="text-3xl font-bold mb-2">{detail.title}</h1>
         {contentTypeName && (
           <div className="flex items-center gap-2 mt-2">
             <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-primary/10 text-primary border border-primary/20">
               {contentTypeName}
             </span>
-            {/* 카테고리 정보 (있는 경우) */}
-            {detail.cat1 && (
+            {/* 서비스 분류 경로 (있는 경우) */}
+            {categoryNames.length > 0 && (
               <span className="text-sm text-muted-foreground">
-                {detail.cat1}
-                {detail.cat2 && ` > ${detail.cat2}`}
-                {detail.cat3 && ` > ${detail.cat3}`}
+                {categoryNames.join(" > ")}
               </span>
             )}
           </div>
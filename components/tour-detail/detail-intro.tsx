@@ -13,15 +13,18 @@
  * 6. 체험 프로그램 표시 (있는 경우)
  * 7. 유모차/반려동물 동반 가능 여부 표시
  * 8. 타입별 필드 차이 처리 (contentTypeId에 따라)
+ * 9. 숙박(contentTypeId "32")은 입실/퇴실, 객실, 주차, 취사, 예약 등 숙박 전용 필드 표시
  *
  * 핵심 구현 로직:
  * - TourIntro 타입을 props로 받아 표시
  * - contentTypeId에 따라 다른 필드명 사용
  * - 정보 없는 항목 숨김 처리
+ * - 숙박 필드는 LODGING_FIELDS 목록 순서대로 표시 (HTML 태그가 포함된 값은 텍스트만 표시)
  * - 카드 기반 레이아웃으로 섹션 구분
  *
  * @dependencies
  * - lib/types/tour.ts: TourIntro 타입
+ * - lib/utils/html.ts: stripHtml, extractUrl
  * - components/ui/card.tsx: Card 컴포넌트
  * - lucide-react: 아이콘
  *
@@ -39,10 +42,92 @@ import {
   Baby,
   Dog,
   Info,
+  LogIn,
+  LogOut,
+  BedDouble,
+  CookingPot,
+  CalendarCheck,
+  Utensils,
+  Bus,
+  type LucideIcon,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LODGING_CONTENT_TYPE_ID } from "@/lib/utils/lodging";
+import { extractUrl, stripHtml } from "@/lib/utils/html";
 import type { TourIntro } from "@/lib/types/tour";
 
+/**
+ * 숙박 전용 표시 필드 (detailIntro2 숙박 타입 응답)
+ */
+const LODGING_FIELDS: { key: string; label: string; icon: LucideIcon }[] = [
+  { key: "checkintime", label: "입실 시간", icon: LogIn },
+  { key: "checkouttime", label: "퇴실 시간", icon: LogOut },
+  { key: "roomcount", label: "객실 수", icon: BedDouble },
+  { key: "roomtype", label: "객실 유형", icon: BedDouble },
+  { key: "accomcountlodging", label: "수용 가능 인원", icon: Users },
+  { key: "parkinglodging", label: "주차", icon: Car },
+  { key: "chkcooking", label: "객실 내 취사", icon: CookingPot },
+  { key: "foodplace", label: "식음료장", icon: Utensils },
+  { key: "pickup", label: "픽업 서비스", icon: Bus },
+  { key: "subfacility", label: "부대시설", icon: Info },
+  { key: "reservationlodging", label: "예약 안내", icon: CalendarCheck },
+  { key: "reservationurl", label: "예약 페이지", icon: CalendarCheck },
+  { key: "infocenterlodging", label: "문의처", icon: Info },
+];
+
+/**
+ * 숙박 정보 섹션
+ */
+function LodgingIntro({ intro }: { intro: TourIntro }) {
+  const fields = LODGING_FIELDS.map((field) => {
+    const raw = intro[field.key] ?? "";
+    return {
+      ...field,
+      value: stripHtml(raw),
+      url: field.key === "reservationurl" ? extractUrl(raw) : null,
+    };
+  }).filter((field) => field.value.length > 0 || field.url);
+
+  if (fields.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BedDouble className="h-5 w-5" />
+          <span>숙박 정보</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fields.map(({ key, label, icon: Icon, value, url }) => (
+          <div key={key} className="flex items-start gap-2">
+            <Icon className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-muted-foreground mb-1">{label}</p>
+              {url ? (
+                <a
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-base text-primary hover:underline break-all"
+                >
+                  {value || url}
+                </a>
+              ) : (
+                <p className="text-base break-words whitespace-pre-wrap">
+                  {value}
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
 interface DetailIntroProps {
   /** 관광지 운영 정보 */
   intro: TourIntro | null;
@@ -57,6 +142,11 @@ export function DetailIntro({ intro }: DetailIntroProps) {
     return null;
   }
 
+  // 숙박은 숙박 전용 필드로 표시
+  if (intro.contenttypeid === LODGING_CONTENT_TYPE_ID) {
+    return <LodgingIntro intro={intro} />;
+  }
+
   // 필드명 추출 (타입별로 다를 수 있음)
   const getField = (key: string): string | undefined => {
     return intro[key];
@@ -0,0 +1,212 @@
+/**
+ * @file detail-pet.tsx
+ * @description 반려동물 동반 정책 섹션 컴포넌트
+ *
+ * 이 컴포넌트는 detailPetTour2에서 조회한 반려동물 동반 정책을 구조화하여 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 동반 가능 구역 표시 (전 구역/일부 구역/동반 불가)
+ * 2. 동반 가능 크기 뱃지 (소형견/중형견/대형견)
+ * 3. 동반 시 필요사항 체크리스트
+ * 4. 구비 시설, 제공 품목, 사고 대비사항, 기타 정보 표시
+ *
+ * 핵심 구현 로직:
+ * - PetPolicy는 lib/utils/pet.ts의 parsePetPolicy로 변환된 값을 전달받음
+ * - 크기를 판단할 수 없으면 동반 가능 동물 원문을 표시
+ *
+ * @dependencies
+ * - lib/types/tour.ts: PetPolicy 타입
+ * - lib/utils/pet.ts: PET_SIZE_LABELS, PET_AREA_LABELS
+ * - lib/utils/html.ts: stripHtml
+ * - components/ui/card.tsx: Card 컴포넌트
+ * - lucide-react: 아이콘
+ */
+
+import {
+  PawPrint,
+  MapPinned,
+  Ruler,
+  ClipboardCheck,
+  Check,
+  Building2,
+  Package,
+  ShieldAlert,
+  Info,
+  type LucideIcon,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PET_AREA_LABELS, PET_SIZE_LABELS } from "@/lib/utils/pet";
+import { stripHtml } from "@/lib/utils/html";
+import type { PetPolicy } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+
+interface DetailPetProps {
+  /** 반려동물 동반 정책 */
+  policy: PetPolicy;
+}
+
+/**
+ * 항목 목록 행 (목록이 비어 있으면 렌더링하지 않음)
+ */
+function PetItemList({
+  icon: Icon,
+  label,
+  items,
+}: {
+  icon: LucideIcon;
+  label: string;
+  items: string[];
+}) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-start gap-2">
+      <Icon className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-muted-foreground mb-1">{label}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {items.map((item) => (
+            <span
+              key={item}
+              className="px-2 py-0.5 rounded-full text-xs bg-muted text-muted-foreground"
+            >
+              {item}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 반려동물 동반 정책 섹션 컴포넌트
+ */
+export function DetailPet({ policy }: DetailPetProps) {
+  const areaLabel = policy.area
+    ? PET_AREA_LABELS[policy.area]
+    : policy.areaText;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PawPrint className="h-5 w-5" />
+          <span>반려동물 동반</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* 동반 가능 구역 */}
+        {areaLabel && (
+          <div className="flex items-start gap-2">
+            <MapPinned className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-muted-foreground mb-1">동반 구역</p>
+              <p
+                className={cn(
+                  "text-base font-medium",
+                  policy.accepted ? "text-primary" : "text-destructive",
+                )}
+              >
+                {areaLabel}
+              </p>
+              {policy.area === "partial" &&
+                policy.areaText &&
+                policy.areaText !== areaLabel && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {policy.areaText}
+                  </p>
+                )}
+            </div>
+          </div>
+        )}
+
+        {/* 동반 가능 크기 */}
+        {(policy.sizes.length > 0 || policy.allowedAnimals) && (
+          <div className="flex items-start gap-2">
+            <Ruler className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-muted-foreground mb-1">
+                동반 가능 크기
+              </p>
+              {policy.sizes.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mb-1">
+                  {policy.sizes.map((size) => (
+                    <span
+                      key={size}
+                      className="px-2 py-0.5 rounded-full text-xs bg-primary/10 text-primary"
+                    >
+                      {PET_SIZE_LABELS[size]}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {policy.allowedAnimals && (
+                <p className="text-sm break-words whitespace-pre-wrap">
+                  {stripHtml(policy.allowedAnimals)}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* 동반 시 필요사항 */}
+        {policy.requiredItems.length > 0 && (
+          <div className="flex items-start gap-2">
+            <ClipboardCheck className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-muted-foreground mb-1">
+                동반 시 필요사항
+              </p>
+              <ul className="space-y-1">
+                {policy.requiredItems.map((item) => (
+                  <li key={item} className="flex items-start gap-1.5 text-base">
+                    <Check className="h-4 w-4 mt-1 text-primary shrink-0" />
+                    <span className="break-words">{item}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        <PetItemList
+          icon={Building2}
+          label="구비 시설"
+          items={policy.facilities}
+        />
+        <PetItemList
+          icon={Package}
+          label="비치·대여·구매 품목"
+          items={policy.providedItems}
+        />
+
+        {policy.accidentPreparation && (
+          <div className="flex items-start gap-2">
+            <ShieldAlert className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-muted-foreground mb-1">사고 대비사항</p>
+              <p className="text-base break-words whitespace-pre-wrap">
+                {stripHtml(policy.accidentPreparation)}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {policy.etc && (
+          <div className="flex items-start gap-2">
+            <Info className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-muted-foreground mb-1">기타 안내</p>
+              <p className="text-base break-words whitespace-pre-wrap">
+                {stripHtml(policy.etc)}
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * @file detail-rooms.tsx
+ * @description 숙박 객실 정보 섹션 컴포넌트
+ *
+ * 이 컴포넌트는 숙박(contentTypeId "32")의 객실 유형을 카드로 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 객실명, 크기, 객실 수, 기준/최대 인원 표시
+ * 2. 비수기/성수기 주중/주말 최소 요금 표시
+ * 3. 객실 내 시설 뱃지 표시
+ * 4. 객실 대표 이미지 표시 (있는 경우)
+ *
+ * 핵심 구현 로직:
+ * - 요금은 숫자로 변환 가능한 경우 "원" 단위로 표시, 0 또는 값 없음은 숨김
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourRoomInfo 타입
+ * - lib/utils/html.ts: stripHtml
+ * - components/ui/card.tsx: Card 컴포넌트
+ * - lucide-react: BedDouble, Users, Ruler 아이콘
+ */
+
+import Image from "next/image";
+import { BedDouble, Users, Ruler } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { stripHtml } from "@/lib/utils/html";
+import type { TourRoomInfo } from "@/lib/types/tour";
+
+interface DetailRoomsProps {
+  /** 객실 목록 */
+  rooms: TourRoomInfo[];
+}
+
+/**
+ * 요금 표시 (숫자가 아니거나 0이면 null)
+ */
+function formatFee(fee?: string): string | null {
+  const amount = Number(fee?.replace(/[^0-9]/g, ""));
+  if (!fee || !Number.isFinite(amount) || amount <= 0) {
+    return null;
+  }
+  return `${amount.toLocaleString()}원`;
+}
+
+/**
+ * 객실 요금표 행
+ */
+function getFeeRows(room: TourRoomInfo) {
+  return [
+    {
+      label: "비수기",
+      weekday: formatFee(room.roomoffseasonminfee1),
+      weekend: formatFee(room.roomoffseasonminfee2),
+    },
+    {
+      label: "성수기",
+      weekday: formatFee(room.roompeakseasonminfee1),
+      weekend: formatFee(room.roompeakseasonminfee2),
+    },
+  ].filter((row) => row.weekday || row.weekend);
+}
+
+/**
+ * 숙박 객실 정보 섹션 컴포넌트
+ */
+export function DetailRooms({ rooms }: DetailRoomsProps) {
+  if (rooms.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BedDouble className="h-5 w-5" />
+          <span>객실 정보</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid gap-4 sm:grid-cols-2">
+        {rooms.map((room) => {
+          const image = room.images[0];
+          const feeRows = getFeeRows(room);
+          const size = room.roomsize2
+            ? `${room.roomsize2}㎡`
+            : room.roomsize1
+              ? `${room.roomsize1}평`
+              : null;
+
+          return (
+            <div
+              key={room.roomcode || room.roomtitle}
+              className="rounded-lg border overflow-hidden"
+            >
+              {image && (
+                <div className="relative w-full aspect-video bg-muted">
+                  <Image
+                    src={image.url}
+                    alt={image.alt || room.roomtitle}
+                    fill
+                    loading="lazy"
+                    className="object-cover"
+                    sizes="(max-width: 640px) 100vw, 50vw"
+                  />
+                </div>
+              )}
+              <div className="p-4 space-y-3">
+                <h3 className="font-semibold">{room.roomtitle}</h3>
+
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                  {size && (
+                    <span className="flex items-center gap-1">
+                      <Ruler className="h-4 w-4" />
+                      {size}
+                    </span>
+                  )}
+                  {(room.roombasecount || room.roommaxcount) && (
+                    <span className="flex items-center gap-1">
+                      <Users className="h-4 w-4" />
+                      기준 {room.roombasecount ?? "-"}명 / 최대{" "}
+                      {room.roommaxcount ?? "-"}명
+                    </span>
+                  )}
+                  {room.roomcount && <span>객실 {room.roomcount}개</span>}
+                </div>
+
+                {feeRows.length > 0 && (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="text-left font-normal py-1">요금</th>
+                        <th className="text-right font-normal py-1">주중</th>
+                        <th className="text-right font-normal py-1">주말</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {feeRows.map((row) => (
+                        <tr key={row.label} className="border-t">
+                          <td className="py-1">{row.label}</td>
+                          <td className="py-1 text-right">
+                            {row.weekday ?? "-"}
+                          </td>
+                          <td className="py-1 text-right">
+                            {row.weekend ?? "-"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {room.amenities.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {room.amenities.map((amenity) => (
+                      <span
+                        key={amenity}
+                        className="px-2 py-0.5 rounded-full text-xs bg-muted text-muted-foreground"
+                      >
+                        {amenity}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {room.roomintro && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">
+                    {stripHtml(room.roomintro)}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,23 +6,37 @@
  *
  * 주요 기능:
  * 1. 지역 필터 (시/도 선택) - areaCode2 API 연동
- * 2. 관광 타입 필터 (ContentTypeId 선택)
- * 3. 필터 초기화 기능
- * 4. 반응형 디자인 (데스크톱: 가로 배치, 모바일: 스크롤 가능한 버튼)
+ * 2. 시/군/구 필터 (showSigungu, 시/도 선택 시 areaCode2로 하위 지역 조회)
+ * 3. 관광 타입 필터 (ContentTypeId 선택)
+ * 4. 서비스 분류 필터 (showCategory, 대/중/소분류 단계 선택)
+ * 5. 반려동물 동반 토글 (showPetFriendly)
+ * 6. 필터 초기화 기능
+ * 7. 반응형 디자인 (데스크톱: 가로 배치, 모바일: 스크롤 가능한 버튼)
+ * 8. 지역/관광 타입 다중 선택 (multiple - areaCodes, contentTypeIds 사용)
  *
  * 핵심 구현 로직:
  * - Controlled component 패턴 (values + onChange)
  * - 지역 목록은 컴포넌트 마운트 시 한 번만 로드
+ * - 시/군/구 목록은 시/도가 바뀔 때마다 로드 (시/도 변경 시 시/군/구 선택 초기화)
+ * - 지역/시군구 목록은 lib/api/tour-areas.ts 캐시를 통해 조회 (같은 지역은 한 번만 호출)
+ * - 관광 타입 변경 시 서비스 분류 선택 초기화 (타입마다 사용하는 분류가 다름)
+ * - 다중 선택 모드
+ *   - 지역/관광 타입은 각각 최대 TOUR_FANOUT_MAX_SELECTIONS개 (조합마다 API를 호출하므로 제한)
+ *   - 시/군/구는 지역을 하나만 선택했을 때만 표시
+ *   - 서비스 분류는 관광 타입을 하나만 선택했을 때 해당 타입의 분류만 표시
  * - 필터 변경 시 부모 컴포넌트에 onChange 콜백 호출
  * - 로딩 및 에러 상태 처리
  *
  * @dependencies
- * - lib/api/tour-api.ts: areaCode2 함수
+ * - lib/api/tour-areas.ts: getAreaChildren 함수
  * - lib/constants/content-types.ts: CONTENT_TYPE_LIST
- * - lib/types/tour.ts: ContentTypeId, AreaCode 타입
+ * - lib/types/tour.ts: ContentTypeId, AreaCode, CategoryCodes 타입
+ * - lib/api/tour-fanout.ts: TOUR_FANOUT_MAX_SELECTIONS
+ * - components/category-select.tsx: 서비스 분류 선택 컴포넌트
+ * - components/multi-select.tsx: 다중 선택 드롭다운
  * - components/ui/select.tsx: Select 컴포넌트
  * - components/ui/button.tsx: Button 컴포넌트
- * - lucide-react: 아이콘 (MapPin, Tag, RotateCcw)
+ * - lucide-react: 아이콘 (MapPin, Tag, PawPrint, RotateCcw)
  *
  * @see {@link /docs/PRD.md#2-1-관광지-목록--지역타입-필터} - 기능 명세
  * @see {@link /docs/Design.md#6-디자인-시스템} - 디자인 가이드라인
@@ -31,7 +45,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { MapPin, Tag, RotateCcw } from "lucide-react";
+import { MapPin, Tag, PawPrint, RotateCcw } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -41,9 +55,15 @@ import {
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { areaCode2 } from "@/lib/api/tour-api";
-import { CONTENT_TYPE_LIST } from "@/lib/constants/content-types";
-import type { ContentTypeId } from "@/lib/types/tour";
+import { CategorySelect } from "@/components/category-select";
+import { MultiSelect } from "@/components/multi-select";
+import { getAreaChildren } from "@/lib/api/tour-areas";
+import { TOUR_FANOUT_MAX_SELECTIONS } from "@/lib/api/tour-fanout";
+import {
+  CONTENT_TYPE_LIST,
+  isValidContentTypeId,
+} from "@/lib/constants/content-types";
+import type { CategoryCodes, ContentTypeId } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
 
 /**
@@ -59,7 +79,18 @@ interface Region {
  */
 export interface TourFiltersValues {
   areaCode?: string;
+  /** 지역 코드 목록 (multiple 모드에서 areaCode 대신 사용) */
+  areaCodes?: string[];
+  sigunguCode?: string;
   contentTypeId?: ContentTypeId;
+  /** 관광 타입 목록 (multiple 모드에서 contentTypeId 대신 사용) */
+  contentTypeIds?: ContentTypeId[];
+  /** 서비스 분류 (대/중/소분류) */
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
+  /** 반려동물 동반 가능 장소만 */
+  petFriendly?: boolean;
 }
 
 /**
@@ -70,6 +101,20 @@ export interface TourFiltersProps {
   values?: TourFiltersValues;
   /** 필터 변경 시 호출되는 콜백 */
   onChange: (filters: TourFiltersValues) => void;
+  /** 지역 필터 비활성화 (위치 기반 조회 등 지역 조건을 사용하지 않는 경우) */
+  disableArea?: boolean;
+  /** 관광 타입 필터 숨김 (축제 페이지 등 타입이 고정된 경우) */
+  hideContentType?: boolean;
+  /** 시/군/구 필터 표시 */
+  showSigungu?: boolean;
+  /** 서비스 분류 필터 표시 */
+  showCategory?: boolean;
+  /** 서비스 분류 필터 비활성화 (위치 기반 조회 등 분류 조건을 사용하지 않는 경우) */
+  disableCategory?: boolean;
+  /** 반려동물 동반 토글 표시 */
+  showPetFriendly?: boolean;
+  /** 지역/관광 타입 다중 선택 (areaCodes, contentTypeIds 사용) */
+  multiple?: boolean;
   /** 추가 CSS 클래스 */
   className?: string;
 }
@@ -78,16 +123,32 @@ export interface TourFiltersProps {
  * 관광지 필터 컴포넌트
  * @param values 현재 필터 값
  * @param onChange 필터 변경 콜백
+ * @param disableArea 지역 필터 비활성화 여부
+ * @param hideContentType 관광 타입 필터 숨김 여부
+ * @param showSigungu 시/군/구 필터 표시 여부
+ * @param showCategory 서비스 분류 필터 표시 여부
+ * @param disableCategory 서비스 분류 필터 비활성화 여부
+ * @param showPetFriendly 반려동물 동반 토글 표시 여부
+ * @param multiple 지역/관광 타입 다중 선택 여부
  * @param className 추가 CSS 클래스
  */
 export function TourFilters({
   values = {},
   onChange,
+  disableArea = false,
+  hideContentType = false,
+  showSigungu = false,
+  showCategory = false,
+  disableCategory = false,
+  showPetFriendly = false,
+  multiple = false,
   className,
 }: TourFiltersProps) {
   const [regions, setRegions] = useState<Region[]>([]);
   const [loadingRegions, setLoadingRegions] = useState(true);
   const [regionError, setRegionError] = useState<string | null>(null);
+  const [sigungus, setSigungus] = useState<Region[]>([]);
+  const [loadingSigungus, setLoadingSigungus] = useState(false);
 
   // 지역 목록 로드
   useEffect(() => {
@@ -95,16 +156,9 @@ export function TourFilters({
       try {
         setLoadingRegions(true);
         setRegionError(null);
-        const response = await areaCode2();
-        
-        if (
-          response.response?.body?.items?.item &&
-          Array.isArray(response.response.body.items.item)
-        ) {
-          const regionList = response.response.body.items.item.map((item) => ({
-            code: item.code,
-            name: item.name,
-          }));
+        const regionList = await getAreaChildren();
+
+        if (regionList.length > 0) {
           setRegions(regionList);
         } else {
           setRegionError("지역 목록을 불러올 수 없습니다.");
@@ -124,11 +178,74 @@ export function TourFilters({
     loadRegions();
   }, []);
 
+  // 시/군/구, 서비스 분류 기준 (다중 선택 모드에서는 하나만 선택한 경우에만)
+  const areaCode = multiple
+    ? values.areaCodes?.length === 1
+      ? values.areaCodes[0]
+      : undefined
+    : values.areaCode;
+  const contentTypeId = multiple
+    ? values.contentTypeIds?.length === 1
+      ? values.contentTypeIds[0]
+      : undefined
+    : values.contentTypeId;
+
+  // 시/군/구 목록 로드 (시/도 변경 시)
+  useEffect(() => {
+    if (!showSigungu || !areaCode) {
+      setSigungus([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadSigungus(code: string) {
+      try {
+        setLoadingSigungus(true);
+        const sigunguList = await getAreaChildren(code);
+        if (!cancelled) {
+          setSigungus(sigunguList);
+        }
+      } catch (error) {
+        console.error("시/군/구 목록 로드 실패:", error);
+        if (!cancelled) {
+          setSigungus([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoadingSigungus(false);
+        }
+      }
+    }
+
+    loadSigungus(areaCode);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showSigungu, areaCode]);
+
   // 필터 변경 핸들러
   const handleAreaCodeChange = (value: string) => {
     onChange({
       ...values,
       areaCode: value === "all" ? undefined : value,
+      sigunguCode: undefined,
+    });
+  };
+
+  const handleAreaCodesChange = (codes: string[]) => {
+    onChange({
+      ...values,
+      areaCodes: codes.length > 0 ? codes : undefined,
+      sigunguCode: undefined,
+    });
+  };
+
+  const handleSigunguCodeChange = (value: string) => {
+    onChange({
+      ...values,
+      sigunguCode: value === "all" ? undefined : value,
     });
   };
 
@@ -136,6 +253,36 @@ export function TourFilters({
     onChange({
       ...values,
       contentTypeId: value === "all" ? undefined : (value as ContentTypeId),
+      cat1: undefined,
+      cat2: undefined,
+      cat3: undefined,
+    });
+  };
+
+  const handleContentTypesChange = (ids: string[]) => {
+    onChange({
+      ...values,
+      contentTypeIds:
+        ids.length > 0 ? ids.filter(isValidContentTypeId) : undefined,
+      cat1: undefined,
+      cat2: undefined,
+      cat3: undefined,
+    });
+  };
+
+  const handleCategoryChange = (categories: CategoryCodes) => {
+    onChange({
+      ...values,
+      cat1: categories.cat1,
+      cat2: categories.cat2,
+      cat3: categories.cat3,
+    });
+  };
+
+  const handlePetFriendlyToggle = () => {
+    onChange({
+      ...values,
+      petFriendly: values.petFriendly ? undefined : true,
     });
   };
 
@@ -146,7 +293,13 @@ export function TourFilters({
 
   // 필터가 활성화되어 있는지 확인
   const hasActiveFilters =
-    values.areaCode !== undefined || values.contentTypeId !== undefined;
+    values.areaCode !== undefined ||
+    !!values.areaCodes?.length ||
+    values.sigunguCode !== undefined ||
+    values.contentTypeId !== undefined ||
+    !!values.contentTypeIds?.length ||
+    values.cat1 !== undefined ||
+    !!values.petFriendly;
 
   return (
     <div
@@ -172,12 +325,32 @@ export function TourFilters({
               <SelectValue placeholder="지역 선택" />
             </SelectTrigger>
           </Select>
+        ) : multiple ? (
+          <MultiSelect
+            options={regions.map((region) => ({
+              value: region.code,
+              label: region.name,
+            }))}
+            values={values.areaCodes ?? []}
+            onChange={handleAreaCodesChange}
+            placeholder="전체 지역"
+            maxSelected={TOUR_FANOUT_MAX_SELECTIONS}
+            unit="곳"
+            disabled={disableArea}
+            title={disableArea ? "내 주변 검색에서는 지역 필터를 사용하지 않습니다" : undefined}
+            aria-label="지역 선택"
+            className="w-32 lg:w-40"
+          />
         ) : (
           <Select
             value={values.areaCode || "all"}
             onValueChange={handleAreaCodeChange}
+            disabled={disableArea}
           >
-            <SelectTrigger className="w-32 lg:w-40">
+            <SelectTrigger
+              className="w-32 lg:w-40"
+              title={disableArea ? "내 주변 검색에서는 지역 필터를 사용하지 않습니다" : undefined}
+            >
               <SelectValue placeholder="지역 선택" />
             </SelectTrigger>
             <SelectContent>
@@ -197,26 +370,94 @@ export function TourFilters({
         )}
       </div>
 
+      {/* 시/군/구 필터 (시/도 선택 시에만 표시) */}
+      {showSigungu && areaCode && (
+        <div className="flex items-center gap-2 shrink-0">
+          {loadingSigungus ? (
+            <Skeleton className="h-9 w-32" />
+          ) : (
+            <Select
+              value={values.sigunguCode || "all"}
+              onValueChange={handleSigunguCodeChange}
+              disabled={disableArea || sigungus.length === 0}
+            >
+              <SelectTrigger className="w-32 lg:w-40">
+                <SelectValue placeholder="시/군/구 선택" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">전체</SelectItem>
+                {sigungus.map((sigungu) => (
+                  <SelectItem key={sigungu.code} value={sigungu.code}>
+                    {sigungu.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
       {/* 관광 타입 필터 */}
-      <div className="flex items-center gap-2 shrink-0">
-        <Tag className="w-4 h-4 text-muted-foreground shrink-0" />
-        <Select
-          value={values.contentTypeId || "all"}
-          onValueChange={handleContentTypeChange}
+      {!hideContentType && (
+        <div className="flex items-center gap-2 shrink-0">
+          <Tag className="w-4 h-4 text-muted-foreground shrink-0" />
+          {multiple ? (
+            <MultiSelect
+              options={CONTENT_TYPE_LIST.map((type) => ({
+                value: type.id,
+                label: type.name,
+              }))}
+              values={values.contentTypeIds ?? []}
+              onChange={handleContentTypesChange}
+              placeholder="전체 타입"
+              maxSelected={TOUR_FANOUT_MAX_SELECTIONS}
+              aria-label="관광 타입 선택"
+              className="w-32 lg:w-40"
+            />
+          ) : (
+            <Select
+              value={values.contentTypeId || "all"}
+              onValueChange={handleContentTypeChange}
+            >
+              <SelectTrigger className="w-32 lg:w-40">
+                <SelectValue placeholder="관광 타입" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">전체</SelectItem>
+                {CONTENT_TYPE_LIST.map((type) => (
+                  <SelectItem key={type.id} value={type.id}>
+                    {type.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
+      {/* 서비스 분류 필터 */}
+      {showCategory && (
+        <CategorySelect
+          values={{ cat1: values.cat1, cat2: values.cat2, cat3: values.cat3 }}
+          onChange={handleCategoryChange}
+          contentTypeId={contentTypeId}
+          disabled={disableCategory}
+        />
+      )}
+
+      {/* 반려동물 동반 토글 */}
+      {showPetFriendly && (
+        <Button
+          variant={values.petFriendly ? "default" : "outline"}
+          size="sm"
+          onClick={handlePetFriendlyToggle}
+          aria-pressed={!!values.petFriendly}
+          className="shrink-0 flex items-center gap-1.5"
         >
-          <SelectTrigger className="w-32 lg:w-40">
-            <SelectValue placeholder="관광 타입" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">전체</SelectItem>
-            {CONTENT_TYPE_LIST.map((type) => (
-              <SelectItem key={type.id} value={type.id}>
-                {type.name}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-      </div>
+          <PawPrint className="w-4 h-4" />
+          반려동물 동반
+        </Button>
+      )}
 
       {/* 초기화 버튼 */}
       {hasActiveFilters && (
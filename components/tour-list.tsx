@@ -9,16 +9,21 @@
  * 2. 로딩 상태 (Skeleton UI)
  * 3. 빈 상태 처리 (결과 없음)
  * 4. 반응형 디자인 (모바일/태블릿/데스크톱)
+ * 5. 무한 스크롤 (onLoadMore 지정 시 목록 끝에 가까워지면 다음 페이지 요청)
  *
  * 핵심 구현 로직:
  * - TourItem 배열을 props로 받아 그리드 레이아웃으로 표시
  * - 로딩 상태일 때 Skeleton UI 표시
  * - 빈 배열일 때 Empty State 표시
  * - TourCard 컴포넌트를 재사용하여 각 항목 표시
+ * - 무한 스크롤: 목록 아래 감시 요소를 IntersectionObserver로 관찰 (화면 아래 LOAD_MORE_MARGIN 이내면 요청)
+ *   - 추가 로딩 중에는 목록을 유지하고 아래에 스켈레톤 표시
+ *   - IntersectionObserver가 동작하지 않는 경우를 위해 "더 보기" 버튼 제공
  *
  * @dependencies
  * - components/tour-card.tsx: TourCard 컴포넌트
  * - components/ui/skeleton.tsx: Skeleton 컴포넌트
+ * - components/ui/button.tsx: Button 컴포넌트 (더 보기)
  * - lib/types/tour.ts: TourItem 타입
  * - lucide-react: 아이콘 (SearchX, MapPin)
  *
@@ -27,9 +32,10 @@
 
 "use client";
 
-import { memo } from "react";
+import { memo, useEffect, useRef } from "react";
 import { SearchX, MapPin } from "lucide-react";
 import { TourCard } from "./tour-card";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card } from "@/components/ui/card";
 import type { TourItem } from "@/lib/types/tour";
@@ -44,8 +50,21 @@ interface TourListProps {
   className?: string;
   /** 빈 상태 메시지 (선택) */
   emptyMessage?: string;
+  /** 다음 페이지 요청 콜백 (지정하면 무한 스크롤 모드) */
+  onLoadMore?: () => void;
+  /** 다음 페이지가 있는지 여부 (무한 스크롤 모드) */
+  hasMore?: boolean;
+  /** 다음 페이지 로딩 상태 (무한 스크롤 모드) */
+  loadingMore?: boolean;
+  /** 목록 끝에 가까워지면 자동으로 요청할지 여부 (false면 "더 보기" 버튼으로만 요청) */
+  autoLoadMore?: boolean;
 }
 
+/**
+ * 목록 끝에서 이 거리(px) 안으로 스크롤하면 다음 페이지 요청
+ */
+const LOAD_MORE_MARGIN = 600;
+
 /**
  * TourCard 스켈레톤 컴포넌트 (로딩 상태용)
  * 자연스러운 로딩 경험을 위한 스켈레톤 UI
@@ -87,13 +106,49 @@ function TourCardSkeleton() {
  * @param loading 로딩 상태
  * @param className 추가 CSS 클래스
  * @param emptyMessage 빈 상태 커스텀 메시지
+ * @param onLoadMore 다음 페이지 요청 콜백 (무한 스크롤)
+ * @param hasMore 다음 페이지 존재 여부
+ * @param loadingMore 다음 페이지 로딩 상태
+ * @param autoLoadMore 자동 요청 여부 (요청 실패 후 반복 요청 방지)
  */
-export function TourList({
+export const TourList = memo(function TourList({
   tours,
   loading = false,
   className,
   emptyMessage,
+  onLoadMore,
+  hasMore = false,
+  loadingMore = false,
+  autoLoadMore = true,
 }: TourListProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const canLoadMore =
+    autoLoadMore && !!onLoadMore && hasMore && !loading && !loadingMore;
+
+  // 목록 끝 감시 (무한 스크롤)
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (
+      !canLoadMore ||
+      !sentinel ||
+      typeof IntersectionObserver === "undefined"
+    ) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore?.();
+        }
+      },
+      { rootMargin: `0px 0px ${LOAD_MORE_MARGIN}px 0px` },
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [canLoadMore, onLoadMore]);
+
   // 로딩 상태 - 스켈레톤 UI 표시
   if (loading) {
     // 반응형 레이아웃에 맞춰 적절한 개수의 스켈레톤 표시
@@ -143,16 +198,45 @@ export function TourList({
   }
 
   // 관광지 목록 표시
-  return (
+  const grid = (
     <div
       className={cn(
         "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4",
-        className,
+        !onLoadMore && className,
       )}
     >
       {tours.map((tour) => (
         <TourCard key={tour.contentid} tour={tour} />
       ))}
+      {loadingMore &&
+        Array.from({ length: 3 }).map((_, index) => (
+          <TourCardSkeleton key={`skeleton-more-${index}`} />
+        ))}
+    </div>
+  );
+
+  if (!onLoadMore) {
+    return grid;
+  }
+
+  // 무한 스크롤 모드
+  return (
+    <div className={cn("space-y-6", className)}>
+      {grid}
+      <div ref={sentinelRef} aria-hidden="true" />
+      {hasMore ? (
+        !loadingMore && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={onLoadMore}>
+              더 보기
+            </Button>
+          </div>
+        )
+      ) : (
+        <p className="text-center text-sm text-muted-foreground">
+          모든 결과를 불러왔습니다.
+        </p>
+      )}
     </div>
   );
 });
@@ -0,0 +1,303 @@
+/**
+ * @file tour-nearby.tsx
+ * @description "내 주변" 위치 기반 검색 컨트롤 컴포넌트
+ *
+ * 이 컴포넌트는 홈페이지에서 위치 기반 관광지 조회(locationBasedList2)의 기준점과 반경을 선택하는 기능을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 브라우저 위치 정보(Geolocation API)로 현재 위치 가져오기
+ * 2. 위치 직접 선택 (주요 지점 또는 위도/경도 입력)
+ * 3. 반경 선택 (1km ~ 20km)
+ * 4. 위치 기반 모드 해제
+ *
+ * 핵심 구현 로직:
+ * - Controlled component 패턴 (value + onChange)
+ * - 위치 권한 거부/시간 초과 등은 toast로 안내하고 직접 선택을 유도
+ * - 위도/경도 입력값은 한국 범위 내의 숫자인지 검증
+ *
+ * @dependencies
+ * - lib/types/tour.ts: NearbyLocation 타입
+ * - lib/utils/geo.ts: KOREA_BOUNDS, isWithinBounds (직접 입력 검증)
+ * - components/ui/dialog.tsx: Dialog 컴포넌트
+ * - components/ui/select.tsx: Select 컴포넌트
+ * - components/ui/button.tsx, input.tsx, label.tsx
+ * - sonner: toast 알림
+ * - lucide-react: 아이콘 (LocateFixed, MapPinned, X, Loader2)
+ *
+ * @see {@link lib/api/tour-api.ts} - locationBasedList2 함수
+ */
+
+"use client";
+
+import { useState } from "react";
+import { LocateFixed, MapPinned, X, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { KOREA_BOUNDS, isWithinBounds } from "@/lib/utils/geo";
+import type { NearbyLocation } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+
+/**
+ * 반경 선택 옵션 (미터)
+ */
+const RADIUS_OPTIONS = [
+  { value: 1000, label: "1km" },
+  { value: 3000, label: "3km" },
+  { value: 5000, label: "5km" },
+  { value: 10000, label: "10km" },
+  { value: 20000, label: "20km" },
+] as const;
+
+/**
+ * 기본 반경 (미터)
+ */
+const DEFAULT_RADIUS = 5000;
+
+/**
+ * 직접 선택용 주요 지점
+ */
+const PRESET_LOCATIONS = [
+  { label: "서울시청", lat: 37.5663, lng: 126.9779 },
+  { label: "부산역", lat: 35.1151, lng: 129.0415 },
+  { label: "대전역", lat: 36.3323, lng: 127.4343 },
+  { label: "광주 송정역", lat: 35.1374, lng: 126.7911 },
+  { label: "강릉역", lat: 37.764, lng: 128.8996 },
+  { label: "경주 황리단길", lat: 35.838, lng: 129.2094 },
+  { label: "제주공항", lat: 33.507, lng: 126.4929 },
+] as const;
+
+/**
+ * TourNearby 컴포넌트 Props
+ */
+export interface TourNearbyProps {
+  /** 현재 기준점 (없으면 위치 기반 모드 해제 상태) */
+  value?: NearbyLocation | null;
+  /** 기준점 변경 시 호출되는 콜백 (null이면 위치 기반 모드 해제) */
+  onChange: (location: NearbyLocation | null) => void;
+  /** 추가 CSS 클래스 */
+  className?: string;
+}
+
+/**
+ * 위치 정보 에러 메시지 변환
+ */
+function getGeolocationErrorMessage(error: GeolocationPositionError): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return "위치 권한이 거부되었습니다. 위치를 직접 선택해주세요.";
+    case error.POSITION_UNAVAILABLE:
+      return "현재 위치를 확인할 수 없습니다. 위치를 직접 선택해주세요.";
+    case error.TIMEOUT:
+      return "위치 확인 시간이 초과되었습니다. 다시 시도해주세요.";
+    default:
+      return "위치 정보를 가져오는 중 오류가 발생했습니다.";
+  }
+}
+
+/**
+ * "내 주변" 위치 기반 검색 컨트롤
+ * @param value 현재 기준점
+ * @param onChange 기준점 변경 콜백
+ * @param className 추가 CSS 클래스
+ */
+export function TourNearby({ value, onChange, className }: TourNearbyProps) {
+  const [locating, setLocating] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [latInput, setLatInput] = useState("");
+  const [lngInput, setLngInput] = useState("");
+
+  const radius = value?.radius ?? DEFAULT_RADIUS;
+
+  // 현재 위치 가져오기
+  const handleLocate = () => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      toast.error("이 브라우저는 위치 정보를 지원하지 않습니다.");
+      setDialogOpen(true);
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false);
+        onChange({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          radius,
+          source: "geolocation",
+        });
+      },
+      (error) => {
+        setLocating(false);
+        console.error("위치 정보 조회 실패:", error);
+        toast.error(getGeolocationErrorMessage(error));
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 300000 },
+    );
+  };
+
+  // 반경 변경
+  const handleRadiusChange = (radiusValue: string) => {
+    if (!value) return;
+    onChange({ ...value, radius: Number(radiusValue) });
+  };
+
+  // 주요 지점 선택
+  const handlePresetSelect = (preset: (typeof PRESET_LOCATIONS)[number]) => {
+    onChange({
+      lat: preset.lat,
+      lng: preset.lng,
+      radius,
+      source: "manual",
+      label: preset.label,
+    });
+    setDialogOpen(false);
+  };
+
+  // 위도/경도 직접 입력
+  const handleManualSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const lat = Number(latInput);
+    const lng = Number(lngInput);
+    const isValid =
+      latInput.trim().length > 0 &&
+      lngInput.trim().length > 0 &&
+      isWithinBounds({ lat, lng }, KOREA_BOUNDS);
+
+    if (!isValid) {
+      toast.error("한국 내 위도(33~39)와 경도(124~132)를 입력해주세요.");
+      return;
+    }
+
+    onChange({ lat, lng, radius, source: "manual" });
+    setDialogOpen(false);
+  };
+
+  return (
+    <div className={cn("flex items-center gap-2 shrink-0", className)}>
+      <Button
+        variant={value ? "default" : "outline"}
+        size="sm"
+        onClick={handleLocate}
+        disabled={locating}
+        className="flex items-center gap-1.5"
+        aria-label="내 주변 관광지 보기"
+      >
+        {locating ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <LocateFixed className="w-4 h-4" />
+        )}
+        <span>내 주변</span>
+      </Button>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setDialogOpen(true)}
+        className="flex items-center gap-1.5"
+        aria-label="위치 직접 선택"
+      >
+        <MapPinned className="w-4 h-4" />
+        <span className="hidden sm:inline">
+          {value?.label ?? (value?.source === "manual" ? "직접 선택" : "위치 선택")}
+        </span>
+      </Button>
+
+      {value && (
+        <>
+          <Select value={String(value.radius)} onValueChange={handleRadiusChange}>
+            <SelectTrigger className="w-24 text-sm" aria-label="반경 선택">
+              <SelectValue placeholder="반경" />
+            </SelectTrigger>
+            <SelectContent>
+              {RADIUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(null)}
+            aria-label="위치 기반 검색 해제"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>위치 직접 선택</DialogTitle>
+            <DialogDescription>
+              주요 지점을 선택하거나 위도/경도를 입력하면 주변 관광지를 보여드립니다.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-wrap gap-2">
+            {PRESET_LOCATIONS.map((preset) => (
+              <Button
+                key={preset.label}
+                variant="outline"
+                size="sm"
+                onClick={() => handlePresetSelect(preset)}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+
+          <form onSubmit={handleManualSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="nearby-lat">위도</Label>
+                <Input
+                  id="nearby-lat"
+                  inputMode="decimal"
+                  placeholder="37.5663"
+                  value={latInput}
+                  onChange={(event) => setLatInput(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="nearby-lng">경도</Label>
+                <Input
+                  id="nearby-lng"
+                  inputMode="decimal"
+                  placeholder="126.9779"
+                  value={lngInput}
+                  onChange={(event) => setLngInput(event.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit">이 위치로 검색</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 /**
  * @file tour-search.tsx
- * @description 관광지 검색 컴포넌트 (키워드 검색)
+ * @description 관광지 검색 컴포넌트 (키워드 검색 + 자동완성)
  *
  * 이 컴포넌트는 사용자가 키워드로 관광지를 검색할 수 있는 검색창 UI를 제공합니다.
  *
@@ -10,17 +10,27 @@
  * 3. 검색 중 로딩 스피너 표시
  * 4. 검색어 초기화 기능 (X 버튼)
  * 5. 반응형 디자인 (모바일 300px, 데스크톱 500px 최소 너비)
+ * 6. 검색어 자동완성 (최근 검색어, 이미 조회한 관광지 이름, 인기 검색어)
  *
  * 핵심 구현 로직:
- * - Controlled component 패턴 (value + onChange + onSearch)
+ * - value prop과 입력 중인 검색어를 분리 (value가 바뀌면 입력값을 맞추고, 입력은 내부 상태로 관리)
  * - 키보드 이벤트 처리 (Enter 키)
  * - 로딩 상태 시 입력 및 버튼 비활성화
  * - 검색어가 있을 때만 초기화 버튼 표시
+ * - 자동완성: 입력 후 SUGGESTION_DEBOUNCE_MS 동안 입력이 없으면 제안 목록 갱신
+ *   - WAI-ARIA combobox 패턴 (role="combobox" + listbox, aria-activedescendant)
+ *   - 위/아래 화살표로 이동, Enter로 선택, Escape로 닫기
+ *   - 관광지 제안을 선택하면 검색하지 않고 상세 페이지(/places/[contentId])로 이동
+ *   - 검색어와 일치하는 부분 강조 표시
+ * - 실행한 검색어는 최근 검색어로 저장 (hooks/use-recent-searches.ts)
  *
  * @dependencies
  * - components/ui/input.tsx: Input 컴포넌트
  * - components/ui/button.tsx: Button 컴포넌트
- * - lucide-react: 아이콘 (Search, X, Loader2)
+ * - lib/api/tour-suggestions.ts: getTourSuggestions 함수
+ * - lib/utils/highlight.ts: splitHighlight 함수
+ * - hooks/use-recent-searches.ts: 최근 검색어
+ * - lucide-react: 아이콘 (Search, X, Loader2, Clock, MapPin, TrendingUp)
  * - @/lib/utils: cn 유틸리티
  *
  * @see {@link /docs/PRD.md#2-3-키워드-검색} - 기능 명세
@@ -29,21 +39,53 @@
 
 "use client";
 
-import { useState, useRef, KeyboardEvent } from "react";
-import { Search, X, Loader2 } from "lucide-react";
+import {
+  useState,
+  useRef,
+  useEffect,
+  useMemo,
+  useId,
+  KeyboardEvent,
+} from "react";
+import { useRouter } from "next/navigation";
+import { Search, X, Loader2, Clock, MapPin, TrendingUp } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { useRecentSearches } from "@/hooks/use-recent-searches";
+import {
+  getTourSuggestions,
+  type TourSuggestion,
+  type TourSuggestionType,
+} from "@/lib/api/tour-suggestions";
+import { splitHighlight } from "@/lib/utils/highlight";
 import { cn } from "@/lib/utils";
 
+/**
+ * 자동완성 갱신 대기 시간 (밀리초)
+ */
+const SUGGESTION_DEBOUNCE_MS = 200;
+
+/**
+ * 제안 종류별 아이콘 및 스크린 리더용 라벨
+ */
+const SUGGESTION_META: Record<
+  TourSuggestionType,
+  { icon: typeof Search; label: string }
+> = {
+  recent: { icon: Clock, label: "최근 검색어" },
+  place: { icon: MapPin, label: "관광지" },
+  popular: { icon: TrendingUp, label: "인기 검색어" },
+};
+
 /**
  * TourSearch 컴포넌트 Props
  */
 export interface TourSearchProps {
-  /** 현재 검색어 (controlled) */
+  /** 현재 검색어 (바뀌면 입력값도 함께 변경) */
   value?: string;
   /** 검색어 변경 시 호출되는 콜백 */
   onChange?: (value: string) => void;
-  /** 검색 실행 시 호출되는 콜백 (엔터 키 또는 검색 버튼 클릭) */
+  /** 검색 실행 시 호출되는 콜백 (엔터 키, 검색 버튼 클릭, 검색어 제안 선택) */
   onSearch?: (keyword: string) => void;
   /** 검색 중 로딩 상태 */
   loading?: boolean;
@@ -53,6 +95,8 @@ export interface TourSearchProps {
   className?: string;
   /** 입력 필드 비활성화 여부 */
   disabled?: boolean;
+  /** 검색어 자동완성 사용 여부 (기본값: true) */
+  suggestions?: boolean;
 }
 
 /**
@@ -64,6 +108,7 @@ export interface TourSearchProps {
  * @param placeholder 플레이스홀더 텍스트
  * @param className 추가 CSS 클래스
  * @param disabled 비활성화 여부
+ * @param suggestions 검색어 자동완성 사용 여부
  */
 export function TourSearch({
   value: controlledValue,
@@ -73,29 +118,82 @@ export function TourSearch({
   placeholder = "관광지 검색...",
   className,
   disabled = false,
+  suggestions: suggestionsEnabled = true,
 }: TourSearchProps) {
-  // 내부 상태 (uncontrolled fallback)
-  const [internalValue, setInternalValue] = useState("");
+  const router = useRouter();
+  const { recentSearches, addRecentSearch } = useRecentSearches();
+
+  // 입력 중인 검색어 (value prop이 바뀌면 맞춤)
+  const [value, setValue] = useState(controlledValue ?? "");
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Controlled 또는 uncontrolled 모드
-  const isControlled = controlledValue !== undefined;
-  const value = isControlled ? controlledValue : internalValue;
+  useEffect(() => {
+    if (controlledValue !== undefined) {
+      setValue(controlledValue);
+    }
+  }, [controlledValue]);
+
+  // 자동완성 상태
+  const listboxId = useId();
+  const descriptionId = useId();
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [query, setQuery] = useState(value);
+
+  // 입력이 멈춘 뒤 제안 목록 갱신
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(value), SUGGESTION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const suggestions = useMemo(
+    () =>
+      suggestionsEnabled && open
+        ? getTourSuggestions(query, recentSearches)
+        : [],
+    [suggestionsEnabled, open, query, recentSearches],
+  );
+  const expanded = open && suggestions.length > 0;
+
+  // 제안 목록이 바뀌면 선택 해제
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [suggestions]);
 
   // 검색어 변경 핸들러
   const handleChange = (newValue: string) => {
-    if (!isControlled) {
-      setInternalValue(newValue);
-    }
+    setValue(newValue);
+    setOpen(true);
     onChange?.(newValue);
   };
 
+  // 검색 실행 (최근 검색어에 저장)
+  const runSearch = (keyword: string) => {
+    const trimmed = keyword.trim();
+    if (!trimmed || loading || disabled) return;
+
+    addRecentSearch(trimmed);
+    setOpen(false);
+    onSearch?.(trimmed);
+  };
+
   // 검색 실행 핸들러
   const handleSearch = () => {
-    const keyword = value.trim();
-    if (keyword && !loading && !disabled) {
-      onSearch?.(keyword);
+    runSearch(value);
+  };
+
+  // 검색어 제안 선택 (관광지는 상세 페이지로 이동, 그 외는 검색 실행)
+  const handleSelect = (suggestion: TourSuggestion) => {
+    setOpen(false);
+
+    if (suggestion.type === "place" && suggestion.contentId) {
+      router.push(`/places/${suggestion.contentId}`);
+      return;
     }
+
+    setValue(suggestion.text);
+    onChange?.(suggestion.text);
+    runSearch(suggestion.text);
   };
 
   // 검색어 초기화 핸들러
@@ -105,16 +203,41 @@ export function TourSearch({
     inputRef.current?.focus();
   };
 
-  // 키보드 이벤트 핸들러 (Enter 키)
+  // 키보드 이벤트 핸들러 (Enter 키, 자동완성 이동)
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (!expanded) {
+        setOpen(true);
+        return;
+      }
+      e.preventDefault();
+      // -1(선택 없음) ~ 마지막 제안 사이를 순환
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      const count = suggestions.length + 1;
+      setActiveIndex((prev) => ((prev + 1 + step + count) % count) - 1);
+      return;
+    }
+
+    if (e.key === "Escape" && expanded) {
+      e.preventDefault();
+      setOpen(false);
+      return;
+    }
+
     if (e.key === "Enter" && !loading && !disabled) {
       e.preventDefault();
-      handleSearch();
+      if (expanded && activeIndex >= 0) {
+        handleSelect(suggestions[activeIndex]);
+      } else {
+        handleSearch();
+      }
     }
   };
 
   const hasValue = value.length > 0;
   const isSearchDisabled = loading || disabled || !value.trim();
+  const activeOptionId =
+    expanded && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined;
 
   return (
     <div
@@ -139,6 +262,8 @@ export function TourSearch({
         value={value}
         onChange={(e) => handleChange(e.target.value)}
         onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
         placeholder={placeholder}
         disabled={disabled || loading}
         className={cn(
@@ -146,8 +271,13 @@ export function TourSearch({
           hasValue && "pr-28", // 초기화 버튼과 검색 버튼이 모두 있을 때 더 많은 오른쪽 패딩
           "w-full"
         )}
+        role={suggestionsEnabled ? "combobox" : undefined}
+        aria-autocomplete={suggestionsEnabled ? "list" : undefined}
+        aria-expanded={suggestionsEnabled ? expanded : undefined}
+        aria-controls={suggestionsEnabled ? listboxId : undefined}
+        aria-activedescendant={activeOptionId}
         aria-label="관광지 검색"
-        aria-describedby="search-description"
+        aria-describedby={descriptionId}
       />
 
       {/* 검색어 초기화 버튼 (검색 버튼 왼쪽) */}
@@ -189,11 +319,69 @@ export function TourSearch({
         )}
       </Button>
 
+      {/* 검색어 제안 목록 */}
+      {suggestionsEnabled && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label="검색어 제안"
+          hidden={!expanded}
+          className="absolute left-0 right-0 top-full z-20 mt-1 max-h-80 overflow-y-auto rounded-md border bg-popover py-1 text-left text-popover-foreground shadow-md"
+        >
+          {suggestions.map((suggestion, index) => {
+            const { icon: Icon, label } = SUGGESTION_META[suggestion.type];
+
+            return (
+              <li
+                key={`${suggestion.type}-${suggestion.contentId ?? suggestion.text}`}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // 선택 전에 입력 필드 blur로 목록이 닫히지 않도록 함
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelect(suggestion)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  "flex cursor-pointer items-center gap-2 px-3 py-2 text-sm",
+                  index === activeIndex && "bg-accent text-accent-foreground"
+                )}
+              >
+                <Icon
+                  className="w-4 h-4 shrink-0 text-muted-foreground"
+                  aria-hidden="true"
+                />
+                <span className="sr-only">{label}: </span>
+                <span className="truncate">
+                  {splitHighlight(suggestion.text, query).map((part, i) =>
+                    part.match ? (
+                      <mark
+                        key={i}
+                        className="bg-transparent font-semibold text-primary"
+                      >
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={i}>{part.text}</span>
+                    )
+                  )}
+                </span>
+                {suggestion.address && (
+                  <span className="ml-auto truncate text-xs text-muted-foreground">
+                    {suggestion.address}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
       {/* 접근성 설명 */}
-      <span id="search-description" className="sr-only">
+      <span id={descriptionId} className="sr-only">
         엔터 키를 누르거나 검색 버튼을 클릭하여 검색을 실행할 수 있습니다.
+        {suggestionsEnabled &&
+          " 위/아래 화살표 키로 검색어 제안을 선택할 수 있습니다."}
       </span>
     </div>
   );
 }
-
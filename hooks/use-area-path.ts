@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { resolveAreaPath } from "@/lib/api/tour-areas";
+
+/**
+ * 지역 코드(areacode/sigungucode)를 지역명 경로로 변환하는 훅
+ *
+ * 지역 목록은 lib/api/tour-areas.ts에서 캐시되므로
+ * 여러 카드에서 동시에 사용해도 같은 지역은 한 번만 조회합니다.
+ * 조회 전이거나 실패한 경우 빈 배열을 반환합니다.
+ *
+ * @example
+ * ```tsx
+ * const names = useAreaPath(tour.areacode, tour.sigungucode);
+ * // ["부산", "해운대구"]
+ * ```
+ */
+export function useAreaPath(areaCode?: string, sigunguCode?: string): string[] {
+  const [names, setNames] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!areaCode) {
+      setNames([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    resolveAreaPath({ areaCode, sigunguCode })
+      .then((path) => {
+        if (!cancelled) {
+          setNames(path.map((area) => area.name));
+        }
+      })
+      .catch((error) => {
+        console.error("지역명 조회 실패:", error);
+        if (!cancelled) {
+          setNames([]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [areaCode, sigunguCode]);
+
+  return names;
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { resolveCategoryPath } from "@/lib/api/tour-categories";
+
+/**
+ * 서비스 분류 코드(cat1/cat2/cat3)를 분류명 경로로 변환하는 훅
+ *
+ * 분류 목록은 lib/api/tour-categories.ts에서 캐시되므로
+ * 여러 카드에서 동시에 사용해도 같은 분류는 한 번만 조회합니다.
+ * 조회 전이거나 실패한 경우 빈 배열을 반환합니다.
+ *
+ * @example
+ * ```tsx
+ * const names = useCategoryPath(tour.cat1, tour.cat2, tour.cat3);
+ * // ["자연", "자연관광지", "국립공원"]
+ * ```
+ */
+export function useCategoryPath(
+  cat1?: string,
+  cat2?: string,
+  cat3?: string,
+): string[] {
+  const [names, setNames] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!cat1) {
+      setNames([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    resolveCategoryPath({ cat1, cat2, cat3 })
+      .then((path) => {
+        if (!cancelled) {
+          setNames(path.map((category) => category.name));
+        }
+      })
+      .catch((error) => {
+        console.error("분류명 조회 실패:", error);
+        if (!cancelled) {
+          setNames([]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cat1, cat2, cat3]);
+
+  return names;
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * 목록 표시 방식
+ * - pagination: 페이지 번호로 이동
+ * - infinite: 스크롤하면 다음 페이지를 이어서 표시
+ */
+export type TourListMode = "pagination" | "infinite";
+
+/**
+ * 목록 표시 방식 저장 키 (localStorage)
+ */
+const LIST_MODE_STORAGE_KEY = "my-tour:list-mode";
+
+/**
+ * 목록 표시 방식(페이지네이션 / 무한 스크롤) 사용자 설정 훅
+ *
+ * 설정은 localStorage에 저장되어 다음 방문에도 유지됩니다.
+ * 서버 렌더링 결과와 맞추기 위해 첫 렌더링은 기본값(pagination)으로 하고,
+ * 마운트 후 저장된 값을 읽습니다. 저장된 값을 읽기 전에는 ready가 false입니다.
+ *
+ * @example
+ * ```tsx
+ * const { mode, setMode, ready } = useListMode();
+ * ```
+ */
+export function useListMode() {
+  const [mode, setModeState] = useState<TourListMode>("pagination");
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(LIST_MODE_STORAGE_KEY);
+      if (stored === "pagination" || stored === "infinite") {
+        setModeState(stored);
+      }
+    } catch {
+      // localStorage를 사용할 수 없으면 기본값 사용
+    }
+    setReady(true);
+  }, []);
+
+  const setMode = useCallback((next: TourListMode) => {
+    setModeState(next);
+    try {
+      window.localStorage.setItem(LIST_MODE_STORAGE_KEY, next);
+    } catch {
+      // 저장 실패 시 현재 세션에서만 적용
+    }
+  }, []);
+
+  return { mode, setMode, ready };
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * 최근 검색어 저장 키 (localStorage)
+ */
+const RECENT_SEARCHES_STORAGE_KEY = "my-tour:recent-searches";
+
+/**
+ * 최근 검색어 최대 개수
+ */
+const MAX_RECENT_SEARCHES = 10;
+
+/**
+ * 같은 탭의 다른 검색창에 변경을 알리는 이벤트
+ */
+const RECENT_SEARCHES_EVENT = "my-tour:recent-searches-change";
+
+/**
+ * 저장된 최근 검색어 읽기 (잘못된 값이면 빈 배열)
+ */
+function readRecentSearches(): string[] {
+  try {
+    const parsed = JSON.parse(
+      window.localStorage.getItem(RECENT_SEARCHES_STORAGE_KEY) ?? "[]",
+    );
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is string => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 최근 검색어 저장 (실패 시 무시)
+ */
+function writeRecentSearches(searches: string[]): void {
+  try {
+    window.localStorage.setItem(
+      RECENT_SEARCHES_STORAGE_KEY,
+      JSON.stringify(searches),
+    );
+    window.dispatchEvent(new Event(RECENT_SEARCHES_EVENT));
+  } catch {
+    // 저장 공간 부족, 비공개 모드 등
+  }
+}
+
+/**
+ * 최근 검색어 훅
+ *
+ * 검색어는 localStorage에 최근 순으로 최대 10개까지 저장됩니다.
+ * 같은 검색어를 다시 검색하면 맨 앞으로 이동합니다.
+ * 서버 렌더링 결과와 맞추기 위해 저장된 값은 마운트 후 읽고,
+ * 다른 검색창(같은 탭)이나 다른 탭에서 바뀌면 다시 읽습니다.
+ *
+ * @example
+ * ```tsx
+ * const { recentSearches, addRecentSearch } = useRecentSearches();
+ * addRecentSearch("해운대");
+ * ```
+ */
+export function useRecentSearches() {
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  useEffect(() => {
+    const sync = () => setRecentSearches(readRecentSearches());
+    sync();
+
+    window.addEventListener(RECENT_SEARCHES_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(RECENT_SEARCHES_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+
+  const addRecentSearch = useCallback((keyword: string) => {
+    const trimmed = keyword.trim();
+    if (!trimmed) return;
+
+    // 다른 검색창에서 추가한 검색어를 덮어쓰지 않도록 저장된 값 기준으로 갱신
+    const next = [
+      trimmed,
+      ...readRecentSearches().filter((item) => item !== trimmed),
+    ].slice(0, MAX_RECENT_SEARCHES);
+    writeRecentSearches(next);
+    setRecentSearches(next);
+  }, []);
+
+  const removeRecentSearch = useCallback((keyword: string) => {
+    const next = readRecentSearches().filter((item) => item !== keyword);
+    writeRecentSearches(next);
+    setRecentSearches(next);
+  }, []);
+
+  const clearRecentSearches = useCallback(() => {
+    writeRecentSearches([]);
+    setRecentSearches([]);
+  }, []);
+
+  return {
+    recentSearches,
+    addRecentSearch,
+    removeRecentSearch,
+    clearRecentSearches,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * @file saved-searches.ts
+ * @description Supabase 저장 검색 API 함수들
+ *
+ * 이 모듈은 Supabase saved_searches 테이블과 연동하는 저장 검색 CRUD 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 저장 검색 목록 조회 (getSavedSearches)
+ * 2. 저장 검색 추가 (addSavedSearch)
+ * 3. 저장 검색 삭제 (removeSavedSearch)
+ * 4. 마지막 확인 시간 갱신 (markSavedSearchViewed)
+ *
+ * 핵심 구현 로직:
+ * - lib/api/supabase-api.ts(북마크)와 같이 Supabase 클라이언트와 Supabase user_id (UUID)를 파라미터로 받음
+ * - 다른 사용자의 저장 검색을 변경하지 않도록 모든 변경에 user_id 조건 포함
+ * - 에러 처리 및 로깅
+ *
+ * @dependencies
+ * - @supabase/supabase-js: Supabase 클라이언트
+ * - lib/types/saved-search.ts: 타입 정의
+ *
+ * @see {@link /supabase/migrations/20251201090000_create_saved_searches_table.sql} - 데이터베이스 스키마
+ * @see {@link actions/saved-searches.ts} - Server Actions
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SavedSearch } from "@/lib/types/saved-search";
+
+/**
+ * 사용자의 저장 검색 목록을 조회합니다.
+ *
+ * @param supabase - Supabase 클라이언트 인스턴스
+ * @param userId - Supabase users 테이블의 id (UUID)
+ * @returns 저장 검색 목록 배열 (created_at 내림차순 정렬)
+ */
+export async function getSavedSearches(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<SavedSearch[]> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching saved searches:", error);
+      throw new Error(`Failed to get saved searches: ${error.message}`);
+    }
+
+    return (data ?? []) as SavedSearch[];
+  } catch (error) {
+    console.error("getSavedSearches error:", error);
+    throw error;
+  }
+}
+
+/**
+ * 저장 검색을 추가합니다.
+ *
+ * @param supabase - Supabase 클라이언트 인스턴스
+ * @param userId - Supabase users 테이블의 id (UUID)
+ * @param search - 표시 이름과 홈페이지 URL 쿼리 문자열
+ * @returns 생성된 저장 검색 객체
+ * @throws 같은 검색 조건이 이미 저장된 경우 에러를 던집니다 (23505: unique_violation)
+ *
+ * @example
+ * ```tsx
+ * const supabase = createClerkSupabaseClient();
+ * const saved = await addSavedSearch(supabase, userId, {
+ *   name: "제주 · 음식점",
+ *   query: "area=39&type=39",
+ * });
+ * ```
+ */
+export async function addSavedSearch(
+  supabase: SupabaseClient,
+  userId: string,
+  search: Pick<SavedSearch, "name" | "query">,
+): Promise<SavedSearch> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .insert({
+        user_id: userId,
+        name: search.name,
+        query: search.query,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // 23505: unique_violation (같은 검색 조건)
+      if (error.code === "23505") {
+        throw new Error("이미 저장한 검색입니다.");
+      }
+
+      console.error("Error adding saved search:", error);
+      throw new Error(`Failed to add saved search: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error("검색 저장 후 데이터를 가져올 수 없습니다.");
+    }
+
+    return data as SavedSearch;
+  } catch (error) {
+    console.error("addSavedSearch error:", error);
+    throw error;
+  }
+}
+
+/**
+ * 저장 검색을 삭제합니다.
+ *
+ * @param supabase - Supabase 클라이언트 인스턴스
+ * @param userId - Supabase users 테이블의 id (UUID)
+ * @param id - 저장 검색 ID (UUID)
+ * @returns 삭제 성공 여부
+ */
+export async function removeSavedSearch(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+): Promise<{ success: boolean }> {
+  try {
+    const { error } = await supabase
+      .from("saved_searches")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error removing saved search:", error);
+      throw new Error(`Failed to remove saved search: ${error.message}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("removeSavedSearch error:", error);
+    throw error;
+  }
+}
+
+/**
+ * 저장 검색의 마지막 확인 시간을 현재 시간으로 갱신합니다.
+ * 이후 새 항목 수는 이 시간 이후 수정된 관광지 기준으로 계산됩니다.
+ *
+ * @param supabase - Supabase 클라이언트 인스턴스
+ * @param userId - Supabase users 테이블의 id (UUID)
+ * @param id - 저장 검색 ID (UUID)
+ * @returns 갱신된 마지막 확인 시간 (ISO 8601 형식 문자열)
+ */
+export async function markSavedSearchViewed(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+): Promise<string> {
+  try {
+    const lastViewedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from("saved_searches")
+      .update({ last_viewed_at: lastViewedAt })
+      .eq("user_id", userId)
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error updating saved search:", error);
+      throw new Error(`Failed to update saved search: ${error.message}`);
+    }
+
+    return lastViewedAt;
+  } catch (error) {
+    console.error("markSavedSearchViewed error:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * @file tour-api-error.ts
+ * @description 한국관광공사 API 에러 클래스 정의
+ *
+ * fetchTourAPI와 각 API 래퍼 함수가 던지는 에러의 타입 계층입니다.
+ * 에러 메시지 문자열 대신 HTTP 상태 코드, KorService2 resultCode, 엔드포인트,
+ * 재시도 가능 여부를 구조화된 필드로 제공하여 재시도/분류 로직이 메시지 문구에 의존하지 않도록 합니다.
+ *
+ * 에러 계층:
+ * - TourApiError (기본 클래스)
+ *   - TourApiAuthError: 인증 실패 (401/403, 서비스 키 오류)
+ *   - TourApiRateLimitError: 호출 제한 초과 (429, 일일 트래픽 초과)
+ *   - TourApiServerError: 서버 에러 (5xx)
+ *   - TourApiValidationError: 요청 파라미터 오류
+ *   - TourApiNotFoundError: 데이터 없음
+ *   - TourApiNetworkError: 네트워크 연결 실패
+ *   - TourApiResponseError: 기타 API 응답 에러 (알 수 없는 resultCode, 잘못된 응답 형식)
+ *
+ * 서버 컴포넌트 에러 전달:
+ * - 프로덕션 환경에서는 서버 컴포넌트 에러가 클라이언트 에러 바운더리로 전달될 때
+ *   메시지가 제거되고 digest만 남습니다.
+ * - 에러 종류와 재시도 가능 여부를
+ *   digest("TOUR_API_ERROR:종류:retry|no-retry:엔드포인트:상태:resultCode")에 담아
+ *   error.tsx에서도 같은 분류와 재시도 버튼 표시 여부를 사용할 수 있도록 합니다.
+ *
+ * @see {@link lib/api/tour-api.ts} - API 클라이언트
+ * @see {@link lib/utils/error-handler.ts} - 에러 분류 및 사용자 메시지
+ */
+
+/**
+ * 한국관광공사 API 에러 종류
+ */
+export type TourApiErrorKind =
+  | "auth"
+  | "rate_limit"
+  | "server"
+  | "validation"
+  | "not_found"
+  | "network"
+  | "response";
+
+const TOUR_API_ERROR_KINDS: TourApiErrorKind[] = [
+  "auth",
+  "rate_limit",
+  "server",
+  "validation",
+  "not_found",
+  "network",
+  "response",
+];
+
+/**
+ * digest 접두사 (서버 → 클라이언트 에러 전달용)
+ */
+const DIGEST_PREFIX = "TOUR_API_ERROR";
+
+/**
+ * digest의 재시도 가능 여부 표기
+ */
+const DIGEST_RETRYABLE = "retry";
+const DIGEST_NOT_RETRYABLE = "no-retry";
+
+/**
+ * TourApiError 생성 옵션
+ */
+export interface TourApiErrorOptions {
+  /** API 엔드포인트 (예: "/detailCommon2") */
+  endpoint: string;
+  /** HTTP 상태 코드 (선택) */
+  status?: number;
+  /** KorService2 resultCode (선택) */
+  resultCode?: string;
+  /** KorService2 resultMsg (선택) */
+  resultMsg?: string;
+  /** 원인 에러 (선택) */
+  cause?: unknown;
+}
+
+/**
+ * 한국관광공사 API 에러 기본 클래스
+ */
+export class TourApiError extends Error {
+  /** 에러 종류 */
+  readonly kind: TourApiErrorKind;
+  /** 재시도 가능 여부 */
+  readonly retryable: boolean;
+  /** API 엔드포인트 */
+  readonly endpoint: string;
+  /** HTTP 상태 코드 */
+  readonly status?: number;
+  /** KorService2 resultCode */
+  readonly resultCode?: string;
+  /** KorService2 resultMsg */
+  readonly resultMsg?: string;
+  /** Next.js 에러 digest (에러 바운더리 전달용) */
+  readonly digest: string;
+
+  constructor(
+    message: string,
+    kind: TourApiErrorKind,
+    retryable: boolean,
+    options: TourApiErrorOptions,
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "TourApiError";
+    this.kind = kind;
+    this.retryable = retryable;
+    this.endpoint = options.endpoint;
+    this.status = options.status;
+    this.resultCode = options.resultCode;
+    this.resultMsg = options.resultMsg;
+    this.digest = [
+      DIGEST_PREFIX,
+      kind,
+      retryable ? DIGEST_RETRYABLE : DIGEST_NOT_RETRYABLE,
+      options.endpoint,
+      options.status ?? "",
+      options.resultCode ?? "",
+    ].join(":");
+  }
+}
+
+/**
+ * 인증 실패 (401/403, 서비스 키 미등록/만료 등) - 재시도 불가
+ */
+export class TourApiAuthError extends TourApiError {
+  constructor(options: TourApiErrorOptions) {
+    super("API 인증에 실패했습니다. 관리자에게 문의해주세요.", "auth", false, options);
+    this.name = "TourApiAuthError";
+  }
+}
+
+/**
+ * 호출 제한 초과
+ * HTTP 429는 잠시 후 재시도할 수 있지만, 일일 트래픽 초과(resultCode 22)는 재시도하지 않습니다.
+ */
+export class TourApiRateLimitError extends TourApiError {
+  constructor(options: TourApiErrorOptions, retryable: boolean = true) {
+    super("API 호출 제한 초과: 잠시 후 다시 시도해주세요.", "rate_limit", retryable, options);
+    this.name = "TourApiRateLimitError";
+  }
+}
+
+/**
+ * 서버 에러 (5xx, 일시적인 서비스 장애) - 재시도 가능
+ */
+export class TourApiServerError extends TourApiError {
+  constructor(options: TourApiErrorOptions) {
+    super("서버 에러: 잠시 후 다시 시도해주세요.", "server", true, options);
+    this.name = "TourApiServerError";
+  }
+}
+
+/**
+ * 요청 파라미터 오류 (필수 파라미터 누락, 잘못된 값) - 재시도 불가
+ */
+export class TourApiValidationError extends TourApiError {
+  constructor(
+    options: TourApiErrorOptions,
+    message: string = "입력한 정보를 확인해주세요. 필수 항목이 누락되었습니다.",
+  ) {
+    super(message, "validation", false, options);
+    this.name = "TourApiValidationError";
+  }
+}
+
+/**
+ * 데이터 없음 - 재시도 불가
+ */
+export class TourApiNotFoundError extends TourApiError {
+  constructor(
+    options: TourApiErrorOptions,
+    message: string = "관광지 정보를 찾을 수 없습니다.",
+  ) {
+    super(message, "not_found", false, options);
+    this.name = "TourApiNotFoundError";
+  }
+}
+
+/**
+ * 네트워크 연결 실패 - 재시도 가능
+ */
+export class TourApiNetworkError extends TourApiError {
+  constructor(options: TourApiErrorOptions) {
+    super(
+      "네트워크 연결에 문제가 있습니다. 인터넷 연결을 확인해주세요.",
+      "network",
+      true,
+      options,
+    );
+    this.name = "TourApiNetworkError";
+  }
+}
+
+/**
+ * 기타 API 응답 에러 (알 수 없는 resultCode, 잘못된 응답 형식)
+ */
+export class TourApiResponseError extends TourApiError {
+  constructor(options: TourApiErrorOptions, retryable: boolean = true) {
+    super("데이터를 불러오는 중 오류가 발생했습니다.", "response", retryable, options);
+    this.name = "TourApiResponseError";
+  }
+}
+
+/**
+ * HTTP 상태 코드로 에러 생성
+ * @param endpoint API 엔드포인트
+ * @param status HTTP 상태 코드
+ */
+export function createTourApiErrorFromStatus(
+  endpoint: string,
+  status: number,
+): TourApiError {
+  if (status === 400) {
+    return new TourApiValidationError({ endpoint, status });
+  }
+  if (status === 401 || status === 403) {
+    return new TourApiAuthError({ endpoint, status });
+  }
+  if (status === 429) {
+    return new TourApiRateLimitError({ endpoint, status });
+  }
+  if (status >= 500) {
+    return new TourApiServerError({ endpoint, status });
+  }
+  if (status === 404) {
+    return new TourApiNotFoundError(
+      { endpoint, status },
+      "요청하신 정보를 찾을 수 없습니다.",
+    );
+  }
+  return new TourApiResponseError({ endpoint, status }, false);
+}
+
+/**
+ * KorService2 resultCode로 에러 생성
+ * 공공데이터포털 게이트웨이는 숫자 코드(예: "30")와 이름(예: "SERVICE_KEY_IS_NOT_REGISTERED_ERROR")을
+ * 혼용하므로 둘 다 처리합니다.
+ * @param endpoint API 엔드포인트
+ * @param resultCode KorService2 resultCode
+ * @param resultMsg KorService2 resultMsg
+ */
+export function createTourApiErrorFromResult(
+  endpoint: string,
+  resultCode: string,
+  resultMsg?: string,
+): TourApiError {
+  const options: TourApiErrorOptions = { endpoint, resultCode, resultMsg };
+  const code = `${resultCode} ${resultMsg ?? ""}`.toUpperCase();
+
+  // 서비스 키 관련 (20, 21, 30, 31, 32, 33)
+  if (
+    /^(20|21|30|31|32|33)\b/.test(resultCode) ||
+    code.includes("SERVICE_KEY") ||
+    code.includes("SERVICE_ACCESS_DENIED") ||
+    code.includes("UNREGISTERED_IP") ||
+    code.includes("DEADLINE_HAS_EXPIRED")
+  ) {
+    return new TourApiAuthError(options);
+  }
+
+  // 일일 트래픽 초과 (22)
+  if (resultCode === "22" || code.includes("LIMITED_NUMBER_OF_SERVICE_REQUESTS")) {
+    return new TourApiRateLimitError(options, false);
+  }
+
+  // 필수 파라미터 누락/잘못된 파라미터 (10, 11)
+  if (
+    resultCode === "10" ||
+    resultCode === "11" ||
+    code.includes("NO_MANDATORY_REQUEST_PARAMETERS") ||
+    code.includes("INVALID_REQUEST_PARAMETER")
+  ) {
+    return new TourApiValidationError(options);
+  }
+
+  // 데이터 없음 (03)
+  if (resultCode === "03" || code.includes("NODATA")) {
+    return new TourApiNotFoundError(options);
+  }
+
+  // 일시적인 장애 (01, 02, 04, 05)
+  if (
+    ["01", "02", "04", "05"].includes(resultCode) ||
+    code.includes("SERVICETIME_OUT") ||
+    code.includes("DB_ERROR") ||
+    code.includes("HTTP_ERROR")
+  ) {
+    return new TourApiServerError(options);
+  }
+
+  return new TourApiResponseError(options, false);
+}
+
+/**
+ * TourApiError 여부 확인
+ */
+export function isTourApiError(error: unknown): error is TourApiError {
+  return error instanceof TourApiError;
+}
+
+/**
+ * 요청 취소 에러 여부 확인 (AbortSignal로 취소된 fetch, 재시도 대기 등)
+ * 취소는 실패가 아니므로 에러 로그, 서킷 브레이커, 화면 에러 표시에서 제외합니다.
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    !!error &&
+    typeof error === "object" &&
+    (error as { name?: unknown }).name === "AbortError"
+  );
+}
+
+/**
+ * 서버 컴포넌트에서 전달된 TourApiError digest 분해 (TourApiError digest가 아니면 null)
+ */
+function parseTourApiDigest(error: unknown): string[] | null {
+  const digest =
+    error && typeof error === "object" && "digest" in error
+      ? (error as { digest?: unknown }).digest
+      : undefined;
+
+  if (typeof digest === "string" && digest.startsWith(`${DIGEST_PREFIX}:`)) {
+    return digest.split(":");
+  }
+
+  return null;
+}
+
+/**
+ * 에러 종류 조회
+ * TourApiError 인스턴스이거나, 서버 컴포넌트에서 전달된 TourApiError digest를 가진 에러인 경우
+ * 에러 종류를 반환합니다.
+ * @param error 에러 객체
+ * @returns 에러 종류 또는 null
+ */
+export function getTourApiErrorKind(error: unknown): TourApiErrorKind | null {
+  if (isTourApiError(error)) {
+    return error.kind;
+  }
+
+  const parts = parseTourApiDigest(error);
+  if (parts) {
+    const kind = parts[1] as TourApiErrorKind;
+    return TOUR_API_ERROR_KINDS.includes(kind) ? kind : null;
+  }
+
+  return null;
+}
+
+/**
+ * 재시도 가능 여부 조회
+ * TourApiError 인스턴스이거나, 서버 컴포넌트에서 전달된 TourApiError digest를 가진 에러인 경우
+ * 에러 자체의 재시도 가능 여부를 반환합니다.
+ * (같은 rate_limit 종류라도 일일 트래픽 초과는 재시도 불가)
+ * @param error 에러 객체
+ * @returns 재시도 가능 여부 또는 null (판단할 수 없는 경우)
+ */
+export function getTourApiErrorRetryable(error: unknown): boolean | null {
+  if (isTourApiError(error)) {
+    return error.retryable;
+  }
+
+  const retryable = parseTourApiDigest(error)?.[2];
+  if (retryable === DIGEST_RETRYABLE) return true;
+  if (retryable === DIGEST_NOT_RETRYABLE) return false;
+
+  return null;
+}
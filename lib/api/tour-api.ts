@@ -11,21 +11,41 @@
  * 4. 공통 정보 조회 (detailCommon2)
  * 5. 소개 정보 조회 (detailIntro2)
  * 6. 이미지 목록 조회 (detailImage2)
+ * 7. 위치 기반 관광정보 조회 (locationBasedList2)
+ * 8. 행사정보 조회 (searchFestival2)
+ * 9. 숙박정보 조회 (searchStay2)
+ * 10. 반복 정보 조회 (detailInfo2 - 여행코스 하위 코스, 숙박 객실, 기타 반복 항목)
+ * 11. 반려동물 동반 여행 정보 조회 (detailPetTour2)
+ * 12. 서비스 분류 코드 조회 (categoryCode2 - 대/중/소분류)
  *
  * 핵심 구현 로직:
  * - 공통 파라미터 처리 (serviceKey, MobileOS, MobileApp, _type)
- * - 에러 처리 및 재시도 로직
- * - 타입 안전한 API 호출
+ * - 트랜스포트 모드 전환 (live, fixture, mock, record - lib/api/tour-transport-server.ts, 서버 진입점에서 등록)
+ * - 브라우저에서는 /api/tour 프록시 라우트를 거쳐 호출 (API 키는 서버에서만 사용)
+ * - 동일 요청 병합 및 LRU 응답 캐시 (lib/api/tour-cache.ts, 엔드포인트별 TTL)
+ * - 일일 호출 한도/속도 제한 (lib/api/tour-rate-limit.ts, 비필수 호출은 priority: "background")
+ * - 에러 처리 및 재시도 로직 (TourApiError의 retryable 기준)
+ * - 서킷 브레이커 (lib/api/tour-circuit.ts): 연속 장애 시 재시도 없이 바로 실패
+ * - 요청 취소 (signal 옵션): 취소되면 재시도 대기를 멈추고 AbortError로 거부 (에러 로그/서킷 집계 제외)
+ * - 장애 시 detailCommon2/areaBasedList2는 마지막으로 성공한 응답을 stale: true로 표시하여 반환
+ * - 타입 안전한 API 호출 (원본 응답 반환, 화면에서는 lib/api/tour-normalize.ts로 정규화)
+ * - 응답 스키마 검증 (lib/api/tour-schemas.ts): 응답 구조가 다르면 에러, 필수 필드 누락 항목은 제외,
+ *   알 수 없는 필드 등은 기록만 남김
  * - 사용자 친화적인 에러 메시지 제공
  *
  * 캐싱 전략:
- * - 서버 사이드: Next.js fetch 캐싱 사용 (revalidate: 3600초 = 1시간)
- *   - 서버 컴포넌트에서 호출 시 자동으로 캐시됨
- *   - 동일한 요청은 1시간 동안 캐시된 응답 반환
- *   - ISR (Incremental Static Regeneration) 방식으로 작동
- *   - 캐시 무효화: 1시간 후 자동으로 재검증
- * - 클라이언트 사이드: 브라우저 캐시 활용
- *   - fetch API의 기본 캐싱 동작 활용
+ * - 공통: 프로세스 내 LRU 캐시 + 진행 중 요청 병합 (lib/api/tour-cache.ts)
+ *   - 같은 엔드포인트/파라미터 요청은 TTL 동안 다시 보내지 않음
+ *   - 동시에 렌더링되는 컴포넌트의 동일 요청은 하나로 합쳐짐
+ * - 서버 사이드: 라이브 API 호출은 Next.js 데이터 캐시를 사용하지 않음 (cache: "no-store")
+ *   - 트랜스포트에서 기록하는 호출량이 실제 KorService2 호출 수와 일치하도록
+ *     (데이터 캐시에서 응답한 호출까지 한도에 집계되지 않음)
+ *   - 서버의 중복 호출은 위 LRU 캐시가 막음
+ * - 클라이언트 사이드: /api/tour 프록시 응답의 Cache-Control 활용
+ *   - 프록시도 서버의 LRU 캐시와 요청 병합을 거침 (fetchTourProxyResponse)
+ *   - resultCode가 "0000"인 응답만 공개 캐시, 에러/이전 응답은 no-store
+ *   - 프록시가 반환한 이전 응답(stale: true)은 브라우저 LRU 캐시에도 저장하지 않음
+ *   - 엔드포인트별 캐시 시간은 lib/api/tour-proxy.ts의 허용 목록에서 지정
  *   - 필요 시 추가적인 클라이언트 사이드 캐싱 구현 가능 (예: React Query, SWR)
  *
  * 성능 최적화:
@@ -36,200 +56,405 @@
  * @dependencies
  * - 한국관광공사 공공 API (KorService2)
  * - @/lib/utils/error-handler: 공통 에러 처리 유틸리티
+ * - @/lib/api/tour-transport: 요청 전송 계층 (라이브 API, 카세트, 목 서버)
+ * - @/lib/api/tour-api-error: 에러 클래스 (TourApiError 계층)
+ * - @/lib/api/tour-cache: 응답 캐시 및 요청 병합
+ * - @/lib/api/tour-circuit: 서킷 브레이커
+ * - @/lib/api/tour-schemas: 응답 스키마 검증
  *
  * @see {@link /docs/PRD.md#4-api-명세} - API 명세 참조
  * @see {@link /docs/TODO.md#5-4-성능-최적화} - 성능 최적화 체크리스트
  */
 
-import { formatError, logError } from "@/lib/utils/error-handler";
+import { logError } from "@/lib/utils/error-handler";
+import { getTourTransport } from "@/lib/api/tour-transport";
+import type { TourApiPriority } from "@/lib/api/tour-rate-limit";
+import {
+  reportTourSchemaIssues,
+  validateTourResponse,
+} from "@/lib/api/tour-schemas";
+import type { TourResponseEnvelope } from "@/lib/api/tour-schemas";
+import {
+  coalesceTourRequest,
+  getTourCacheKey,
+  readStaleTourCache,
+  readTourCache,
+  writeTourCache,
+} from "@/lib/api/tour-cache";
+import {
+  allowTourRequest,
+  isTourOutageError,
+  recordTourRequestResult,
+  releaseTourRequest,
+} from "@/lib/api/tour-circuit";
+import {
+  TourApiError,
+  TourApiNetworkError,
+  TourApiNotFoundError,
+  TourApiResponseError,
+  TourApiServerError,
+  TourApiValidationError,
+  createTourApiErrorFromResult,
+  createTourApiErrorFromStatus,
+  isAbortError,
+  isTourApiError,
+} from "@/lib/api/tour-api-error";
+import type {
+  CategoryCode,
+  FestivalItem,
+  PetTourInfo,
+  TourApiResponse,
+  TourArrange,
+  TourDetail,
+  TourImage,
+  TourIntro,
+  TourItem,
+  TourListArrange,
+  TourRepeatInfoItem,
+} from "@/lib/types/tour";
 
-const BASE_URL = "https://apis.data.go.kr/B551011/KorService2";
-
-// 공통 기본 파라미터
-const DEFAULT_PARAMS = {
+/**
+ * 공통 기본 파라미터
+ */
+export const TOUR_API_DEFAULT_PARAMS = {
   MobileOS: "ETC",
   MobileApp: "MyTrip",
   _type: "json",
 } as const;
 
 /**
- * API 키 가져오기 (클라이언트 또는 서버 사이드)
+ * locationBasedList2 최대 반경 (미터)
  */
-function getApiKey(): string {
-  // 클라이언트 사이드: NEXT_PUBLIC_TOUR_API_KEY
-  if (typeof window !== "undefined") {
-    const key = process.env.NEXT_PUBLIC_TOUR_API_KEY;
-    if (!key) {
-      throw new Error(
-        "NEXT_PUBLIC_TOUR_API_KEY 환경변수가 설정되지 않았습니다."
-      );
-    }
-    return key;
-  }
+export const MAX_LOCATION_RADIUS = 20000;
 
-  // 서버 사이드: TOUR_API_KEY 또는 NEXT_PUBLIC_TOUR_API_KEY
-  const serverKey = process.env.TOUR_API_KEY;
-  const publicKey = process.env.NEXT_PUBLIC_TOUR_API_KEY;
+/**
+ * API 호출 옵션
+ */
+interface FetchTourOptions {
+  /** 재시도 횟수 (기본값: 3) */
+  retries?: number;
+  /** 호출 우선순위 (기본값: essential, 일일 한도에 가까우면 background 호출부터 거절) */
+  priority?: TourApiPriority;
+  /** 취소 신호 (취소되면 AbortError로 거부) */
+  signal?: AbortSignal;
+}
 
-  const apiKey = serverKey || publicKey;
-  if (!apiKey) {
-    throw new Error(
-      "TOUR_API_KEY 또는 NEXT_PUBLIC_TOUR_API_KEY 환경변수가 설정되지 않았습니다."
-    );
-  }
-  return apiKey;
+/**
+ * 재시도 대기 (취소되면 즉시 AbortError로 거부)
+ * @param delay 대기 시간 (밀리초)
+ * @param signal 취소 신호
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
  * API 호출 공통 함수
+ * 캐시된 응답이 있으면 바로 반환하고, 진행 중인 동일 요청이 있으면 그 결과를 함께 기다립니다.
+ * 장애(서버/네트워크 에러)로 실패하면 보관된 이전 응답이 있는 경우 stale: true로 표시하여 반환합니다.
  * @param endpoint API 엔드포인트
  * @param params 추가 파라미터
- * @param retries 재시도 횟수 (기본값: 3)
+ * @param options 재시도 횟수, 호출 우선순위, 취소 신호
  */
 async function fetchTourAPI<T>(
   endpoint: string,
   params: Record<string, string | number | undefined> = {},
-  retries: number = 3
+  options: FetchTourOptions = {}
 ): Promise<T> {
-  const apiKey = getApiKey();
-
-  // 공통 파라미터 + 추가 파라미터 조합
-  const queryParams = new URLSearchParams({
-    ...DEFAULT_PARAMS,
-    serviceKey: apiKey,
+  // 공통 파라미터 + 추가 파라미터 조합 (serviceKey는 트랜스포트에서 추가)
+  const queryParams = {
+    ...TOUR_API_DEFAULT_PARAMS,
     ...Object.fromEntries(
-      Object.entries(params).filter(([_, value]) => value !== undefined)
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, String(value)])
     ),
-  } as Record<string, string>);
+  } as Record<string, string>;
 
-  const url = `${BASE_URL}${endpoint}?${queryParams.toString()}`;
+  const cacheKey = getTourCacheKey(endpoint, queryParams);
+  const cached = readTourCache<T>(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
 
-  let lastError: Error | null = null;
+  const { signal, ...requestOptions } = options;
 
-  for (let attempt = 1; attempt <= retries; attempt++) {
+  // 병합된 요청은 공유 취소 신호로 전송 (기다리는 호출부가 모두 취소하면 취소됨)
+  const request = async (sharedSignal: AbortSignal): Promise<T> => {
     try {
-      const response = await fetch(url, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-        },
-        // 캐시 설정 (서버 사이드에서만 동작)
-        ...(typeof window === "undefined" && {
-          next: { revalidate: 3600 }, // 1시간 캐시
-        }),
+      const data = await requestTourAPI<T>(endpoint, queryParams, {
+        ...requestOptions,
+        signal: sharedSignal,
       });
+      // 프록시가 장애로 전달한 이전 응답(stale)은 캐시하지 않음 (복구 후 다시 요청하도록)
+      if (!(data as { stale?: boolean } | null)?.stale) {
+        writeTourCache(cacheKey, endpoint, data);
+      }
+      return data;
+    } catch (error) {
+      // 장애(서버/네트워크 에러)인 경우에만 이전 응답 사용 (대체 응답 집계도 이때만)
+      if (isTourApiError(error) && isTourOutageError(error)) {
+        const stale = readStaleTourCache<T>(cacheKey);
+        if (stale !== undefined) {
+          console.warn(`[tour-api] 장애로 이전 응답을 사용합니다: ${endpoint}`);
+          return { ...stale, stale: true };
+        }
+      }
+      throw error;
+    }
+  };
+
+  return coalesceTourRequest(cacheKey, request, signal);
+}
+
+/**
+ * 프록시 라우트용 API 호출 (app/api/tour/[endpoint]/route.ts)
+ * 브라우저 요청도 서버의 LRU 캐시, 요청 병합, 장애 시 이전 응답 사용을 거치도록 fetchTourAPI로 호출합니다.
+ * 재시도는 브라우저의 fetchTourAPI가 담당하므로 서버에서는 한 번만 시도합니다.
+ * @param endpoint API 엔드포인트 (예: "/areaCode2")
+ * @param params 검증된 요청 파라미터 (lib/api/tour-proxy.ts)
+ * @param options 호출 우선순위, 취소 신호
+ * @returns resultCode "0000"이 확인된 응답 본문 (이전 응답이면 stale: true)
+ * @throws TourApiError resultCode가 "0000"이 아니거나 호출에 실패한 경우
+ */
+export function fetchTourProxyResponse(
+  endpoint: string,
+  params: Record<string, string>,
+  options: Pick<FetchTourOptions, "priority" | "signal"> = {}
+): Promise<TourApiResponse<unknown>> {
+  return fetchTourAPI<TourApiResponse<unknown>>(endpoint, params, {
+    ...options,
+    retries: 1,
+  });
+}
+
+/**
+ * API 요청 (재시도 포함)
+ * @param endpoint API 엔드포인트
+ * @param queryParams 공통 파라미터를 포함한 요청 파라미터
+ * @param options 재시도 횟수, 호출 우선순위, 취소 신호
+ */
+async function requestTourAPI<T>(
+  endpoint: string,
+  queryParams: Record<string, string>,
+  options: FetchTourOptions
+): Promise<T> {
+  const { retries = 3, priority, signal } = options;
+  const transport = getTourTransport();
+
+  let lastError: TourApiError | null = null;
+
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    signal?.throwIfAborted();
+
+    // 회로가 열려 있으면 요청하지 않고 바로 실패
+    if (!allowTourRequest()) {
+      throw (
+        lastError ??
+        new TourApiServerError({ endpoint, resultMsg: "circuit open" })
+      );
+    }
+
+    try {
+      let response: Response;
+      try {
+        response = await transport.request(endpoint, queryParams, {
+          priority,
+          signal,
+        });
+      } catch (networkError) {
+        // 취소, 호출 제한 등 트랜스포트가 던진 TourApiError는 그대로 전달
+        if (isAbortError(networkError) || isTourApiError(networkError)) {
+          throw networkError;
+        }
+        throw new TourApiNetworkError({ endpoint, cause: networkError });
+      }
 
       if (!response.ok) {
         // HTTP 에러 상태 코드 처리
-        if (response.status === 401 || response.status === 403) {
-          const error = new Error("API 인증 실패: API 키를 확인해주세요.");
-          logError(error, `fetchTourAPI - ${endpoint}`);
-          throw error;
-        }
-        if (response.status === 429) {
-          const error = new Error(
-            `API 호출 제한 초과: 잠시 후 다시 시도해주세요.`
-          );
-          logError(error, `fetchTourAPI - ${endpoint}`);
-          throw error;
-        }
-        if (response.status >= 500) {
-          const error = new Error(
-            `서버 에러: 잠시 후 다시 시도해주세요.`
-          );
-          logError(error, `fetchTourAPI - ${endpoint}`);
-          throw error;
-        }
-        const error = new Error(`데이터를 불러오는 중 오류가 발생했습니다.`);
-        logError(error, `fetchTourAPI - ${endpoint}`);
-        throw error;
+        throw createTourApiErrorFromStatus(endpoint, response.status);
       }
 
-      const data = await response.json();
-
-      // 한국관광공사 API 응답 구조 확인
-      if (data.response?.header) {
-        const resultCode = data.response.header.resultCode;
-        const resultMsg = data.response.header.resultMsg;
-
-        if (resultCode !== "0000") {
-          // API 에러 코드 처리
-          let error: Error;
-          if (resultCode === "SERVICE_KEY_NOT_REGISTERED") {
-            error = new Error("API 인증에 실패했습니다. 관리자에게 문의해주세요.");
-          } else if (resultCode === "SERVICE_KEY_IS_NOT_VALID") {
-            error = new Error("API 인증에 실패했습니다. 관리자에게 문의해주세요.");
-          } else if (resultCode === "NO_MANDATORY_REQUEST_PARAMETERS_ERROR") {
-            error = new Error("입력한 정보를 확인해주세요. 필수 항목이 누락되었습니다.");
-          } else {
-            error = new Error(formatError(new Error(`API 에러 (${resultCode}): ${resultMsg}`)));
-          }
-          logError(error, `fetchTourAPI - ${endpoint} - ${resultCode}`);
-          throw error;
-        }
+      const body = await parseResponseBody(endpoint, response);
+
+      // 응답 스키마 검증 (공통 응답 구조가 다르면 재시도하지 않음, 필수 필드 누락 항목은 제외)
+      const data = checkResponseSchema(endpoint, body);
+
+      // 한국관광공사 API 응답 결과 코드 확인
+      const { resultCode, resultMsg } = data.response.header;
+      if (resultCode !== "0000") {
+        throw createTourApiErrorFromResult(endpoint, resultCode, resultMsg);
       }
 
-      return data as T;
+      recordTourRequestResult();
+      return data as unknown as T;
     } catch (error) {
-      const caughtError = error instanceof Error ? error : new Error(String(error));
+      // 취소는 실패가 아니므로 기록하지 않고 바로 중단
+      if (isAbortError(error)) {
+        releaseTourRequest();
+        throw error;
+      }
+
+      const caughtError = isTourApiError(error)
+        ? error
+        : new TourApiResponseError({ endpoint, cause: error });
       lastError = caughtError;
+      recordTourRequestResult(caughtError);
+      const context = `fetchTourAPI - ${endpoint}${caughtError.resultCode ? ` - ${caughtError.resultCode}` : ""}`;
 
-      // 네트워크 에러는 재시도, 인증/검증 에러는 즉시 중단
-      if (
-        caughtError.message.includes("인증") ||
-        caughtError.message.includes("API 키") ||
-        caughtError.message.includes("필수") ||
-        caughtError.message.includes("누락")
-      ) {
-        // 인증/검증 에러는 사용자 친화적인 메시지로 변환하여 즉시 throw
+      // 재시도 불가능한 에러(인증/검증 등)는 즉시 중단
+      if (!caughtError.retryable) {
+        logError(caughtError, `${context} - 최종 실패`);
         throw caughtError;
       }
 
-      // 마지막 시도가 아니면 대기 후 재시도
+      // 마지막 시도가 아니면 대기 후 재시도 (최종 실패는 반복문 밖에서 한 번만 기록)
       if (attempt < retries) {
+        logError(caughtError, `${context} - 재시도 ${attempt}/${retries - 1}`);
         const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000); // 지수 백오프 (최대 5초)
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        await waitForRetry(delay, signal);
         continue;
       }
     }
   }
 
-  // 모든 재시도 실패 - 사용자 친화적인 메시지로 변환
+  // 모든 재시도 실패
   if (lastError) {
-    const userFriendlyError = new Error(formatError(lastError));
-    logError(userFriendlyError, `fetchTourAPI - ${endpoint} - 최종 실패`);
-    throw userFriendlyError;
+    logError(lastError, `fetchTourAPI - ${endpoint} - 최종 실패`);
+    throw lastError;
+  }
+
+  throw new TourApiResponseError({ endpoint });
+}
+
+/**
+ * 응답 스키마 검증
+ * 발견된 문제는 모두 기록하고, 공통 응답 구조가 다르면(fatal) 에러를 던집니다.
+ * @param endpoint API 엔드포인트
+ * @param body 파싱된 응답 본문
+ * @returns 검증된 응답 (필수 필드에 문제가 있는 항목 제외)
+ */
+function checkResponseSchema(
+  endpoint: string,
+  body: unknown
+): TourResponseEnvelope {
+  const { data, issues } = validateTourResponse(endpoint, body);
+  reportTourSchemaIssues(issues);
+
+  if (!data) {
+    const fatal = issues[0];
+    throw new TourApiResponseError(
+      {
+        endpoint,
+        resultMsg: fatal ? `${fatal.path}: ${fatal.message}` : undefined,
+      },
+      false
+    );
+  }
+
+  return data;
+}
+
+/**
+ * 응답 본문 파싱
+ * 공공데이터포털 게이트웨이는 서비스 키 오류 등을 _type=json과 무관하게 XML로 응답하므로
+ * JSON 파싱에 실패하면 XML의 returnReasonCode를 확인합니다.
+ * @param endpoint API 엔드포인트
+ * @param response 응답 객체
+ */
+async function parseResponseBody(
+  endpoint: string,
+  response: Response
+): Promise<unknown> {
+  const text = await response.text();
+
+  try {
+    return JSON.parse(text);
+  } catch (parseError) {
+    const reasonCode = text.match(
+      /<returnReasonCode>\s*([^<\s]+)\s*<\/returnReasonCode>/
+    )?.[1];
+    const authMsg = text.match(
+      /<returnAuthMsg>\s*([^<]+?)\s*<\/returnAuthMsg>/
+    )?.[1];
+
+    if (reasonCode) {
+      throw createTourApiErrorFromResult(endpoint, reasonCode, authMsg);
+    }
+    throw new TourApiResponseError(
+      { endpoint, status: response.status, cause: parseError },
+      false
+    );
   }
-  
-  throw new Error("데이터를 불러오는 중 오류가 발생했습니다.");
 }
 
 /**
  * 지역코드 조회
+ * 화면에서는 lib/api/tour-areas.ts의 캐시를 거쳐 사용합니다.
  * @param areaCode 상위 지역코드 (선택 사항, 없으면 최상위 지역 목록)
+ * @param numOfRows 조회 개수 (기본 100 - 시/군/구가 많은 도 단위 지역도 한 번에 조회)
  */
-export async function areaCode2(areaCode?: string) {
-  const params: Record<string, string | undefined> = {};
+export async function areaCode2(areaCode?: string, numOfRows = 100) {
+  const params: Record<string, string | number | undefined> = { numOfRows };
   if (areaCode) {
     params.areaCode = areaCode;
   }
 
-  return fetchTourAPI<{
-    response: {
-      header: {
-        resultCode: string;
-        resultMsg: string;
-      };
-      body: {
-        items: {
-          item: Array<{
-            code: string;
-            name: string;
-          }>;
-        };
-      };
-    };
-  }>("/areaCode2", params);
+  return fetchTourAPI<TourApiResponse<{ code: string; name: string }>>(
+    "/areaCode2",
+    params
+  );
+}
+
+/**
+ * 서비스 분류 코드 조회
+ * 상위 분류를 지정하지 않으면 대분류, cat1만 지정하면 중분류, cat2까지 지정하면 소분류 목록을 반환합니다.
+ * 화면에서는 lib/api/tour-categories.ts의 캐시를 거쳐 사용합니다.
+ * @param options 조회 옵션
+ */
+export async function categoryCode2(
+  options: {
+    contentTypeId?: string;
+    cat1?: string;
+    cat2?: string;
+    cat3?: string;
+    numOfRows?: number;
+  } = {}
+) {
+  const { contentTypeId, cat1, cat2, cat3, numOfRows = 100 } = options;
+
+  if (cat2 && !cat1) {
+    const error = new TourApiValidationError(
+      { endpoint: "/categoryCode2" },
+      "중분류(cat2)를 조회하려면 대분류(cat1)가 필요합니다."
+    );
+    logError(error, "categoryCode2");
+    throw error;
+  }
+
+  const params: Record<string, string | number | undefined> = {
+    numOfRows,
+  };
+
+  if (contentTypeId) params.contentTypeId = contentTypeId;
+  if (cat1) params.cat1 = cat1;
+  if (cat2) params.cat2 = cat2;
+  if (cat3) params.cat3 = cat3;
+
+  return fetchTourAPI<TourApiResponse<CategoryCode>>("/categoryCode2", params);
 }
 
 /**
@@ -245,6 +470,12 @@ export async function areaBasedList2(options: {
   cat1?: string;
   cat2?: string;
   cat3?: string;
+  /** 정렬 (A: 제목순, C: 수정일순, D: 생성일순, O/Q/R: 대표 이미지가 있는 항목만) */
+  arrange?: TourListArrange;
+  /** 호출 우선순위 (사이트맵 샘플링 등 비필수 호출은 "background") */
+  priority?: TourApiPriority;
+  /** 취소 신호 (이전 검색 취소 등) */
+  signal?: AbortSignal;
 }) {
   const {
     areaCode,
@@ -255,6 +486,9 @@ export async function areaBasedList2(options: {
     cat1,
     cat2,
     cat3,
+    arrange,
+    priority,
+    signal,
   } = options;
 
   const params: Record<string, string | number | undefined> = {
@@ -268,39 +502,12 @@ export async function areaBasedList2(options: {
   if (cat1) params.cat1 = cat1;
   if (cat2) params.cat2 = cat2;
   if (cat3) params.cat3 = cat3;
+  if (arrange) params.arrange = arrange;
 
-  return fetchTourAPI<{
-    response: {
-      header: {
-        resultCode: string;
-        resultMsg: string;
-      };
-      body: {
-        items: {
-          item: Array<{
-            addr1: string;
-            addr2?: string;
-            areacode: string;
-            contentid: string;
-            contenttypeid: string;
-            title: string;
-            mapx: string;
-            mapy: string;
-            firstimage?: string;
-            firstimage2?: string;
-            tel?: string;
-            cat1?: string;
-            cat2?: string;
-            cat3?: string;
-            modifiedtime: string;
-          }>;
-        };
-        numOfRows: number;
-        pageNo: number;
-        totalCount: number;
-      };
-    };
-  }>("/areaBasedList2", params);
+  return fetchTourAPI<TourApiResponse<TourItem>>("/areaBasedList2", params, {
+    priority,
+    signal,
+  });
 }
 
 /**
@@ -310,18 +517,25 @@ export async function areaBasedList2(options: {
 export async function searchKeyword2(options: {
   keyword: string;
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
   numOfRows?: number;
   pageNo?: number;
   listYN?: "Y" | "N";
-  arrange?: "A" | "B" | "C" | "D" | "E" | "O";
+  /** 정렬 (A: 제목순, C: 수정일순, D: 생성일순, O/Q/R: 대표 이미지가 있는 항목만) */
+  arrange?: TourListArrange;
   cat1?: string;
   cat2?: string;
   cat3?: string;
+  /** 호출 우선순위 (저장 검색 새 항목 수 등 비필수 호출은 "background") */
+  priority?: TourApiPriority;
+  /** 취소 신호 (이전 검색 취소 등) */
+  signal?: AbortSignal;
 }) {
   const {
     keyword,
     areaCode,
+    sigunguCode,
     contentTypeId,
     numOfRows = 20,
     pageNo = 1,
@@ -330,10 +544,15 @@ export async function searchKeyword2(options: {
     cat1,
     cat2,
     cat3,
+    priority,
+    signal,
   } = options;
 
   if (!keyword || keyword.trim().length === 0) {
-    const error = new Error("검색어를 입력해주세요.");
+    const error = new TourApiValidationError(
+      { endpoint: "/searchKeyword2" },
+      "검색어를 입력해주세요."
+    );
     logError(error, "searchKeyword2");
     throw error;
   }
@@ -346,44 +565,17 @@ export async function searchKeyword2(options: {
   };
 
   if (areaCode) params.areaCode = areaCode;
+  if (sigunguCode) params.sigunguCode = sigunguCode;
   if (contentTypeId) params.contentTypeId = contentTypeId;
   if (arrange) params.arrange = arrange;
   if (cat1) params.cat1 = cat1;
   if (cat2) params.cat2 = cat2;
   if (cat3) params.cat3 = cat3;
 
-  return fetchTourAPI<{
-    response: {
-      header: {
-        resultCode: string;
-        resultMsg: string;
-      };
-      body: {
-        items: {
-          item: Array<{
-            addr1: string;
-            addr2?: string;
-            areacode: string;
-            contentid: string;
-            contenttypeid: string;
-            title: string;
-            mapx: string;
-            mapy: string;
-            firstimage?: string;
-            firstimage2?: string;
-            tel?: string;
-            cat1?: string;
-            cat2?: string;
-            cat3?: string;
-            modifiedtime: string;
-          }>;
-        };
-        numOfRows: number;
-        pageNo: number;
-        totalCount: number;
-      };
-    };
-  }>("/searchKeyword2", params);
+  return fetchTourAPI<TourApiResponse<TourItem>>("/searchKeyword2", params, {
+    priority,
+    signal,
+  });
 }
 
 /**
@@ -392,81 +584,46 @@ export async function searchKeyword2(options: {
  */
 export async function detailCommon2(contentId: string) {
   if (!contentId || contentId.trim().length === 0) {
-    const error = new Error("관광지 정보를 찾을 수 없습니다.");
+    const error = new TourApiNotFoundError({ endpoint: "/detailCommon2" });
     logError(error, "detailCommon2");
     throw error;
   }
 
-  return fetchTourAPI<{
-    response: {
-      header: {
-        resultCode: string;
-        resultMsg: string;
-      };
-      body: {
-        items: {
-          item: Array<{
-            contentid: string;
-            contenttypeid: string;
-            title: string;
-            addr1: string;
-            addr2?: string;
-            zipcode?: string;
-            tel?: string;
-            homepage?: string;
-            overview?: string;
-            firstimage?: string;
-            firstimage2?: string;
-            mapx: string;
-            mapy: string;
-            cat1?: string;
-            cat2?: string;
-            cat3?: string;
-            cpyrhtDivCd?: string;
-            modifiedtime: string;
-          }>;
-        };
-      };
-    };
-  }>("/detailCommon2", { contentId: contentId.trim() });
+  return fetchTourAPI<TourApiResponse<TourDetail>>("/detailCommon2", {
+    contentId: contentId.trim(),
+  });
 }
 
 /**
  * 소개 정보 조회 (상세페이지 운영 정보)
  * @param contentId 콘텐츠 ID
  * @param contentTypeId 콘텐츠 타입 ID
+ * @param options 호출 우선순위 (목록 일괄 조회는 "background"), 취소 신호
  */
 export async function detailIntro2(
   contentId: string,
-  contentTypeId: string
+  contentTypeId: string,
+  options: Pick<FetchTourOptions, "priority" | "signal"> = {}
 ) {
   if (!contentId || contentId.trim().length === 0) {
-    const error = new Error("관광지 정보를 찾을 수 없습니다.");
-    logError(error, "detailCommon2");
+    const error = new TourApiNotFoundError({ endpoint: "/detailIntro2" });
+    logError(error, "detailIntro2");
     throw error;
   }
   if (!contentTypeId || contentTypeId.trim().length === 0) {
-    const error = new Error("관광지 정보를 찾을 수 없습니다.");
+    const error = new TourApiNotFoundError({ endpoint: "/detailIntro2" });
     logError(error, "detailIntro2");
     throw error;
   }
 
-  return fetchTourAPI<{
-    response: {
-      header: {
-        resultCode: string;
-        resultMsg: string;
-      };
-      body: {
-        items: {
-          item: Array<Record<string, string | undefined>>;
-        };
-      };
-    };
-  }>("/detailIntro2", {
-    contentId: contentId.trim(),
-    contentTypeId: contentTypeId.trim(),
-  });
+  return fetchTourAPI<TourApiResponse<TourIntro>>(
+    "/detailIntro2",
+    {
+      contentId: contentId.trim(),
+      contentTypeId: contentTypeId.trim(),
+    },
+    options
+  );
 }
 
 /**
@@ -475,29 +632,227 @@ export async function detailIntro2(
  */
 export async function detailImage2(contentId: string) {
   if (!contentId || contentId.trim().length === 0) {
-    const error = new Error("관광지 정보를 찾을 수 없습니다.");
+    const error = new TourApiNotFoundError({ endpoint: "/detailImage2" });
     logError(error, "detailImage2");
     throw error;
   }
 
-  return fetchTourAPI<{
-    response: {
-      header: {
-        resultCode: string;
-        resultMsg: string;
-      };
-      body: {
-        items: {
-          item: Array<{
-            contentid: string;
-            originimgurl?: string;
-            serialnum: string;
-            smallimageurl?: string;
-            imgname?: string;
-          }>;
-        };
-      };
-    };
-  }>("/detailImage2", { contentId: contentId.trim() });
+  return fetchTourAPI<TourApiResponse<TourImage>>("/detailImage2", {
+    contentId: contentId.trim(),
+  });
+}
+
+/**
+ * 위치 기반 관광정보 조회 (좌표 + 반경)
+ * 응답 항목에는 기준 좌표로부터의 거리(dist, 미터)가 포함됩니다.
+ * @param options 조회 옵션
+ */
+export async function locationBasedList2(options: {
+  /** 경도 (WGS84) */
+  mapX: number;
+  /** 위도 (WGS84) */
+  mapY: number;
+  /** 반경 (미터, 최대 20000) */
+  radius: number;
+  contentTypeId?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  arrange?: TourArrange;
+  /** 호출 우선순위 (비필수 호출은 "background") */
+  priority?: TourApiPriority;
+  /** 취소 신호 (이전 검색 취소 등) */
+  signal?: AbortSignal;
+}) {
+  const {
+    mapX,
+    mapY,
+    radius,
+    contentTypeId,
+    numOfRows = 20,
+    pageNo = 1,
+    arrange = "E",
+    priority,
+    signal,
+  } = options;
+
+  if (
+    !Number.isFinite(mapX) ||
+    !Number.isFinite(mapY) ||
+    !Number.isFinite(radius) ||
+    radius <= 0
+  ) {
+    const error = new TourApiValidationError(
+      { endpoint: "/locationBasedList2" },
+      "위치 정보를 확인해주세요."
+    );
+    logError(error, "locationBasedList2");
+    throw error;
+  }
+
+  const params: Record<string, string | number | undefined> = {
+    mapX,
+    mapY,
+    radius: Math.min(Math.round(radius), MAX_LOCATION_RADIUS),
+    numOfRows,
+    pageNo,
+    arrange,
+  };
+
+  if (contentTypeId) params.contentTypeId = contentTypeId;
+
+  return fetchTourAPI<TourApiResponse<TourItem>>(
+    "/locationBasedList2",
+    params,
+    { priority, signal }
+  );
+}
+
+/**
+ * 행사정보 조회 (축제/공연/행사)
+ * eventStartDate 이후에 진행되는 행사를 조회하며, eventEndDate를 지정하면 그 이전에 시작하는 행사로 제한합니다.
+ * @param options 조회 옵션 (날짜는 YYYYMMDD 형식)
+ */
+export async function searchFestival2(options: {
+  eventStartDate: string;
+  eventEndDate?: string;
+  areaCode?: string;
+  sigunguCode?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  arrange?: TourListArrange;
+  /** 취소 신호 (이전 검색 취소 등) */
+  signal?: AbortSignal;
+}) {
+  const {
+    eventStartDate,
+    eventEndDate,
+    areaCode,
+    sigunguCode,
+    numOfRows = 20,
+    pageNo = 1,
+    arrange,
+    signal,
+  } = options;
+
+  const datePattern = /^\d{8}$/;
+  if (
+    !datePattern.test(eventStartDate ?? "") ||
+    (eventEndDate !== undefined && !datePattern.test(eventEndDate)) ||
+    (eventEndDate !== undefined && eventEndDate < eventStartDate)
+  ) {
+    const error = new TourApiValidationError(
+      { endpoint: "/searchFestival2" },
+      "행사 기간을 확인해주세요. (YYYYMMDD 형식)"
+    );
+    logError(error, "searchFestival2");
+    throw error;
+  }
+
+  const params: Record<string, string | number | undefined> = {
+    eventStartDate,
+    numOfRows,
+    pageNo,
+  };
+
+  if (eventEndDate) params.eventEndDate = eventEndDate;
+  if (areaCode) params.areaCode = areaCode;
+  if (sigunguCode) params.sigunguCode = sigunguCode;
+  if (arrange) params.arrange = arrange;
+
+  return fetchTourAPI<TourApiResponse<FestivalItem>>(
+    "/searchFestival2",
+    params,
+    { signal }
+  );
+}
+
+/**
+ * 숙박정보 조회
+ * @param options 조회 옵션
+ */
+export async function searchStay2(options: {
+  areaCode?: string;
+  sigunguCode?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  arrange?: TourListArrange;
+  /** 취소 신호 (이전 검색 취소 등) */
+  signal?: AbortSignal;
+}) {
+  const {
+    areaCode,
+    sigunguCode,
+    numOfRows = 20,
+    pageNo = 1,
+    arrange,
+    signal,
+  } = options;
+
+  const params: Record<string, string | number | undefined> = {
+    numOfRows,
+    pageNo,
+  };
+
+  if (areaCode) params.areaCode = areaCode;
+  if (sigunguCode) params.sigunguCode = sigunguCode;
+  if (arrange) params.arrange = arrange;
+
+  return fetchTourAPI<TourApiResponse<TourItem>>("/searchStay2", params, {
+    signal,
+  });
 }
 
+/**
+ * 반복 정보 조회 (상세페이지 여행코스/객실/기타 반복 항목)
+ * 응답 항목의 형태는 콘텐츠 타입에 따라 다릅니다. (TourRepeatInfoItem 참고)
+ * 화면에서는 normalizeRepeatInfo로 정규화하여 사용합니다.
+ * @param contentId 콘텐츠 ID
+ * @param contentTypeId 콘텐츠 타입 ID
+ */
+export async function detailInfo2<TContentTypeId extends string>(
+  contentId: string,
+  contentTypeId: TContentTypeId
+) {
+  if (!contentId || contentId.trim().length === 0) {
+    const error = new TourApiNotFoundError({ endpoint: "/detailInfo2" });
+    logError(error, "detailInfo2");
+    throw error;
+  }
+  if (!contentTypeId || contentTypeId.trim().length === 0) {
+    const error = new TourApiNotFoundError({ endpoint: "/detailInfo2" });
+    logError(error, "detailInfo2");
+    throw error;
+  }
+
+  return fetchTourAPI<TourApiResponse<TourRepeatInfoItem<TContentTypeId>>>(
+    "/detailInfo2",
+    {
+      contentId: contentId.trim(),
+      contentTypeId: contentTypeId.trim(),
+    }
+  );
+}
+
+/**
+ * 반려동물 동반 여행 정보 조회
+ * 반려동물 동반 정보가 등록되지 않은 콘텐츠는 빈 결과를 반환합니다.
+ * 화면에서는 normalizePetTourInfo로 정규화하여 사용합니다.
+ * @param contentId 콘텐츠 ID
+ * @param options 호출 우선순위 (목록 일괄 조회는 "background"), 취소 신호
+ */
+export async function detailPetTour2(
+  contentId: string,
+  options: Pick<FetchTourOptions, "priority" | "signal"> = {}
+) {
+  if (!contentId || contentId.trim().length === 0) {
+    const error = new TourApiNotFoundError({ endpoint: "/detailPetTour2" });
+    logError(error, "detailPetTour2");
+    throw error;
+  }
+
+  return fetchTourAPI<TourApiResponse<PetTourInfo>>(
+    "/detailPetTour2",
+    { contentId: contentId.trim() },
+    options
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * @file tour-areas.ts
+ * @description 지역코드(areaCode2) 캐시
+ *
+ * 시/도 및 시/군/구 목록은 거의 바뀌지 않으므로 상위 지역별로 한 번만 조회하고 재사용합니다.
+ * 필터와 카드 목록에서 같은 지역을 동시에 여러 번 요청하는 경우에도 API는 한 번만 호출됩니다.
+ *
+ * 주요 기능:
+ * 1. 하위 지역 목록 조회 (getAreaChildren)
+ * 2. 지역 코드 → 지역명 경로 변환 (resolveAreaPath, 예: 6/16 → 부산 > 해운대구)
+ *
+ * 핵심 구현 로직:
+ * - 상위 지역코드를 키로 Promise를 캐시 (동시 요청 병합)
+ * - 조회 실패 시 캐시에서 제거하여 다음 요청에서 다시 조회
+ * - 시/도 이름은 조회 실패 시 lib/constants/area-codes.ts의 상수로 대체
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: areaCode2 함수
+ * - lib/api/tour-normalize.ts: normalizeAreaCodes 함수
+ * - lib/constants/area-codes.ts: AreaCodeInfo 타입, getAreaInfo 함수
+ */
+
+import { areaCode2 } from "@/lib/api/tour-api";
+import { normalizeAreaCodes } from "@/lib/api/tour-normalize";
+import { getAreaInfo, type AreaCodeInfo } from "@/lib/constants/area-codes";
+
+/**
+ * 상위 지역코드("" = 최상위) → 하위 지역 목록
+ */
+const areaCache = new Map<string, Promise<AreaCodeInfo[]>>();
+
+/**
+ * 하위 지역 목록 조회 (캐시)
+ * @param areaCode 상위 지역코드 (없으면 시/도 목록, 있으면 해당 시/도의 시/군/구 목록)
+ */
+export function getAreaChildren(areaCode?: string): Promise<AreaCodeInfo[]> {
+  const key = areaCode ?? "";
+
+  const cached = areaCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const request = areaCode2(areaCode)
+    .then(normalizeAreaCodes)
+    .catch((error) => {
+      areaCache.delete(key);
+      throw error;
+    });
+
+  areaCache.set(key, request);
+  return request;
+}
+
+/**
+ * 지역 코드 → 지역 경로 (시/도부터 순서대로)
+ * 시/군/구를 찾을 수 없으면 시/도까지만 반환합니다.
+ * @param codes 시/도 코드, 시/군/구 코드
+ */
+export async function resolveAreaPath(codes: {
+  areaCode?: string;
+  sigunguCode?: string;
+}): Promise<AreaCodeInfo[]> {
+  const { areaCode, sigunguCode } = codes;
+  if (!areaCode) return [];
+
+  const area =
+    (await getAreaChildren().catch(() => [] as AreaCodeInfo[])).find(
+      (item) => item.code === areaCode,
+    ) ?? getAreaInfo(areaCode);
+  if (!area) return [];
+  if (!sigunguCode) return [area];
+
+  const sigungu = (await getAreaChildren(areaCode)).find(
+    (item) => item.code === sigunguCode,
+  );
+  return sigungu ? [area, sigungu] : [area];
+}
@@ -0,0 +1,305 @@
+/**
+ * @file tour-cache.ts
+ * @description 한국관광공사 API 응답 캐시 (LRU + 동시 요청 병합)
+ *
+ * fetchTourAPI가 같은 요청을 반복해서 보내지 않도록 프로세스(브라우저 탭/서버 인스턴스) 내에서
+ * 성공한 응답을 보관하고, 진행 중인 동일 요청은 하나로 합칩니다.
+ * 브라우저에서는 Next.js fetch 캐싱(revalidate)이 적용되지 않으므로 이 캐시가 중복 호출을 막습니다.
+ *
+ * 주요 기능:
+ * 1. 캐시 키 생성 (getTourCacheKey - 엔드포인트 + 정렬된 파라미터)
+ * 2. 캐시 조회/저장 (readTourCache, writeTourCache)
+ * 3. 장애 시 만료된 이전 응답 조회 (readStaleTourCache)
+ * 4. 진행 중 요청 병합 (coalesceTourRequest)
+ * 5. 통계 조회 및 초기화 (getTourCacheStats, clearTourCache)
+ * 6. 엔드포인트별 유효한 응답 목록 조회 (peekTourCacheValues - 검색어 자동완성 등 보조 용도)
+ *
+ * 핵심 구현 로직:
+ * - Map의 삽입 순서를 이용한 LRU (조회 시 맨 뒤로 이동, 용량 초과 시 맨 앞부터 제거)
+ * - 엔드포인트별 TTL (지역/분류 코드는 길게, 목록은 짧게)
+ * - 성공한 응답만 저장 (에러는 캐시하지 않음)
+ * - TOUR_STALE_ENDPOINTS의 항목은 만료되어도 LRU에서 밀려날 때까지 보관 (API 장애 시 대체 응답)
+ * - 캐시된 응답 객체는 호출부끼리 공유되므로 수정하지 않고 정규화 함수로 복사해서 사용
+ * - 병합된 요청은 공유 AbortController로 전송하고, 기다리는 호출부가 모두 취소했을 때만 실제 요청을 취소
+ *   (취소 신호 없이 기다리는 호출부가 있으면 끝까지 진행)
+ *
+ * @see {@link lib/api/tour-api.ts} - fetchTourAPI
+ */
+
+/**
+ * 최대 캐시 항목 수
+ */
+export const TOUR_CACHE_MAX_ENTRIES = 200;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * 기본 TTL (엔드포인트별 TTL이 없을 때)
+ */
+const DEFAULT_TTL = 5 * MINUTE;
+
+/**
+ * 엔드포인트별 TTL (밀리초)
+ */
+export const TOUR_CACHE_TTL: Record<string, number> = {
+  "/areaCode2": 24 * HOUR,
+  "/categoryCode2": 24 * HOUR,
+  "/detailCommon2": HOUR,
+  "/detailIntro2": HOUR,
+  "/detailImage2": HOUR,
+  "/detailInfo2": HOUR,
+  "/detailPetTour2": HOUR,
+  "/areaBasedList2": 10 * MINUTE,
+  "/searchKeyword2": 10 * MINUTE,
+  "/searchFestival2": 10 * MINUTE,
+  "/searchStay2": 10 * MINUTE,
+  "/locationBasedList2": 5 * MINUTE,
+};
+
+/**
+ * 만료 후에도 장애 대비용으로 보관하는 엔드포인트
+ */
+const TOUR_STALE_ENDPOINTS = ["/detailCommon2", "/areaBasedList2"];
+
+/**
+ * 캐시 키에서 제외할 공통 파라미터
+ */
+const IGNORED_PARAMS = ["serviceKey", "MobileOS", "MobileApp", "_type"];
+
+/**
+ * 캐시 통계
+ */
+export interface TourCacheStats {
+  /** 캐시에서 응답한 횟수 */
+  hits: number;
+  /** 캐시에 없거나 만료되어 요청한 횟수 */
+  misses: number;
+  /** 용량 초과로 제거된 항목 수 */
+  evictions: number;
+  /** 진행 중인 요청에 합쳐진 횟수 */
+  coalesced: number;
+  /** 장애 시 만료된 이전 응답을 제공한 횟수 */
+  staleHits: number;
+  /** 현재 캐시 항목 수 */
+  size: number;
+  /** 최대 캐시 항목 수 */
+  maxEntries: number;
+}
+
+interface TourCacheEntry {
+  value: unknown;
+  expiresAt: number;
+  keepStale: boolean;
+}
+
+interface TourInflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** 취소 가능한 대기 호출부 수 */
+  subscribers: number;
+  /** 취소 신호 없이 기다리는 호출부가 있는지 여부 */
+  pinned: boolean;
+}
+
+const cache = new Map<string, TourCacheEntry>();
+const inflight = new Map<string, TourInflightRequest>();
+const stats = {
+  hits: 0,
+  misses: 0,
+  evictions: 0,
+  coalesced: 0,
+  staleHits: 0,
+};
+
+/**
+ * 캐시 키 생성
+ * 공통 파라미터를 제외하고 파라미터를 키 순으로 정렬합니다.
+ * @param endpoint API 엔드포인트 (예: "/areaCode2")
+ * @param params 요청 파라미터
+ */
+export function getTourCacheKey(
+  endpoint: string,
+  params: Record<string, string>,
+): string {
+  const query = Object.entries(params)
+    .filter(([key]) => !IGNORED_PARAMS.includes(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+
+  return `${endpoint}?${query}`;
+}
+
+/**
+ * 캐시 조회
+ * 만료된 항목은 undefined를 반환하고 제거합니다. (장애 대비용 항목은 보관)
+ * @param key 캐시 키
+ */
+export function readTourCache<T>(key: string): T | undefined {
+  const entry = cache.get(key);
+
+  if (!entry || entry.expiresAt <= Date.now()) {
+    if (entry && !entry.keepStale) cache.delete(key);
+    stats.misses += 1;
+    return undefined;
+  }
+
+  // 최근 사용 항목으로 이동
+  cache.delete(key);
+  cache.set(key, entry);
+  stats.hits += 1;
+  return entry.value as T;
+}
+
+/**
+ * 만료 여부와 관계없이 마지막으로 성공한 응답 조회 (API 장애 시 대체 응답)
+ * 조회한 응답은 대체 응답으로 제공한 것으로 집계하므로, 장애 여부를 확인한 뒤 반환할 때만 호출합니다.
+ * @param key 캐시 키
+ */
+export function readStaleTourCache<T>(key: string): T | undefined {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+
+  stats.staleHits += 1;
+  return entry.value as T;
+}
+
+/**
+ * 캐시 저장
+ * 용량을 넘으면 가장 오래 사용하지 않은 항목부터 제거합니다.
+ * @param key 캐시 키
+ * @param endpoint API 엔드포인트 (TTL 결정)
+ * @param value 응답 데이터
+ */
+export function writeTourCache(
+  key: string,
+  endpoint: string,
+  value: unknown,
+): void {
+  const ttl = TOUR_CACHE_TTL[endpoint] ?? DEFAULT_TTL;
+
+  cache.delete(key);
+  cache.set(key, {
+    value,
+    expiresAt: Date.now() + ttl,
+    keepStale: TOUR_STALE_ENDPOINTS.includes(endpoint),
+  });
+
+  while (cache.size > TOUR_CACHE_MAX_ENTRIES) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey === undefined) break;
+    cache.delete(oldestKey);
+    stats.evictions += 1;
+  }
+}
+
+/**
+ * 취소 에러 생성 (signal.reason이 없는 환경 대비)
+ */
+function getAbortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("Aborted", "AbortError");
+}
+
+/**
+ * 진행 중인 동일 요청 병합
+ * 같은 키의 요청이 진행 중이면 새로 요청하지 않고 그 결과를 함께 기다립니다.
+ * 호출부의 signal이 취소되면 그 호출부만 즉시 AbortError로 거부되고,
+ * 기다리는 호출부가 모두 취소되면 실제 요청도 취소됩니다.
+ * @param key 캐시 키
+ * @param request 실제 요청 함수 (공유 취소 신호를 받음)
+ * @param signal 호출부 취소 신호
+ */
+export function coalesceTourRequest<T>(
+  key: string,
+  request: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(getAbortReason(signal));
+  }
+
+  let entry = inflight.get(key);
+  if (entry) {
+    stats.coalesced += 1;
+  } else {
+    const controller = new AbortController();
+    const created: TourInflightRequest = {
+      promise: request(controller.signal).finally(() => {
+        if (inflight.get(key) === created) inflight.delete(key);
+      }),
+      controller,
+      subscribers: 0,
+      pinned: false,
+    };
+    entry = created;
+    inflight.set(key, entry);
+  }
+
+  const pending = entry;
+  if (!signal) {
+    pending.pinned = true;
+    return pending.promise as Promise<T>;
+  }
+
+  pending.subscribers += 1;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      pending.subscribers -= 1;
+      if (pending.subscribers === 0 && !pending.pinned) {
+        // 취소된 요청에 새 호출부가 합쳐지지 않도록 먼저 제거
+        if (inflight.get(key) === pending) inflight.delete(key);
+        pending.controller.abort(getAbortReason(signal));
+      }
+      reject(getAbortReason(signal));
+    };
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    (pending.promise as Promise<T>)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * 엔드포인트별 유효한(만료되지 않은) 캐시 응답 목록
+ * LRU 순서와 통계에는 영향을 주지 않습니다. (최근 사용한 응답부터 반환)
+ * @param endpoints API 엔드포인트 목록
+ */
+export function peekTourCacheValues(endpoints: string[]): unknown[] {
+  const now = Date.now();
+  const values: unknown[] = [];
+
+  for (const [key, entry] of cache) {
+    if (entry.expiresAt <= now) continue;
+    if (!endpoints.some((endpoint) => key.startsWith(`${endpoint}?`))) {
+      continue;
+    }
+    values.push(entry.value);
+  }
+
+  return values.reverse();
+}
+
+/**
+ * 캐시 통계 조회
+ */
+export function getTourCacheStats(): TourCacheStats {
+  return {
+    ...stats,
+    size: cache.size,
+    maxEntries: TOUR_CACHE_MAX_ENTRIES,
+  };
+}
+
+/**
+ * 캐시 및 통계 초기화 (진행 중인 요청은 유지)
+ */
+export function clearTourCache(): void {
+  cache.clear();
+  stats.hits = 0;
+  stats.misses = 0;
+  stats.evictions = 0;
+  stats.coalesced = 0;
+  stats.staleHits = 0;
+}
@@ -0,0 +1,199 @@
+/**
+ * @file tour-cassette.ts
+ * @description 한국관광공사 API 응답 카세트(녹화 파일) 읽기/쓰기 유틸리티
+ *
+ * fixture 모드와 record 모드에서 사용하는 카세트 파일을 관리합니다.
+ * 카세트는 엔드포인트별 디렉터리에 요청 파라미터로 이름 붙인 JSON 파일로 저장됩니다.
+ *
+ * 파일 구조:
+ * - fixtures/tour-api/{endpoint}/{파라미터}.json - 정확히 일치하는 요청의 응답
+ * - fixtures/tour-api/{endpoint}/index.json - 추가 파라미터가 없는 요청의 응답
+ * - fixtures/tour-api/{endpoint}/_default.json - 일치하는 카세트가 없을 때의 기본 응답
+ *
+ * 주의사항:
+ * - Node.js fs 모듈을 사용하므로 서버 사이드에서만 import해야 합니다.
+ * - 파일 이름 규칙은 scripts/tour-mock-server.mjs와 동일하게 유지해야 합니다.
+ * - 파라미터로 만든 이름이 CASSETTE_NAME_MAX_LENGTH보다 길면 앞부분 + 해시로 줄입니다.
+ *   (한글 검색어는 URL 인코딩하면 3배 길어져 파일 이름 길이 제한 255바이트를 넘을 수 있음)
+ *
+ * @dependencies
+ * - Node.js fs, path, crypto 모듈
+ *
+ * @see {@link lib/api/tour-transport-server.ts} - 트랜스포트 모드
+ * @see {@link scripts/tour-mock-server.mjs} - 로컬 목 서버
+ */
+
+import "server-only";
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * 카세트 이름 계산 시 제외하는 파라미터 (인증 키 및 공통 파라미터)
+ */
+export const CASSETTE_IGNORED_PARAMS = [
+  "serviceKey",
+  "MobileOS",
+  "MobileApp",
+  "_type",
+] as const;
+
+/**
+ * 카세트 파일 이름 최대 길이 (확장자 제외, 파일 시스템 제한 255바이트 이내)
+ */
+export const CASSETTE_NAME_MAX_LENGTH = 200;
+
+/**
+ * 긴 카세트 이름을 줄일 때 남기는 앞부분 길이 (파일 목록에서 알아볼 수 있도록)
+ */
+const CASSETTE_NAME_PREFIX_LENGTH = 120;
+
+/**
+ * 카세트 파일 구조
+ */
+export interface TourCassette {
+  /** 엔드포인트 이름 (예: areaCode2) */
+  endpoint: string;
+  /** 요청 파라미터 (공통 파라미터 제외) */
+  params: Record<string, string>;
+  /** 녹화 시각 (ISO 8601) */
+  recordedAt: string;
+  /** HTTP 상태 코드 */
+  status: number;
+  /** 응답 본문 */
+  body: unknown;
+}
+
+/**
+ * 카세트 디렉터리 경로
+ * TOUR_API_FIXTURES_DIR 환경변수로 변경 가능
+ */
+export function getFixturesDir(): string {
+  return (
+    process.env.TOUR_API_FIXTURES_DIR ||
+    path.join(process.cwd(), "fixtures", "tour-api")
+  );
+}
+
+/**
+ * 엔드포인트 문자열 정리 ("/areaCode2" → "areaCode2")
+ */
+function toEndpointName(endpoint: string): string {
+  return endpoint.replace(/^\/+/, "");
+}
+
+/**
+ * 카세트 판별용 파라미터만 추출
+ */
+export function getCassetteParams(
+  params: Record<string, string>,
+): Record<string, string> {
+  const ignored: readonly string[] = CASSETTE_IGNORED_PARAMS;
+  return Object.fromEntries(
+    Object.entries(params).filter(([key]) => !ignored.includes(key)),
+  );
+}
+
+/**
+ * 요청 파라미터로 카세트 파일 이름 생성
+ * 파라미터를 키 순으로 정렬하여 "key=value&key=value" 형태로 만듭니다.
+ * CASSETTE_NAME_MAX_LENGTH보다 길면 "앞부분~SHA-256 해시" 형태로 줄입니다.
+ * @param params 요청 파라미터
+ * @returns 확장자를 제외한 파일 이름
+ */
+export function getCassetteName(params: Record<string, string>): string {
+  const entries = Object.entries(getCassetteParams(params)).sort(([a], [b]) =>
+    a.localeCompare(b),
+  );
+
+  if (entries.length === 0) {
+    return "index";
+  }
+
+  const name = entries
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+    )
+    .join("&");
+
+  if (name.length <= CASSETTE_NAME_MAX_LENGTH) {
+    return name;
+  }
+
+  const hash = createHash("sha256").update(name).digest("hex");
+  return `${name.slice(0, CASSETTE_NAME_PREFIX_LENGTH)}~${hash}`;
+}
+
+/**
+ * 카세트 파일 경로
+ */
+function getCassettePath(endpoint: string, name: string): string {
+  return path.join(getFixturesDir(), toEndpointName(endpoint), `${name}.json`);
+}
+
+/**
+ * 카세트 파일 읽기 (없으면 null)
+ */
+async function readCassetteFile(filePath: string): Promise<TourCassette | null> {
+  try {
+    const content = await fs.readFile(filePath, "utf-8");
+    return JSON.parse(content) as TourCassette;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 요청에 해당하는 카세트 조회
+ * 정확히 일치하는 카세트가 없으면 _default 카세트를 반환합니다.
+ * @param endpoint API 엔드포인트
+ * @param params 요청 파라미터
+ * @returns 카세트 또는 null
+ */
+export async function readCassette(
+  endpoint: string,
+  params: Record<string, string>,
+): Promise<TourCassette | null> {
+  const exact = await readCassetteFile(
+    getCassettePath(endpoint, getCassetteName(params)),
+  );
+  if (exact) {
+    return exact;
+  }
+
+  return readCassetteFile(getCassettePath(endpoint, "_default"));
+}
+
+/**
+ * 응답을 카세트 파일로 저장 (record 모드)
+ * @param endpoint API 엔드포인트
+ * @param params 요청 파라미터
+ * @param status HTTP 상태 코드
+ * @param body 응답 본문
+ * @returns 저장된 파일 경로
+ */
+export async function writeCassette(
+  endpoint: string,
+  params: Record<string, string>,
+  status: number,
+  body: unknown,
+): Promise<string> {
+  const filePath = getCassettePath(endpoint, getCassetteName(params));
+  const cassette: TourCassette = {
+    endpoint: toEndpointName(endpoint),
+    params: getCassetteParams(params),
+    recordedAt: new Date().toISOString(),
+    status,
+    body,
+  };
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(cassette, null, 2)}\n`, "utf-8");
+
+  return filePath;
+}
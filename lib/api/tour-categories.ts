@@ -0,0 +1,95 @@
+/**
+ * @file tour-categories.ts
+ * @description 서비스 분류 코드(categoryCode2) 캐시
+ *
+ * 분류 체계는 거의 바뀌지 않으므로 상위 분류별 하위 목록을 한 번만 조회하고 재사용합니다.
+ * 카드 목록처럼 같은 분류를 동시에 여러 번 요청하는 경우에도 API는 한 번만 호출됩니다.
+ *
+ * 주요 기능:
+ * 1. 하위 분류 목록 조회 (getCategoryChildren)
+ * 2. 분류 코드 → 분류명 경로 변환 (resolveCategoryPath, 예: "A01010100" → 자연 > 자연관광지 > 국립공원)
+ *
+ * 핵심 구현 로직:
+ * - 상위 분류 경로(관광 타입/대분류/중분류)를 키로 Promise를 캐시 (동시 요청 병합)
+ * - 조회 실패 시 캐시에서 제거하여 다음 요청에서 다시 조회
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: categoryCode2 함수
+ * - lib/api/tour-normalize.ts: normalizeCategoryCodes 함수
+ * - lib/types/tour.ts: CategoryCode, CategoryCodes 타입
+ */
+
+import { categoryCode2 } from "@/lib/api/tour-api";
+import { normalizeCategoryCodes } from "@/lib/api/tour-normalize";
+import type { CategoryCode, CategoryCodes } from "@/lib/types/tour";
+
+/**
+ * 상위 분류 경로 → 하위 분류 목록
+ */
+const categoryCache = new Map<string, Promise<CategoryCode[]>>();
+
+/**
+ * 하위 분류 목록 조회 (캐시)
+ * @param parent 상위 분류 (없으면 대분류, cat1이면 중분류, cat2까지면 소분류)
+ * @param contentTypeId 관광 타입 ID (지정 시 해당 타입에서 사용하는 분류만)
+ */
+export function getCategoryChildren(
+  parent: Pick<CategoryCodes, "cat1" | "cat2"> = {},
+  contentTypeId?: string,
+): Promise<CategoryCode[]> {
+  const { cat1, cat2 } = parent;
+  const key = [contentTypeId ?? "", cat1 ?? "", cat1 ? (cat2 ?? "") : ""].join(
+    "/",
+  );
+
+  const cached = categoryCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const request = categoryCode2({
+    contentTypeId,
+    cat1,
+    cat2: cat1 ? cat2 : undefined,
+  })
+    .then(normalizeCategoryCodes)
+    .catch((error) => {
+      categoryCache.delete(key);
+      throw error;
+    });
+
+  categoryCache.set(key, request);
+  return request;
+}
+
+/**
+ * 분류 코드 → 분류 경로 (대분류부터 순서대로)
+ * 찾을 수 없는 단계부터는 경로에 포함하지 않습니다.
+ * @param codes 대/중/소분류 코드
+ */
+export async function resolveCategoryPath(
+  codes: CategoryCodes,
+): Promise<CategoryCode[]> {
+  const { cat1, cat2, cat3 } = codes;
+  const path: CategoryCode[] = [];
+  if (!cat1) return path;
+
+  const first = (await getCategoryChildren()).find((c) => c.code === cat1);
+  if (!first) return path;
+  path.push(first);
+  if (!cat2) return path;
+
+  const second = (await getCategoryChildren({ cat1 })).find(
+    (c) => c.code === cat2,
+  );
+  if (!second) return path;
+  path.push(second);
+  if (!cat3) return path;
+
+  const third = (await getCategoryChildren({ cat1, cat2 })).find(
+    (c) => c.code === cat3,
+  );
+  if (third) path.push(third);
+
+  return path;
+}
@@ -0,0 +1,111 @@
+/**
+ * @file tour-circuit.ts
+ * @description 한국관광공사 API 서킷 브레이커
+ *
+ * KorService2 장애 시 모든 요청이 재시도와 지수 백오프를 거쳐 수 초씩 기다린 뒤 실패하지 않도록,
+ * 연속 실패가 쌓이면 회로를 열어 일정 시간 동안 요청을 보내지 않고 바로 실패시킵니다.
+ *
+ * 회로 상태:
+ * - closed: 정상 (모든 요청 전송)
+ * - open: 장애 (요청을 보내지 않고 바로 실패, TOUR_CIRCUIT_OPEN_MS 후 half-open)
+ * - half-open: 복구 확인 (시험 요청 하나만 전송, 성공하면 closed / 실패하면 다시 open)
+ *
+ * 핵심 구현 로직:
+ * - 서버 에러(5xx)와 네트워크 에러만 장애로 집계 (데이터 없음, 파라미터 오류 등은 서버가 응답한 것이므로 정상)
+ * - 프로세스(브라우저 탭/서버 인스턴스)별로 독립적인 회로
+ * - 취소된 요청(AbortSignal)은 성공/실패로 집계하지 않음 (releaseTourRequest)
+ *
+ * @see {@link lib/api/tour-api.ts} - fetchTourAPI (회로 확인 및 결과 기록)
+ * @see {@link lib/api/tour-cache.ts} - 장애 시 이전 응답 제공 (readStaleTourCache)
+ */
+
+import type { TourApiError } from "@/lib/api/tour-api-error";
+
+/**
+ * 회로를 여는 연속 실패 횟수
+ */
+const TOUR_CIRCUIT_FAILURE_THRESHOLD = 5;
+
+/**
+ * 회로가 열린 뒤 복구를 확인하기까지의 시간 (30초)
+ */
+const TOUR_CIRCUIT_OPEN_MS = 30 * 1000;
+
+/**
+ * 회로 상태
+ */
+export type TourCircuitState = "closed" | "open" | "half-open";
+
+const circuit = {
+  state: "closed" as TourCircuitState,
+  failures: 0,
+  openedAt: 0,
+  trialInFlight: false,
+};
+
+/**
+ * 장애 에러 여부 (서버 에러, 네트워크 에러)
+ */
+export function isTourOutageError(error: TourApiError): boolean {
+  return error.kind === "server" || error.kind === "network";
+}
+
+/**
+ * 현재 회로 상태 조회
+ * open 상태에서 대기 시간이 지나면 half-open으로 전환합니다.
+ */
+export function getTourCircuitState(): TourCircuitState {
+  if (
+    circuit.state === "open" &&
+    Date.now() - circuit.openedAt >= TOUR_CIRCUIT_OPEN_MS
+  ) {
+    circuit.state = "half-open";
+    circuit.trialInFlight = false;
+  }
+  return circuit.state;
+}
+
+/**
+ * 요청 전송 가능 여부
+ * half-open 상태에서는 시험 요청 하나만 허용합니다.
+ */
+export function allowTourRequest(): boolean {
+  const state = getTourCircuitState();
+
+  if (state === "closed") return true;
+  if (state === "open" || circuit.trialInFlight) return false;
+
+  circuit.trialInFlight = true;
+  return true;
+}
+
+/**
+ * 취소된 요청 처리
+ * 장애 여부를 알 수 없으므로 결과를 기록하지 않고, half-open 시험 요청이었다면 다음 요청에 기회를 넘깁니다.
+ */
+export function releaseTourRequest(): void {
+  circuit.trialInFlight = false;
+}
+
+/**
+ * 요청 결과 기록
+ * @param error 실패한 경우 에러 (성공이면 생략)
+ */
+export function recordTourRequestResult(error?: TourApiError): void {
+  circuit.trialInFlight = false;
+
+  if (!error || !isTourOutageError(error)) {
+    circuit.state = "closed";
+    circuit.failures = 0;
+    return;
+  }
+
+  circuit.failures += 1;
+  if (
+    circuit.state === "half-open" ||
+    circuit.failures >= TOUR_CIRCUIT_FAILURE_THRESHOLD
+  ) {
+    circuit.state = "open";
+    circuit.openedAt = Date.now();
+  }
+}
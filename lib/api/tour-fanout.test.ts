@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  fetchTourFanoutPage,
+  getTourFanoutCombinations,
+  getTourFanoutMaxPage,
+  TOUR_FANOUT_MAX_CALLS,
+  TOUR_FANOUT_MAX_PAGES,
+  type TourFanoutCombination,
+} from "@/lib/api/tour-fanout";
+import type { TourApiResponse, TourItem } from "@/lib/types/tour";
+
+const ROWS = 2;
+
+/**
+ * 조합마다 count개 항목을 가진 가짜 목록 조회 (수정일은 뒤로 갈수록 오래됨)
+ */
+function createFetcher(counts: Record<string, number>) {
+  return vi.fn(
+    async (
+      { areaCode }: TourFanoutCombination,
+      pageNo: number,
+    ): Promise<TourApiResponse<TourItem>> => {
+      const totalCount = counts[areaCode!];
+      const start = (pageNo - 1) * ROWS;
+      const item = Array.from(
+        { length: Math.max(0, Math.min(ROWS, totalCount - start)) },
+        (_, index) => ({
+          contentid: `${areaCode}-${start + index}`,
+          title: `${areaCode}-${start + index}`,
+          modifiedtime: String(20260101000000 - (start + index) * 2),
+        }),
+      ) as unknown as TourItem[];
+
+      return {
+        response: {
+          header: { resultCode: "0000", resultMsg: "OK" },
+          body: { items: { item }, numOfRows: ROWS, pageNo, totalCount },
+        },
+      };
+    },
+  );
+}
+
+function getIds(response: TourApiResponse<TourItem>): string[] {
+  const items = response.response.body.items;
+  return items ? (items.item as TourItem[]).map((item) => item.contentid) : [];
+}
+
+describe("fetchTourFanoutPage", () => {
+  const combinations = getTourFanoutCombinations(["1", "2"]);
+
+  it("merges combinations in arrange order", async () => {
+    const fetcher = createFetcher({ "1": 3, "2": 3 });
+
+    const page = await fetchTourFanoutPage(combinations, fetcher, {
+      pageNo: 2,
+      numOfRows: ROWS,
+      arrange: "C",
+    });
+
+    expect(getIds(page)).toEqual(["1-1", "2-1"]);
+    expect(page.response.body.totalCount).toBe(6);
+  });
+
+  it("reports the same totalCount on every page", async () => {
+    const fetcher = createFetcher({ "1": 5, "2": 1 });
+
+    const totals = await Promise.all(
+      [1, 2, 3].map(async (pageNo) => {
+        const page = await fetchTourFanoutPage(combinations, fetcher, {
+          pageNo,
+          numOfRows: ROWS,
+          arrange: "C",
+        });
+        return page.response.body.totalCount;
+      }),
+    );
+
+    expect(totals).toEqual([6, 6, 6]);
+  });
+
+  it("limits the last page so that combinations × pages stays within the call budget", () => {
+    const combinationsOf = (count: number) =>
+      getTourFanoutCombinations(
+        Array.from({ length: count }, (_, index) => String(index + 1)),
+      );
+
+    expect(getTourFanoutMaxPage(combinationsOf(1))).toBe(Infinity);
+    expect(getTourFanoutMaxPage(combinationsOf(2))).toBe(TOUR_FANOUT_MAX_PAGES);
+    for (const count of [3, 4, 6, 9]) {
+      const maxPage = getTourFanoutMaxPage(combinationsOf(count));
+      expect(maxPage).toBeGreaterThanOrEqual(1);
+      expect(maxPage * count).toBeLessThanOrEqual(TOUR_FANOUT_MAX_CALLS);
+    }
+  });
+
+  it("returns an empty page past the last page after fetching only first pages", async () => {
+    const fetcher = createFetcher({ "1": 1000, "2": 1000 });
+
+    const page = await fetchTourFanoutPage(combinations, fetcher, {
+      pageNo: getTourFanoutMaxPage(combinations) + 1,
+      numOfRows: ROWS,
+      arrange: "C",
+    });
+
+    expect(getIds(page)).toEqual([]);
+    expect(page.response.body.totalCount).toBe(2000);
+    expect(fetcher).toHaveBeenCalledTimes(combinations.length);
+  });
+
+  it("fetches a single combination directly without a page cap", async () => {
+    const fetcher = createFetcher({ "1": 1000 });
+
+    const page = await fetchTourFanoutPage(
+      getTourFanoutCombinations(["1"]),
+      fetcher,
+      { pageNo: TOUR_FANOUT_MAX_PAGES + 1, numOfRows: ROWS },
+    );
+
+    expect(getIds(page)).toHaveLength(ROWS);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
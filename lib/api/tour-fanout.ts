@@ -0,0 +1,317 @@
+/**
+ * @file tour-fanout.ts
+ * @description 여러 조건의 목록 조회 병합 (지역/관광 타입 다중 선택)
+ *
+ * KorService2 목록 API(areaBasedList2, searchKeyword2, locationBasedList2)는 지역 코드와 관광 타입을
+ * 하나씩만 받으므로 "강원 + 경북, 관광지 또는 레포츠"처럼 여러 값을 고르면
+ * 조합(지역 × 관광 타입)마다 따로 조회한 뒤 하나의 목록으로 합쳐야 합니다.
+ *
+ * 주요 기능:
+ * 1. 조회 조합 생성 (getTourFanoutCombinations - 지역 × 관광 타입)
+ * 2. 병합 목록의 한 페이지 조회 (fetchTourFanoutPage)
+ * 3. 조회할 수 있는 마지막 페이지 (getTourFanoutMaxPage)
+ *
+ * 핵심 구현 로직:
+ * - 조합별 응답을 정렬 기준(arrange)에 맞춰 k-way 병합하여 하나의 정렬된 목록처럼 페이지를 나눔
+ *   (N페이지는 병합 목록의 앞에서부터 N × numOfRows개를 차례로 꺼내 마지막 numOfRows개를 사용)
+ * - 조합별 페이지는 필요할 때만 조회 (이전 페이지에서 조회한 페이지는 응답 캐시로 재사용)
+ * - N페이지를 조회하려면 조합마다 최대 N번 호출하므로 요청당 호출 예산(TOUR_FANOUT_MAX_CALLS)으로 페이지 제한
+ *   (마지막 페이지 = 예산 ÷ 조합 수, 최소 1, 최대 TOUR_FANOUT_MAX_PAGES
+ *    예: 조합 2개 → 10페이지(최대 20회), 4개 → 7페이지(28회), 9개 → 3페이지(27회))
+ *   (그 뒤 페이지는 조합별 첫 페이지만 조회하여 전체 개수와 빈 목록 반환)
+ * - contentid 기준 중복 제거, 전체 개수는 조합별 totalCount 합계
+ *   (지역 × 관광 타입 조합은 서로 겹치지 않으므로 합계가 실제 전체 개수, 페이지와 관계없이 같은 값)
+ * - 조합이 하나면 병합 없이 바로 조회
+ * - 조합 중 하나라도 실패하면 전체 실패 (일부 결과만 보여주면 전체 개수와 페이지가 맞지 않음)
+ * - 조합 중 하나라도 이전 응답(stale)이면 병합 결과도 stale로 표시
+ * - 반환 값은 KorService2 목록 응답 형식이므로 normalizeTourList로 그대로 정규화 가능
+ *
+ * @dependencies
+ * - lib/api/tour-normalize.ts: extractItems, extractPagination, toTourItem
+ * - lib/types/tour.ts: TourApiResponse, TourItem, TourArrange 타입
+ *
+ * @see {@link app/page.tsx} - 홈페이지 지역/관광 타입 다중 선택
+ */
+
+import {
+  extractItems,
+  extractPagination,
+  toTourItem,
+} from "@/lib/api/tour-normalize";
+import type {
+  ContentTypeId,
+  TourApiResponse,
+  TourArrange,
+  TourItem,
+} from "@/lib/types/tour";
+
+/**
+ * 지역/관광 타입별 최대 선택 수 (조합 수 = 지역 수 × 관광 타입 수, API 호출 수 제한)
+ */
+export const TOUR_FANOUT_MAX_SELECTIONS = 3;
+
+/**
+ * 여러 조합을 병합할 때 조회할 수 있는 마지막 페이지
+ * (N페이지는 병합 목록의 앞에서부터 다시 만들므로 조합마다 최대 N번 호출)
+ */
+export const TOUR_FANOUT_MAX_PAGES = 10;
+
+/**
+ * 병합 목록 한 페이지를 조회할 때의 최대 API 호출 수 (조합 수 × 마지막 페이지)
+ */
+export const TOUR_FANOUT_MAX_CALLS = 30;
+
+/**
+ * 조회 조합 (값이 없으면 해당 조건 없이 조회)
+ */
+export interface TourFanoutCombination {
+  areaCode?: string;
+  contentTypeId?: ContentTypeId;
+}
+
+/**
+ * 조합 하나의 목록 페이지 조회 함수
+ */
+export type TourFanoutFetcher = (
+  combination: TourFanoutCombination,
+  pageNo: number,
+  signal?: AbortSignal,
+) => Promise<TourApiResponse<TourItem>>;
+
+/**
+ * 병합 목록 페이지 조회 옵션
+ */
+export interface TourFanoutPageOptions {
+  /** 페이지 번호 (1부터) */
+  pageNo: number;
+  /** 페이지당 항목 수 (조합별 조회에도 같은 값 사용) */
+  numOfRows: number;
+  /** 조합별 조회에 사용한 정렬 (병합 순서 기준, 없으면 조합 순서대로 번갈아 배치) */
+  arrange?: TourArrange;
+  /** 취소 신호 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 목록 원본 항목
+ */
+type RawTourItem = Parameters<typeof toTourItem>[0];
+
+/**
+ * 조합별 병합 상태
+ */
+interface FanoutCursor {
+  combination: TourFanoutCombination;
+  /** 아직 꺼내지 않은 항목 (원본 + 비교용 정규화 항목) */
+  buffer: { raw: RawTourItem; item: TourItem }[];
+  /** 다음에 조회할 페이지 */
+  nextPage: number;
+  /** 지금까지 조회한 항목 수 */
+  fetched: number;
+  /** 조합의 전체 개수 (첫 페이지 조회 후 설정) */
+  totalCount: number | null;
+  /** 더 조회할 페이지가 없는지 여부 */
+  done: boolean;
+}
+
+/**
+ * 지역 × 관광 타입 조회 조합
+ * @param areaCodes 선택한 지역 코드 (비어 있으면 전체 지역)
+ * @param contentTypeIds 선택한 관광 타입 (비어 있으면 전체 타입)
+ * @returns 조합 목록 (항상 하나 이상)
+ *
+ * @example
+ * getTourFanoutCombinations(["32", "35"], ["12"])
+ * // [{ areaCode: "32", contentTypeId: "12" }, { areaCode: "35", contentTypeId: "12" }]
+ */
+export function getTourFanoutCombinations(
+  areaCodes: readonly string[] = [],
+  contentTypeIds: readonly ContentTypeId[] = [],
+): TourFanoutCombination[] {
+  const areas = areaCodes.length > 0 ? areaCodes : [undefined];
+  const types = contentTypeIds.length > 0 ? contentTypeIds : [undefined];
+
+  return areas.flatMap((areaCode) =>
+    types.map((contentTypeId) => ({ areaCode, contentTypeId })),
+  );
+}
+
+/**
+ * 병합 목록에서 조회할 수 있는 마지막 페이지
+ * @param combinations 조회 조합 (getTourFanoutCombinations)
+ * @returns 조합이 하나면 제한 없음(Infinity), 여러 개면 호출 예산 안의 마지막 페이지
+ *   (TOUR_FANOUT_MAX_CALLS ÷ 조합 수, 1 ~ TOUR_FANOUT_MAX_PAGES)
+ */
+export function getTourFanoutMaxPage(
+  combinations: readonly TourFanoutCombination[],
+): number {
+  if (combinations.length <= 1) return Infinity;
+
+  return Math.min(
+    TOUR_FANOUT_MAX_PAGES,
+    Math.max(1, Math.floor(TOUR_FANOUT_MAX_CALLS / combinations.length)),
+  );
+}
+
+/**
+ * 거리 문자열 → 숫자 (거리를 알 수 없으면 맨 뒤로)
+ */
+function toDistance(dist: string | undefined): number {
+  const value = dist ? Number(dist) : NaN;
+  return Number.isFinite(value) ? value : Infinity;
+}
+
+/**
+ * 정렬 기준별 병합 비교 함수 (음수면 a가 먼저)
+ * - A/O: 제목순, C/Q: 수정일순(최신 먼저), E/S: 거리순
+ * - 생성일순(D/R)은 목록 응답에 생성일이 없어 비교하지 않음 (조합 순서대로)
+ */
+function getMergeComparator(
+  arrange: TourArrange | undefined,
+): ((a: TourItem, b: TourItem) => number) | null {
+  switch (arrange) {
+    case "A":
+    case "O":
+      return (a, b) =>
+        a.title.localeCompare(b.title, "ko", {
+          numeric: true,
+          sensitivity: "base",
+        });
+    case "C":
+    case "Q":
+      return (a, b) =>
+        (Number(b.modifiedtime) || 0) - (Number(a.modifiedtime) || 0);
+    case "E":
+    case "S":
+      return (a, b) => toDistance(a.dist) - toDistance(b.dist);
+    default:
+      return null;
+  }
+}
+
+/**
+ * 조합의 다음 페이지 조회
+ */
+async function fillCursor(
+  cursor: FanoutCursor,
+  fetcher: TourFanoutFetcher,
+  numOfRows: number,
+  signal: AbortSignal | undefined,
+  onStale: () => void,
+): Promise<void> {
+  const response = await fetcher(cursor.combination, cursor.nextPage, signal);
+  if (response.stale) onStale();
+
+  const rawItems = extractItems(
+    response as unknown as TourApiResponse<RawTourItem>,
+  );
+  const { totalCount } = extractPagination(response, rawItems.length);
+
+  cursor.totalCount = totalCount;
+  cursor.nextPage += 1;
+  cursor.fetched += rawItems.length;
+  cursor.done =
+    rawItems.length < numOfRows || cursor.fetched >= cursor.totalCount;
+
+  for (const raw of rawItems) {
+    const item = toTourItem(raw);
+    if (item.contentid) cursor.buffer.push({ raw, item });
+  }
+}
+
+/**
+ * 병합 목록의 한 페이지 조회
+ * @param combinations 조회 조합 (getTourFanoutCombinations)
+ * @param fetcher 조합별 목록 페이지 조회 함수
+ * @param options 페이지 번호, 페이지당 항목 수, 정렬, 취소 신호
+ * @returns KorService2 목록 응답 형식의 병합 결과
+ *   (totalCount는 조합별 전체 개수 합계, getTourFanoutMaxPage보다 뒤 페이지는 빈 목록)
+ */
+export async function fetchTourFanoutPage(
+  combinations: readonly TourFanoutCombination[],
+  fetcher: TourFanoutFetcher,
+  options: TourFanoutPageOptions,
+): Promise<TourApiResponse<TourItem>> {
+  const { pageNo, numOfRows, arrange, signal } = options;
+
+  if (combinations.length === 1) {
+    return fetcher(combinations[0], pageNo, signal);
+  }
+
+  const cursors: FanoutCursor[] = combinations.map((combination) => ({
+    combination,
+    buffer: [],
+    nextPage: 1,
+    fetched: 0,
+    totalCount: null,
+    done: false,
+  }));
+  const compare = getMergeComparator(arrange);
+  let stale = false;
+  const markStale = () => {
+    stale = true;
+  };
+
+  // 꺼낼 항목이 없는 조합은 다음 페이지 조회 (조합끼리는 동시에)
+  const fillEmptyCursors = async () => {
+    await Promise.all(
+      cursors
+        .filter((cursor) => cursor.buffer.length === 0 && !cursor.done)
+        .map((cursor) =>
+          fillCursor(cursor, fetcher, numOfRows, signal, markStale),
+        ),
+    );
+    signal?.throwIfAborted();
+  };
+
+  // 전체 개수를 알기 위해 조합마다 첫 페이지는 항상 조회
+  await fillEmptyCursors();
+
+  const seen = new Set<string>();
+  const merged: RawTourItem[] = [];
+  const target =
+    pageNo > getTourFanoutMaxPage(combinations) ? 0 : pageNo * numOfRows;
+  let turn = 0;
+
+  while (merged.length < target) {
+    await fillEmptyCursors();
+
+    const candidates = cursors.filter((cursor) => cursor.buffer.length > 0);
+    if (candidates.length === 0) break;
+
+    // 정렬 기준으로 가장 앞선 항목 (같으면 조합 순서, 기준이 없으면 번갈아)
+    const next = compare
+      ? candidates.reduce((best, cursor) =>
+          compare(cursor.buffer[0].item, best.buffer[0].item) < 0
+            ? cursor
+            : best,
+        )
+      : candidates[turn++ % candidates.length];
+
+    const { raw, item } = next.buffer.shift()!;
+    if (seen.has(item.contentid)) continue;
+    seen.add(item.contentid);
+    merged.push(raw);
+  }
+
+  const totalCount = cursors.reduce(
+    (sum, cursor) => sum + (cursor.totalCount ?? 0),
+    0,
+  );
+
+  const result: TourApiResponse<TourItem> = {
+    response: {
+      header: { resultCode: "0000", resultMsg: "OK" },
+      body: {
+        items: {
+          item: merged.slice((pageNo - 1) * numOfRows) as unknown as TourItem[],
+        },
+        numOfRows,
+        pageNo,
+        totalCount,
+      },
+    },
+  };
+  if (stale) result.stale = true;
+  return result;
+}
@@ -0,0 +1,351 @@
+/**
+ * @file tour-home.ts
+ * @description 홈페이지 관광지 목록 조회 (서버/클라이언트 공통)
+ *
+ * 홈페이지 목록은 첫 화면을 서버에서 URL 쿼리 파라미터 기준으로 렌더링하고(app/page.tsx),
+ * 이후 위치 기반 조회, 무한 스크롤 등은 클라이언트에서 조회합니다(components/home/home-results.tsx).
+ * 양쪽이 같은 조건이면 같은 API를 같은 파라미터로 호출하도록 조회 로직을 이 모듈에 모읍니다.
+ *
+ * 주요 기능:
+ * 1. 조회 조건 판별 (hasHomeTourQuery, getHomeSortOption)
+ * 2. 조회 조건 키 (getHomeSearchKey, getHomeTourListKey - 서버 렌더링 결과 재사용 여부 판단)
+ *    조회할 수 있는 마지막 페이지 (getHomeMaxPage - 다중 선택 병합 시 제한)
+ * 3. 목록 한 페이지 조회 (fetchHomeTourPage - 원본 응답)
+ * 4. 목록 조회 + 정규화 (fetchHomeTourList - 결과 개수, stale 여부, "이것을 찾으셨나요?" 포함)
+ * 5. 특정 시점 이후 수정된 항목 수 (countHomeToursModifiedSince - 저장 검색의 새 항목 수)
+ *    1페이지 조회에 필요한 API 호출 수 (getHomeRequestCount)
+ *
+ * 핵심 구현 로직:
+ * - 위치 기반 모드이면 locationBasedList2 (관광 타입 필터만 적용, 지역/분류 필터는 무시)
+ * - 검색어가 있으면 searchKeyword2 (lib/api/tour-query.ts - 초성 검색어는 호출하지 않음)
+ * - 필터만 있으면 areaBasedList2
+ * - 지역/관광 타입을 여러 개 선택하면 조합마다 조회하여 병합 (lib/api/tour-fanout.ts)
+ *   (병합 목록은 조합 수에 따라 정한 마지막 페이지까지만 조회 - getTourFanoutMaxPage)
+ * - 정렬은 arrange 파라미터로 전체 결과 기준 적용 (거리순은 위치 기반 모드에서만)
+ * - 수정된 항목 수는 수정일순(최신순) 1페이지에서 기준 시점보다 새로 수정된 항목만 셈
+ *   (modifiedtime은 KST YYYYMMDDHHmmss 문자열, 비필수 호출(priority: "background")로 조회)
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: areaBasedList2, locationBasedList2
+ * - lib/api/tour-rate-limit.ts: TourApiPriority 타입
+ * - lib/api/tour-fanout.ts: fetchTourFanoutPage, getTourFanoutCombinations, getTourFanoutMaxPage
+ * - lib/api/tour-query.ts: searchTourKeyword, getKeywordSuggestions, 제목 목록
+ * - lib/api/tour-normalize.ts: normalizeTourList
+ * - lib/constants/sort-options.ts: getSortArrange, getListSortArrange
+ * - lib/utils/search-params.ts: HomeSearchState, getHomeSearchHref
+ *
+ * @see {@link app/page.tsx} - 서버 렌더링
+ * @see {@link components/home/home-results.tsx} - 클라이언트 조회
+ */
+
+import { areaBasedList2, locationBasedList2 } from "@/lib/api/tour-api";
+import {
+  fetchTourFanoutPage,
+  getTourFanoutCombinations,
+  getTourFanoutMaxPage,
+} from "@/lib/api/tour-fanout";
+import { normalizeTourList } from "@/lib/api/tour-normalize";
+import type { TourApiPriority } from "@/lib/api/tour-rate-limit";
+import {
+  getKeywordSuggestions,
+  getLocalTourTitles,
+  getPopularTourTitles,
+  searchTourKeyword,
+} from "@/lib/api/tour-query";
+import {
+  getListSortArrange,
+  getSortArrange,
+} from "@/lib/constants/sort-options";
+import {
+  getHomeSearchHref,
+  type HomeSearchState,
+} from "@/lib/utils/search-params";
+import type {
+  NearbyLocation,
+  SortOption,
+  TourApiResponse,
+  TourItem,
+} from "@/lib/types/tour";
+
+/**
+ * 페이지당 항목 수 (PRD 요구사항: 페이지당 10-20개 항목)
+ */
+export const HOME_PAGE_SIZE = 20;
+
+/**
+ * KST 오프셋 (UTC+9, modifiedtime 기준 시간대)
+ */
+const KST_OFFSET = 9 * 60 * 60 * 1000;
+
+/**
+ * 목록 조회 옵션
+ */
+export interface HomeTourFetchOptions {
+  /** 호출 우선순위 (기본 "essential", 저장 검색 새 항목 수 등 비필수 호출은 "background") */
+  priority?: TourApiPriority;
+  /** 취소 신호 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 홈페이지 목록 조회 결과
+ */
+export interface HomeTourList {
+  /** 조회 조건 키 (getHomeTourListKey) */
+  key: string;
+  /** 관광지 목록 */
+  tours: TourItem[];
+  /** 전체 결과 개수 */
+  totalCount: number;
+  /** API에서 정렬된 기준 */
+  sortedBy: SortOption;
+  /** API 장애로 이전 응답을 표시하는지 여부 */
+  stale: boolean;
+  /** 키워드 검색 결과가 없을 때 제안할 검색어 */
+  didYouMean: string[];
+}
+
+/**
+ * 적용할 정렬 (거리순은 위치 기반 모드에서만 유효, 아니면 최신순)
+ */
+export function getHomeSortOption(
+  state: HomeSearchState,
+  nearby: NearbyLocation | null,
+): SortOption {
+  return state.sort === "distance" && !nearby ? "latest" : state.sort;
+}
+
+/**
+ * 검색어 여부
+ */
+function hasKeyword(state: HomeSearchState): boolean {
+  return !!state.keyword && state.keyword.trim().length > 0;
+}
+
+/**
+ * 조회할 조건이 있는지 여부 (없으면 빈 상태 표시)
+ */
+export function hasHomeTourQuery(
+  state: HomeSearchState,
+  nearby: NearbyLocation | null,
+): boolean {
+  return (
+    !!nearby ||
+    hasKeyword(state) ||
+    !!(
+      state.areaCodes?.length ||
+      state.contentTypeIds?.length ||
+      state.cat1 ||
+      state.petFriendly
+    )
+  );
+}
+
+/**
+ * 조회 조건 키 (페이지 번호 제외, 위치 기반 기준점 포함)
+ */
+export function getHomeSearchKey(
+  state: HomeSearchState,
+  nearby: NearbyLocation | null,
+): string {
+  return (
+    getHomeSearchHref({ ...state, page: 1 }) +
+    (nearby ? `#near=${nearby.lat},${nearby.lng},${nearby.radius}` : "")
+  );
+}
+
+/**
+ * 목록 한 페이지의 조회 조건 키
+ * @param searchKey getHomeSearchKey 결과
+ * @param pageNo 페이지 번호
+ */
+export function getHomeTourListKey(searchKey: string, pageNo: number): string {
+  return `${searchKey}@${pageNo}`;
+}
+
+/**
+ * 조회 조합 (위치 기반 모드는 관광 타입만, 지역은 좌표/반경으로 대체)
+ */
+function getHomeCombinations(
+  state: HomeSearchState,
+  nearby: NearbyLocation | null,
+) {
+  return nearby
+    ? getTourFanoutCombinations([], state.contentTypeIds)
+    : getTourFanoutCombinations(state.areaCodes, state.contentTypeIds);
+}
+
+/**
+ * 조회할 수 있는 마지막 페이지 (지역/관광 타입을 여러 개 선택하면 병합 목록 페이지 제한)
+ * @returns 제한이 없으면 Infinity
+ */
+export function getHomeMaxPage(
+  state: HomeSearchState,
+  nearby: NearbyLocation | null,
+): number {
+  return getTourFanoutMaxPage(getHomeCombinations(state, nearby));
+}
+
+/**
+ * 목록 1페이지 조회에 필요한 API 호출 수 (조합 수, 조회량 제한용)
+ */
+export function getHomeRequestCount(
+  state: HomeSearchState,
+  nearby: NearbyLocation | null,
+): number {
+  return getHomeCombinations(state, nearby).length;
+}
+
+/**
+ * 목록 한 페이지 조회 (원본 응답)
+ * @param state 검색 상태
+ * @param nearby 위치 기반 기준점 (없으면 null)
+ * @param pageNo 페이지 번호
+ * @param options 호출 우선순위, 취소 신호
+ */
+export function fetchHomeTourPage(
+  state: HomeSearchState,
+  nearby: NearbyLocation | null,
+  pageNo: number,
+  options: HomeTourFetchOptions = {},
+): Promise<TourApiResponse<TourItem>> {
+  const { priority, signal } = options;
+  const sortOption = getHomeSortOption(state, nearby);
+  const imageOnly = !!state.imageOnly;
+
+  if (nearby) {
+    // 위치 기반 모드: 관광 타입 필터만 적용 (지역 필터는 좌표/반경으로 대체)
+    const arrange = getSortArrange(sortOption, imageOnly);
+    return fetchTourFanoutPage(
+      getHomeCombinations(state, nearby),
+      ({ contentTypeId }, page, fetchSignal) =>
+        locationBasedList2({
+          mapX: nearby.lng,
+          mapY: nearby.lat,
+          radius: nearby.radius,
+          contentTypeId,
+          arrange,
+          numOfRows: HOME_PAGE_SIZE,
+          pageNo: page,
+          priority,
+          signal: fetchSignal,
+        }),
+      { pageNo, numOfRows: HOME_PAGE_SIZE, arrange, signal },
+    );
+  }
+
+  // 검색어가 있으면 searchKeyword2 (필터와 조합 가능, 초성 검색어는 호출하지 않음)
+  // 검색어가 없고 필터만 있으면 areaBasedList2
+  const keyword = hasKeyword(state) ? state.keyword!.trim() : undefined;
+  const arrange = getListSortArrange(sortOption, imageOnly);
+  return fetchTourFanoutPage(
+    getHomeCombinations(state, nearby),
+    ({ areaCode, contentTypeId }, page, fetchSignal) => {
+      const options = {
+        areaCode,
+        sigunguCode: state.sigunguCode,
+        contentTypeId,
+        cat1: state.cat1,
+        cat2: state.cat2,
+        cat3: state.cat3,
+        arrange,
+        numOfRows: HOME_PAGE_SIZE,
+        pageNo: page,
+        priority,
+        signal: fetchSignal,
+      };
+      return keyword
+        ? searchTourKeyword({ keyword, ...options })
+        : areaBasedList2(options);
+    },
+    { pageNo, numOfRows: HOME_PAGE_SIZE, arrange, signal },
+  );
+}
+
+/**
+ * "이것을 찾으셨나요?" 검색어를 찾을 제목 목록
+ * 브라우저에서는 이 사용자가 조회한 목록(응답 캐시)과 인기 검색어,
+ * 서버에서는 인기 검색어만 사용 (서버 응답 캐시는 모든 사용자의 조회 결과가 섞여 있음)
+ */
+function getDidYouMeanTitles() {
+  return typeof window === "undefined"
+    ? getPopularTourTitles()
+    : getLocalTourTitles();
+}
+
+/**
+ * 목록 조회 + 정규화
+ * 키워드 검색 결과가 없으면 "이것을 찾으셨나요?" 검색어를 함께 반환합니다.
+ * @param state 검색 상태
+ * @param nearby 위치 기반 기준점 (없으면 null)
+ * @param pageNo 페이지 번호
+ * @param signal 취소 신호
+ */
+export async function fetchHomeTourList(
+  state: HomeSearchState,
+  nearby: NearbyLocation | null,
+  pageNo: number,
+  signal?: AbortSignal,
+): Promise<HomeTourList> {
+  const response = await fetchHomeTourPage(state, nearby, pageNo, { signal });
+
+  // API 응답 정규화 (배열/단일 항목/빈 결과 처리)
+  const { items, pagination } = normalizeTourList(response);
+
+  return {
+    key: getHomeTourListKey(getHomeSearchKey(state, nearby), pageNo),
+    tours: items,
+    totalCount: pagination.totalCount,
+    sortedBy: getHomeSortOption(state, nearby),
+    stale: !!response.stale,
+    // 키워드 검색 결과가 없으면 초성/로마자 해석, 비슷한 관광지명 제안
+    didYouMean:
+      hasKeyword(state) && !nearby && pagination.totalCount === 0
+        ? getKeywordSuggestions(state.keyword!, getDidYouMeanTitles())
+        : [],
+  };
+}
+
+/**
+ * 시간 → KorService2 modifiedtime 형식 (YYYYMMDDHHmmss, KST)
+ */
+function toTourTimestamp(date: Date): string {
+  return new Date(date.getTime() + KST_OFFSET)
+    .toISOString()
+    .slice(0, 19)
+    .replace(/\D/g, "");
+}
+
+/**
+ * 특정 시점 이후 수정된 항목 수
+ * 검색 조건의 목록을 수정일순 1페이지만 조회하여 기준 시점보다 새로 수정된 항목을 셉니다.
+ * (1페이지가 모두 새 항목이고 다음 페이지가 있으면 capped - "20+"처럼 표시)
+ * 사진 필터는 적용하고, 정렬은 무시하며, 반려동물 동반 필터는 목록 API가 지원하지 않으므로 적용하지 않습니다.
+ * @param state 검색 상태
+ * @param since 기준 시점 (마지막 확인 시간)
+ * @param signal 취소 신호
+ * @returns 수정된 항목 수, 1페이지보다 많아 실제로는 더 많은지 여부
+ */
+export async function countHomeToursModifiedSince(
+  state: HomeSearchState,
+  since: Date,
+  signal?: AbortSignal,
+): Promise<{ count: number; capped: boolean }> {
+  const sinceTimestamp = toTourTimestamp(since);
+  const latestState: HomeSearchState = { ...state, sort: "latest" };
+
+  const response = await fetchHomeTourPage(latestState, null, 1, {
+    priority: "background",
+    signal,
+  });
+  const { items, pagination } = normalizeTourList(response);
+
+  const count = items.filter(
+    (item) => (item.modifiedtime ?? "") > sinceTimestamp,
+  ).length;
+
+  return {
+    count,
+    capped: count === items.length && pagination.totalPages > 1,
+  };
+}
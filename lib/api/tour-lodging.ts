@@ -0,0 +1,71 @@
+/**
+ * @file tour-lodging.ts
+ * @description 숙박 목록의 숙박 정보(detailIntro2) 일괄 조회
+ *
+ * searchStay2 목록에는 입실/퇴실 시간, 주차, 취사, 객실 수 같은 숙박 정보가 없으므로
+ * 항목별로 detailIntro2를 호출하여 숙박 검색 조건 필터링에 사용합니다.
+ *
+ * 핵심 구현 로직:
+ * - 동시 요청 수 제한 (LODGING_INTRO_CONCURRENCY개씩 병렬 조회)
+ * - 비필수 호출(priority: "background")로 요청 (일일 한도에 가까우면 먼저 거절)
+ * - 개별 조회 실패는 null로 기록하고 나머지 항목은 계속 조회
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: detailIntro2 함수
+ * - lib/api/tour-normalize.ts: normalizeTourIntro 함수
+ * - lib/utils/lodging.ts: parseLodgingInfo 함수
+ */
+
+import { detailIntro2 } from "@/lib/api/tour-api";
+import { normalizeTourIntro } from "@/lib/api/tour-normalize";
+import { LODGING_CONTENT_TYPE_ID, parseLodgingInfo } from "@/lib/utils/lodging";
+import { logError } from "@/lib/utils/error-handler";
+import type { LodgingInfo, TourItem } from "@/lib/types/tour";
+
+/**
+ * 숙박 정보 동시 조회 수
+ */
+const LODGING_INTRO_CONCURRENCY = 5;
+
+/**
+ * 숙박 정보 단건 조회
+ * @returns 숙박 정보 또는 null (조회 실패/정보 없음)
+ */
+async function fetchLodgingInfo(contentId: string): Promise<LodgingInfo | null> {
+  try {
+    const response = await detailIntro2(contentId, LODGING_CONTENT_TYPE_ID, {
+      priority: "background",
+    });
+    const intro = normalizeTourIntro(response, {
+      contentid: contentId,
+      contenttypeid: LODGING_CONTENT_TYPE_ID,
+    });
+    return intro ? parseLodgingInfo(intro) : null;
+  } catch (error) {
+    logError(error, `fetchLodgingInfo - ${contentId}`);
+    return null;
+  }
+}
+
+/**
+ * 숙박 목록의 숙박 정보 일괄 조회
+ * @param items 숙박 목록 (searchStay2 결과)
+ * @returns contentid → 숙박 정보 (조회 실패 시 null)
+ */
+export async function fetchLodgingInfos(
+  items: TourItem[],
+): Promise<Map<string, LodgingInfo | null>> {
+  const result = new Map<string, LodgingInfo | null>();
+
+  for (let index = 0; index < items.length; index += LODGING_INTRO_CONCURRENCY) {
+    const chunk = items.slice(index, index + LODGING_INTRO_CONCURRENCY);
+    const infos = await Promise.all(
+      chunk.map((item) => fetchLodgingInfo(item.contentid)),
+    );
+    chunk.forEach((item, chunkIndex) => {
+      result.set(item.contentid, infos[chunkIndex]);
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,488 @@
+/**
+ * @file tour-normalize.ts
+ * @description 한국관광공사 API 응답 정규화 유틸리티
+ *
+ * KorService2 응답을 화면에서 바로 사용할 수 있는 타입(TourItem, FestivalItem, TourDetail, TourIntro, TourImage, TourRepeatInfo, PetTourInfo)과
+ * 페이지네이션 정보로 변환합니다. 모든 호출부는 응답을 직접 다루지 않고 이 모듈을 거칩니다.
+ *
+ * 처리하는 응답 형태:
+ * - items.item이 배열인 경우 (일반적인 경우)
+ * - items.item이 단일 객체인 경우 (결과 1건)
+ * - items가 빈 문자열("")이거나 생략된 경우 (결과 없음)
+ * - 숫자 필드(totalCount 등)가 문자열로 오는 경우
+ * - 선택 필드가 빈 문자열로 오는 경우 (undefined로 변환)
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourItem, FestivalItem, TourDetail, TourIntro, TourImage, TourRepeatInfo, PetTourInfo, TourApiResponse 타입
+ * - lib/constants/area-codes.ts: AreaCodeInfo 타입
+ *
+ * @see {@link lib/api/tour-api.ts} - API 클라이언트
+ */
+
+import type { AreaCodeInfo } from "@/lib/constants/area-codes";
+import type {
+  CategoryCode,
+  FestivalItem,
+  PetTourInfo,
+  TourApiResponse,
+  TourCourseStop,
+  TourDetail,
+  TourImage,
+  TourInfoItem,
+  TourIntro,
+  TourItem,
+  TourListResult,
+  TourPagination,
+  TourRepeatInfo,
+  TourRoomInfo,
+} from "@/lib/types/tour";
+
+/**
+ * 원본 응답 항목 (필드 값이 문자열이 아닐 수 있음)
+ */
+type RawItem = Record<string, unknown>;
+
+/**
+ * 객실 시설 필드 → 표시명 (값이 "Y"인 시설만 표시)
+ */
+const ROOM_AMENITY_LABELS: Record<string, string> = {
+  roombathfacility: "목욕시설",
+  roombath: "욕조",
+  roomhometheater: "홈시어터",
+  roomaircondition: "에어컨",
+  roomtv: "TV",
+  roompc: "PC",
+  roomcable: "케이블 TV",
+  roominternet: "인터넷",
+  roomrefrigerator: "냉장고",
+  roomtoiletries: "세면도구",
+  roomsofa: "소파",
+  roomcook: "취사용품",
+  roomtable: "테이블",
+  roomhairdryer: "드라이기",
+};
+
+/**
+ * 객실 이미지 필드 수 (roomimg1 ~ roomimg5)
+ */
+const ROOM_IMAGE_COUNT = 5;
+
+/**
+ * 필수 문자열 필드 변환 (없으면 빈 문자열)
+ */
+function toText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return String(value).trim();
+}
+
+/**
+ * 선택 문자열 필드 변환 (없거나 빈 문자열이면 undefined)
+ */
+function toOptionalText(value: unknown): string | undefined {
+  const text = toText(value);
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * 숫자 필드 변환 (변환할 수 없으면 fallback)
+ */
+function toNumber(value: unknown, fallback: number): number {
+  const number = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(number) ? number : fallback;
+}
+
+/**
+ * 응답에서 항목 배열 추출
+ * 배열/단일 객체/빈 문자열/누락을 모두 배열로 변환합니다.
+ * @param response KorService2 응답
+ * @returns 항목 배열 (결과가 없으면 빈 배열)
+ */
+export function extractItems<TItem>(
+  response: TourApiResponse<TItem> | null | undefined,
+): TItem[] {
+  const items = response?.response?.body?.items;
+
+  if (!items || typeof items !== "object") {
+    return [];
+  }
+
+  const item = items.item;
+  if (!item) {
+    return [];
+  }
+
+  return Array.isArray(item) ? item : [item];
+}
+
+/**
+ * 응답에서 페이지네이션 정보 추출
+ * @param response KorService2 응답
+ * @param itemCount 실제 항목 수 (totalCount가 없을 때 사용)
+ */
+export function extractPagination(
+  response: TourApiResponse<unknown> | null | undefined,
+  itemCount: number = 0,
+): TourPagination {
+  const body = response?.response?.body;
+  const numOfRows = toNumber(body?.numOfRows, itemCount || 10);
+  const pageNo = toNumber(body?.pageNo, 1);
+  const totalCount = toNumber(body?.totalCount, itemCount);
+
+  return {
+    pageNo,
+    numOfRows,
+    totalCount,
+    totalPages: numOfRows > 0 ? Math.ceil(totalCount / numOfRows) : 0,
+  };
+}
+
+/**
+ * 목록 항목 → TourItem
+ */
+export function toTourItem(raw: RawItem): TourItem {
+  return {
+    addr1: toText(raw.addr1),
+    addr2: toOptionalText(raw.addr2),
+    areacode: toText(raw.areacode),
+    sigungucode: toOptionalText(raw.sigungucode),
+    contentid: toText(raw.contentid),
+    contenttypeid: toText(raw.contenttypeid),
+    title: toText(raw.title),
+    mapx: toText(raw.mapx),
+    mapy: toText(raw.mapy),
+    firstimage: toOptionalText(raw.firstimage),
+    firstimage2: toOptionalText(raw.firstimage2),
+    tel: toOptionalText(raw.tel),
+    cat1: toOptionalText(raw.cat1),
+    cat2: toOptionalText(raw.cat2),
+    cat3: toOptionalText(raw.cat3),
+    modifiedtime: toText(raw.modifiedtime),
+    dist: toOptionalText(raw.dist),
+  };
+}
+
+/**
+ * 축제 목록 항목 → FestivalItem
+ */
+export function toFestivalItem(raw: RawItem): FestivalItem {
+  return {
+    ...toTourItem(raw),
+    eventstartdate: toText(raw.eventstartdate),
+    eventenddate: toText(raw.eventenddate),
+  };
+}
+
+/**
+ * 공통 정보 항목 → TourDetail
+ */
+export function toTourDetail(raw: RawItem): TourDetail {
+  return {
+    contentid: toText(raw.contentid),
+    contenttypeid: toText(raw.contenttypeid),
+    title: toText(raw.title),
+    addr1: toText(raw.addr1),
+    addr2: toOptionalText(raw.addr2),
+    zipcode: toOptionalText(raw.zipcode),
+    tel: toOptionalText(raw.tel),
+    homepage: toOptionalText(raw.homepage),
+    overview: toOptionalText(raw.overview),
+    firstimage: toOptionalText(raw.firstimage),
+    firstimage2: toOptionalText(raw.firstimage2),
+    mapx: toText(raw.mapx),
+    mapy: toText(raw.mapy),
+    cat1: toOptionalText(raw.cat1),
+    cat2: toOptionalText(raw.cat2),
+    cat3: toOptionalText(raw.cat3),
+    cpyrhtDivCd: toOptionalText(raw.cpyrhtDivCd),
+    areacode: toOptionalText(raw.areacode),
+    sigungucode: toOptionalText(raw.sigungucode),
+    modifiedtime: toText(raw.modifiedtime),
+  };
+}
+
+/**
+ * 소개 정보 항목 → TourIntro
+ * 타입별로 필드가 다르므로 모든 필드를 문자열로 변환하여 유지합니다.
+ * @param raw 원본 항목
+ * @param fallback contentid/contenttypeid가 없을 때 사용할 값
+ */
+export function toTourIntro(
+  raw: RawItem,
+  fallback: { contentid: string; contenttypeid: string },
+): TourIntro {
+  const fields = Object.fromEntries(
+    Object.entries(raw).map(([key, value]) => [key, toOptionalText(value)]),
+  );
+
+  return {
+    ...fields,
+    contentid: toOptionalText(raw.contentid) ?? fallback.contentid,
+    contenttypeid: toOptionalText(raw.contenttypeid) ?? fallback.contenttypeid,
+  };
+}
+
+/**
+ * 이미지 항목 → TourImage
+ * @param raw 원본 항목
+ * @param contentId contentid가 없을 때 사용할 값
+ */
+export function toTourImage(raw: RawItem, contentId: string): TourImage {
+  return {
+    contentid: toOptionalText(raw.contentid) ?? contentId,
+    originimgurl: toOptionalText(raw.originimgurl),
+    serialnum: toText(raw.serialnum),
+    smallimageurl: toOptionalText(raw.smallimageurl),
+    imgname: toOptionalText(raw.imgname),
+  };
+}
+
+/**
+ * 여행코스 항목 → TourCourseStop
+ */
+export function toCourseStop(raw: RawItem): TourCourseStop {
+  return {
+    subnum: toText(raw.subnum),
+    subcontentid: toOptionalText(raw.subcontentid),
+    subname: toText(raw.subname),
+    subdetailoverview: toOptionalText(raw.subdetailoverview),
+    subdetailimg: toOptionalText(raw.subdetailimg),
+    subdetailalt: toOptionalText(raw.subdetailalt),
+  };
+}
+
+/**
+ * 객실 항목 → TourRoomInfo
+ * roomimg1~5를 이미지 목록으로, 값이 "Y"인 시설 필드를 시설명 목록으로 변환합니다.
+ */
+export function toRoomInfo(raw: RawItem): TourRoomInfo {
+  const images: TourRoomInfo["images"] = [];
+  for (let index = 1; index <= ROOM_IMAGE_COUNT; index++) {
+    const url = toOptionalText(raw[`roomimg${index}`]);
+    if (url) {
+      images.push({ url, alt: toOptionalText(raw[`roomimg${index}alt`]) });
+    }
+  }
+
+  const amenities = Object.entries(ROOM_AMENITY_LABELS)
+    .filter(([key]) => toText(raw[key]).toUpperCase() === "Y")
+    .map(([, label]) => label);
+
+  return {
+    roomcode: toText(raw.roomcode),
+    roomtitle: toText(raw.roomtitle),
+    roomsize1: toOptionalText(raw.roomsize1),
+    roomsize2: toOptionalText(raw.roomsize2),
+    roomcount: toOptionalText(raw.roomcount),
+    roombasecount: toOptionalText(raw.roombasecount),
+    roommaxcount: toOptionalText(raw.roommaxcount),
+    roomoffseasonminfee1: toOptionalText(raw.roomoffseasonminfee1),
+    roomoffseasonminfee2: toOptionalText(raw.roomoffseasonminfee2),
+    roompeakseasonminfee1: toOptionalText(raw.roompeakseasonminfee1),
+    roompeakseasonminfee2: toOptionalText(raw.roompeakseasonminfee2),
+    roomintro: toOptionalText(raw.roomintro),
+    images,
+    amenities,
+  };
+}
+
+/**
+ * 반복 정보 항목 → TourInfoItem
+ */
+export function toInfoItem(raw: RawItem): TourInfoItem {
+  return {
+    serialnum: toText(raw.serialnum),
+    infoname: toText(raw.infoname),
+    infotext: toText(raw.infotext),
+  };
+}
+
+/**
+ * 반려동물 동반 정보 항목 → PetTourInfo
+ */
+export function toPetTourInfo(raw: RawItem): PetTourInfo {
+  return {
+    contentid: toText(raw.contentid),
+    acmpyTypeCd: toOptionalText(raw.acmpyTypeCd),
+    acmpyPsblCpam: toOptionalText(raw.acmpyPsblCpam),
+    acmpyNeedMtr: toOptionalText(raw.acmpyNeedMtr),
+    relaPosesFclty: toOptionalText(raw.relaPosesFclty),
+    relaFrnshPrdlst: toOptionalText(raw.relaFrnshPrdlst),
+    relaRntlPrdlst: toOptionalText(raw.relaRntlPrdlst),
+    relaPurcPrdlst: toOptionalText(raw.relaPurcPrdlst),
+    relaAcdntRiskMtr: toOptionalText(raw.relaAcdntRiskMtr),
+    etcAcmpyInfo: toOptionalText(raw.etcAcmpyInfo),
+  };
+}
+
+/**
+ * TourDetail → TourItem (북마크 목록 등 상세 정보로 카드를 그릴 때 사용)
+ */
+export function detailToTourItem(detail: TourDetail): TourItem {
+  return {
+    addr1: detail.addr1,
+    addr2: detail.addr2,
+    areacode: detail.areacode ?? "",
+    sigungucode: detail.sigungucode,
+    contentid: detail.contentid,
+    contenttypeid: detail.contenttypeid,
+    title: detail.title,
+    mapx: detail.mapx,
+    mapy: detail.mapy,
+    firstimage: detail.firstimage,
+    firstimage2: detail.firstimage2,
+    tel: detail.tel,
+    cat1: detail.cat1,
+    cat2: detail.cat2,
+    cat3: detail.cat3,
+    modifiedtime: detail.modifiedtime,
+  };
+}
+
+/**
+ * 목록 응답 정규화 (areaBasedList2, searchKeyword2, locationBasedList2)
+ * contentid가 없는 항목은 제외합니다.
+ * @param response KorService2 응답
+ * @returns 관광지 목록과 페이지네이션 정보
+ */
+export function normalizeTourList(
+  response: TourApiResponse<unknown> | null | undefined,
+): TourListResult {
+  const rawItems = extractItems(response as TourApiResponse<RawItem>);
+  const items = rawItems.map(toTourItem).filter((item) => item.contentid);
+
+  return {
+    items,
+    pagination: extractPagination(response, rawItems.length),
+  };
+}
+
+/**
+ * 축제 목록 응답 정규화 (searchFestival2)
+ * contentid가 없는 항목은 제외합니다.
+ * @param response KorService2 응답
+ * @returns 축제 목록과 페이지네이션 정보
+ */
+export function normalizeFestivalList(
+  response: TourApiResponse<unknown> | null | undefined,
+): TourListResult<FestivalItem> {
+  const rawItems = extractItems(response as TourApiResponse<RawItem>);
+  const items = rawItems.map(toFestivalItem).filter((item) => item.contentid);
+
+  return {
+    items,
+    pagination: extractPagination(response, rawItems.length),
+  };
+}
+
+/**
+ * 공통 정보 응답 정규화 (detailCommon2)
+ * @returns 첫 번째 항목 또는 null
+ */
+export function normalizeTourDetail(
+  response: TourApiResponse<unknown> | null | undefined,
+): TourDetail | null {
+  const [item] = extractItems(response as TourApiResponse<RawItem>);
+  return item ? toTourDetail(item) : null;
+}
+
+/**
+ * 소개 정보 응답 정규화 (detailIntro2)
+ * @param fallback contentid/contenttypeid가 응답에 없을 때 사용할 값
+ * @returns 첫 번째 항목 또는 null
+ */
+export function normalizeTourIntro(
+  response: TourApiResponse<unknown> | null | undefined,
+  fallback: { contentid: string; contenttypeid: string },
+): TourIntro | null {
+  const [item] = extractItems(response as TourApiResponse<RawItem>);
+  return item ? toTourIntro(item, fallback) : null;
+}
+
+/**
+ * 이미지 목록 응답 정규화 (detailImage2)
+ * @param contentId contentid가 응답에 없을 때 사용할 값
+ * @returns 이미지 URL이 있는 항목만 포함한 배열
+ */
+export function normalizeTourImages(
+  response: TourApiResponse<unknown> | null | undefined,
+  contentId: string,
+): TourImage[] {
+  return extractItems(response as TourApiResponse<RawItem>)
+    .map((item) => toTourImage(item, contentId))
+    .filter((image) => image.originimgurl || image.smallimageurl);
+}
+
+/**
+ * 반복 정보 응답 정규화 (detailInfo2)
+ * 콘텐츠 타입에 따라 여행코스/객실/기타 항목으로 변환하고 순번 순으로 정렬합니다.
+ * @param contentTypeId 요청에 사용한 콘텐츠 타입 ID
+ */
+export function normalizeRepeatInfo(
+  response: TourApiResponse<unknown> | null | undefined,
+  contentTypeId: string,
+): TourRepeatInfo {
+  const rawItems = extractItems(response as TourApiResponse<RawItem>);
+  const bySerial = (a: string, b: string) => toNumber(a, 0) - toNumber(b, 0);
+
+  if (contentTypeId === "25") {
+    return {
+      kind: "course",
+      items: rawItems
+        .map(toCourseStop)
+        .filter((stop) => stop.subname)
+        .sort((a, b) => bySerial(a.subnum, b.subnum)),
+    };
+  }
+
+  if (contentTypeId === "32") {
+    return {
+      kind: "room",
+      items: rawItems.map(toRoomInfo).filter((room) => room.roomtitle),
+    };
+  }
+
+  return {
+    kind: "info",
+    items: rawItems
+      .map(toInfoItem)
+      .filter((item) => item.infoname && item.infotext)
+      .sort((a, b) => bySerial(a.serialnum, b.serialnum)),
+  };
+}
+
+/**
+ * 반려동물 동반 여행 정보 응답 정규화 (detailPetTour2)
+ * @returns 첫 번째 항목 또는 null (동반 정보 미등록)
+ */
+export function normalizePetTourInfo(
+  response: TourApiResponse<unknown> | null | undefined,
+): PetTourInfo | null {
+  const [item] = extractItems(response as TourApiResponse<RawItem>);
+  return item ? toPetTourInfo(item) : null;
+}
+
+/**
+ * 지역코드 응답 정규화 (areaCode2)
+ * @returns 지역 코드/이름 배열
+ */
+export function normalizeAreaCodes(
+  response: TourApiResponse<unknown> | null | undefined,
+): AreaCodeInfo[] {
+  return extractItems(response as TourApiResponse<RawItem>)
+    .map((item) => ({ code: toText(item.code), name: toText(item.name) }))
+    .filter((area) => area.code && area.name);
+}
+
+/**
+ * 서비스 분류 코드 응답 정규화 (categoryCode2)
+ * @returns 분류 코드/이름 배열
+ */
+export function normalizeCategoryCodes(
+  response: TourApiResponse<unknown> | null | undefined,
+): CategoryCode[] {
+  return extractItems(response as TourApiResponse<RawItem>)
+    .map((item) => ({ code: toText(item.code), name: toText(item.name) }))
+    .filter((category) => category.code && category.name);
+}
@@ -0,0 +1,73 @@
+/**
+ * @file tour-pet.ts
+ * @description 관광지 목록의 반려동물 동반 정보(detailPetTour2) 일괄 조회
+ *
+ * 목록 API에는 반려동물 동반 조건이 없으므로
+ * 항목별로 detailPetTour2를 호출하여 "반려동물 동반" 필터링에 사용합니다.
+ *
+ * 핵심 구현 로직:
+ * - 동시 요청 수 제한 (PET_TOUR_CONCURRENCY개씩 병렬 조회)
+ * - 목록 일괄 조회는 비필수 호출(priority: "background")로 요청 (일일 한도에 가까우면 먼저 거절)
+ * - 동반 정보 미등록 또는 개별 조회 실패는 null로 기록하고 나머지 항목은 계속 조회
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: detailPetTour2 함수
+ * - lib/api/tour-normalize.ts: normalizePetTourInfo 함수
+ * - lib/utils/pet.ts: parsePetPolicy 함수
+ */
+
+import { detailPetTour2 } from "@/lib/api/tour-api";
+import { normalizePetTourInfo } from "@/lib/api/tour-normalize";
+import { parsePetPolicy } from "@/lib/utils/pet";
+import { logError } from "@/lib/utils/error-handler";
+import type { PetPolicy, TourItem } from "@/lib/types/tour";
+
+/**
+ * 반려동물 동반 정보 동시 조회 수
+ */
+const PET_TOUR_CONCURRENCY = 5;
+
+/**
+ * 반려동물 동반 정책 단건 조회
+ * @param contentId 콘텐츠 ID
+ * @param options 호출 우선순위, 취소 신호
+ * @returns 동반 정책 또는 null (미등록/조회 실패)
+ */
+export async function fetchPetPolicy(
+  contentId: string,
+  options: Parameters<typeof detailPetTour2>[1] = {},
+): Promise<PetPolicy | null> {
+  try {
+    const response = await detailPetTour2(contentId, options);
+    const info = normalizePetTourInfo(response);
+    return info ? parsePetPolicy(info) : null;
+  } catch (error) {
+    logError(error, `fetchPetPolicy - ${contentId}`);
+    return null;
+  }
+}
+
+/**
+ * 관광지 목록의 반려동물 동반 정책 일괄 조회
+ * @param items 관광지 목록
+ * @returns contentid → 동반 정책 (미등록/조회 실패 시 null)
+ */
+export async function fetchPetPolicies(
+  items: TourItem[],
+): Promise<Map<string, PetPolicy | null>> {
+  const result = new Map<string, PetPolicy | null>();
+
+  for (let index = 0; index < items.length; index += PET_TOUR_CONCURRENCY) {
+    const chunk = items.slice(index, index + PET_TOUR_CONCURRENCY);
+    const policies = await Promise.all(
+      chunk.map((item) =>
+        fetchPetPolicy(item.contentid, { priority: "background" }),
+      ),
+    );
+    chunk.forEach((item, chunkIndex) => {
+      result.set(item.contentid, policies[chunkIndex]);
+    });
+  }
+
+  return result;
+}
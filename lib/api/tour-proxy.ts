@@ -0,0 +1,220 @@
+/**
+ * @file tour-proxy.ts
+ * @description 한국관광공사 API 프록시 요청 검증 (엔드포인트/파라미터 허용 목록)
+ *
+ * 브라우저 요청은 app/api/tour/[endpoint]/route.ts를 거쳐 서버에서 KorService2로 전달됩니다.
+ * 이 모듈은 프록시가 전달할 수 있는 엔드포인트와 엔드포인트별 파라미터를 제한하고 값 형식을 검증합니다.
+ *
+ * 핵심 구현 로직:
+ * - 허용 목록에 없는 엔드포인트는 null (라우트에서 404)
+ * - 허용 목록에 없는 파라미터나 형식이 잘못된 값은 TourApiValidationError (라우트에서 400)
+ * - 공통 파라미터(MobileOS, MobileApp, _type)는 무시하고 서버에서 다시 추가
+ * - serviceKey는 어떤 경우에도 받지 않음
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: MAX_LOCATION_RADIUS
+ * - lib/api/tour-api-error.ts: TourApiValidationError
+ *
+ * @see {@link app/api/tour/[endpoint]/route.ts} - 프록시 라우트
+ */
+
+import { MAX_LOCATION_RADIUS } from "@/lib/api/tour-api";
+import { TourApiValidationError } from "@/lib/api/tour-api-error";
+
+/**
+ * 프록시 엔드포인트 설정
+ */
+export interface TourProxyEndpoint {
+  /** 허용 파라미터 */
+  params: readonly string[];
+  /** 응답 캐시 시간 (초, Cache-Control s-maxage) */
+  revalidate: number;
+}
+
+/**
+ * 서버에서 다시 추가하는 공통 파라미터 (요청에 있어도 무시)
+ */
+const COMMON_PARAMS = ["MobileOS", "MobileApp", "_type"];
+
+const PAGING_PARAMS = ["numOfRows", "pageNo"] as const;
+const CATEGORY_PARAMS = ["cat1", "cat2", "cat3"] as const;
+
+/**
+ * 캐시 시간 (초)
+ */
+const ONE_HOUR = 60 * 60;
+const ONE_DAY = 24 * ONE_HOUR;
+
+/**
+ * 엔드포인트별 허용 파라미터 및 캐시 시간
+ */
+export const TOUR_PROXY_ENDPOINTS: Record<string, TourProxyEndpoint> = {
+  areaCode2: {
+    params: ["areaCode", ...PAGING_PARAMS],
+    revalidate: ONE_DAY,
+  },
+  categoryCode2: {
+    params: ["contentTypeId", ...CATEGORY_PARAMS, ...PAGING_PARAMS],
+    revalidate: ONE_DAY,
+  },
+  areaBasedList2: {
+    params: [
+      "areaCode",
+      "sigunguCode",
+      "contentTypeId",
+      "arrange",
+      ...CATEGORY_PARAMS,
+      ...PAGING_PARAMS,
+    ],
+    revalidate: ONE_HOUR,
+  },
+  searchKeyword2: {
+    params: [
+      "keyword",
+      "areaCode",
+      "sigunguCode",
+      "contentTypeId",
+      "listYN",
+      "arrange",
+      ...CATEGORY_PARAMS,
+      ...PAGING_PARAMS,
+    ],
+    revalidate: ONE_HOUR,
+  },
+  locationBasedList2: {
+    params: [
+      "mapX",
+      "mapY",
+      "radius",
+      "contentTypeId",
+      "arrange",
+      ...PAGING_PARAMS,
+    ],
+    revalidate: ONE_HOUR,
+  },
+  searchFestival2: {
+    params: [
+      "eventStartDate",
+      "eventEndDate",
+      "areaCode",
+      "sigunguCode",
+      "arrange",
+      ...PAGING_PARAMS,
+    ],
+    revalidate: ONE_HOUR,
+  },
+  searchStay2: {
+    params: ["areaCode", "sigunguCode", "arrange", ...PAGING_PARAMS],
+    revalidate: ONE_HOUR,
+  },
+  detailCommon2: { params: ["contentId"], revalidate: ONE_DAY },
+  detailIntro2: { params: ["contentId", "contentTypeId"], revalidate: ONE_DAY },
+  detailImage2: { params: ["contentId"], revalidate: ONE_DAY },
+  detailInfo2: { params: ["contentId", "contentTypeId"], revalidate: ONE_DAY },
+  detailPetTour2: { params: ["contentId"], revalidate: ONE_DAY },
+};
+
+/**
+ * 정수 범위 검사 함수 생성
+ */
+function isIntegerBetween(min: number, max: number) {
+  return (value: string) =>
+    /^\d+$/.test(value) && Number(value) >= min && Number(value) <= max;
+}
+
+/**
+ * 실수 범위 검사 함수 생성
+ */
+function isNumberBetween(min: number, max: number) {
+  return (value: string) =>
+    /^-?\d+(\.\d+)?$/.test(value) &&
+    Number(value) >= min &&
+    Number(value) <= max;
+}
+
+/**
+ * 파라미터별 값 형식
+ */
+const PARAM_VALIDATORS: Record<string, RegExp | ((value: string) => boolean)> =
+  {
+    numOfRows: isIntegerBetween(1, 100),
+    pageNo: isIntegerBetween(1, 10000),
+    areaCode: /^\d{1,2}$/,
+    sigunguCode: /^\d{1,3}$/,
+    contentTypeId: /^(12|14|15|25|28|32|38|39)$/,
+    contentId: /^\d{1,12}$/,
+    cat1: /^[A-C]\d{2}$/,
+    cat2: /^[A-C]\d{4}$/,
+    cat3: /^[A-C]\d{8}$/,
+    keyword: (value) => value.trim().length > 0 && value.length <= 100,
+    listYN: /^[YN]$/,
+    arrange: /^[A-EOQRS]$/,
+    // 대한민국 영역 (WGS84)
+    mapX: isNumberBetween(124, 132),
+    mapY: isNumberBetween(33, 39),
+    radius: isIntegerBetween(1, MAX_LOCATION_RADIUS),
+    eventStartDate: /^\d{8}$/,
+    eventEndDate: /^\d{8}$/,
+  };
+
+/**
+ * 프록시 엔드포인트 설정 조회
+ * @param endpoint 엔드포인트 이름 (앞의 "/" 없이, 예: "areaCode2")
+ * @returns 설정 또는 null (허용되지 않은 엔드포인트)
+ */
+export function getTourProxyEndpoint(
+  endpoint: string,
+): TourProxyEndpoint | null {
+  return Object.prototype.hasOwnProperty.call(TOUR_PROXY_ENDPOINTS, endpoint)
+    ? TOUR_PROXY_ENDPOINTS[endpoint]
+    : null;
+}
+
+/**
+ * 프록시 요청 파라미터 검증
+ * @param endpoint 엔드포인트 이름 (허용 목록에 있는 값)
+ * @param searchParams 요청 쿼리 파라미터
+ * @returns KorService2로 전달할 파라미터 (공통 파라미터 제외)
+ * @throws TourApiValidationError 허용되지 않은 파라미터 또는 잘못된 값
+ */
+export function parseTourProxyParams(
+  endpoint: string,
+  searchParams: URLSearchParams,
+): Record<string, string> {
+  const config = TOUR_PROXY_ENDPOINTS[endpoint];
+  const params: Record<string, string> = {};
+
+  for (const [key, value] of searchParams.entries()) {
+    if (COMMON_PARAMS.includes(key)) {
+      continue;
+    }
+
+    if (!config.params.includes(key)) {
+      throw new TourApiValidationError(
+        { endpoint: `/${endpoint}` },
+        `허용되지 않은 파라미터입니다: ${key}`,
+      );
+    }
+
+    if (key in params) {
+      throw new TourApiValidationError(
+        { endpoint: `/${endpoint}` },
+        `파라미터가 중복되었습니다: ${key}`,
+      );
+    }
+
+    const validator = PARAM_VALIDATORS[key];
+    const valid =
+      validator instanceof RegExp ? validator.test(value) : validator(value);
+    if (!valid) {
+      throw new TourApiValidationError(
+        { endpoint: `/${endpoint}` },
+        `파라미터 값이 올바르지 않습니다: ${key}`,
+      );
+    }
+
+    params[key] = value;
+  }
+
+  return params;
+}
@@ -0,0 +1,304 @@
+/**
+ * @file tour-query.ts
+ * @description 키워드 검색어 해석 (초성, 로마자 검색 지원)
+ *
+ * 키워드 검색 API(searchKeyword2)는 제목 부분 일치만 지원하므로 "ㄱㅂㄱ"(초성)이나
+ * "gyeongbokgung"(로마자)으로 검색하면 결과가 없습니다.
+ * 이 모듈은 searchKeyword2 앞에서 검색어를 해석하고, 결과가 없을 때 보여줄 "이것을 찾으셨나요?" 검색어를 만듭니다.
+ *
+ * 주요 기능:
+ * 1. 검색어 종류 판별 (analyzeTourQuery - 일반, 초성, 로마자)
+ * 2. 로컬 제목 인덱스 (getLocalTourTitles - 캐시된 목록 응답의 관광지명 + 인기 검색어)
+ *    서버에서 조회한 목록 추가 (seedLocalTourTitles - 서버 렌더링 직후 브라우저 캐시가 비어 있을 때)
+ * 3. 제목 일치 위치 찾기 (matchTourTitle - 공백/대소문자 무시, 초성, 로마자 비교)
+ * 4. 키워드 검색 (searchTourKeyword - 초성 검색어는 API를 호출하지 않고 빈 결과 반환)
+ * 5. "이것을 찾으셨나요?" 검색어 (getKeywordSuggestions)
+ *
+ * 핵심 구현 로직:
+ * - 자동완성과 마찬가지로 추가 API 호출 없이 응답 캐시(lib/api/tour-cache.ts)에 있는 제목만 사용
+ * - "이것을 찾으셨나요?"는 호출부가 넘긴 제목 목록에서 찾음
+ *   (서버의 응답 캐시는 모든 사용자가 공유하므로 서버에서는 인기 검색어만 사용 - getPopularTourTitles)
+ * - 초성 검색어: 로컬 제목 인덱스에서 초성이 일치하는 제목을 제안
+ * - 로마자 검색어: 제목을 로마자로 바꿔 비교한 결과를 먼저, 로마자 → 한글 변환 후보를 그 다음에 제안
+ * - 일반 검색어: 공백을 무시하면 일치하는 제목을 제안 (예: "경복 궁" → 경복궁)
+ * - 검색어로 시작하는 제목을 먼저, 같으면 짧은 제목을 먼저 표시
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: searchKeyword2
+ * - lib/api/tour-cache.ts: peekTourCacheValues, writeTourCache
+ * - lib/api/tour-normalize.ts: extractItems, toTourItem
+ * - lib/constants/popular-searches.ts: POPULAR_SEARCHES
+ * - lib/utils/hangul.ts: 초성/로마자 변환
+ *
+ * @see {@link app/page.tsx} - 검색 결과가 없을 때 "이것을 찾으셨나요?" 표시
+ * @see {@link lib/api/tour-suggestions.ts} - 검색어 자동완성
+ */
+
+import { searchKeyword2 } from "@/lib/api/tour-api";
+import {
+  getTourCacheKey,
+  peekTourCacheValues,
+  writeTourCache,
+} from "@/lib/api/tour-cache";
+import { extractItems, toTourItem } from "@/lib/api/tour-normalize";
+import { POPULAR_SEARCHES } from "@/lib/constants/popular-searches";
+import {
+  findChoseongMatch,
+  isChoseongQuery,
+  isRomanizedQuery,
+  romanizedToHangul,
+  toRomanKey,
+} from "@/lib/utils/hangul";
+import type { TourApiResponse, TourItem } from "@/lib/types/tour";
+
+/**
+ * 검색어 종류
+ * - keyword: 일반 검색어 (API에 그대로 전달)
+ * - choseong: 초성이 포함된 검색어 (예: "ㄱㅂㄱ")
+ * - romanized: 로마자 검색어 (예: "gyeongbokgung")
+ */
+export type TourQueryType = "keyword" | "choseong" | "romanized";
+
+/**
+ * 검색어 해석 결과
+ */
+export interface TourQuery {
+  /** 검색어 종류 */
+  type: TourQueryType;
+  /** 앞뒤 공백을 제거한 검색어 */
+  keyword: string;
+  /** 로마자 검색어의 한글 변환 후보 (type이 romanized인 경우) */
+  hangulCandidates: string[];
+}
+
+/**
+ * 로컬 제목 인덱스 항목
+ */
+export interface LocalTourTitle {
+  /** 관광지명 또는 검색어 */
+  title: string;
+  /** 관광지 ID (캐시된 목록 응답의 항목인 경우) */
+  contentId?: string;
+  /** 관광지 주소 (캐시된 목록 응답의 항목인 경우) */
+  address?: string;
+}
+
+/**
+ * 서버에서 조회한 목록을 브라우저 캐시에 넣을 때 사용하는 엔드포인트 (실제 API 요청에는 사용하지 않음)
+ */
+const SEEDED_TITLES_ENDPOINT = "/seededTourList";
+
+/**
+ * 제목을 찾을 목록 엔드포인트
+ */
+const TITLE_INDEX_ENDPOINTS = [
+  SEEDED_TITLES_ENDPOINT,
+  "/areaBasedList2",
+  "/searchKeyword2",
+  "/locationBasedList2",
+  "/searchFestival2",
+  "/searchStay2",
+];
+
+/**
+ * "이것을 찾으셨나요?" 기본 최대 개수
+ */
+const MAX_KEYWORD_SUGGESTIONS = 5;
+
+/**
+ * 로마자 검색어의 한글 변환 후보 최대 개수
+ */
+const MAX_HANGUL_CANDIDATES = 2;
+
+/**
+ * 비교용 문자열 (공백 제거, 소문자)
+ */
+function toComparable(text: string): string {
+  return text.replace(/\s+/g, "").toLowerCase();
+}
+
+/**
+ * 검색어 종류 판별
+ * @param query 검색어
+ */
+export function analyzeTourQuery(query: string): TourQuery {
+  const keyword = query.trim();
+
+  if (isChoseongQuery(keyword)) {
+    return { type: "choseong", keyword, hangulCandidates: [] };
+  }
+  if (isRomanizedQuery(keyword)) {
+    return {
+      type: "romanized",
+      keyword,
+      hangulCandidates: romanizedToHangul(keyword, MAX_HANGUL_CANDIDATES),
+    };
+  }
+  return { type: "keyword", keyword, hangulCandidates: [] };
+}
+
+/**
+ * 로컬 제목 인덱스
+ * 캐시된 목록 응답의 관광지(최근 응답 먼저, contentid 기준 중복 제거) 다음에 인기 검색어를 포함합니다.
+ */
+export function getLocalTourTitles(): LocalTourTitle[] {
+  const seen = new Set<string>();
+  const titles: LocalTourTitle[] = [];
+
+  for (const value of peekTourCacheValues(TITLE_INDEX_ENDPOINTS)) {
+    for (const raw of extractItems(value as TourApiResponse<unknown>)) {
+      const tour = toTourItem(raw as Parameters<typeof toTourItem>[0]);
+      if (!tour.contentid || !tour.title || seen.has(tour.contentid)) {
+        continue;
+      }
+
+      seen.add(tour.contentid);
+      titles.push({
+        title: tour.title,
+        contentId: tour.contentid,
+        address: tour.addr1 || undefined,
+      });
+    }
+  }
+
+  return [...titles, ...getPopularTourTitles()];
+}
+
+/**
+ * 인기 검색어 제목 목록 (사용자와 관계없는 고정 목록)
+ */
+export function getPopularTourTitles(): LocalTourTitle[] {
+  return POPULAR_SEARCHES.map((title) => ({ title }));
+}
+
+/**
+ * 서버에서 조회한 목록을 로컬 제목 인덱스에 추가 (브라우저에서만)
+ * 서버 렌더링한 첫 화면 목록은 브라우저 응답 캐시를 거치지 않으므로
+ * 목록 응답 형식으로 캐시에 넣어 자동완성 관광지 제안에 사용합니다.
+ * @param key 목록 조회 조건 키 (같은 목록은 한 항목으로 저장)
+ * @param tours 관광지 목록
+ */
+export function seedLocalTourTitles(key: string, tours: TourItem[]): void {
+  if (typeof window === "undefined" || tours.length === 0) return;
+
+  const response: TourApiResponse<TourItem> = {
+    response: {
+      header: { resultCode: "0000", resultMsg: "OK" },
+      body: {
+        items: { item: tours },
+        numOfRows: tours.length,
+        pageNo: 1,
+        totalCount: tours.length,
+      },
+    },
+  };
+  writeTourCache(
+    getTourCacheKey(SEEDED_TITLES_ENDPOINT, { key }),
+    SEEDED_TITLES_ENDPOINT,
+    response,
+  );
+}
+
+/**
+ * 제목에서 검색어 일치 위치 찾기
+ * 공백/대소문자를 무시한 부분 일치를 먼저 확인하고, 초성/로마자 검색어는 각각의 방식으로 다시 비교합니다.
+ * @param title 제목
+ * @param query 검색어 (또는 analyzeTourQuery 결과)
+ * @returns 일치 시작 위치 (0이면 검색어로 시작, 일치하지 않으면 -1)
+ */
+export function matchTourTitle(
+  title: string,
+  query: string | TourQuery,
+): number {
+  const { type, keyword } =
+    typeof query === "string" ? analyzeTourQuery(query) : query;
+
+  const comparable = toComparable(keyword);
+  if (!comparable) return -1;
+
+  const index = toComparable(title).indexOf(comparable);
+  if (index >= 0) return index;
+
+  if (type === "choseong") {
+    return findChoseongMatch(title, keyword);
+  }
+  if (type === "romanized") {
+    return toRomanKey(title).indexOf(toRomanKey(keyword));
+  }
+  return -1;
+}
+
+/**
+ * 빈 목록 응답 (API를 호출하지 않고 결과가 없음을 나타낼 때)
+ */
+function createEmptyTourResponse(
+  numOfRows: number,
+  pageNo: number,
+): TourApiResponse<TourItem> {
+  return {
+    response: {
+      header: { resultCode: "0000", resultMsg: "OK" },
+      body: { items: "", numOfRows, pageNo, totalCount: 0 },
+    },
+  };
+}
+
+/**
+ * 키워드 검색 (searchKeyword2 앞단)
+ * 초성이 포함된 검색어는 API 제목 검색으로 찾을 수 없으므로 호출하지 않고 빈 결과를 반환합니다.
+ * (결과가 없으면 getKeywordSuggestions로 "이것을 찾으셨나요?" 검색어를 표시)
+ * @param options searchKeyword2 옵션
+ */
+export async function searchTourKeyword(
+  options: Parameters<typeof searchKeyword2>[0],
+): Promise<TourApiResponse<TourItem>> {
+  if (analyzeTourQuery(options.keyword ?? "").type === "choseong") {
+    options.signal?.throwIfAborted();
+    return createEmptyTourResponse(
+      options.numOfRows ?? 20,
+      options.pageNo ?? 1,
+    );
+  }
+
+  return searchKeyword2(options);
+}
+
+/**
+ * "이것을 찾으셨나요?" 검색어 (키워드 검색 결과가 없을 때)
+ * @param query 결과가 없었던 검색어
+ * @param titles 제안할 제목 목록 (브라우저: getLocalTourTitles, 서버: getPopularTourTitles)
+ * @param limit 최대 개수
+ * @returns 다시 검색할 검색어 목록 (입력한 검색어 제외)
+ */
+export function getKeywordSuggestions(
+  query: string,
+  titles: readonly LocalTourTitle[],
+  limit: number = MAX_KEYWORD_SUGGESTIONS,
+): string[] {
+  const parsed = analyzeTourQuery(query);
+  const keyword = toComparable(parsed.keyword);
+  if (!keyword) return [];
+
+  const matches: { title: string; rank: number }[] = [];
+  for (const { title } of titles) {
+    const index = matchTourTitle(title, parsed);
+    if (index >= 0) {
+      matches.push({ title, rank: index === 0 ? 0 : 1 });
+    }
+  }
+
+  const matchedTitles = matches
+    .sort((a, b) => a.rank - b.rank || a.title.length - b.title.length)
+    .map(({ title }) => title);
+
+  const seen = new Set([keyword]);
+  const suggestions: string[] = [];
+  for (const text of [...matchedTitles, ...parsed.hangulCandidates]) {
+    if (suggestions.length >= limit) break;
+    const comparable = toComparable(text);
+    if (seen.has(comparable)) continue;
+    seen.add(comparable);
+    suggestions.push(text);
+  }
+  return suggestions;
+}
@@ -0,0 +1,174 @@
+/**
+ * @file tour-rate-limit.ts
+ * @description 한국관광공사 API 호출 제한 (서버 전용)
+ *
+ * 일일 호출 한도를 예고 없이 소진하지 않도록 KorService2로 나가는 호출 앞단에서
+ * 순간 호출 속도와 일일 호출량을 함께 제한합니다.
+ *
+ * 주요 기능:
+ * 1. 토큰 버킷 (순간적인 호출 폭주를 일정 속도로 분산)
+ * 2. 일일 한도 확인 (한도에 가까우면 비필수 호출부터 거절)
+ * 3. 호출 기록 (lib/api/tour-usage.ts)
+ *
+ * 호출 우선순위:
+ * - essential: 사용자가 보고 있는 화면에 필요한 호출 (기본값)
+ * - background: 사이트맵 샘플링, 미리 불러오기 등 없어도 되는 호출
+ *
+ * 핵심 구현 로직:
+ * - 일일 사용량이 한도의 TOUR_API_BACKGROUND_QUOTA_RATIO 이상이면 background 호출 거절
+ * - 한도에 도달하면 모든 호출 거절 (어차피 일일 트래픽 초과로 실패하므로 재시도하지 않음)
+ * - 토큰이 없으면 다음 토큰이 채워질 때까지 대기 (취소되면 토큰을 쓰지 않고 AbortError로 거부)
+ * - 라이브 API로 실제 전송되는 호출(live/record 모드)에만 적용 (lib/api/tour-transport-server.ts)
+ *
+ * @dependencies
+ * - lib/api/tour-usage.ts: 호출량 기록/조회
+ * - lib/api/tour-api-error.ts: TourApiRateLimitError
+ *
+ * @see {@link app/admin/tour-usage/page.tsx} - 관리자 호출량 화면
+ */
+
+import { TourApiRateLimitError } from "@/lib/api/tour-api-error";
+import {
+  getTodayTourApiUsage,
+  recordTourApiUsage,
+} from "@/lib/api/tour-usage";
+
+/**
+ * 호출 우선순위
+ */
+export type TourApiPriority = "essential" | "background";
+
+/**
+ * 기본 일일 호출 한도 (공공데이터포털 개발계정 기준)
+ */
+const DEFAULT_DAILY_QUOTA = 1000;
+
+/**
+ * background 호출을 허용하는 일일 사용량 비율
+ */
+export const TOUR_API_BACKGROUND_QUOTA_RATIO = 0.8;
+
+/**
+ * 토큰 버킷 설정
+ */
+const TOUR_RATE_LIMIT = {
+  /** 최대 토큰 수 (순간 허용 호출 수) */
+  capacity: 10,
+  /** 초당 채워지는 토큰 수 */
+  refillPerSecond: 5,
+};
+
+const bucket = {
+  tokens: TOUR_RATE_LIMIT.capacity,
+  updatedAt: Date.now(),
+};
+
+/**
+ * 일일 사용량 단계
+ * - normal: 모든 호출 허용
+ * - degraded: background 호출 거절
+ * - exhausted: 모든 호출 거절
+ */
+export type TourApiQuotaLevel = "normal" | "degraded" | "exhausted";
+
+/**
+ * 일일 호출 한도 (TOUR_API_DAILY_QUOTA, 운영계정은 승인된 트래픽으로 설정)
+ */
+export function getTourApiDailyQuota(): number {
+  const quota = Number(process.env.TOUR_API_DAILY_QUOTA);
+  return Number.isFinite(quota) && quota > 0 ? quota : DEFAULT_DAILY_QUOTA;
+}
+
+/**
+ * 일일 사용량 단계 계산
+ * @param used 오늘 호출 수
+ * @param quota 일일 호출 한도
+ */
+export function getTourApiQuotaLevel(
+  used: number,
+  quota: number = getTourApiDailyQuota(),
+): TourApiQuotaLevel {
+  if (used >= quota) return "exhausted";
+  if (used >= quota * TOUR_API_BACKGROUND_QUOTA_RATIO) return "degraded";
+  return "normal";
+}
+
+/**
+ * 토큰 버킷 채우기
+ */
+function refillBucket(): void {
+  const now = Date.now();
+  const elapsed = (now - bucket.updatedAt) / 1000;
+
+  bucket.tokens = Math.min(
+    TOUR_RATE_LIMIT.capacity,
+    bucket.tokens + elapsed * TOUR_RATE_LIMIT.refillPerSecond,
+  );
+  bucket.updatedAt = now;
+}
+
+/**
+ * 토큰 대기 (취소되면 즉시 AbortError로 거부)
+ */
+function waitForToken(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 토큰 하나 가져오기 (없으면 채워질 때까지 대기, 취소되면 토큰을 쓰지 않음)
+ */
+async function takeToken(signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  refillBucket();
+
+  while (bucket.tokens < 1) {
+    const wait = ((1 - bucket.tokens) / TOUR_RATE_LIMIT.refillPerSecond) * 1000;
+    await waitForToken(Math.ceil(wait), signal);
+    refillBucket();
+  }
+
+  bucket.tokens -= 1;
+}
+
+/**
+ * 라이브 API 호출 허가
+ * 일일 한도를 확인하고 토큰을 가져온 뒤 호출을 기록합니다.
+ * @param endpoint API 엔드포인트
+ * @param priority 호출 우선순위 (기본값: essential)
+ * @param signal 취소 신호 (토큰 대기 중 취소되면 호출을 기록하지 않음)
+ * @throws TourApiRateLimitError 일일 한도에 따라 거절된 경우 (재시도 불가)
+ * @throws AbortError 취소된 경우
+ */
+export async function acquireTourApiCall(
+  endpoint: string,
+  priority: TourApiPriority = "essential",
+  signal?: AbortSignal,
+): Promise<void> {
+  const level = getTourApiQuotaLevel(await getTodayTourApiUsage());
+
+  if (
+    level === "exhausted" ||
+    (level === "degraded" && priority === "background")
+  ) {
+    throw new TourApiRateLimitError(
+      { endpoint, resultMsg: `daily quota ${level}` },
+      false,
+    );
+  }
+
+  await takeToken(signal);
+  recordTourApiUsage(endpoint);
+}
@@ -0,0 +1,420 @@
+/**
+ * @file tour-schemas.ts
+ * @description 한국관광공사 API 응답 스키마 검증 (zod)
+ *
+ * KorService2 응답을 타입 캐스팅만으로 사용하면 필드 이름이 바뀌거나 빠졌을 때
+ * 화면에 빈 값만 표시되고 원인을 알 수 없으므로, 응답 경계(fetchTourAPI)에서 엔드포인트별 스키마로 검증합니다.
+ *
+ * 주요 기능:
+ * 1. 공통 응답 구조 스키마 (header, body, items)
+ * 2. 엔드포인트별 항목 스키마 (필수 필드 + 알려진 선택 필드)
+ * 3. 검증 (validateTourResponse - 문제를 fatal / dropped / tolerable로 분류, 문제 있는 항목 제외)
+ * 4. 스키마 변경(drift) 기록 (reportTourSchemaIssues - logError)
+ *
+ * 문제 분류:
+ * - fatal: 공통 응답 구조(response.header 등)가 다름 → 응답 사용 불가
+ * - dropped: 항목의 필수 필드(목록은 contentid, title / 이미지는 contentid)가 없거나 비어 있음
+ *   → 해당 항목만 제외하고 나머지 항목은 사용
+ * - tolerable: 알 수 없는 추가 필드, 선택 필드의 형식 변경 → 응답은 그대로 사용하고 기록만 남김
+ *
+ * 핵심 구현 로직:
+ * - 항목 스키마는 strict 모드로 정의하여 알 수 없는 필드를 unrecognized_keys로 감지
+ * - 공통 응답 구조는 passthrough로 검증하여 검증된 응답에도 알 수 없는 필드가 그대로 남음
+ * - 콘텐츠 타입마다 필드가 다른 detailIntro2는 알 수 없는 필드를 허용 (필수 필드만 검증)
+ * - 같은 엔드포인트/필드 경로의 문제는 프로세스당 한 번만 기록 (같은 응답이 반복되어도 로그가 쌓이지 않도록)
+ * - 숫자 필드가 문자열로 오는 등 정규화 모듈(lib/api/tour-normalize.ts)이 처리하는 형태는 문제로 보지 않음
+ *
+ * @dependencies
+ * - zod: 스키마 정의 및 검증
+ * - lib/api/tour-api-error.ts: TourApiResponseError (drift 로그용)
+ * - lib/utils/error-handler.ts: logError
+ *
+ * @see {@link lib/api/tour-api.ts} - fetchTourAPI (응답 검증)
+ */
+
+import { z } from "zod";
+import { TourApiResponseError } from "@/lib/api/tour-api-error";
+import { logError } from "@/lib/utils/error-handler";
+
+/**
+ * 스키마 문제 심각도
+ */
+export type TourSchemaSeverity = "fatal" | "dropped" | "tolerable";
+
+/**
+ * 스키마 문제
+ */
+export interface TourSchemaIssue {
+  /** API 엔드포인트 (예: "/detailCommon2") */
+  endpoint: string;
+  /** 필드 경로 (예: "response.body.items.item[0].title") */
+  path: string;
+  /** 심각도 */
+  severity: TourSchemaSeverity;
+  /** 문제 설명 */
+  message: string;
+}
+
+/**
+ * 엔드포인트별 항목 스키마
+ */
+interface TourItemSchema {
+  /** 항목 스키마 */
+  schema: z.ZodTypeAny;
+  /** 필수 필드 (문제가 있으면 항목 제외) */
+  required: readonly string[];
+}
+
+/**
+ * 필드 값 (문자열 또는 숫자, 빈 값은 null로 올 수 있음)
+ */
+const fieldValue = z.union([z.string(), z.number()]).nullable();
+
+/**
+ * 필수 필드 값 (비어 있으면 안 됨)
+ */
+const requiredFieldValue = z.union([z.string().trim().min(1), z.number()]);
+
+/**
+ * 공통 응답 구조
+ */
+const tourResponseSchema = z
+  .object({
+    response: z
+      .object({
+        header: z
+          .object({
+            resultCode: z.string(),
+            resultMsg: z.string().optional(),
+          })
+          .passthrough(),
+        body: z
+          .object({
+            items: z
+              .union([
+                z.object({ item: z.unknown().optional() }).passthrough(),
+                z.literal(""),
+              ])
+              .optional(),
+            numOfRows: fieldValue.optional(),
+            pageNo: fieldValue.optional(),
+            totalCount: fieldValue.optional(),
+          })
+          .passthrough()
+          .optional(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+/**
+ * 공통 응답 구조 (검증된 응답 본문)
+ */
+export type TourResponseEnvelope = z.infer<typeof tourResponseSchema>;
+
+/**
+ * 응답 검증 결과
+ */
+export interface TourSchemaResult {
+  /** 검증된 응답 (공통 응답 구조가 다르면 null, 필수 필드에 문제가 있는 항목은 제외) */
+  data: TourResponseEnvelope | null;
+  /** 발견된 문제 목록 (없으면 빈 배열) */
+  issues: TourSchemaIssue[];
+}
+
+/**
+ * 목록 조회 공통 필드 (areaBasedList2, searchKeyword2, locationBasedList2, searchFestival2, searchStay2)
+ * lDongRegnCd, lDongSignguCd, lclsSystm1~3은 KorService2에서 추가된 법정동/신분류체계 코드
+ */
+const LIST_FIELDS = [
+  "addr1",
+  "addr2",
+  "areacode",
+  "sigungucode",
+  "cat1",
+  "cat2",
+  "cat3",
+  "contenttypeid",
+  "cpyrhtDivCd",
+  "createdtime",
+  "modifiedtime",
+  "firstimage",
+  "firstimage2",
+  "mapx",
+  "mapy",
+  "mlevel",
+  "tel",
+  "zipcode",
+  "lDongRegnCd",
+  "lDongSignguCd",
+  "lclsSystm1",
+  "lclsSystm2",
+  "lclsSystm3",
+] as const;
+
+/**
+ * 객실 이미지 필드 (roomimg1 ~ roomimg5, roomimg1alt ~ roomimg5alt)
+ */
+const ROOM_IMAGE_FIELDS = [1, 2, 3, 4, 5].flatMap((index) => [
+  `roomimg${index}`,
+  `roomimg${index}alt`,
+]);
+
+/**
+ * 반복 정보 필드 (detailInfo2 - 여행코스 / 숙박 객실 / 기타)
+ */
+const REPEAT_INFO_FIELDS = [
+  "contenttypeid",
+  "serialnum",
+  "fldgubun",
+  "infoname",
+  "infotext",
+  "subnum",
+  "subcontentid",
+  "subname",
+  "subdetailoverview",
+  "subdetailimg",
+  "subdetailalt",
+  "roomcode",
+  "roomtitle",
+  "roomsize1",
+  "roomsize2",
+  "roomcount",
+  "roombasecount",
+  "roommaxcount",
+  "roomoffseasonminfee1",
+  "roomoffseasonminfee2",
+  "roompeakseasonminfee1",
+  "roompeakseasonminfee2",
+  "roomintro",
+  "roombathfacility",
+  "roombath",
+  "roomhometheater",
+  "roomaircondition",
+  "roomtv",
+  "roompc",
+  "roomcable",
+  "roominternet",
+  "roomrefrigerator",
+  "roomtoiletries",
+  "roomsofa",
+  "roomcook",
+  "roomtable",
+  "roomhairdryer",
+  ...ROOM_IMAGE_FIELDS,
+];
+
+/**
+ * 항목 스키마 생성
+ * @param required 필수 필드
+ * @param optional 알려진 선택 필드
+ * @param allowUnknown 알 수 없는 필드 허용 여부 (콘텐츠 타입별로 필드가 다른 응답)
+ */
+function createItemSchema(
+  required: readonly string[],
+  optional: readonly string[],
+  allowUnknown: boolean = false,
+): TourItemSchema {
+  const shape: z.ZodRawShape = {};
+  for (const field of optional) {
+    shape[field] = fieldValue.optional();
+  }
+  for (const field of required) {
+    shape[field] = requiredFieldValue;
+  }
+
+  const schema = z.object(shape);
+  return {
+    schema: allowUnknown ? schema.passthrough() : schema.strict(),
+    required,
+  };
+}
+
+const listItemSchema = createItemSchema(["contentid", "title"], LIST_FIELDS);
+
+/**
+ * 엔드포인트별 항목 스키마
+ */
+export const TOUR_RESPONSE_SCHEMAS: Record<string, TourItemSchema> = {
+  "/areaCode2": createItemSchema(["code", "name"], ["rnum"]),
+  "/categoryCode2": createItemSchema(["code", "name"], ["rnum"]),
+  "/areaBasedList2": listItemSchema,
+  "/searchKeyword2": listItemSchema,
+  "/locationBasedList2": createItemSchema(
+    ["contentid", "title"],
+    [...LIST_FIELDS, "dist"],
+  ),
+  "/searchFestival2": createItemSchema(
+    ["contentid", "title"],
+    [
+      ...LIST_FIELDS,
+      "eventstartdate",
+      "eventenddate",
+      "progresstype",
+      "festivaltype",
+    ],
+  ),
+  "/searchStay2": createItemSchema(
+    ["contentid", "title"],
+    [...LIST_FIELDS, "benikia", "goodstay", "hanok"],
+  ),
+  "/detailCommon2": createItemSchema(
+    ["contentid", "title"],
+    [...LIST_FIELDS, "homepage", "overview", "telname"],
+  ),
+  "/detailIntro2": createItemSchema(["contentid"], ["contenttypeid"], true),
+  "/detailImage2": createItemSchema(
+    ["contentid"],
+    ["originimgurl", "imgname", "serialnum", "smallimageurl", "cpyrhtDivCd"],
+  ),
+  "/detailInfo2": createItemSchema(["contentid"], REPEAT_INFO_FIELDS),
+  "/detailPetTour2": createItemSchema(
+    ["contentid"],
+    [
+      "acmpyTypeCd",
+      "acmpyPsblCpam",
+      "acmpyNeedMtr",
+      "relaPosesFclty",
+      "relaFrnshPrdlst",
+      "relaRntlPrdlst",
+      "relaPurcPrdlst",
+      "relaAcdntRiskMtr",
+      "etcAcmpyInfo",
+    ],
+  ),
+};
+
+/**
+ * zod 경로 → 문자열 (예: ["response", "body", 0] → "response.body[0]")
+ */
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === "number") return `${result}[${segment}]`;
+    return result ? `${result}.${segment}` : segment;
+  }, "");
+}
+
+/**
+ * 응답 스키마 검증
+ * 스키마가 정의되지 않은 엔드포인트는 공통 응답 구조만 검증합니다.
+ * 필수 필드에 문제가 있는 항목은 응답에서 제외합니다 (나머지 항목은 그대로 사용).
+ * @param endpoint API 엔드포인트
+ * @param data 파싱된 응답 본문
+ * @returns 검증된 응답과 발견된 문제 목록
+ */
+export function validateTourResponse(
+  endpoint: string,
+  data: unknown,
+): TourSchemaResult {
+  const envelope = tourResponseSchema.safeParse(data);
+  if (!envelope.success) {
+    return {
+      data: null,
+      issues: envelope.error.issues.map((issue) => ({
+        endpoint,
+        path: formatPath(issue.path),
+        severity: "fatal" as const,
+        message: issue.message,
+      })),
+    };
+  }
+
+  const { response } = envelope.data;
+  const itemSchema = TOUR_RESPONSE_SCHEMAS[endpoint];
+  const items = response.body?.items;
+  if (!itemSchema || !items || typeof items !== "object" || !items.item) {
+    return { data: envelope.data, issues: [] };
+  }
+
+  const item: unknown = items.item;
+  const isArray = Array.isArray(item);
+  const itemList: unknown[] = isArray ? item : [item];
+  const issues: TourSchemaIssue[] = [];
+
+  const validItems = itemList.filter((item, index) => {
+    const result = itemSchema.schema.safeParse(item);
+    if (result.success) return true;
+
+    const itemPath = `response.body.items.item${isArray ? `[${index}]` : ""}`;
+    let dropped = false;
+
+    for (const issue of result.error.issues) {
+      if (issue.code === "unrecognized_keys") {
+        for (const key of issue.keys) {
+          issues.push({
+            endpoint,
+            path: `${itemPath}.${key}`,
+            severity: "tolerable",
+            message: "알 수 없는 필드",
+          });
+        }
+        continue;
+      }
+
+      // 항목이 객체가 아니거나 필수 필드에 문제가 있으면 항목 제외
+      const field = String(issue.path[0] ?? "");
+      const required =
+        issue.path.length === 0 || itemSchema.required.includes(field);
+      if (required) dropped = true;
+      issues.push({
+        endpoint,
+        path:
+          issue.path.length > 0
+            ? `${itemPath}.${formatPath(issue.path)}`
+            : itemPath,
+        severity: required ? "dropped" : "tolerable",
+        message: issue.message,
+      });
+    }
+
+    return !dropped;
+  });
+
+  if (validItems.length === itemList.length) {
+    return { data: envelope.data, issues };
+  }
+
+  return {
+    data: {
+      ...envelope.data,
+      response: {
+        ...response,
+        body: {
+          ...response.body,
+          items: { ...items, item: validItems },
+        },
+      },
+    },
+    issues,
+  };
+}
+
+/**
+ * 이미 기록한 문제 (엔드포인트 + 항목 인덱스를 제외한 필드 경로)
+ */
+const reportedIssues = new Set<string>();
+
+/**
+ * 스키마 변경(drift) 기록
+ * 같은 엔드포인트/필드의 문제는 프로세스당 한 번만 logError로 기록합니다.
+ * @param issues validateTourResponse 결과
+ */
+export function reportTourSchemaIssues(issues: TourSchemaIssue[]): void {
+  for (const issue of issues) {
+    const fieldPath = issue.path.replace(/\[\d+\]/g, "[]");
+    const key = `${issue.endpoint} ${fieldPath} ${issue.severity}`;
+    if (reportedIssues.has(key)) continue;
+    reportedIssues.add(key);
+
+    logError(
+      new TourApiResponseError(
+        {
+          endpoint: issue.endpoint,
+          resultMsg: `${fieldPath}: ${issue.message}`,
+        },
+        false,
+      ),
+      `tourSchema - ${issue.endpoint} - ${fieldPath} (${issue.severity})`,
+    );
+  }
+}
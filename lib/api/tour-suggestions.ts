@@ -0,0 +1,143 @@
+/**
+ * @file tour-suggestions.ts
+ * @description 검색어 자동완성 제안
+ *
+ * 검색창 입력에 맞춰 최근 검색어, 이미 조회한 관광지 이름, 인기 검색어를 합쳐 제안 목록을 만듭니다.
+ * 자동완성을 위해 API를 추가로 호출하지 않도록 관광지 이름은 응답 캐시(lib/api/tour-cache.ts)에서만 찾습니다.
+ *
+ * 주요 기능:
+ * 1. 캐시된 목록 응답에서 관광지 이름 찾기 (getCachedPlaceSuggestions)
+ * 2. 제안 목록 조합 (getTourSuggestions - 최근 검색어 → 관광지 → 인기 검색어 순)
+ *
+ * 핵심 구현 로직:
+ * - 공백과 대소문자를 무시하고 포함 여부로 비교 (초성, 로마자 검색어도 지원 - lib/api/tour-query.ts)
+ * - 관광지 이름은 검색어로 시작하는 항목을 먼저, 같으면 짧은 이름을 먼저 표시
+ * - 검색어가 없으면 최근 검색어와 인기 검색어만 표시
+ * - 같은 문구는 한 번만 표시 (관광지 제안은 contentid 기준)
+ *
+ * @dependencies
+ * - lib/api/tour-query.ts: 로컬 제목 인덱스, 제목 일치 비교
+ * - lib/constants/popular-searches.ts: POPULAR_SEARCHES
+ *
+ * @see {@link components/tour-search.tsx} - 검색어 자동완성 드롭다운
+ */
+
+import {
+  analyzeTourQuery,
+  getLocalTourTitles,
+  matchTourTitle,
+} from "@/lib/api/tour-query";
+import { POPULAR_SEARCHES } from "@/lib/constants/popular-searches";
+
+/**
+ * 제안 종류
+ * - recent: 최근 검색어
+ * - place: 관광지 (선택하면 상세 페이지로 이동)
+ * - popular: 인기 검색어
+ */
+export type TourSuggestionType = "recent" | "place" | "popular";
+
+/**
+ * 검색어 제안
+ */
+export interface TourSuggestion {
+  /** 제안 종류 */
+  type: TourSuggestionType;
+  /** 표시 문구 (검색어 또는 관광지명) */
+  text: string;
+  /** 관광지 ID (type이 place인 경우) */
+  contentId?: string;
+  /** 관광지 주소 (type이 place인 경우, 보조 정보) */
+  address?: string;
+}
+
+/**
+ * 종류별 최대 제안 수
+ */
+const MAX_SUGGESTIONS: Record<TourSuggestionType, number> = {
+  recent: 5,
+  place: 5,
+  popular: 5,
+};
+
+/**
+ * 비교용 문자열 (공백 제거, 소문자)
+ */
+function toComparable(text: string): string {
+  return text.replace(/\s+/g, "").toLowerCase();
+}
+
+/**
+ * 캐시된 목록 응답에서 관광지 이름 찾기
+ * @param query 검색어
+ * @param limit 최대 개수
+ */
+export function getCachedPlaceSuggestions(
+  query: string,
+  limit: number = MAX_SUGGESTIONS.place,
+): TourSuggestion[] {
+  const parsed = analyzeTourQuery(query);
+  if (!toComparable(parsed.keyword)) return [];
+
+  const matches: { suggestion: TourSuggestion; rank: number }[] = [];
+
+  for (const { title, contentId, address } of getLocalTourTitles()) {
+    if (!contentId) continue;
+
+    const index = matchTourTitle(title, parsed);
+    if (index < 0) continue;
+
+    matches.push({
+      suggestion: { type: "place", text: title, contentId, address },
+      rank: index === 0 ? 0 : 1,
+    });
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        a.rank - b.rank || a.suggestion.text.length - b.suggestion.text.length,
+    )
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion);
+}
+
+/**
+ * 검색어 제안 목록
+ * @param query 현재 입력한 검색어
+ * @param recentSearches 최근 검색어 (최근 순)
+ * @returns 최근 검색어 → 관광지 → 인기 검색어 순 제안 목록
+ */
+export function getTourSuggestions(
+  query: string,
+  recentSearches: readonly string[] = [],
+): TourSuggestion[] {
+  const parsed = analyzeTourQuery(query);
+  const keyword = toComparable(parsed.keyword);
+  const matches = (text: string) =>
+    !keyword || matchTourTitle(text, parsed) >= 0;
+
+  const seenTexts = new Set<string>();
+  const pick = (
+    type: "recent" | "popular",
+    texts: readonly string[],
+  ): TourSuggestion[] => {
+    const picked: TourSuggestion[] = [];
+    for (const text of texts) {
+      if (picked.length >= MAX_SUGGESTIONS[type]) break;
+      const comparable = toComparable(text);
+      if (!matches(text) || seenTexts.has(comparable)) continue;
+      // 입력한 검색어와 같은 문구는 제안하지 않음
+      if (keyword && comparable === keyword) continue;
+      seenTexts.add(comparable);
+      picked.push({ type, text });
+    }
+    return picked;
+  };
+
+  const recent = pick("recent", recentSearches);
+  const places = getCachedPlaceSuggestions(query);
+  const popular = pick("popular", POPULAR_SEARCHES);
+
+  return [...recent, ...places, ...popular];
+}
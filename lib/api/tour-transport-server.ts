@@ -0,0 +1,201 @@
+/**
+ * @file tour-transport-server.ts
+ * @description 한국관광공사 API 서버 트랜스포트 (live, fixture, mock, record - 서버 전용)
+ *
+ * 서비스 키, 카세트 파일(fs), 호출 제한(Supabase Service Role)을 사용하는 트랜스포트를
+ * 브라우저 번들과 분리한 모듈입니다. 서버 진입점(서버 컴포넌트 페이지, 사이트맵, 라우트 핸들러, Server Action)에서
+ * import하면 서버 트랜스포트로 등록되고, 브라우저는 프록시 트랜스포트만 사용합니다.
+ *
+ * 트랜스포트 모드 (TOUR_API_MODE):
+ * - live: 한국관광공사 KorService2 API 직접 호출 (기본값)
+ * - fixture: fixtures/tour-api의 카세트 파일로 응답
+ * - mock: 로컬 목 서버 호출 (npm run mock:tour)
+ * - record: 라이브 API를 호출하고 응답을 카세트 파일로 저장
+ *
+ * 핵심 구현 로직:
+ * - "server-only"로 클라이언트 컴포넌트에서 import하면 빌드 에러
+ * - 모드는 요청마다 환경변수로 결정 (잘못된 값이면 live)
+ * - API 키는 live/record 모드에서만 필요
+ * - live/record 모드의 호출은 일일 한도/속도 제한을 거치고 호출량이 기록됨 (lib/api/tour-rate-limit.ts)
+ *   (Next.js 데이터 캐시를 사용하지 않으므로 기록된 호출은 모두 실제 KorService2 호출)
+ * - 취소 신호(AbortSignal)는 fetch에 그대로 전달 (취소되면 AbortError로 거부)
+ *
+ * @dependencies
+ * - lib/api/tour-transport.ts: 트랜스포트 인터페이스, registerServerTourTransport
+ * - lib/api/tour-cassette.ts: 카세트 읽기/쓰기
+ * - lib/api/tour-rate-limit.ts: 호출 제한 및 호출량 기록
+ *
+ * @see {@link app/api/tour/[endpoint]/route.ts} - 서버 트랜스포트 등록 (브라우저 요청 프록시)
+ * @see {@link scripts/tour-mock-server.mjs} - 로컬 목 서버
+ */
+
+import "server-only";
+
+import {
+  getCassetteName,
+  readCassette,
+  writeCassette,
+} from "@/lib/api/tour-cassette";
+import { acquireTourApiCall } from "@/lib/api/tour-rate-limit";
+import {
+  registerServerTourTransport,
+  type TourApiMode,
+  type TourRequestOptions,
+  type TourTransport,
+} from "@/lib/api/tour-transport";
+
+const BASE_URL = "https://apis.data.go.kr/B551011/KorService2";
+const DEFAULT_MOCK_URL = "http://localhost:4010/B551011/KorService2";
+
+const TOUR_API_MODES: TourApiMode[] = ["live", "fixture", "mock", "record"];
+
+/**
+ * 현재 트랜스포트 모드 조회
+ * 잘못된 값이면 live로 처리합니다.
+ */
+export function getTourApiMode(): TourApiMode {
+  const mode = process.env.TOUR_API_MODE;
+
+  return TOUR_API_MODES.includes(mode as TourApiMode)
+    ? (mode as TourApiMode)
+    : "live";
+}
+
+/**
+ * API 키 가져오기
+ */
+function getApiKey(): string {
+  const apiKey = process.env.TOUR_API_KEY;
+  if (!apiKey) {
+    throw new Error("TOUR_API_KEY 환경변수가 설정되지 않았습니다.");
+  }
+  return apiKey;
+}
+
+/**
+ * 목 서버 기본 URL
+ */
+function getMockUrl(): string {
+  return (process.env.TOUR_API_MOCK_URL || DEFAULT_MOCK_URL).replace(
+    /\/+$/,
+    "",
+  );
+}
+
+/**
+ * 한국관광공사 API 직접 호출
+ * 일일 한도를 넘으면 TourApiRateLimitError를 던집니다.
+ */
+async function requestLive(
+  endpoint: string,
+  params: Record<string, string>,
+  options: TourRequestOptions = {},
+): Promise<Response> {
+  await acquireTourApiCall(endpoint, options.priority, options.signal);
+
+  const queryParams = new URLSearchParams({
+    ...params,
+    serviceKey: getApiKey(),
+  });
+
+  return fetch(`${BASE_URL}${endpoint}?${queryParams.toString()}`, {
+    method: "GET",
+    headers: {
+      Accept: "application/json",
+    },
+    signal: options.signal,
+    // Next.js 데이터 캐시 미사용 (캐시에서 응답한 호출이 일일 한도에 집계되지 않도록,
+    // 중복 호출은 fetchTourAPI의 LRU 캐시가 막음)
+    cache: "no-store",
+  });
+}
+
+/**
+ * 라이브 트랜스포트
+ */
+const liveTransport: TourTransport = {
+  mode: "live",
+  request: requestLive,
+};
+
+/**
+ * 목 서버 트랜스포트 (API 키 불필요)
+ */
+const mockTransport: TourTransport = {
+  mode: "mock",
+  request(endpoint, params, options = {}) {
+    const queryParams = new URLSearchParams(params);
+    return fetch(`${getMockUrl()}${endpoint}?${queryParams.toString()}`, {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+      },
+      signal: options.signal,
+      cache: "no-store",
+    });
+  },
+};
+
+/**
+ * 카세트 트랜스포트
+ */
+const fixtureTransport: TourTransport = {
+  mode: "fixture",
+  async request(endpoint, params, options = {}) {
+    const cassette = await readCassette(endpoint, params);
+    options.signal?.throwIfAborted();
+
+    if (!cassette) {
+      console.warn(
+        `[tour-api] 카세트가 없습니다: ${endpoint}/${getCassetteName(params)}.json ` +
+          "(TOUR_API_MODE=record로 녹화할 수 있습니다)",
+      );
+      return new Response(JSON.stringify({ message: "cassette not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(cassette.body), {
+      status: cassette.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  },
+};
+
+/**
+ * 녹화 트랜스포트
+ * 라이브 응답을 그대로 반환하면서 카세트 파일로 저장합니다.
+ */
+const recordTransport: TourTransport = {
+  mode: "record",
+  async request(endpoint, params, options) {
+    const response = await requestLive(endpoint, params, options);
+
+    try {
+      const body = await response.clone().json();
+      const filePath = await writeCassette(
+        endpoint,
+        params,
+        response.status,
+        body,
+      );
+      console.info(`[tour-api] 카세트 저장: ${filePath}`);
+    } catch (error) {
+      // 녹화 실패는 응답에 영향을 주지 않음
+      console.warn(`[tour-api] 카세트 저장 실패 (${endpoint}):`, error);
+    }
+
+    return response;
+  },
+};
+
+const TRANSPORTS: Record<TourApiMode, TourTransport> = {
+  live: liveTransport,
+  fixture: fixtureTransport,
+  mock: mockTransport,
+  record: recordTransport,
+};
+
+// 이 모듈을 import한 서버 진입점에서 서버 트랜스포트로 등록
+registerServerTourTransport(() => TRANSPORTS[getTourApiMode()]);
@@ -0,0 +1,136 @@
+/**
+ * @file tour-transport.ts
+ * @description 한국관광공사 API 트랜스포트 (요청 전송 계층, 서버/브라우저 공통)
+ *
+ * fetchTourAPI가 실제로 요청을 보내는 방식을 실행 환경과 모드에 따라 전환합니다.
+ * 라이브 API 키와 네트워크 없이도 개발/테스트할 수 있도록 녹화된 응답(카세트)이나
+ * 로컬 목 서버를 사용할 수 있습니다.
+ *
+ * 트랜스포트 모드 (TOUR_API_MODE, 서버 사이드 - lib/api/tour-transport-server.ts):
+ * - live: 한국관광공사 KorService2 API 직접 호출 (기본값)
+ * - fixture: fixtures/tour-api의 카세트 파일로 응답
+ * - mock: 로컬 목 서버 호출 (npm run mock:tour)
+ * - record: 라이브 API를 호출하고 응답을 카세트 파일로 저장
+ *
+ * 브라우저에서는 모드와 관계없이 프록시 트랜스포트를 사용합니다.
+ * 내부 라우트(/api/tour/[endpoint])가 서버에서 위 모드로 요청을 대신 보내므로
+ * API 키(TOUR_API_KEY)는 브라우저 번들에 포함되지 않습니다.
+ *
+ * 핵심 구현 로직:
+ * - 모든 트랜스포트는 표준 Response를 반환하므로 fetchTourAPI의 상태 코드 처리가 동일하게 동작
+ * - 이 모듈은 클라이언트 컴포넌트에서도 import되므로 프록시 트랜스포트만 포함
+ *   (서비스 키, 카세트 파일(fs), 호출 제한을 쓰는 서버 트랜스포트는 server-only 모듈로 분리)
+ * - 서버 트랜스포트는 서버 진입점이 lib/api/tour-transport-server.ts를 import하여 등록
+ *   (등록 전에 서버에서 호출하면 에러)
+ * - 호출 우선순위는 프록시 요청에서 X-Tour-Priority 헤더로 전달
+ * - 취소 신호(AbortSignal)는 fetch에 그대로 전달 (취소되면 AbortError로 거부)
+ *
+ * @see {@link lib/api/tour-api.ts} - API 클라이언트
+ * @see {@link lib/api/tour-transport-server.ts} - 서버 트랜스포트 (live, fixture, mock, record)
+ * @see {@link app/api/tour/[endpoint]/route.ts} - 브라우저 요청 프록시 라우트
+ */
+
+import type { TourApiPriority } from "./tour-rate-limit";
+
+/**
+ * 브라우저 요청 프록시 경로 (app/api/tour/[endpoint]/route.ts)
+ */
+export const TOUR_PROXY_PATH = "/api/tour";
+
+/**
+ * 호출 우선순위 전달 헤더 (프록시 트랜스포트 → 프록시 라우트)
+ */
+export const TOUR_PRIORITY_HEADER = "X-Tour-Priority";
+
+/**
+ * 트랜스포트 모드 (서버 사이드)
+ */
+export type TourApiMode = "live" | "fixture" | "mock" | "record";
+
+/**
+ * 요청 옵션
+ */
+export interface TourRequestOptions {
+  /** 호출 우선순위 (기본값: essential) */
+  priority?: TourApiPriority;
+  /** 취소 신호 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 트랜스포트 인터페이스
+ * endpoint와 파라미터(공통 파라미터 포함)를 받아 Response를 반환합니다.
+ */
+export interface TourTransport {
+  /** 트랜스포트 모드 (브라우저 프록시는 "proxy") */
+  readonly mode: TourApiMode | "proxy";
+  /** 요청 전송 */
+  request(
+    endpoint: string,
+    params: Record<string, string>,
+    options?: TourRequestOptions,
+  ): Promise<Response>;
+}
+
+/**
+ * 프록시 트랜스포트 (브라우저 전용)
+ * 같은 오리진의 /api/tour/[endpoint] 라우트로 요청합니다.
+ * 라우트는 서버의 캐시를 거친 KorService2 응답 본문을 전달하며, 결과 에러도 같은 resultCode로 전달합니다.
+ */
+const proxyTransport: TourTransport = {
+  mode: "proxy",
+  request(endpoint, params, options = {}) {
+    const queryParams = new URLSearchParams(params);
+    return fetch(`${TOUR_PROXY_PATH}${endpoint}?${queryParams.toString()}`, {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+        ...(options.priority
+          ? { [TOUR_PRIORITY_HEADER]: options.priority }
+          : {}),
+      },
+      signal: options.signal,
+    });
+  },
+};
+
+let transportOverride: TourTransport | null = null;
+let resolveServerTransport: (() => TourTransport) | null = null;
+
+/**
+ * 서버 트랜스포트 등록 (lib/api/tour-transport-server.ts에서 호출)
+ * @param resolve 요청마다 사용할 서버 트랜스포트를 반환하는 함수 (TOUR_API_MODE 기준)
+ */
+export function registerServerTourTransport(
+  resolve: () => TourTransport,
+): void {
+  resolveServerTransport = resolve;
+}
+
+/**
+ * 현재 사용할 트랜스포트 조회
+ * 브라우저에서는 항상 프록시 트랜스포트를 사용합니다.
+ * @throws 서버에서 서버 트랜스포트가 등록되지 않은 경우
+ */
+export function getTourTransport(): TourTransport {
+  if (transportOverride) {
+    return transportOverride;
+  }
+  if (typeof window !== "undefined") {
+    return proxyTransport;
+  }
+  if (!resolveServerTransport) {
+    throw new Error(
+      "서버 트랜스포트가 등록되지 않았습니다. 서버 진입점에서 lib/api/tour-transport-server.ts를 import해주세요.",
+    );
+  }
+  return resolveServerTransport();
+}
+
+/**
+ * 트랜스포트 직접 지정 (테스트/스토리북 등에서 사용)
+ * @param transport 사용할 트랜스포트 (null이면 환경변수 기반 모드로 복원)
+ */
+export function setTourTransport(transport: TourTransport | null): void {
+  transportOverride = transport;
+}
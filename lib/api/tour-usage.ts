@@ -0,0 +1,197 @@
+/**
+ * @file tour-usage.ts
+ * @description 한국관광공사 API 일일 호출량 기록/조회 (서버 전용)
+ *
+ * KorService2 서비스 키는 일일 호출 한도가 있으므로 실제로 전송한 호출 수를
+ * Supabase tour_api_usage 테이블에 서비스 키/날짜/엔드포인트별로 누적합니다.
+ *
+ * 주요 기능:
+ * 1. 호출 기록 (recordTourApiUsage)
+ * 2. 오늘 호출량 조회 (getTodayTourApiUsage - 호출 제한 판단용)
+ * 3. 기간별 호출량 조회 (getTourApiUsageReport - 관리자 화면용)
+ *
+ * 핵심 구현 로직:
+ * - 서비스 키 원문 대신 SHA-256 해시 앞 12자리(key_id)로 구분
+ * - 날짜는 KST 기준 (공공데이터포털 트래픽은 자정(KST)에 초기화)
+ * - 오늘 호출량은 TODAY_USAGE_TTL 동안 프로세스 내에서 재사용하고, 이 인스턴스의 호출은 즉시 반영
+ * - 기록은 응답을 기다리지 않음 (Supabase 장애가 API 호출을 막지 않도록 실패/거부는 로그만 남김)
+ * - Service Role 클라이언트는 모듈에서 하나만 만들어 재사용 (호출마다 만들지 않음)
+ *
+ * @dependencies
+ * - lib/supabase/service-role.ts: Service Role 클라이언트 (RLS 우회)
+ *
+ * @see {@link supabase/migrations/20251121090000_create_tour_api_usage_table.sql} - 테이블 및 증가 함수
+ * @see {@link lib/api/tour-rate-limit.ts} - 호출 제한
+ */
+
+import "server-only";
+
+import { createHash } from "crypto";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { logError } from "@/lib/utils/error-handler";
+
+/**
+ * 오늘 호출량 재조회 간격 (1분)
+ */
+const TODAY_USAGE_TTL = 60 * 1000;
+
+/**
+ * KST 오프셋 (UTC+9)
+ */
+const KST_OFFSET = 9 * 60 * 60 * 1000;
+
+/**
+ * 날짜/엔드포인트별 호출량
+ */
+export interface TourApiUsageRow {
+  /** 호출 날짜 (YYYY-MM-DD, KST) */
+  date: string;
+  /** API 엔드포인트 (예: "/areaBasedList2") */
+  endpoint: string;
+  /** 호출 횟수 */
+  count: number;
+}
+
+let todayUsage: { date: string; count: number; fetchedAt: number } | null =
+  null;
+
+let usageClient: ReturnType<typeof getServiceRoleClient> | null = null;
+
+/**
+ * 호출량 기록/조회용 Service Role 클라이언트 (처음 사용할 때 한 번만 생성)
+ * @throws Error Supabase 환경변수가 설정되지 않은 경우
+ */
+function getUsageClient(): ReturnType<typeof getServiceRoleClient> {
+  if (!usageClient) {
+    usageClient = getServiceRoleClient();
+  }
+  return usageClient;
+}
+
+/**
+ * 서비스 키 식별자 (SHA-256 해시 앞 12자리)
+ * 키가 없으면 "unknown"
+ */
+export function getTourApiKeyId(): string {
+  const apiKey = process.env.TOUR_API_KEY;
+  if (!apiKey) return "unknown";
+  return createHash("sha256").update(apiKey).digest("hex").slice(0, 12);
+}
+
+/**
+ * 호출 날짜 (YYYY-MM-DD, KST)
+ * @param date 기준 시각 (기본값: 현재)
+ */
+export function getTourUsageDate(date: Date = new Date()): string {
+  return new Date(date.getTime() + KST_OFFSET).toISOString().slice(0, 10);
+}
+
+/**
+ * 오늘 호출량 조회 (서비스 키 기준, 전체 엔드포인트 합계)
+ * 조회에 실패하면 이 인스턴스에서 기록한 호출 수만 반환합니다.
+ */
+export async function getTodayTourApiUsage(): Promise<number> {
+  const date = getTourUsageDate();
+  const now = Date.now();
+
+  if (
+    todayUsage &&
+    todayUsage.date === date &&
+    now - todayUsage.fetchedAt < TODAY_USAGE_TTL
+  ) {
+    return todayUsage.count;
+  }
+
+  try {
+    const { data, error } = await getUsageClient()
+      .from("tour_api_usage")
+      .select("call_count")
+      .eq("key_id", getTourApiKeyId())
+      .eq("usage_date", date);
+
+    if (error) throw error;
+
+    const count = (data ?? []).reduce(
+      (sum, row) => sum + (row.call_count ?? 0),
+      0,
+    );
+    todayUsage = { date, count, fetchedAt: now };
+  } catch (error) {
+    logError(error, "getTodayTourApiUsage");
+    // 다음 호출에서 다시 조회하지 않도록 기존 값을 유지한 채 시각만 갱신
+    todayUsage = {
+      date,
+      count: todayUsage?.date === date ? todayUsage.count : 0,
+      fetchedAt: now,
+    };
+  }
+
+  return todayUsage.count;
+}
+
+/**
+ * 호출 기록
+ * 오늘 호출량에 즉시 반영하고, Supabase에는 응답을 기다리지 않고 누적합니다.
+ * @param endpoint API 엔드포인트
+ */
+export function recordTourApiUsage(endpoint: string): void {
+  const date = getTourUsageDate();
+
+  if (todayUsage?.date === date) {
+    todayUsage.count += 1;
+  }
+
+  let client: ReturnType<typeof getServiceRoleClient>;
+  try {
+    client = getUsageClient();
+  } catch (error) {
+    logError(error, "recordTourApiUsage");
+    return;
+  }
+
+  void client
+    .rpc("increment_tour_api_usage", {
+      p_key_id: getTourApiKeyId(),
+      p_usage_date: date,
+      p_endpoint: endpoint,
+      p_count: 1,
+    })
+    .then(
+      ({ error }) => {
+        if (error) logError(error, `recordTourApiUsage - ${endpoint}`);
+      },
+      (error) => logError(error, `recordTourApiUsage - ${endpoint}`),
+    );
+}
+
+/**
+ * 기간별 호출량 조회 (관리자 화면용)
+ * @param days 조회 일수 (오늘 포함, 기본값: 7)
+ * @returns 날짜 내림차순, 같은 날짜는 호출 수 내림차순
+ */
+export async function getTourApiUsageReport(
+  days: number = 7,
+): Promise<TourApiUsageRow[]> {
+  const since = getTourUsageDate(
+    new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000),
+  );
+
+  const { data, error } = await getUsageClient()
+    .from("tour_api_usage")
+    .select("usage_date, endpoint, call_count")
+    .eq("key_id", getTourApiKeyId())
+    .gte("usage_date", since)
+    .order("usage_date", { ascending: false })
+    .order("call_count", { ascending: false });
+
+  if (error) {
+    logError(error, "getTourApiUsageReport");
+    throw new Error("API 호출량을 불러오는 중 오류가 발생했습니다.");
+  }
+
+  return (data ?? []).map((row) => ({
+    date: row.usage_date,
+    endpoint: row.endpoint,
+    count: row.call_count,
+  }));
+}
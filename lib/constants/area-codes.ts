@@ -7,6 +7,8 @@
  * 주의사항:
  * - 지역 코드는 areaCode2 API를 통해 동적으로 조회하는 것을 권장합니다.
  * - 이 파일은 기본적인 구조만 제공하며, 필요시 확장 가능합니다.
+ * - 시/군/구 목록과 지역명 경로는 lib/api/tour-areas.ts에서 조회·캐시합니다.
+ *   (이 파일의 상수는 시/도 이름 조회 실패 시 대체값으로 사용)
  *
  * 주요 기능:
  * - 주요 시/도 지역 코드 상수 정의
@@ -0,0 +1,28 @@
+/**
+ * @file popular-searches.ts
+ * @description 인기 검색어 상수 정의
+ *
+ * 이 모듈은 검색창 자동완성에서 최근 검색어가 없거나 적을 때 함께 보여줄 인기 검색어를 제공합니다.
+ *
+ * 주의사항:
+ * - 한국관광공사 API는 검색어 통계를 제공하지 않으므로 대표 관광지/지역 위주로 직접 관리합니다.
+ * - 검색 결과가 있는 키워드만 추가합니다. (searchKeyword2로 확인)
+ *
+ * @see {@link components/tour-search.tsx} - 검색어 자동완성
+ */
+
+/**
+ * 인기 검색어 목록 (노출 순서)
+ */
+export const POPULAR_SEARCHES: readonly string[] = [
+  "경복궁",
+  "해운대",
+  "한옥마을",
+  "불국사",
+  "성산일출봉",
+  "남산서울타워",
+  "설악산",
+  "감천문화마을",
+  "순천만",
+  "벚꽃축제",
+];
@@ -0,0 +1,101 @@
+/**
+ * @file sort-options.ts
+ * @description 관광지 목록 정렬 옵션 상수 정의
+ *
+ * 이 모듈은 화면의 정렬 옵션(SortOption)과 한국관광공사 KorService2 API의
+ * 정렬 코드(arrange)를 연결합니다. 정렬을 API에 맡겨야 현재 페이지가 아닌
+ * 전체 검색 결과 기준으로 정렬됩니다.
+ *
+ * 주요 기능:
+ * - 정렬 옵션별 라벨 및 arrange 코드 매핑 (전체 / 대표 이미지가 있는 항목만)
+ * - 정렬 옵션 → arrange 코드 변환 (목록 API는 거리순을 지원하지 않으므로 최신순으로 대체)
+ * - 정렬 옵션 유효성 검증
+ *
+ * @dependencies
+ * - lib/types/tour.ts의 SortOption, TourArrange, TourListArrange 타입
+ *
+ * @see {@link lib/api/tour-api.ts} - areaBasedList2, searchKeyword2, locationBasedList2의 arrange 옵션
+ */
+
+import type { SortOption, TourArrange, TourListArrange } from "../types/tour";
+
+/**
+ * 정렬 옵션 정보 인터페이스
+ */
+export interface SortOptionInfo {
+  /** 정렬 옵션 */
+  value: SortOption;
+  /** 한글명 */
+  label: string;
+  /** arrange 코드 */
+  arrange: TourArrange;
+  /** arrange 코드 (대표 이미지가 있는 항목만) */
+  imageOnlyArrange: TourArrange;
+}
+
+/**
+ * 정렬 옵션 상수
+ */
+export const SORT_OPTIONS: Record<SortOption, SortOptionInfo> = {
+  latest: {
+    value: "latest",
+    label: "최신순",
+    arrange: "C",
+    imageOnlyArrange: "Q",
+  },
+  name: {
+    value: "name",
+    label: "이름순",
+    arrange: "A",
+    imageOnlyArrange: "O",
+  },
+  distance: {
+    value: "distance",
+    label: "거리순",
+    arrange: "E",
+    imageOnlyArrange: "S",
+  },
+};
+
+/**
+ * 정렬 옵션 목록 (Select 컴포넌트 등에서 사용)
+ */
+export const SORT_OPTION_LIST: SortOptionInfo[] = Object.values(SORT_OPTIONS);
+
+/**
+ * 정렬 옵션 유효성 검증
+ * @param value 검증할 값
+ * @returns 유효한 SortOption인지 여부
+ */
+export function isSortOption(value: string): value is SortOption {
+  return value in SORT_OPTIONS;
+}
+
+/**
+ * 정렬 옵션 → arrange 코드 (locationBasedList2)
+ * @param sort 정렬 옵션
+ * @param imageOnly 대표 이미지가 있는 항목만 조회할지 여부
+ */
+export function getSortArrange(
+  sort: SortOption,
+  imageOnly: boolean = false,
+): TourArrange {
+  const option = SORT_OPTIONS[sort];
+  return imageOnly ? option.imageOnlyArrange : option.arrange;
+}
+
+/**
+ * 정렬 옵션 → arrange 코드 (areaBasedList2, searchKeyword2)
+ * 목록 API는 거리순을 지원하지 않으므로 최신순으로 대체합니다.
+ * @param sort 정렬 옵션
+ * @param imageOnly 대표 이미지가 있는 항목만 조회할지 여부
+ */
+export function getListSortArrange(
+  sort: SortOption,
+  imageOnly: boolean = false,
+): TourListArrange {
+  return getSortArrange(
+    sort === "distance" ? "latest" : sort,
+    imageOnly,
+  ) as TourListArrange;
+}
@@ -0,0 +1,46 @@
+/**
+ * @file saved-search.ts
+ * @description 저장 검색 기능을 위한 타입 정의
+ *
+ * 이 모듈은 Supabase saved_searches 테이블과 연동되는 저장 검색 기능의
+ * TypeScript 타입 정의를 제공합니다.
+ *
+ * 주요 타입:
+ * 1. SavedSearch - 저장 검색 데이터 구조 (Supabase saved_searches 테이블)
+ * 2. SavedSearchWithUpdates - 마지막 확인 이후 새 항목 수를 포함한 저장 검색
+ *
+ * @dependencies
+ * - Supabase saved_searches 테이블
+ * - Clerk 인증 (인증된 사용자만 사용 가능)
+ *
+ * @see {@link /supabase/migrations/20251201090000_create_saved_searches_table.sql} - 데이터베이스 스키마
+ */
+
+/**
+ * 저장 검색 데이터 구조
+ * Supabase saved_searches 테이블의 데이터 구조와 일치
+ */
+export interface SavedSearch {
+  /** 저장 검색 고유 ID (UUID) */
+  id: string;
+  /** users 테이블의 사용자 ID (외래키, UUID) */
+  user_id: string;
+  /** 표시 이름 (예: "제주 · 음식점") */
+  name: string;
+  /** 홈페이지 URL 쿼리 문자열 (예: "area=39&type=39", 페이지 번호 제외) */
+  query: string;
+  /** 마지막으로 결과를 확인한 시간 (ISO 8601 형식 문자열) */
+  last_viewed_at: string;
+  /** 저장 검색 생성 시간 (ISO 8601 형식 문자열) */
+  created_at: string;
+}
+
+/**
+ * 마지막 확인 이후 새 항목 수를 포함한 저장 검색
+ */
+export interface SavedSearchWithUpdates extends SavedSearch {
+  /** 마지막 확인 이후 수정된 관광지 수 (조회 실패 또는 호출 한도로 세지 않은 경우 null, 반려동물 동반 필터 미적용) */
+  newCount: number | null;
+  /** 새 항목 수가 1페이지보다 많아 실제로는 더 많은지 여부 */
+  newCountCapped: boolean;
+}
@@ -12,6 +12,9 @@
  * 4. TourImage - 이미지 목록 조회 응답 (detailImage2)
  * 5. ContentTypeId - 관광 타입 ID (union 타입)
  * 6. AreaCode - 지역 코드 타입
+ * 7. TourApiResponse - KorService2 공통 응답 구조 (원본)
+ * 8. TourPagination, TourListResult - 정규화된 목록 조회 결과
+ * 9. LatLng, GeoBounds, GeoCluster - 좌표 계산 (lib/utils/geo.ts)
  *
  * @dependencies
  * - 한국관광공사 공공 API (KorService2)
@@ -40,16 +43,99 @@ export type ContentTypeId =
  */
 export type AreaCode = string;
 
+/**
+ * 서비스 분류 코드 (categoryCode2)
+ * 대분류(cat1, 예: "A01"), 중분류(cat2, 예: "A0101"), 소분류(cat3, 예: "A01010100")
+ */
+export interface CategoryCode {
+  /** 분류 코드 */
+  code: string;
+  /** 분류명 (예: "자연", "자연관광지", "국립공원") */
+  name: string;
+}
+
+/**
+ * 서비스 분류 선택 값 (대/중/소분류)
+ */
+export interface CategoryCodes {
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
+}
+
 /**
  * 관광지 목록 정렬 옵션
  * - latest: modifiedtime 기준 최신순 (내림차순)
  * - name: title 기준 가나다순 (오름차순)
+ * - distance: dist 기준 가까운순 (오름차순, 위치 기반 조회에서만 사용)
+ */
+export type SortOption = "latest" | "name" | "distance";
+
+/**
+ * KorService2 목록 정렬 코드 (arrange)
+ * - A: 제목순, C: 수정일순, D: 생성일순, E: 거리순 (locationBasedList2 전용)
+ * - O, Q, R, S: 각각 A, C, D, E와 같되 대표 이미지가 있는 항목만
+ */
+export type TourArrange = "A" | "C" | "D" | "E" | "O" | "Q" | "R" | "S";
+
+/**
+ * 거리순을 제외한 정렬 코드 (areaBasedList2, searchKeyword2)
+ */
+export type TourListArrange = Exclude<TourArrange, "E" | "S">;
+
+/**
+ * WGS84 좌표
+ * 관광지 좌표(mapx, mapy 문자열)는 lib/utils/geo.ts의 getTourLatLng로 변환합니다.
+ */
+export interface LatLng {
+  /** 위도 (WGS84) */
+  lat: number;
+  /** 경도 (WGS84) */
+  lng: number;
+}
+
+/**
+ * 좌표 영역 (경계 상자)
+ */
+export interface GeoBounds {
+  /** 남쪽 경계 위도 */
+  minLat: number;
+  /** 북쪽 경계 위도 */
+  maxLat: number;
+  /** 서쪽 경계 경도 */
+  minLng: number;
+  /** 동쪽 경계 경도 */
+  maxLng: number;
+}
+
+/**
+ * 좌표 클러스터 (격자 기반, lib/utils/geo.ts의 clusterByGrid)
  */
-export type SortOption = "latest" | "name";
+export interface GeoCluster<TItem> {
+  /** 클러스터 중심 (항목 좌표의 평균) */
+  center: LatLng;
+  /** 항목 좌표를 모두 포함하는 영역 */
+  bounds: GeoBounds;
+  /** 클러스터에 속한 항목 */
+  items: TItem[];
+}
+
+/**
+ * 위치 기반 조회 기준점
+ * locationBasedList2 API의 조회 조건
+ */
+export interface NearbyLocation extends LatLng {
+  /** 반경 (미터, 최대 20000) */
+  radius: number;
+  /** 기준점 출처 (현재 위치 또는 직접 선택) */
+  source: "geolocation" | "manual";
+  /** 기준점 이름 (직접 선택한 경우, 선택) */
+  label?: string;
+}
 
 /**
  * 관광지 목록 항목
- * areaBasedList2, searchKeyword2 API의 응답 데이터 구조
+ * areaBasedList2, searchKeyword2, locationBasedList2 API의 응답 데이터 구조
  */
 export interface TourItem {
   /** 주소 (필수) */
@@ -58,15 +144,17 @@ export interface TourItem {
   addr2?: string;
   /** 지역코드 */
   areacode: string;
+  /** 시군구코드 (선택) */
+  sigungucode?: string;
   /** 콘텐츠 ID (관광지 고유 식별자) */
   contentid: string;
   /** 콘텐츠 타입 ID (ContentTypeId) */
   contenttypeid: string;
   /** 관광지명 */
   title: string;
-  /** 경도 (KATEC 좌표계, 정수형 - 10000000으로 나누어 변환) */
+  /** 경도 (WGS84 십진수 문자열, 예: "126.9769930325" - lib/utils/geo.ts로 변환) */
   mapx: string;
-  /** 위도 (KATEC 좌표계, 정수형 - 10000000으로 나누어 변환) */
+  /** 위도 (WGS84 십진수 문자열, 예: "37.5788222356" - lib/utils/geo.ts로 변환) */
   mapy: string;
   /** 대표이미지1 (URL, 선택) */
   firstimage?: string;
@@ -82,6 +170,70 @@ export interface TourItem {
   cat3?: string;
   /** 수정일시 (YYYYMMDDHHmmss 형식) */
   modifiedtime: string;
+  /** 기준 좌표로부터의 거리 (미터, locationBasedList2 응답에만 포함) */
+  dist?: string;
+}
+
+/**
+ * 축제/행사 목록 항목
+ * searchFestival2 API의 응답 데이터 구조 (TourItem + 행사 기간)
+ */
+export interface FestivalItem extends TourItem {
+  /** 행사 시작일 (YYYYMMDD 형식) */
+  eventstartdate: string;
+  /** 행사 종료일 (YYYYMMDD 형식) */
+  eventenddate: string;
+}
+
+/**
+ * 축제/행사 진행 상태
+ * - ongoing: 진행 중
+ * - upcoming: 예정
+ * - ended: 종료
+ */
+export type FestivalStatus = "ongoing" | "upcoming" | "ended";
+
+/**
+ * 숙박 정보 (detailIntro2 숙박 타입 응답에서 추출한 값)
+ * 원문 필드는 자유 형식 문자열이므로 필터링에 필요한 값만 파싱합니다.
+ */
+export interface LodgingInfo {
+  /** 입실 시간 (원문, 예: "15:00") */
+  checkInTime?: string;
+  /** 퇴실 시간 (원문, 예: "11:00") */
+  checkOutTime?: string;
+  /** 입실 시각 (0~24시, 파싱 실패 시 undefined) */
+  checkInHour?: number;
+  /** 퇴실 시각 (0~24시, 파싱 실패 시 undefined) */
+  checkOutHour?: number;
+  /** 주차 가능 여부 (정보 없으면 undefined) */
+  parking?: boolean;
+  /** 객실 내 취사 가능 여부 (정보 없으면 undefined) */
+  cooking?: boolean;
+  /** 객실 수 (파싱 실패 시 undefined) */
+  roomCount?: number;
+  /** 객실 유형 (원문) */
+  roomType?: string;
+  /** 예약 안내 (원문) */
+  reservation?: string;
+  /** 예약 페이지 URL (원문, HTML 포함 가능) */
+  reservationUrl?: string;
+}
+
+/**
+ * 숙박 검색 조건 (detailIntro2 숙박 정보 기준)
+ */
+export interface LodgingFilters {
+  /** 주차 가능 숙소만 */
+  parking?: boolean;
+  /** 취사 가능 숙소만 */
+  cooking?: boolean;
+  /** 최소 객실 수 */
+  minRooms?: number;
+  /** 이 시각(시) 이전에 입실 가능한 숙소만 */
+  checkInBy?: number;
+  /** 이 시각(시) 이후에 퇴실 가능한 숙소만 */
+  checkOutFrom?: number;
 }
 
 /**
@@ -111,9 +263,9 @@ export interface TourDetail {
   firstimage?: string;
   /** 대표이미지2 (URL, 선택) */
   firstimage2?: string;
-  /** 경도 (KATEC 좌표계, 정수형 - 10000000으로 나누어 변환) */
+  /** 경도 (WGS84 십진수 문자열, 예: "126.9769930325" - lib/utils/geo.ts로 변환) */
   mapx: string;
-  /** 위도 (KATEC 좌표계, 정수형 - 10000000으로 나누어 변환) */
+  /** 위도 (WGS84 십진수 문자열, 예: "37.5788222356" - lib/utils/geo.ts로 변환) */
   mapy: string;
   /** 대분류 카테고리 (선택) */
   cat1?: string;
@@ -123,6 +275,10 @@ export interface TourDetail {
   cat3?: string;
   /** 저작권 구분 코드 (선택) */
   cpyrhtDivCd?: string;
+  /** 지역코드 (선택) */
+  areacode?: string;
+  /** 시군구코드 (선택) */
+  sigungucode?: string;
   /** 수정일시 (YYYYMMDDHHmmss 형식) */
   modifiedtime: string;
 }
@@ -149,6 +305,166 @@ export interface TourIntro {
   [key: string]: string | undefined;
 }
 
+/**
+ * 여행코스 하위 코스 (detailInfo2, contentTypeId "25")
+ */
+export interface TourCourseStop {
+  /** 코스 순번 (0부터 시작) */
+  subnum: string;
+  /** 하위 코스 콘텐츠 ID (관광지 상세페이지 링크용, 선택) */
+  subcontentid?: string;
+  /** 하위 코스명 */
+  subname: string;
+  /** 하위 코스 개요 (선택) */
+  subdetailoverview?: string;
+  /** 하위 코스 이미지 URL (선택) */
+  subdetailimg?: string;
+  /** 하위 코스 이미지 설명 (선택) */
+  subdetailalt?: string;
+}
+
+/**
+ * 숙박 객실 정보 (detailInfo2, contentTypeId "32")
+ */
+export interface TourRoomInfo {
+  /** 객실 코드 */
+  roomcode: string;
+  /** 객실명 */
+  roomtitle: string;
+  /** 객실 크기 (평, 선택) */
+  roomsize1?: string;
+  /** 객실 크기 (㎡, 선택) */
+  roomsize2?: string;
+  /** 객실 수 (선택) */
+  roomcount?: string;
+  /** 기준 인원 (선택) */
+  roombasecount?: string;
+  /** 최대 인원 (선택) */
+  roommaxcount?: string;
+  /** 비수기 주중 최소 요금 (선택) */
+  roomoffseasonminfee1?: string;
+  /** 비수기 주말 최소 요금 (선택) */
+  roomoffseasonminfee2?: string;
+  /** 성수기 주중 최소 요금 (선택) */
+  roompeakseasonminfee1?: string;
+  /** 성수기 주말 최소 요금 (선택) */
+  roompeakseasonminfee2?: string;
+  /** 객실 소개 (선택) */
+  roomintro?: string;
+  /** 객실 이미지 URL 목록 */
+  images: { url: string; alt?: string }[];
+  /** 객실 내 시설 (값이 "Y"인 시설명 목록) */
+  amenities: string[];
+}
+
+/**
+ * 숙박 객실 정보 원본 (detailInfo2 응답)
+ * 이미지(roomimg1~5, roomimg1alt~5alt)와 시설 여부(roomtv, roombath 등 "Y"/"N")가 개별 필드로 옵니다.
+ */
+export type TourRoomInfoRaw = Omit<TourRoomInfo, "images" | "amenities"> & {
+  [key: string]: string | undefined;
+};
+
+/**
+ * 반복 정보 항목 (detailInfo2, 여행코스/숙박 외 타입)
+ */
+export interface TourInfoItem {
+  /** 일련번호 */
+  serialnum: string;
+  /** 항목명 (예: "화장실", "입장료") */
+  infoname: string;
+  /** 항목 내용 (HTML 포함 가능) */
+  infotext: string;
+}
+
+/**
+ * 콘텐츠 타입별 detailInfo2 원본 항목 타입
+ * - "25" (여행코스): TourCourseStop
+ * - "32" (숙박): TourRoomInfoRaw
+ * - 그 외: TourInfoItem
+ */
+export type TourRepeatInfoItem<TContentTypeId extends string = string> =
+  TContentTypeId extends "25"
+    ? TourCourseStop
+    : TContentTypeId extends "32"
+      ? TourRoomInfoRaw
+      : TourInfoItem;
+
+/**
+ * 정규화된 반복 정보 (detailInfo2)
+ * kind로 형태를 구분합니다.
+ */
+export type TourRepeatInfo =
+  | { kind: "course"; items: TourCourseStop[] }
+  | { kind: "room"; items: TourRoomInfo[] }
+  | { kind: "info"; items: TourInfoItem[] };
+
+/**
+ * 반려동물 동반 여행 정보 (detailPetTour2 응답)
+ * 모든 값은 자유 형식 문자열이며, 화면에서는 PetPolicy로 변환하여 사용합니다.
+ */
+export interface PetTourInfo {
+  /** 콘텐츠 ID */
+  contentid: string;
+  /** 동반 유형 (예: "전 구역 동반가능", "일부구역 동반가능", "동반불가") */
+  acmpyTypeCd?: string;
+  /** 동반 가능 동물 (예: "소형견 (10kg 미만)") */
+  acmpyPsblCpam?: string;
+  /** 동반 시 필요사항 (예: "목줄 착용, 배변봉투 지참") */
+  acmpyNeedMtr?: string;
+  /** 관련 구비 시설 */
+  relaPosesFclty?: string;
+  /** 관련 비치 품목 */
+  relaFrnshPrdlst?: string;
+  /** 관련 렌탈 품목 */
+  relaRntlPrdlst?: string;
+  /** 관련 구매 품목 */
+  relaPurcPrdlst?: string;
+  /** 사고 대비사항 */
+  relaAcdntRiskMtr?: string;
+  /** 기타 동반 정보 */
+  etcAcmpyInfo?: string;
+}
+
+/**
+ * 반려견 크기 구분
+ */
+export type PetSize = "small" | "medium" | "large";
+
+/**
+ * 반려동물 동반 가능 구역
+ * - all: 전 구역 동반 가능
+ * - partial: 일부 구역만 동반 가능
+ * - none: 동반 불가
+ */
+export type PetAccompanyArea = "all" | "partial" | "none";
+
+/**
+ * 반려동물 동반 정책 (PetTourInfo에서 추출한 값)
+ */
+export interface PetPolicy {
+  /** 반려동물 동반 가능 여부 */
+  accepted: boolean;
+  /** 동반 가능 구역 (판단 불가 시 undefined) */
+  area?: PetAccompanyArea;
+  /** 동반 유형 (원문) */
+  areaText?: string;
+  /** 동반 가능 크기 (정보 없으면 빈 배열) */
+  sizes: PetSize[];
+  /** 동반 가능 동물 (원문) */
+  allowedAnimals?: string;
+  /** 동반 시 필요사항 목록 */
+  requiredItems: string[];
+  /** 구비 시설 목록 */
+  facilities: string[];
+  /** 비치/렌탈/구매 품목 목록 */
+  providedItems: string[];
+  /** 사고 대비사항 (원문) */
+  accidentPreparation?: string;
+  /** 기타 동반 정보 (원문) */
+  etc?: string;
+}
+
 /**
  * 관광지 이미지 정보
  * detailImage2 API의 응답 데이터 구조
@@ -165,3 +481,57 @@ export interface TourImage {
   /** 이미지명 (선택) */
   imgname?: string;
 }
+
+/**
+ * KorService2 공통 응답 구조 (원본)
+ *
+ * 주의: 정규화 전의 원본 응답입니다.
+ * - 결과가 1건이면 items.item이 배열이 아닌 단일 객체로 올 수 있습니다.
+ * - 결과가 없으면 items가 빈 문자열("")로 오거나 생략될 수 있습니다.
+ * - 숫자 필드가 문자열로 올 수 있습니다.
+ * 화면에서는 lib/api/tour-normalize.ts의 정규화 함수를 거쳐 사용합니다.
+ */
+export interface TourApiResponse<TItem> {
+  response: {
+    header: {
+      resultCode: string;
+      resultMsg: string;
+    };
+    body?: {
+      items?: { item?: TItem | TItem[] } | "";
+      numOfRows?: number | string;
+      pageNo?: number | string;
+      totalCount?: number | string;
+    };
+  };
+  /**
+   * API 장애로 마지막으로 성공한 이전 응답을 대신 반환한 경우 true
+   * (KorService2 응답 필드가 아니라 lib/api/tour-api.ts에서 추가)
+   */
+  stale?: boolean;
+}
+
+/**
+ * 페이지네이션 정보
+ */
+export interface TourPagination {
+  /** 현재 페이지 번호 (1부터 시작) */
+  pageNo: number;
+  /** 페이지당 항목 수 */
+  numOfRows: number;
+  /** 전체 항목 수 */
+  totalCount: number;
+  /** 전체 페이지 수 */
+  totalPages: number;
+}
+
+/**
+ * 정규화된 관광지 목록 조회 결과
+ * areaBasedList2, searchKeyword2, locationBasedList2, searchFestival2 응답을 정규화한 결과
+ */
+export interface TourListResult<TItem = TourItem> {
+  /** 관광지 목록 */
+  items: TItem[];
+  /** 페이지네이션 정보 */
+  pagination: TourPagination;
+}
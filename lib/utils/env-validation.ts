@@ -86,17 +86,26 @@ export const REQUIRED_ENV_VARIABLES: EnvVariable[] = [
   },
   // 한국관광공사 API
   {
-    name: "NEXT_PUBLIC_TOUR_API_KEY",
-    description: "한국관광공사 API 키 (클라이언트 노출 가능, 기본 사용)",
-    isPublic: true,
-    required: false, // TOUR_API_KEY가 있으면 선택사항
+    name: "TOUR_API_KEY",
+    description:
+      "한국관광공사 API 키 (서버 전용, 브라우저 요청은 /api/tour 프록시를 거침)",
+    isPublic: false,
+    required: false, // fixture/mock 트랜스포트 모드에서는 선택사항
+    serverOnly: true,
   },
   {
-    name: "TOUR_API_KEY",
+    name: "TOUR_API_DAILY_QUOTA",
+    description: "한국관광공사 API 일일 호출 한도 (서버 전용, 기본 1000)",
+    isPublic: false,
+    required: false,
+    serverOnly: true,
+  },
+  {
+    name: "TOUR_ADMIN_USER_IDS",
     description:
-      "한국관광공사 API 키 (서버 전용, NEXT_PUBLIC_TOUR_API_KEY 대체용)",
+      "API 호출량 관리자 페이지 접근 허용 Clerk 사용자 ID (서버 전용, 쉼표로 구분)",
     isPublic: false,
-    required: false, // NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 중 하나는 필수
+    required: false,
     serverOnly: true,
   },
   // 네이버 지도 API
@@ -159,12 +168,22 @@ export function validateEnvVariables(
     }
   }
 
-  // 한국관광공사 API 키: NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 중 하나는 필수
-  const tourApiKeyPublic = process.env.NEXT_PUBLIC_TOUR_API_KEY;
+  // 한국관광공사 API 키: TOUR_API_KEY 필수
+  // (fixture/mock 트랜스포트 모드에서는 API 키를 사용하지 않음)
   const tourApiKeyServer = process.env.TOUR_API_KEY;
-  if (!tourApiKeyPublic && !tourApiKeyServer) {
+  const tourApiMode = process.env.TOUR_API_MODE;
+  const isOfflineTourApi =
+    tourApiMode === "fixture" || tourApiMode === "mock";
+  if (isServer && !tourApiKeyServer && !isOfflineTourApi) {
+    warnings.push(
+      "한국관광공사 API 키가 누락되었습니다. TOUR_API_KEY를 설정하세요.",
+    );
+  }
+
+  // 이전 버전의 공개 API 키가 남아 있으면 번들에 노출되므로 경고
+  if (process.env.NEXT_PUBLIC_TOUR_API_KEY) {
     warnings.push(
-      "한국관광공사 API 키가 누락되었습니다. NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 중 하나를 설정하세요.",
+      "NEXT_PUBLIC_TOUR_API_KEY는 더 이상 사용하지 않으며 브라우저 번들에 노출됩니다. 삭제하고 TOUR_API_KEY만 설정하세요.",
     );
   }
 
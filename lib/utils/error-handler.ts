@@ -10,12 +10,23 @@
  * 2. 사용자 친화적인 에러 메시지 변환
  * 3. 에러 로깅 및 모니터링 준비
  *
+ * 핵심 구현 로직:
+ * - 한국관광공사 API 에러는 TourApiError의 종류(kind)와 재시도 가능 여부로 분류
+ *   (메시지 문구를 바꿔도 분류/재시도 동작이 달라지지 않음)
+ * - 그 외 에러(브라우저 fetch 실패 등)만 에러 이름/메시지로 분류
+ *
  * @dependencies
- * - 없음 (순수 유틸리티 함수)
+ * - lib/api/tour-api-error.ts: 한국관광공사 API 에러 클래스
  *
  * @see {@link /docs/PRD.md#7.4-에러-처리} - 에러 처리 요구사항 참조
  */
 
+import {
+  getTourApiErrorKind,
+  getTourApiErrorRetryable,
+  type TourApiErrorKind,
+} from "@/lib/api/tour-api-error";
+
 /**
  * 에러 타입 분류
  */
@@ -23,6 +34,7 @@ export enum ErrorType {
   NETWORK = "NETWORK",
   API = "API",
   AUTH = "AUTH",
+  RATE_LIMIT = "RATE_LIMIT",
   VALIDATION = "VALIDATION",
   NOT_FOUND = "NOT_FOUND",
   SERVER = "SERVER",
@@ -40,14 +52,34 @@ export interface ErrorInfo {
   originalError?: Error;
 }
 
+/**
+ * 한국관광공사 API 에러 종류 → 에러 타입 매핑
+ */
+const TOUR_API_ERROR_TYPES: Record<TourApiErrorKind, ErrorType> = {
+  auth: ErrorType.AUTH,
+  rate_limit: ErrorType.RATE_LIMIT,
+  server: ErrorType.SERVER,
+  validation: ErrorType.VALIDATION,
+  not_found: ErrorType.NOT_FOUND,
+  network: ErrorType.NETWORK,
+  response: ErrorType.API,
+};
+
 /**
  * 에러 타입 판별 함수
  */
 export function getErrorType(error: Error | unknown): ErrorType {
+  // 한국관광공사 API 에러 (서버 컴포넌트에서 전달된 digest 포함)
+  const tourApiErrorKind = getTourApiErrorKind(error);
+  if (tourApiErrorKind) {
+    return TOUR_API_ERROR_TYPES[tourApiErrorKind];
+  }
+
   if (!(error instanceof Error)) {
     return ErrorType.UNKNOWN;
   }
 
+  // 이하: TourApiError가 아닌 일반 에러 (fetch 실패, 외부 라이브러리 에러 등)
   const message = error.message.toLowerCase();
   const name = error.name.toLowerCase();
 
@@ -124,26 +156,22 @@ export function getUserFriendlyMessage(
   errorType?: ErrorType
 ): string {
   const type = errorType || getErrorType(error);
-  const errorMessage =
-    error instanceof Error ? error.message : String(error);
 
   switch (type) {
     case ErrorType.NETWORK:
       return "네트워크 연결에 문제가 있습니다. 인터넷 연결을 확인하고 다시 시도해주세요.";
 
     case ErrorType.AUTH:
-      if (errorMessage.includes("API 키")) {
+      // 한국관광공사 API 인증 실패는 사용자 로그인과 무관 (서비스 키 문제)
+      if (getTourApiErrorKind(error)) {
         return "API 인증에 실패했습니다. 관리자에게 문의해주세요.";
       }
       return "인증에 실패했습니다. 다시 로그인해주세요.";
 
+    case ErrorType.RATE_LIMIT:
+      return "API 호출 제한에 도달했습니다. 잠시 후 다시 시도해주세요.";
+
     case ErrorType.API:
-      if (errorMessage.includes("호출 제한")) {
-        return "API 호출 제한에 도달했습니다. 잠시 후 다시 시도해주세요.";
-      }
-      if (errorMessage.includes("서버 에러")) {
-        return "서버에 일시적인 문제가 발생했습니다. 잠시 후 다시 시도해주세요.";
-      }
       return "데이터를 불러오는 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.";
 
     case ErrorType.VALIDATION:
@@ -170,10 +198,13 @@ export function getErrorInfo(error: Error | unknown): ErrorInfo {
   const userMessage = getUserFriendlyMessage(error, type);
 
   // 재시도 가능 여부 판단
+  // (TourApiError와 서버 컴포넌트에서 전달된 digest는 에러 자체의 재시도 가능 여부 사용)
   const canRetry =
-    type === ErrorType.NETWORK ||
-    type === ErrorType.API ||
-    type === ErrorType.SERVER;
+    getTourApiErrorRetryable(error) ??
+    (type === ErrorType.NETWORK ||
+      type === ErrorType.API ||
+      type === ErrorType.SERVER ||
+      type === ErrorType.RATE_LIMIT);
 
   return {
     type,
@@ -0,0 +1,131 @@
+/**
+ * @file festival.ts
+ * @description 축제/행사 날짜 및 진행 상태 유틸리티
+ *
+ * searchFestival2 응답의 행사 기간(eventstartdate, eventenddate: YYYYMMDD)을 다루는 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. YYYYMMDD 문자열 ↔ Date 변환
+ * 2. 행사 진행 상태 계산 (진행 중 / 예정 / 종료)
+ * 3. 월 단위 조회 기간 계산 (달력 화면용)
+ * 4. 행사 기간 표시 문자열 생성
+ *
+ * 핵심 구현 로직:
+ * - 날짜 비교는 YYYYMMDD 문자열 비교로 처리 (시간대 영향 없음)
+ * - 종료일이 없으면 시작일 하루 행사로 간주
+ *
+ * @dependencies
+ * - lib/types/tour.ts: FestivalItem, FestivalStatus 타입
+ */
+
+import type { FestivalItem, FestivalStatus } from "@/lib/types/tour";
+
+/**
+ * 진행 상태별 표시 라벨
+ */
+export const FESTIVAL_STATUS_LABELS: Record<FestivalStatus, string> = {
+  ongoing: "진행 중",
+  upcoming: "예정",
+  ended: "종료",
+};
+
+/**
+ * Date → YYYYMMDD 문자열 (로컬 날짜 기준)
+ */
+export function toEventDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}${month}${day}`;
+}
+
+/**
+ * YYYYMMDD 문자열 → Date (로컬 자정)
+ * @returns Date 또는 null (형식이 잘못된 경우)
+ */
+export function parseEventDate(value?: string): Date | null {
+  if (!value || !/^\d{8}$/.test(value)) {
+    return null;
+  }
+
+  const year = Number(value.slice(0, 4));
+  const month = Number(value.slice(4, 6)) - 1;
+  const day = Number(value.slice(6, 8));
+  const date = new Date(year, month, day);
+
+  return date.getMonth() === month ? date : null;
+}
+
+/**
+ * 행사 종료일 (없으면 시작일)
+ */
+function getEndDate(
+  festival: Pick<FestivalItem, "eventstartdate" | "eventenddate">,
+): string {
+  return festival.eventenddate || festival.eventstartdate;
+}
+
+/**
+ * 행사 진행 상태 계산
+ * @param festival 행사 정보
+ * @param today 기준일 (기본값: 오늘)
+ */
+export function getFestivalStatus(
+  festival: Pick<FestivalItem, "eventstartdate" | "eventenddate">,
+  today: Date = new Date(),
+): FestivalStatus {
+  const todayValue = toEventDate(today);
+
+  if (festival.eventstartdate > todayValue) {
+    return "upcoming";
+  }
+  if (getEndDate(festival) < todayValue) {
+    return "ended";
+  }
+  return "ongoing";
+}
+
+/**
+ * 특정 날짜에 행사가 진행되는지 확인
+ * @param festival 행사 정보
+ * @param date 확인할 날짜 (YYYYMMDD)
+ */
+export function isFestivalOnDate(
+  festival: Pick<FestivalItem, "eventstartdate" | "eventenddate">,
+  date: string,
+): boolean {
+  return festival.eventstartdate <= date && getEndDate(festival) >= date;
+}
+
+/**
+ * 월 단위 조회 기간 (해당 월의 1일 ~ 말일)
+ * @param year 연도
+ * @param month 월 (0부터 시작)
+ * @returns YYYYMMDD 형식의 시작일/종료일
+ */
+export function getMonthRange(
+  year: number,
+  month: number,
+): { startDate: string; endDate: string } {
+  return {
+    startDate: toEventDate(new Date(year, month, 1)),
+    endDate: toEventDate(new Date(year, month + 1, 0)),
+  };
+}
+
+/**
+ * 행사 기간 표시 문자열 (예: "2025.11.01 ~ 2025.11.30")
+ */
+export function formatEventPeriod(
+  festival: Pick<FestivalItem, "eventstartdate" | "eventenddate">,
+): string {
+  const format = (value: string) =>
+    /^\d{8}$/.test(value)
+      ? `${value.slice(0, 4)}.${value.slice(4, 6)}.${value.slice(6, 8)}`
+      : value;
+
+  const start = format(festival.eventstartdate);
+  const end = format(getEndDate(festival));
+
+  return start === end ? start : `${start} ~ ${end}`;
+}
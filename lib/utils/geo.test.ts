@@ -0,0 +1,239 @@
+import { describe, expect, it } from "vitest";
+import {
+  clusterByGrid,
+  filterByRadius,
+  getBoundingBox,
+  getDistance,
+  isWithinBounds,
+  parseCoordinates,
+  sortByDistance,
+} from "@/lib/utils/geo";
+import type { LatLng } from "@/lib/types/tour";
+
+const SEOUL_CITY_HALL: LatLng = { lat: 37.5665, lng: 126.978 };
+const BUSAN_STATION: LatLng = { lat: 35.1151, lng: 129.0414 };
+
+/**
+ * 위도 방향으로 meters만큼 떨어진 관광지 (mapx/mapy 문자열)
+ */
+function tourNorthOf(center: LatLng, meters: number, dist?: string) {
+  return {
+    mapx: String(center.lng),
+    mapy: String(center.lat + meters / 111320),
+    dist,
+  };
+}
+
+describe("parseCoordinates", () => {
+  it("parses WGS84 decimal strings (mapx = 경도, mapy = 위도)", () => {
+    expect(parseCoordinates("126.9769930325", "37.5788222356")).toEqual({
+      lat: 37.5788222356,
+      lng: 126.9769930325,
+    });
+  });
+
+  it("accepts numbers", () => {
+    expect(parseCoordinates(126.978, 37.5665)).toEqual(SEOUL_CITY_HALL);
+  });
+
+  it("converts legacy integer coordinates scaled by 10,000,000", () => {
+    const point = parseCoordinates("1269769930", "375788222");
+
+    expect(point?.lng).toBeCloseTo(126.976993, 6);
+    expect(point?.lat).toBeCloseTo(37.5788222, 6);
+  });
+
+  it("returns null for missing coordinates", () => {
+    expect(parseCoordinates("0", "0")).toBeNull();
+    expect(parseCoordinates("", "37.5")).toBeNull();
+    expect(parseCoordinates(undefined, undefined)).toBeNull();
+    expect(parseCoordinates("abc", "37.5")).toBeNull();
+  });
+
+  it("returns null outside Korea (including swapped mapx/mapy)", () => {
+    expect(parseCoordinates("139.6917", "35.6895")).toBeNull();
+    expect(parseCoordinates("37.5665", "126.978")).toBeNull();
+  });
+});
+
+describe("getDistance", () => {
+  it("is zero for the same point", () => {
+    expect(getDistance(SEOUL_CITY_HALL, SEOUL_CITY_HALL)).toBe(0);
+  });
+
+  it("matches the great-circle distance between Seoul and Busan", () => {
+    const distance = getDistance(SEOUL_CITY_HALL, BUSAN_STATION);
+
+    expect(distance).toBeGreaterThan(320000);
+    expect(distance).toBeLessThan(330000);
+  });
+
+  it("is symmetric", () => {
+    expect(getDistance(SEOUL_CITY_HALL, BUSAN_STATION)).toBeCloseTo(
+      getDistance(BUSAN_STATION, SEOUL_CITY_HALL),
+      6,
+    );
+  });
+
+  it("measures one degree of latitude as about 111km", () => {
+    const distance = getDistance({ lat: 36, lng: 127 }, { lat: 37, lng: 127 });
+
+    expect(distance).toBeGreaterThan(111000);
+    expect(distance).toBeLessThan(111400);
+  });
+});
+
+describe("getBoundingBox", () => {
+  it("is centered on the point", () => {
+    const bounds = getBoundingBox(SEOUL_CITY_HALL, 1000);
+
+    expect((bounds.minLat + bounds.maxLat) / 2).toBeCloseTo(
+      SEOUL_CITY_HALL.lat,
+      10,
+    );
+    expect((bounds.minLng + bounds.maxLng) / 2).toBeCloseTo(
+      SEOUL_CITY_HALL.lng,
+      10,
+    );
+  });
+
+  it("widens longitude by 1 / cos(latitude)", () => {
+    const bounds = getBoundingBox({ lat: 37.5, lng: 127 }, 1113.2);
+
+    expect(bounds.maxLat - 37.5).toBeCloseTo(0.01, 6);
+    expect(bounds.maxLng - 127).toBeCloseTo(
+      0.01 / Math.cos((37.5 * Math.PI) / 180),
+      6,
+    );
+  });
+
+  it("contains every point within the radius", () => {
+    const bounds = getBoundingBox(SEOUL_CITY_HALL, 5000);
+
+    for (const bearing of [0, 45, 90, 135, 180, 225, 270, 315]) {
+      const radians = (bearing * Math.PI) / 180;
+      const point = {
+        lat: SEOUL_CITY_HALL.lat + (4990 * Math.cos(radians)) / 111320,
+        lng:
+          SEOUL_CITY_HALL.lng +
+          (4990 * Math.sin(radians)) /
+            (111320 * Math.cos((SEOUL_CITY_HALL.lat * Math.PI) / 180)),
+      };
+      expect(isWithinBounds(point, bounds)).toBe(true);
+    }
+  });
+});
+
+describe("filterByRadius", () => {
+  it("keeps tours within the radius and drops tours without coordinates", () => {
+    const near = tourNorthOf(SEOUL_CITY_HALL, 500);
+    const edge = tourNorthOf(SEOUL_CITY_HALL, 990);
+    const far = tourNorthOf(SEOUL_CITY_HALL, 2000);
+    const missing = { mapx: "0", mapy: "0" };
+
+    expect(
+      filterByRadius([near, far, missing, edge], SEOUL_CITY_HALL, 1000),
+    ).toEqual([near, edge]);
+  });
+
+  it("drops tours inside the bounding box corner but outside the radius", () => {
+    const bounds = getBoundingBox(SEOUL_CITY_HALL, 1000);
+    const corner = {
+      mapx: String(bounds.maxLng - 0.0001),
+      mapy: String(bounds.maxLat - 0.0001),
+    };
+
+    expect(filterByRadius([corner], SEOUL_CITY_HALL, 1000)).toEqual([]);
+  });
+});
+
+describe("sortByDistance", () => {
+  it("sorts by distance and puts tours without a distance last", () => {
+    const far = tourNorthOf(SEOUL_CITY_HALL, 3000);
+    const near = tourNorthOf(SEOUL_CITY_HALL, 100);
+    const missing = { mapx: "", mapy: "" };
+    const middle = tourNorthOf(SEOUL_CITY_HALL, 1500);
+
+    expect(
+      sortByDistance([far, missing, near, middle], SEOUL_CITY_HALL),
+    ).toEqual([near, middle, far, missing]);
+  });
+
+  it("prefers the dist value from locationBasedList2", () => {
+    const a = tourNorthOf(SEOUL_CITY_HALL, 100, "2500");
+    const b = tourNorthOf(SEOUL_CITY_HALL, 3000, "800");
+
+    expect(sortByDistance([a, b], SEOUL_CITY_HALL)).toEqual([b, a]);
+  });
+
+  it("does not modify the original array", () => {
+    const tours = [
+      tourNorthOf(SEOUL_CITY_HALL, 3000),
+      tourNorthOf(SEOUL_CITY_HALL, 100),
+    ];
+    const original = [...tours];
+
+    sortByDistance(tours, SEOUL_CITY_HALL);
+
+    expect(tours).toEqual(original);
+  });
+});
+
+describe("clusterByGrid", () => {
+  const getPoint = (point: LatLng | null) => point;
+
+  it("groups points in the same cell and averages the center", () => {
+    const points = [
+      { lat: 37.51, lng: 127.01 },
+      { lat: 37.53, lng: 127.05 },
+      { lat: 35.11, lng: 129.04 },
+    ];
+
+    const clusters = clusterByGrid(points, getPoint, 0.1);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0].items).toEqual([points[0], points[1]]);
+    expect(clusters[0].center.lat).toBeCloseTo(37.52, 10);
+    expect(clusters[0].center.lng).toBeCloseTo(127.03, 10);
+    expect(clusters[0].bounds).toEqual({
+      minLat: 37.51,
+      maxLat: 37.53,
+      minLng: 127.01,
+      maxLng: 127.05,
+    });
+    expect(clusters[1].items).toEqual([points[2]]);
+    expect(clusters[1].center).toEqual(points[2]);
+  });
+
+  it("splits points on different sides of a cell boundary", () => {
+    const points = [
+      { lat: 37.49, lng: 127.01 },
+      { lat: 37.51, lng: 127.01 },
+    ];
+
+    expect(clusterByGrid(points, getPoint, 0.1)).toHaveLength(2);
+  });
+
+  it("skips items without coordinates", () => {
+    const points = [null, { lat: 37.51, lng: 127.01 }];
+
+    const clusters = clusterByGrid(points, getPoint, 1);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].items).toEqual([points[1]]);
+  });
+
+  it("returns no clusters for an empty list", () => {
+    expect(clusterByGrid([], getPoint, 1)).toEqual([]);
+  });
+
+  it("rejects a cell size that is not positive", () => {
+    const points = [{ lat: 37.51, lng: 127.01 }];
+
+    expect(() => clusterByGrid(points, getPoint, 0)).toThrow(RangeError);
+    expect(() => clusterByGrid(points, getPoint, -0.1)).toThrow(RangeError);
+    expect(() => clusterByGrid(points, getPoint, Number.NaN)).toThrow(
+      RangeError,
+    );
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * @file geo.ts
+ * @description 좌표 파싱, 거리 계산, 영역 필터링 및 클러스터링 유틸리티
+ *
+ * KorService2 응답의 mapx/mapy(문자열)를 WGS84 위도/경도로 변환하고,
+ * 목록 정렬, 지도 화면, 여행 일정 등에서 공통으로 사용하는 좌표 계산 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 좌표 파싱 및 검증 (parseCoordinates, getTourLatLng - 한국 범위 밖이거나 0이면 null)
+ * 2. 거리 계산 (getDistance - 하버사인 공식, 미터) 및 표시 문자열 (formatDistance)
+ * 3. 영역 계산 (getBoundingBox - 중심점+반경, getBoundsOf - 좌표 목록을 포함하는 영역)
+ * 4. 영역/반경 필터링 및 거리순 정렬 (isWithinBounds, filterByRadius, sortByDistance)
+ * 5. 격자 기반 클러스터링 (clusterByGrid - 지도 마커 묶기)
+ *
+ * 핵심 구현 로직:
+ * - KorService2 mapx(경도)/mapy(위도)는 WGS84 십진수 문자열 (예: "126.9769930325")
+ * - 이전 버전 API의 정수형 좌표(10,000,000배)가 오면 10,000,000으로 나누어 변환
+ * - 좌표가 없는 항목은 "0" 또는 빈 문자열로 오므로 null로 처리
+ * - 반경 필터링은 경계 상자로 먼저 거른 뒤 하버사인 거리로 확인
+ * - 클러스터링 격자 크기는 0보다 커야 함 (아니면 RangeError)
+ *
+ * @dependencies
+ * - lib/types/tour.ts: LatLng, GeoBounds, GeoCluster, TourItem 타입
+ */
+
+import type { GeoBounds, GeoCluster, LatLng, TourItem } from "@/lib/types/tour";
+
+/**
+ * 지구 평균 반지름 (미터)
+ */
+const EARTH_RADIUS = 6371008.8;
+
+/**
+ * 위도 1도의 거리 (미터)
+ */
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * 정수형 좌표 배율 (이전 버전 API)
+ */
+const LEGACY_COORDINATE_SCALE = 10000000;
+
+/**
+ * 한국 좌표 범위 (제주 남단 ~ 휴전선 북단, 서해 ~ 독도)
+ */
+export const KOREA_BOUNDS: GeoBounds = {
+  minLat: 33,
+  maxLat: 39,
+  minLng: 124,
+  maxLng: 132,
+};
+
+/**
+ * 도 → 라디안
+ */
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * 좌표 값 변환 (정수형 좌표는 배율로 나눔)
+ */
+function toDegrees(value: string | number | undefined): number | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+
+  const number = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(number) || number === 0) {
+    return null;
+  }
+
+  return Math.abs(number) > 180 ? number / LEGACY_COORDINATE_SCALE : number;
+}
+
+/**
+ * 좌표가 영역 안에 있는지 확인 (경계 포함)
+ * @param point 좌표
+ * @param bounds 영역
+ */
+export function isWithinBounds(point: LatLng, bounds: GeoBounds): boolean {
+  return (
+    point.lat >= bounds.minLat &&
+    point.lat <= bounds.maxLat &&
+    point.lng >= bounds.minLng &&
+    point.lng <= bounds.maxLng
+  );
+}
+
+/**
+ * mapx/mapy → WGS84 위도/경도
+ * @param mapx 경도 (KorService2 mapx)
+ * @param mapy 위도 (KorService2 mapy)
+ * @returns 좌표 또는 null (좌표가 없거나 한국 범위 밖인 경우)
+ */
+export function parseCoordinates(
+  mapx: string | number | undefined,
+  mapy: string | number | undefined,
+): LatLng | null {
+  const lng = toDegrees(mapx);
+  const lat = toDegrees(mapy);
+
+  if (lat === null || lng === null) {
+    return null;
+  }
+
+  const point = { lat, lng };
+  return isWithinBounds(point, KOREA_BOUNDS) ? point : null;
+}
+
+/**
+ * 관광지 좌표 조회
+ * @param tour 관광지 (mapx, mapy)
+ * @returns 좌표 또는 null
+ */
+export function getTourLatLng(
+  tour: Pick<TourItem, "mapx" | "mapy">,
+): LatLng | null {
+  return parseCoordinates(tour.mapx, tour.mapy);
+}
+
+/**
+ * 두 좌표 사이의 거리 (하버사인 공식)
+ * @param from 시작 좌표
+ * @param to 도착 좌표
+ * @returns 거리 (미터)
+ */
+export function getDistance(from: LatLng, to: LatLng): number {
+  const deltaLat = toRadians(to.lat - from.lat);
+  const deltaLng = toRadians(to.lng - from.lng);
+
+  const a =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(deltaLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * 거리 표시 문자열 변환 (미터 → "850m", "1.2km")
+ * @param meters 거리 (미터, locationBasedList2 응답의 dist 문자열도 허용)
+ * @returns 표시 문자열 또는 null (거리 정보가 없는 경우)
+ */
+export function formatDistance(meters?: number | string | null): string | null {
+  if (meters === undefined || meters === null || meters === "") {
+    return null;
+  }
+
+  const value = Number(meters);
+  if (!Number.isFinite(value)) {
+    return null;
+  }
+  if (value < 1000) {
+    return `${Math.round(value)}m`;
+  }
+  return `${(value / 1000).toFixed(value < 10000 ? 1 : 0)}km`;
+}
+
+/**
+ * 중심점과 반경을 포함하는 경계 상자
+ * @param center 중심 좌표
+ * @param radius 반경 (미터)
+ */
+export function getBoundingBox(center: LatLng, radius: number): GeoBounds {
+  const latDelta = radius / METERS_PER_DEGREE;
+  const lngDelta =
+    radius /
+    (METERS_PER_DEGREE * Math.max(Math.cos(toRadians(center.lat)), 1e-6));
+
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    minLng: center.lng - lngDelta,
+    maxLng: center.lng + lngDelta,
+  };
+}
+
+/**
+ * 좌표 목록을 모두 포함하는 영역 (지도 화면 맞춤용)
+ * @param points 좌표 목록
+ * @returns 영역 또는 null (좌표가 없는 경우)
+ */
+export function getBoundsOf(points: LatLng[]): GeoBounds | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  return points.reduce<GeoBounds>(
+    (bounds, point) => ({
+      minLat: Math.min(bounds.minLat, point.lat),
+      maxLat: Math.max(bounds.maxLat, point.lat),
+      minLng: Math.min(bounds.minLng, point.lng),
+      maxLng: Math.max(bounds.maxLng, point.lng),
+    }),
+    {
+      minLat: points[0].lat,
+      maxLat: points[0].lat,
+      minLng: points[0].lng,
+      maxLng: points[0].lng,
+    },
+  );
+}
+
+/**
+ * 반경 안의 관광지만 남기기 (좌표가 없는 항목은 제외)
+ * @param tours 관광지 목록
+ * @param center 중심 좌표
+ * @param radius 반경 (미터)
+ */
+export function filterByRadius<T extends Pick<TourItem, "mapx" | "mapy">>(
+  tours: T[],
+  center: LatLng,
+  radius: number,
+): T[] {
+  const bounds = getBoundingBox(center, radius);
+
+  return tours.filter((tour) => {
+    const point = getTourLatLng(tour);
+    return (
+      point !== null &&
+      isWithinBounds(point, bounds) &&
+      getDistance(center, point) <= radius
+    );
+  });
+}
+
+/**
+ * 관광지와 기준점 사이의 거리
+ * locationBasedList2 응답의 dist가 있으면 그대로 사용하고, 없으면 좌표로 계산합니다.
+ * @param tour 관광지
+ * @param center 기준 좌표
+ * @returns 거리 (미터) 또는 null (좌표가 없는 경우)
+ */
+export function getTourDistance(
+  tour: Pick<TourItem, "mapx" | "mapy" | "dist">,
+  center: LatLng,
+): number | null {
+  const dist = tour.dist ? Number(tour.dist) : NaN;
+  if (Number.isFinite(dist)) {
+    return dist;
+  }
+
+  const point = getTourLatLng(tour);
+  return point ? getDistance(center, point) : null;
+}
+
+/**
+ * 기준점에서 가까운 순으로 정렬 (거리를 알 수 없는 항목은 뒤로, 원본 배열은 변경하지 않음)
+ * @param tours 관광지 목록
+ * @param center 기준 좌표
+ */
+export function sortByDistance<
+  T extends Pick<TourItem, "mapx" | "mapy" | "dist">,
+>(tours: T[], center: LatLng): T[] {
+  return tours
+    .map((tour) => ({
+      tour,
+      distance: getTourDistance(tour, center) ?? Number.POSITIVE_INFINITY,
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ tour }) => tour);
+}
+
+/**
+ * 격자 기반 클러스터링
+ * 좌표를 cellSize(도) 크기의 격자로 나누어 같은 칸의 항목을 하나로 묶습니다.
+ * 지도 확대 수준에 맞춰 cellSize를 조절합니다. (예: 전국 1, 시/도 0.1, 시/군/구 0.01)
+ * @param items 항목 목록
+ * @param getPoint 항목 → 좌표 (좌표가 없으면 null, 클러스터에서 제외)
+ * @param cellSize 격자 크기 (도, 0보다 커야 함)
+ * @returns 클러스터 목록 (중심은 항목 좌표의 평균)
+ * @throws RangeError cellSize가 0 이하이거나 유한한 수가 아닌 경우
+ */
+export function clusterByGrid<T>(
+  items: T[],
+  getPoint: (item: T) => LatLng | null,
+  cellSize: number,
+): GeoCluster<T>[] {
+  // 0 이하의 격자 크기는 모든 항목을 NaN/Infinity 칸 하나로 묶으므로 거절
+  if (!Number.isFinite(cellSize) || cellSize <= 0) {
+    throw new RangeError(`격자 크기는 0보다 커야 합니다: ${cellSize}`);
+  }
+
+  const cells = new Map<string, { items: T[]; points: LatLng[] }>();
+
+  for (const item of items) {
+    const point = getPoint(item);
+    if (!point) continue;
+
+    const key = `${Math.floor(point.lat / cellSize)}:${Math.floor(point.lng / cellSize)}`;
+    const cell = cells.get(key) ?? { items: [], points: [] };
+    cell.items.push(item);
+    cell.points.push(point);
+    cells.set(key, cell);
+  }
+
+  return Array.from(cells.values()).map(({ items: cellItems, points }) => ({
+    center: {
+      lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+      lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length,
+    },
+    bounds: getBoundsOf(points) as GeoBounds,
+    items: cellItems,
+  }));
+}
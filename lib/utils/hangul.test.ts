@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  findChoseongMatch,
+  getChoseong,
+  isChoseongQuery,
+  isRomanizedQuery,
+  romanizedToHangul,
+  toRomanKey,
+} from "@/lib/utils/hangul";
+
+describe("getChoseong", () => {
+  it("extracts initial consonants and keeps other characters", () => {
+    expect(getChoseong("경복궁")).toBe("ㄱㅂㄱ");
+    expect(getChoseong("N서울타워")).toBe("Nㅅㅇㅌㅇ");
+  });
+});
+
+describe("findChoseongMatch", () => {
+  it("returns the index in the text without whitespace", () => {
+    expect(isChoseongQuery("ㅎㅅㅇㅈ")).toBe(true);
+    expect(findChoseongMatch("해운대 해수욕장", "ㅎㅅㅇㅈ")).toBe(3);
+  });
+
+  it("mixes syllables and initial consonants", () => {
+    expect(findChoseongMatch("경복궁", "경ㅂ")).toBe(0);
+    expect(findChoseongMatch("경복궁", "ㄴㅅ")).toBe(-1);
+  });
+});
+
+describe("toRomanKey", () => {
+  it("compares Hangul with its romanization", () => {
+    expect(toRomanKey("설악산")).toBe(toRomanKey("Seoraksan"));
+  });
+});
+
+describe("romanizedToHangul", () => {
+  it("converts a romanized word", () => {
+    expect(isRomanizedQuery("gyeongbokgung")).toBe(true);
+    expect(romanizedToHangul("gyeongbokgung")[0]).toBe("경복궁");
+  });
+
+  it("lists every syllable split, fewest syllables first", () => {
+    expect(romanizedToHangul("hanok")).toEqual(["한옥", "하녹"]);
+  });
+
+  it("keeps words that cannot be split into syllables", () => {
+    expect(romanizedToHangul("namsan tower")).toEqual(["남산 tower"]);
+    expect(romanizedToHangul("tower namsan")).toEqual(["tower 남산"]);
+  });
+
+  it("returns no candidates when no word converts", () => {
+    expect(romanizedToHangul("tower")).toEqual([]);
+    expect(romanizedToHangul("경복궁")).toEqual([]);
+  });
+});
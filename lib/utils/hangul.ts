@@ -0,0 +1,415 @@
+/**
+ * @file hangul.ts
+ * @description 한글 검색어 처리 유틸리티 (초성, 로마자 표기)
+ *
+ * 키워드 검색 API(searchKeyword2)는 제목 부분 일치만 지원하므로
+ * 초성("ㄱㅂㄱ")이나 로마자("gyeongbokgung")로 입력한 검색어를 로컬에서 해석할 수 있도록 돕습니다.
+ *
+ * 주요 기능:
+ * 1. 초성 추출 및 초성 검색어 판별 (getChoseong, isChoseongQuery)
+ * 2. 초성/완성형이 섞인 검색어 일치 위치 찾기 (findChoseongMatch)
+ * 3. 한글 → 로마자 표기 (romanizeHangul, 국어의 로마자 표기법 기준 음절 단위 변환)
+ * 4. 로마자 검색어 판별 및 한글 후보 변환 (isRomanizedQuery, romanizedToHangul)
+ * 5. 로마자 비교 키 (toRomanKey)
+ *
+ * 핵심 구현 로직:
+ * - 완성형 음절(가~힣)은 유니코드 순서로 초성/중성/종성 인덱스를 계산
+ * - 로마자 표기는 발음 변화(자음동화, 연음 등)를 반영하지 않으므로
+ *   비교 키에서는 ㄹ의 r/l 표기 차이를 무시 (예: 설악 seolak ↔ seorak)
+ * - 로마자 → 한글은 음절 분리가 여러 가지일 수 있어 후보 목록으로 반환
+ *   (예: hanok → 한옥, 하녹), 음절 수가 적은 후보를 먼저 반환
+ * - 한글로 나눌 수 없는 단어는 그대로 유지 (예: namsan tower → 남산 tower)
+ *
+ * @see {@link lib/api/tour-query.ts} - 검색어 해석
+ */
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+const JUNGSEONG_COUNT = 21;
+const JONGSEONG_COUNT = 28;
+
+/**
+ * 초성 (호환용 자모, 유니코드 순서)
+ */
+const CHOSEONG = [
+  "ㄱ",
+  "ㄲ",
+  "ㄴ",
+  "ㄷ",
+  "ㄸ",
+  "ㄹ",
+  "ㅁ",
+  "ㅂ",
+  "ㅃ",
+  "ㅅ",
+  "ㅆ",
+  "ㅇ",
+  "ㅈ",
+  "ㅉ",
+  "ㅊ",
+  "ㅋ",
+  "ㅌ",
+  "ㅍ",
+  "ㅎ",
+];
+
+/**
+ * 초성 로마자 표기 (CHOSEONG 순서)
+ */
+const CHOSEONG_ROMAN = [
+  "g",
+  "kk",
+  "n",
+  "d",
+  "tt",
+  "r",
+  "m",
+  "b",
+  "pp",
+  "s",
+  "ss",
+  "",
+  "j",
+  "jj",
+  "ch",
+  "k",
+  "t",
+  "p",
+  "h",
+];
+
+/**
+ * 중성 로마자 표기 (ㅏ ㅐ ㅑ ㅒ ㅓ ㅔ ㅕ ㅖ ㅗ ㅘ ㅙ ㅚ ㅛ ㅜ ㅝ ㅞ ㅟ ㅠ ㅡ ㅢ ㅣ)
+ */
+const JUNGSEONG_ROMAN = [
+  "a",
+  "ae",
+  "ya",
+  "yae",
+  "eo",
+  "e",
+  "yeo",
+  "ye",
+  "o",
+  "wa",
+  "wae",
+  "oe",
+  "yo",
+  "u",
+  "wo",
+  "we",
+  "wi",
+  "yu",
+  "eu",
+  "ui",
+  "i",
+];
+
+/**
+ * 종성 로마자 표기 (받침 없음, ㄱ ㄲ ㄳ ㄴ ㄵ ㄶ ㄷ ㄹ ㄺ ㄻ ㄼ ㄽ ㄾ ㄿ ㅀ ㅁ ㅂ ㅄ ㅅ ㅆ ㅇ ㅈ ㅊ ㅋ ㅌ ㅍ ㅎ)
+ * 겹받침은 대표음으로 표기
+ */
+const JONGSEONG_ROMAN = [
+  "",
+  "k",
+  "k",
+  "k",
+  "n",
+  "n",
+  "n",
+  "t",
+  "l",
+  "k",
+  "m",
+  "l",
+  "l",
+  "l",
+  "p",
+  "l",
+  "m",
+  "p",
+  "p",
+  "t",
+  "t",
+  "ng",
+  "t",
+  "t",
+  "k",
+  "t",
+  "p",
+  "t",
+];
+
+/**
+ * 로마자 → 초성 인덱스 (긴 표기 먼저, 빈 문자열은 ㅇ)
+ * 어두의 ㄹ은 l로 쓰는 경우가 많아 함께 허용
+ */
+const ROMAN_CHOSEONG: [string, number][] = [
+  ["kk", 1],
+  ["tt", 4],
+  ["pp", 8],
+  ["ss", 10],
+  ["jj", 13],
+  ["ch", 14],
+  ["g", 0],
+  ["n", 2],
+  ["d", 3],
+  ["r", 5],
+  ["l", 5],
+  ["m", 6],
+  ["b", 7],
+  ["s", 9],
+  ["j", 12],
+  ["k", 15],
+  ["t", 16],
+  ["p", 17],
+  ["h", 18],
+  ["", 11],
+];
+
+/**
+ * 로마자 → 중성 인덱스 (긴 표기 먼저)
+ */
+const ROMAN_JUNGSEONG: [string, number][] = JUNGSEONG_ROMAN.map(
+  (roman, index): [string, number] => [roman, index],
+).sort((a, b) => b[0].length - a[0].length);
+
+/**
+ * 로마자 → 종성 인덱스 (대표 받침만, 받침 있는 후보 먼저)
+ */
+const ROMAN_JONGSEONG: [string, number][] = [
+  ["ng", 21],
+  ["k", 1],
+  ["n", 4],
+  ["t", 19],
+  ["l", 8],
+  ["m", 16],
+  ["p", 17],
+  ["", 0],
+];
+
+/**
+ * 로마자 → 한글 변환 시 최대 후보 수 (음절 분리 경우의 수 제한)
+ */
+const MAX_ROMAN_CANDIDATES = 20;
+
+/**
+ * 로마자 → 한글 변환 최대 입력 길이 (단어 기준)
+ */
+const MAX_ROMAN_WORD_LENGTH = 30;
+
+/**
+ * 완성형 한글 음절 여부
+ */
+function isHangulSyllable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= HANGUL_START && code <= HANGUL_END;
+}
+
+/**
+ * 초성 자모 여부 (ㄱ, ㄲ, ㄴ ...)
+ */
+function isChoseong(char: string): boolean {
+  return CHOSEONG.includes(char);
+}
+
+/**
+ * 문자열의 초성 추출 (한글 음절이 아닌 문자는 그대로 유지)
+ * @example getChoseong("경복궁") // "ㄱㅂㄱ"
+ */
+export function getChoseong(text: string): string {
+  return Array.from(text)
+    .map((char) =>
+      isHangulSyllable(char)
+        ? CHOSEONG[
+            Math.floor(
+              (char.charCodeAt(0) - HANGUL_START) /
+                (JUNGSEONG_COUNT * JONGSEONG_COUNT),
+            )
+          ]
+        : char,
+    )
+    .join("");
+}
+
+/**
+ * 초성 검색어 여부
+ * 공백을 제외한 모든 문자가 초성 또는 완성형 음절이고, 초성이 하나 이상 포함된 경우
+ * @example isChoseongQuery("ㄱㅂㄱ") // true
+ * @example isChoseongQuery("경복ㄱ") // true
+ * @example isChoseongQuery("경복궁") // false
+ */
+export function isChoseongQuery(text: string): boolean {
+  const chars = Array.from(text.replace(/\s+/g, ""));
+  return (
+    chars.some(isChoseong) &&
+    chars.every((char) => isChoseong(char) || isHangulSyllable(char))
+  );
+}
+
+/**
+ * 초성/완성형이 섞인 검색어의 일치 위치 찾기 (공백 무시)
+ * 검색어의 초성은 제목 음절의 초성과, 완성형 음절은 같은 음절과 비교합니다.
+ * @param text 대상 문자열 (예: 제목)
+ * @param query 검색어 (예: "ㄱㅂㄱ", "경복ㄱ")
+ * @returns 공백을 제거한 대상 문자열 기준 일치 시작 위치 (없으면 -1)
+ */
+export function findChoseongMatch(text: string, query: string): number {
+  const target = Array.from(text.replace(/\s+/g, ""));
+  const keyword = Array.from(query.replace(/\s+/g, ""));
+  if (keyword.length === 0) return -1;
+
+  const initials = Array.from(getChoseong(target.join("")));
+
+  for (let start = 0; start + keyword.length <= target.length; start++) {
+    const matched = keyword.every((char, offset) =>
+      isChoseong(char)
+        ? initials[start + offset] === char
+        : target[start + offset] === char,
+    );
+    if (matched) return start;
+  }
+  return -1;
+}
+
+/**
+ * 한글 → 로마자 표기 (음절 단위, 발음 변화 미반영)
+ * 한글 음절이 아닌 문자는 소문자로 유지합니다.
+ * @example romanizeHangul("경복궁") // "gyeongbokgung"
+ */
+export function romanizeHangul(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      if (!isHangulSyllable(char)) return char.toLowerCase();
+
+      const offset = char.charCodeAt(0) - HANGUL_START;
+      const cho = Math.floor(offset / (JUNGSEONG_COUNT * JONGSEONG_COUNT));
+      const jung = Math.floor(
+        (offset % (JUNGSEONG_COUNT * JONGSEONG_COUNT)) / JONGSEONG_COUNT,
+      );
+      const jong = offset % JONGSEONG_COUNT;
+      return (
+        CHOSEONG_ROMAN[cho] + JUNGSEONG_ROMAN[jung] + JONGSEONG_ROMAN[jong]
+      );
+    })
+    .join("");
+}
+
+/**
+ * 로마자 비교 키 (영문 소문자만 남기고 ㄹ의 r/l 표기 차이 제거)
+ * 한글은 로마자로 바꾼 뒤 키를 만듭니다.
+ * @example toRomanKey("설악산") === toRomanKey("Seoraksan") // true
+ */
+export function toRomanKey(text: string): string {
+  return romanizeHangul(text)
+    .replace(/[^a-z]/g, "")
+    .replace(/l/g, "r");
+}
+
+/**
+ * 로마자 검색어 여부 (영문자, 공백, 하이픈만 포함하고 모음이 있는 경우)
+ * @example isRomanizedQuery("gyeongbokgung") // true
+ */
+export function isRomanizedQuery(text: string): boolean {
+  const trimmed = text.trim();
+  return /^[a-z\s-]+$/i.test(trimmed) && /[aeiouwy]/i.test(trimmed);
+}
+
+/**
+ * 로마자 단어 하나를 음절로 나누어 한글 후보 생성
+ */
+function parseRomanWord(word: string): string[] {
+  const results: string[] = [];
+  // 끝까지 나눌 수 없는 위치 (같은 위치를 다시 탐색하지 않음)
+  const deadEnds = new Set<number>();
+
+  const visit = (position: number, syllables: string) => {
+    if (results.length >= MAX_ROMAN_CANDIDATES) return;
+    if (position === word.length) {
+      results.push(syllables);
+      return;
+    }
+    if (deadEnds.has(position)) return;
+    const found = results.length;
+
+    for (const [choRoman, cho] of ROMAN_CHOSEONG) {
+      if (!word.startsWith(choRoman, position)) continue;
+      const vowelStart = position + choRoman.length;
+
+      for (const [jungRoman, jung] of ROMAN_JUNGSEONG) {
+        if (!word.startsWith(jungRoman, vowelStart)) continue;
+        const finalStart = vowelStart + jungRoman.length;
+
+        for (const [jongRoman, jong] of ROMAN_JONGSEONG) {
+          if (!word.startsWith(jongRoman, finalStart)) continue;
+          const syllable = String.fromCharCode(
+            HANGUL_START +
+              (cho * JUNGSEONG_COUNT + jung) * JONGSEONG_COUNT +
+              jong,
+          );
+          visit(finalStart + jongRoman.length, syllables + syllable);
+        }
+      }
+    }
+
+    if (results.length === found) deadEnds.add(position);
+  };
+
+  visit(0, "");
+  return results;
+}
+
+/**
+ * 로마자 검색어 → 한글 후보 (국어의 로마자 표기법 기준)
+ * 공백/하이픈으로 나뉜 단어는 각각 변환한 뒤 첫 번째 단어의 후보 순서대로 조합합니다.
+ * 한글로 나눌 수 없는 단어(영문 단어 등)는 그대로 두고 공백으로 구분합니다.
+ * @param text 로마자 검색어
+ * @param limit 최대 후보 수
+ * @returns 한글 후보 (음절 수가 적은 순, 변환할 수 있는 단어가 없으면 빈 배열)
+ *
+ * @example
+ * romanizedToHangul("gyeongbokgung") // ["경복궁", "계옹복궁"]
+ * romanizedToHangul("hanok") // ["한옥", "하녹"]
+ * romanizedToHangul("namsan tower") // ["남산 tower"]
+ */
+export function romanizedToHangul(text: string, limit = 5): string[] {
+  if (!isRomanizedQuery(text)) return [];
+
+  const words = text
+    .toLowerCase()
+    .split(/[\s-]+/)
+    .filter(Boolean);
+
+  let candidates = [""];
+  let converted = false;
+  // 직전 단어를 변환하지 못했는지 여부 (다음 단어와 공백으로 구분)
+  let afterRawWord = false;
+
+  for (const word of words) {
+    const parsed =
+      word.length > MAX_ROMAN_WORD_LENGTH
+        ? []
+        : parseRomanWord(word).sort((a, b) => a.length - b.length);
+
+    if (parsed.length === 0) {
+      candidates = candidates.map((prefix) =>
+        prefix ? `${prefix} ${word}` : word,
+      );
+      afterRawWord = true;
+      continue;
+    }
+
+    const separator = afterRawWord ? " " : "";
+    candidates = candidates
+      .flatMap((prefix) =>
+        parsed.map((syllables) =>
+          prefix ? prefix + separator + syllables : syllables,
+        ),
+      )
+      .slice(0, MAX_ROMAN_CANDIDATES);
+    converted = true;
+    afterRawWord = false;
+  }
+
+  return converted ? candidates.slice(0, limit) : [];
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { splitHighlight } from "@/lib/utils/highlight";
+
+describe("splitHighlight", () => {
+  it("highlights a literal match regardless of case", () => {
+    expect(splitHighlight("N Seoul Tower", "seoul")).toEqual([
+      { text: "N ", match: false },
+      { text: "Seoul", match: true },
+      { text: " Tower", match: false },
+    ]);
+  });
+
+  it("highlights a match that ignores whitespace", () => {
+    expect(splitHighlight("경복궁", "경복 궁")).toEqual([
+      { text: "경복궁", match: true },
+    ]);
+    expect(splitHighlight("해운대 해수욕장", "대해수")).toEqual([
+      { text: "해운", match: false },
+      { text: "대 해수", match: true },
+      { text: "욕장", match: false },
+    ]);
+  });
+
+  it("maps an initial consonant match back to the original characters", () => {
+    expect(splitHighlight("경복궁", "ㄱㅂ")).toEqual([
+      { text: "경복", match: true },
+      { text: "궁", match: false },
+    ]);
+    expect(splitHighlight("해운대 해수욕장", "ㅎㅅㅇㅈ")).toEqual([
+      { text: "해운대 ", match: false },
+      { text: "해수욕장", match: true },
+    ]);
+  });
+
+  it("maps a romanized match back to the Hangul syllables", () => {
+    expect(splitHighlight("설악산 국립공원", "seorak")).toEqual([
+      { text: "설악", match: true },
+      { text: "산 국립공원", match: false },
+    ]);
+  });
+
+  it("returns the whole text when nothing matches", () => {
+    expect(splitHighlight("경복궁", "부산")).toEqual([
+      { text: "경복궁", match: false },
+    ]);
+    expect(splitHighlight("경복궁", "  ")).toEqual([
+      { text: "경복궁", match: false },
+    ]);
+  });
+});
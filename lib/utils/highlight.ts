@@ -0,0 +1,162 @@
+/**
+ * @file highlight.ts
+ * @description 검색어 일치 구간 강조 유틸리티
+ *
+ * 검색어 자동완성 등에서 제목 중 검색어와 일치하는 부분을 강조 표시할 수 있도록
+ * 문자열을 일치/불일치 구간으로 나눕니다.
+ *
+ * 핵심 구현 로직:
+ * - 대소문자 구분 없이 비교 (영문 제목)
+ * - 그대로 일치하지 않으면 검색어 해석(lib/api/tour-query.ts matchTourTitle)과 같은 순서로 다시 비교
+ *   공백 무시 → 초성 → 로마자
+ * - 정규화한 문자열(공백 제거, 로마자 비교 키)에서 찾은 위치는 원래 문자 위치로 되돌려 강조
+ *   (예: "ㄱㅂㄱ" → 경복궁, "경복 궁" → 경복궁, "seorak" → 설악산의 "설악")
+ * - 처음 일치하는 구간 하나만 강조
+ * - 일치하지 않으면 전체를 불일치 구간 하나로 반환
+ *
+ * @dependencies
+ * - lib/utils/hangul.ts: 초성/로마자 비교
+ */
+
+import {
+  findChoseongMatch,
+  isChoseongQuery,
+  isRomanizedQuery,
+  toRomanKey,
+} from "@/lib/utils/hangul";
+
+/**
+ * 강조 구간
+ */
+export interface HighlightPart {
+  /** 구간 문자열 */
+  text: string;
+  /** 검색어와 일치하는 구간인지 여부 */
+  match: boolean;
+}
+
+/**
+ * 공백 제거 + 소문자 (문자 하나)
+ */
+function toComparableChar(char: string): string {
+  return /\s/.test(char) ? "" : char.toLowerCase();
+}
+
+/**
+ * 정규화한 문자열의 일치 위치 → 원래 문자 위치
+ * 문자마다 정규화한 결과를 이어 붙인 문자열에서 [index, index + length) 구간이 걸친 문자 범위를 찾습니다.
+ * @param chars 원래 문자 목록 (코드 포인트 단위)
+ * @param normalize 문자 하나의 정규화 (빈 문자열이면 비교에서 제외된 문자)
+ * @param index 정규화한 문자열 기준 일치 시작 위치 (코드 포인트 단위)
+ * @param length 정규화한 문자열 기준 일치 길이 (코드 포인트 단위)
+ * @returns 원래 문자 목록 기준 [시작, 끝) 또는 null
+ */
+function mapNormalizedRange(
+  chars: string[],
+  normalize: (char: string) => string,
+  index: number,
+  length: number,
+): [number, number] | null {
+  let offset = 0;
+  let start = -1;
+
+  for (let i = 0; i < chars.length; i++) {
+    const size = Array.from(normalize(chars[i])).length;
+    if (size === 0) continue;
+
+    offset += size;
+    if (start < 0 && offset > index) start = i;
+    if (start >= 0 && offset >= index + length) return [start, i + 1];
+  }
+
+  return null;
+}
+
+/**
+ * 그대로 일치하지 않는 검색어의 원래 문자 기준 일치 범위 (공백 무시, 초성, 로마자)
+ */
+function findNormalizedRange(
+  chars: string[],
+  keyword: string,
+): [number, number] | null {
+  const text = chars.join("");
+
+  // 공백 무시 (예: "경복 궁" → 경복궁)
+  const comparable = Array.from(keyword).map(toComparableChar).join("");
+  const comparableText = chars.map(toComparableChar).join("");
+  const comparableIndex = comparable ? comparableText.indexOf(comparable) : -1;
+  if (comparableIndex >= 0) {
+    return mapNormalizedRange(
+      chars,
+      toComparableChar,
+      Array.from(comparableText.slice(0, comparableIndex)).length,
+      Array.from(comparable).length,
+    );
+  }
+
+  // 초성 (예: "ㄱㅂㄱ" → 경복궁, 공백을 제거한 문자열 기준 위치)
+  if (isChoseongQuery(keyword)) {
+    const index = findChoseongMatch(text, keyword);
+    return index >= 0
+      ? mapNormalizedRange(
+          chars,
+          toComparableChar,
+          index,
+          Array.from(keyword.replace(/\s+/g, "")).length,
+        )
+      : null;
+  }
+
+  // 로마자 (예: "seorak" → 설악산의 "설악", 로마자 비교 키 기준 위치)
+  if (isRomanizedQuery(keyword)) {
+    const key = toRomanKey(keyword);
+    const index = key ? toRomanKey(text).indexOf(key) : -1;
+    return index >= 0
+      ? mapNormalizedRange(chars, toRomanKey, index, key.length)
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * 문자열을 검색어 일치 구간으로 나누기
+ * @param text 대상 문자열 (예: 제목)
+ * @param query 검색어
+ * @returns 구간 목록 (빈 구간 제외)
+ *
+ * @example
+ * splitHighlight("해운대해수욕장", "해수")
+ * // [{ text: "해운대", match: false }, { text: "해수", match: true }, { text: "욕장", match: false }]
+ * splitHighlight("경복궁", "ㄱㅂ")
+ * // [{ text: "경복", match: true }, { text: "궁", match: false }]
+ */
+export function splitHighlight(text: string, query: string): HighlightPart[] {
+  const keyword = query.trim();
+  if (!keyword) {
+    return [{ text, match: false }];
+  }
+
+  const index = text.toLowerCase().indexOf(keyword.toLowerCase());
+  if (index >= 0) {
+    const end = index + keyword.length;
+    return [
+      { text: text.slice(0, index), match: false },
+      { text: text.slice(index, end), match: true },
+      { text: text.slice(end), match: false },
+    ].filter((part) => part.text.length > 0);
+  }
+
+  const chars = Array.from(text);
+  const range = findNormalizedRange(chars, keyword);
+  if (!range) {
+    return [{ text, match: false }];
+  }
+
+  const [start, end] = range;
+  return [
+    { text: chars.slice(0, start).join(""), match: false },
+    { text: chars.slice(start, end).join(""), match: true },
+    { text: chars.slice(end).join(""), match: false },
+  ].filter((part) => part.text.length > 0);
+}
@@ -0,0 +1,31 @@
+/**
+ * @file html.ts
+ * @description 한국관광공사 API 응답의 HTML 문자열 처리 유틸리티
+ *
+ * detailIntro2, detailInfo2 등의 필드 값에는 <br>, <a> 태그가 섞여 있으므로
+ * 화면에는 텍스트만 표시하고 링크는 URL로 분리합니다.
+ */
+
+/**
+ * HTML 태그 제거 (<br>은 줄바꿈으로 변환)
+ */
+export function stripHtml(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * URL 추출 (a 태그의 href 또는 본문의 URL)
+ * @returns http(s) URL 또는 null
+ */
+export function extractUrl(value: string): string | null {
+  const match =
+    value.match(/href=["']([^"']+)["']/i) ??
+    value.match(/https?:\/\/[^\s<"']+/i);
+  const url = match ? (match[1] ?? match[0]) : null;
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
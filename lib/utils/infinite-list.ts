@@ -0,0 +1,115 @@
+/**
+ * @file infinite-list.ts
+ * @description 무한 스크롤 목록 유틸리티
+ *
+ * 홈페이지 무한 스크롤 모드에서 페이지를 이어 붙이고,
+ * 상세 페이지에 다녀왔을 때 불러온 목록과 스크롤 위치를 복원하기 위한 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 목록 이어 붙이기 (appendUniqueTours - contentid 기준 중복 제거)
+ * 2. 목록 스냅샷 저장/조회 (saveTourListSnapshot, readTourListSnapshot)
+ *
+ * 핵심 구현 로직:
+ * - 목록 API는 페이지 사이에 데이터가 수정되면 같은 항목을 다시 반환할 수 있으므로 먼저 불러온 항목을 유지
+ * - 스냅샷은 sessionStorage에 하나만 보관 (탭을 닫으면 삭제, 검색 조건 키가 다르면 사용하지 않음)
+ * - 오래된 스냅샷(TOUR_LIST_SNAPSHOT_TTL)은 사용하지 않음 (목록 캐시 TTL과 동일)
+ * - 저장 공간 부족, 비공개 모드 등 sessionStorage 오류는 무시
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourItem 타입
+ */
+
+import type { TourItem } from "@/lib/types/tour";
+
+/**
+ * 스냅샷 저장 키 (sessionStorage)
+ */
+const TOUR_LIST_SNAPSHOT_KEY = "my-tour:list-snapshot";
+
+/**
+ * 스냅샷 유효 시간 (10분)
+ */
+const TOUR_LIST_SNAPSHOT_TTL = 10 * 60 * 1000;
+
+/**
+ * 무한 스크롤 목록 스냅샷
+ */
+export interface TourListSnapshot {
+  /** 검색 조건 키 (예: URL 쿼리 문자열) */
+  key: string;
+  /** 불러온 관광지 목록 */
+  tours: TourItem[];
+  /** 전체 결과 개수 */
+  totalCount: number | null;
+  /** 마지막으로 불러온 페이지 */
+  page: number;
+  /** 스크롤 위치 (px) */
+  scrollY: number;
+  /** 저장 시각 (Date.now()) */
+  savedAt: number;
+}
+
+/**
+ * 목록 이어 붙이기 (이미 있는 contentid는 제외)
+ * @param current 현재 목록
+ * @param next 새로 불러온 페이지
+ * @returns 새 배열 (원본 배열은 변경하지 않음)
+ */
+export function appendUniqueTours(
+  current: TourItem[],
+  next: TourItem[],
+): TourItem[] {
+  const seen = new Set(current.map((tour) => tour.contentid));
+  const appended = next.filter((tour) => {
+    if (seen.has(tour.contentid)) return false;
+    seen.add(tour.contentid);
+    return true;
+  });
+
+  return appended.length > 0 ? [...current, ...appended] : current;
+}
+
+/**
+ * 목록 스냅샷 저장
+ * @param snapshot 스냅샷 (savedAt 제외)
+ */
+export function saveTourListSnapshot(
+  snapshot: Omit<TourListSnapshot, "savedAt">,
+): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.sessionStorage.setItem(
+      TOUR_LIST_SNAPSHOT_KEY,
+      JSON.stringify({ ...snapshot, savedAt: Date.now() }),
+    );
+  } catch (error) {
+    console.warn("목록 스냅샷 저장 실패:", error);
+  }
+}
+
+/**
+ * 목록 스냅샷 조회
+ * @param key 검색 조건 키
+ * @returns 같은 검색 조건의 유효한 스냅샷 또는 null
+ */
+export function readTourListSnapshot(key: string): TourListSnapshot | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const raw = window.sessionStorage.getItem(TOUR_LIST_SNAPSHOT_KEY);
+    if (!raw) return null;
+
+    const snapshot = JSON.parse(raw) as TourListSnapshot;
+    if (
+      snapshot.key !== key ||
+      !Array.isArray(snapshot.tours) ||
+      Date.now() - snapshot.savedAt > TOUR_LIST_SNAPSHOT_TTL
+    ) {
+      return null;
+    }
+    return snapshot;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * @file lodging.ts
+ * @description 숙박 정보 파싱 및 필터링 유틸리티
+ *
+ * detailIntro2 숙박 타입(contentTypeId "32") 응답의 자유 형식 문자열에서
+ * 입실/퇴실 시각, 주차/취사 가능 여부, 객실 수를 추출하고 숙박 검색 조건과 비교합니다.
+ *
+ * 주요 기능:
+ * 1. 숙박 정보 추출 (parseLodgingInfo)
+ * 2. 숙박 검색 조건 일치 여부 확인 (matchesLodgingFilters)
+ * 3. 숙박 검색 조건 활성 여부 확인 (hasLodgingFilters)
+ *
+ * 핵심 구현 로직:
+ * - 시각: "15:00", "15시", "오후 3시", "PM 3:00" 형식 처리
+ * - 가능 여부: "가능/있음/Y" → true, "불가/없음/N" → false, 그 외 undefined
+ * - 정보가 없는(undefined) 항목은 해당 조건이 설정되면 일치하지 않는 것으로 처리
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourIntro, LodgingInfo, LodgingFilters 타입
+ */
+
+import type { LodgingFilters, LodgingInfo, TourIntro } from "@/lib/types/tour";
+
+/**
+ * 숙박 콘텐츠 타입 ID
+ */
+export const LODGING_CONTENT_TYPE_ID = "32";
+
+/**
+ * 시각 문자열 → 시(hour, 소수 포함)
+ * @returns 0~24 사이 값 또는 undefined (파싱 실패)
+ */
+export function parseHour(value?: string): number | undefined {
+  if (!value) return undefined;
+
+  const text = value.replace(/\s+/g, " ").trim();
+  const match = text.match(/(\d{1,2})\s*(?::|시)\s*(\d{1,2})?/);
+  if (!match) return undefined;
+
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+
+  if (/오후|PM/i.test(text) && hour < 12) {
+    hour += 12;
+  } else if (/오전|AM/i.test(text) && hour === 12) {
+    hour = 0;
+  }
+
+  if (hour > 24 || minute >= 60) return undefined;
+  return hour + minute / 60;
+}
+
+/**
+ * 가능 여부 문자열 → boolean
+ * @returns true(가능), false(불가), undefined(정보 없음/판단 불가)
+ */
+export function parseAvailability(value?: string): boolean | undefined {
+  if (!value) return undefined;
+
+  const text = value.trim();
+  if (/불가|없음|안\s*됨|^N$/i.test(text)) return false;
+  if (/가능|있음|^Y$|\d+\s*대/i.test(text)) return true;
+  return undefined;
+}
+
+/**
+ * 객실 수 문자열 → 숫자 ("32실", "객실 20개" 등)
+ */
+export function parseRoomCount(value?: string): number | undefined {
+  if (!value) return undefined;
+
+  const match = value.replace(/,/g, "").match(/\d+/);
+  return match ? Number(match[0]) : undefined;
+}
+
+/**
+ * detailIntro2 숙박 응답 → LodgingInfo
+ * @param intro 소개 정보 (숙박 타입)
+ */
+export function parseLodgingInfo(intro: TourIntro): LodgingInfo {
+  return {
+    checkInTime: intro.checkintime,
+    checkOutTime: intro.checkouttime,
+    checkInHour: parseHour(intro.checkintime),
+    checkOutHour: parseHour(intro.checkouttime),
+    parking: parseAvailability(intro.parkinglodging),
+    cooking: parseAvailability(intro.chkcooking),
+    roomCount: parseRoomCount(intro.roomcount),
+    roomType: intro.roomtype,
+    reservation: intro.reservationlodging,
+    reservationUrl: intro.reservationurl,
+  };
+}
+
+/**
+ * 숙박 검색 조건이 하나라도 설정되어 있는지 확인
+ */
+export function hasLodgingFilters(filters: LodgingFilters): boolean {
+  return (
+    !!filters.parking ||
+    !!filters.cooking ||
+    filters.minRooms !== undefined ||
+    filters.checkInBy !== undefined ||
+    filters.checkOutFrom !== undefined
+  );
+}
+
+/**
+ * 숙박 정보가 검색 조건에 일치하는지 확인
+ * @param info 숙박 정보 (null이면 조회 실패)
+ * @param filters 숙박 검색 조건
+ */
+export function matchesLodgingFilters(
+  info: LodgingInfo | null,
+  filters: LodgingFilters,
+): boolean {
+  if (!hasLodgingFilters(filters)) return true;
+  if (!info) return false;
+
+  if (filters.parking && info.parking !== true) return false;
+  if (filters.cooking && info.cooking !== true) return false;
+  if (
+    filters.minRooms !== undefined &&
+    (info.roomCount === undefined || info.roomCount < filters.minRooms)
+  ) {
+    return false;
+  }
+  if (
+    filters.checkInBy !== undefined &&
+    (info.checkInHour === undefined || info.checkInHour > filters.checkInBy)
+  ) {
+    return false;
+  }
+  if (
+    filters.checkOutFrom !== undefined &&
+    (info.checkOutHour === undefined || info.checkOutHour < filters.checkOutFrom)
+  ) {
+    return false;
+  }
+
+  return true;
+}
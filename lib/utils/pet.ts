@@ -0,0 +1,126 @@
+/**
+ * @file pet.ts
+ * @description 반려동물 동반 정보 파싱 유틸리티
+ *
+ * detailPetTour2 응답의 자유 형식 문자열에서 동반 가능 구역, 동반 가능 크기,
+ * 필요사항/구비 시설/제공 품목 목록을 추출합니다.
+ *
+ * 주요 기능:
+ * 1. 반려동물 동반 정책 추출 (parsePetPolicy)
+ * 2. 반려동물 동반 가능 여부 확인 (isPetAccepted)
+ *
+ * 핵심 구현 로직:
+ * - 동반 구역: "불가" → none, "일부" → partial, "전 구역/모든 구역/전체" → all, 그 외 undefined
+ * - 크기: "소형/중형/대형" 포함 여부로 판단, "모든 견종/크기 무관" 등은 전체 크기
+ * - 목록: 쉼표, 가운뎃점, 줄바꿈(<br>), 슬래시 기준으로 분리
+ * - 동반 정보가 등록되어 있고 동반 불가가 아니면 동반 가능으로 처리
+ *
+ * @dependencies
+ * - lib/types/tour.ts: PetTourInfo, PetPolicy, PetSize, PetAccompanyArea 타입
+ * - lib/utils/html.ts: stripHtml 함수
+ */
+
+import { stripHtml } from "@/lib/utils/html";
+import type {
+  PetAccompanyArea,
+  PetPolicy,
+  PetSize,
+  PetTourInfo,
+} from "@/lib/types/tour";
+
+/**
+ * 반려견 크기 → 표시명
+ */
+export const PET_SIZE_LABELS: Record<PetSize, string> = {
+  small: "소형견",
+  medium: "중형견",
+  large: "대형견",
+};
+
+/**
+ * 동반 가능 구역 → 표시명
+ */
+export const PET_AREA_LABELS: Record<PetAccompanyArea, string> = {
+  all: "전 구역 동반 가능",
+  partial: "일부 구역 동반 가능",
+  none: "동반 불가",
+};
+
+/**
+ * 동반 유형 문자열 → 동반 가능 구역
+ */
+export function parsePetAccompanyArea(
+  value?: string,
+): PetAccompanyArea | undefined {
+  if (!value) return undefined;
+
+  const text = value.replace(/\s+/g, "");
+  if (/불가/.test(text)) return "none";
+  if (/일부/.test(text)) return "partial";
+  if (/전구역|모든구역|전체|가능/.test(text)) return "all";
+  return undefined;
+}
+
+/**
+ * 동반 가능 동물 문자열 → 크기 목록
+ * @returns 크기 순(소형 → 대형) 배열, 판단 불가 시 빈 배열
+ */
+export function parsePetSizes(value?: string): PetSize[] {
+  if (!value) return [];
+
+  const text = value.replace(/\s+/g, "");
+  if (/모든(견종|크기)|전견종|크기무관|제한없음/.test(text)) {
+    return ["small", "medium", "large"];
+  }
+
+  return (Object.keys(PET_SIZE_LABELS) as PetSize[]).filter((size) =>
+    text.includes(PET_SIZE_LABELS[size].slice(0, 2)),
+  );
+}
+
+/**
+ * 목록 문자열 → 항목 배열 (빈 항목/중복 제거)
+ */
+export function splitPetItems(value?: string): string[] {
+  if (!value) return [];
+
+  const items = stripHtml(value)
+    .split(/[,，·\n/]+/)
+    .map((item) => item.replace(/^[-*\s]+/, "").trim())
+    .filter((item) => item.length > 0 && item !== "없음");
+
+  return Array.from(new Set(items));
+}
+
+/**
+ * detailPetTour2 응답 → PetPolicy
+ * @param info 반려동물 동반 여행 정보
+ */
+export function parsePetPolicy(info: PetTourInfo): PetPolicy {
+  const area = parsePetAccompanyArea(info.acmpyTypeCd);
+
+  return {
+    accepted: area !== "none",
+    area,
+    areaText: info.acmpyTypeCd,
+    sizes: parsePetSizes(info.acmpyPsblCpam),
+    allowedAnimals: info.acmpyPsblCpam,
+    requiredItems: splitPetItems(info.acmpyNeedMtr),
+    facilities: splitPetItems(info.relaPosesFclty),
+    providedItems: [
+      ...splitPetItems(info.relaFrnshPrdlst),
+      ...splitPetItems(info.relaRntlPrdlst),
+      ...splitPetItems(info.relaPurcPrdlst),
+    ],
+    accidentPreparation: info.relaAcdntRiskMtr,
+    etc: info.etcAcmpyInfo,
+  };
+}
+
+/**
+ * 반려동물 동반 가능 여부 확인
+ * @param policy 동반 정책 (null이면 미등록 또는 조회 실패)
+ */
+export function isPetAccepted(policy: PetPolicy | null | undefined): boolean {
+  return !!policy && policy.accepted;
+}
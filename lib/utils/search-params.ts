@@ -0,0 +1,277 @@
+/**
+ * @file search-params.ts
+ * @description 홈페이지 검색 상태 ↔ URL 쿼리 파라미터 변환 유틸리티
+ *
+ * 홈페이지의 검색어, 필터, 정렬, 페이지를 URL 쿼리 파라미터로 표현하여
+ * 새로고침, 뒤로/앞으로 가기, 검색 링크 공유 시에도 같은 결과를 보여줄 수 있도록 합니다.
+ * (예: "/?area=6&type=15&page=3" → 부산 축제/공연/행사 3페이지, "/?area=32,35&type=12,28" → 강원+경북 관광지/레포츠)
+ *
+ * 쿼리 파라미터:
+ * - q: 검색어
+ * - area, sigungu: 지역 코드(쉼표로 여러 개), 시/군/구 코드
+ * - type: 관광 타입 (contentTypeId, 쉼표로 여러 개)
+ * - cat1, cat2, cat3: 서비스 분류 (대/중/소분류)
+ * - pet: 반려동물 동반 가능 장소만 ("1")
+ * - sort: 정렬 (latest, name, distance)
+ * - photo: 대표 이미지가 있는 장소만 ("1")
+ * - page: 페이지 번호
+ *
+ * 핵심 구현 로직:
+ * - 잘못된 값(알 수 없는 관광 타입, 숫자가 아닌 코드/페이지 등)은 무시하고 기본값 사용
+ * - 하위 조건은 상위 조건이 있을 때만 유효 (sigungu는 지역 하나, cat2는 cat1, cat3은 cat2 필요)
+ * - 여러 개 선택한 지역/관광 타입은 중복을 제거하고 최대 TOUR_FANOUT_MAX_SELECTIONS개까지 사용
+ * - 기본값(정렬 latest, 페이지 1)과 빈 값은 URL에 포함하지 않음
+ * - 파라미터 순서를 고정하여 같은 상태는 항상 같은 URL이 되도록 함
+ * - 저장 검색 이름은 검색어, 지역, 관광 타입으로 생성 (예: "제주 + 음식점")
+ *
+ * @dependencies
+ * - lib/api/tour-fanout.ts: TOUR_FANOUT_MAX_SELECTIONS
+ * - lib/constants/area-codes.ts: getAreaName
+ * - lib/constants/content-types.ts: isValidContentTypeId, getContentTypeName
+ * - lib/constants/sort-options.ts: isSortOption
+ * - lib/types/tour.ts: ContentTypeId, SortOption 타입
+ */
+
+import { TOUR_FANOUT_MAX_SELECTIONS } from "@/lib/api/tour-fanout";
+import { getAreaName } from "@/lib/constants/area-codes";
+import {
+  getContentTypeName,
+  isValidContentTypeId,
+} from "@/lib/constants/content-types";
+import { isSortOption } from "@/lib/constants/sort-options";
+import type { ContentTypeId, SortOption } from "@/lib/types/tour";
+
+/**
+ * 홈페이지 검색 상태
+ */
+export interface HomeSearchState {
+  /** 검색어 */
+  keyword?: string;
+  /** 지역 코드 (여러 개 선택 가능) */
+  areaCodes?: string[];
+  /** 시/군/구 코드 (지역을 하나만 선택한 경우) */
+  sigunguCode?: string;
+  /** 관광 타입 (여러 개 선택 가능) */
+  contentTypeIds?: ContentTypeId[];
+  /** 서비스 분류 (대/중/소분류) */
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
+  /** 반려동물 동반 가능 장소만 */
+  petFriendly?: boolean;
+  /** 대표 이미지가 있는 장소만 */
+  imageOnly?: boolean;
+  /** 정렬 */
+  sort: SortOption;
+  /** 페이지 번호 (1부터) */
+  page: number;
+}
+
+/**
+ * 쿼리 파라미터 이름
+ */
+export const HOME_SEARCH_PARAMS = {
+  keyword: "q",
+  areaCodes: "area",
+  sigunguCode: "sigungu",
+  contentTypeIds: "type",
+  cat1: "cat1",
+  cat2: "cat2",
+  cat3: "cat3",
+  petFriendly: "pet",
+  imageOnly: "photo",
+  sort: "sort",
+  page: "page",
+} as const;
+
+/**
+ * 기본 검색 상태
+ */
+export const DEFAULT_HOME_SEARCH_STATE: HomeSearchState = {
+  sort: "latest",
+  page: 1,
+};
+
+/**
+ * 쿼리 파라미터 읽기 (URLSearchParams, Next.js ReadonlyURLSearchParams 모두 허용)
+ */
+interface SearchParamsReader {
+  get(name: string): string | null;
+}
+
+/**
+ * 코드 값 검증 (지역/시군구 코드는 숫자, 분류 코드는 영문 대문자+숫자)
+ */
+function parseCode(value: string | null, pattern: RegExp): string | undefined {
+  const code = value?.trim();
+  return code && pattern.test(code) ? code : undefined;
+}
+
+/**
+ * 쉼표로 구분된 값 목록 읽기 (유효한 값만, 중복 제거, 최대 선택 수까지)
+ */
+function parseList<T extends string>(
+  value: string | null,
+  isValid: (item: string) => item is T,
+): T[] | undefined {
+  const items = Array.from(
+    new Set(
+      (value ?? "")
+        .split(",")
+        .map((item) => item.trim())
+        .filter(isValid),
+    ),
+  ).slice(0, TOUR_FANOUT_MAX_SELECTIONS);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * 지역/시군구 코드 여부 (숫자)
+ */
+function isAreaCode(value: string): value is string {
+  return /^\d+$/.test(value);
+}
+
+/**
+ * URL 쿼리 파라미터 → 검색 상태
+ * @param params 쿼리 파라미터
+ * @returns 검색 상태 (잘못된 값은 무시)
+ */
+export function parseHomeSearchParams(
+  params: SearchParamsReader,
+): HomeSearchState {
+  const keyword = params.get(HOME_SEARCH_PARAMS.keyword)?.trim() || undefined;
+
+  const areaCodes = parseList(
+    params.get(HOME_SEARCH_PARAMS.areaCodes),
+    isAreaCode,
+  );
+  const sigunguCode =
+    areaCodes?.length === 1
+      ? parseCode(params.get(HOME_SEARCH_PARAMS.sigunguCode), /^\d+$/)
+      : undefined;
+
+  const contentTypeIds = parseList(
+    params.get(HOME_SEARCH_PARAMS.contentTypeIds),
+    isValidContentTypeId,
+  );
+
+  const cat1 = parseCode(params.get(HOME_SEARCH_PARAMS.cat1), /^[A-Z0-9]+$/);
+  const cat2 = cat1
+    ? parseCode(params.get(HOME_SEARCH_PARAMS.cat2), /^[A-Z0-9]+$/)
+    : undefined;
+  const cat3 = cat2
+    ? parseCode(params.get(HOME_SEARCH_PARAMS.cat3), /^[A-Z0-9]+$/)
+    : undefined;
+
+  const sort = params.get(HOME_SEARCH_PARAMS.sort);
+  const page = Number(params.get(HOME_SEARCH_PARAMS.page));
+
+  return {
+    keyword,
+    areaCodes,
+    sigunguCode,
+    contentTypeIds,
+    cat1,
+    cat2,
+    cat3,
+    petFriendly:
+      params.get(HOME_SEARCH_PARAMS.petFriendly) === "1" || undefined,
+    imageOnly: params.get(HOME_SEARCH_PARAMS.imageOnly) === "1" || undefined,
+    sort: sort && isSortOption(sort) ? sort : DEFAULT_HOME_SEARCH_STATE.sort,
+    page:
+      Number.isInteger(page) && page > 0
+        ? page
+        : DEFAULT_HOME_SEARCH_STATE.page,
+  };
+}
+
+/**
+ * 검색 상태 → URL 쿼리 파라미터
+ * 빈 값과 기본값은 제외합니다.
+ * @param state 검색 상태
+ */
+export function createHomeSearchParams(
+  state: Partial<HomeSearchState>,
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  const keyword = state.keyword?.trim();
+  if (keyword) params.set(HOME_SEARCH_PARAMS.keyword, keyword);
+  if (state.areaCodes?.length) {
+    params.set(HOME_SEARCH_PARAMS.areaCodes, state.areaCodes.join(","));
+    if (state.areaCodes.length === 1 && state.sigunguCode) {
+      params.set(HOME_SEARCH_PARAMS.sigunguCode, state.sigunguCode);
+    }
+  }
+  if (state.contentTypeIds?.length) {
+    params.set(
+      HOME_SEARCH_PARAMS.contentTypeIds,
+      state.contentTypeIds.join(","),
+    );
+  }
+  if (state.cat1) {
+    params.set(HOME_SEARCH_PARAMS.cat1, state.cat1);
+    if (state.cat2) {
+      params.set(HOME_SEARCH_PARAMS.cat2, state.cat2);
+      if (state.cat3) params.set(HOME_SEARCH_PARAMS.cat3, state.cat3);
+    }
+  }
+  if (state.petFriendly) params.set(HOME_SEARCH_PARAMS.petFriendly, "1");
+  if (state.imageOnly) params.set(HOME_SEARCH_PARAMS.imageOnly, "1");
+  if (state.sort && state.sort !== DEFAULT_HOME_SEARCH_STATE.sort) {
+    params.set(HOME_SEARCH_PARAMS.sort, state.sort);
+  }
+  if (state.page && state.page > DEFAULT_HOME_SEARCH_STATE.page) {
+    params.set(HOME_SEARCH_PARAMS.page, String(state.page));
+  }
+
+  return params;
+}
+
+/**
+ * 검색 상태 → 홈페이지 링크 (예: "/?area=6&type=15&page=3")
+ * 여러 값을 구분하는 쉼표는 인코딩하지 않습니다. (예: "/?area=32,35")
+ * @param state 검색 상태
+ */
+export function getHomeSearchHref(state: Partial<HomeSearchState>): string {
+  const query = createHomeSearchParams(state).toString().replace(/%2C/g, ",");
+  return query ? `/?${query}` : "/";
+}
+
+/**
+ * 검색 상태 → 저장 검색 조건 (페이지 번호를 제외한 쿼리 문자열, 예: "area=39&type=39")
+ * 거리순 정렬은 위치 기반 모드 전용이므로 최신순으로 저장합니다.
+ * @param state 검색 상태
+ */
+export function getSavedSearchQuery(state: Partial<HomeSearchState>): string {
+  return getHomeSearchHref({
+    ...state,
+    sort: state.sort === "distance" ? "latest" : state.sort,
+    page: 1,
+  }).replace(/^\/\??/, "");
+}
+
+/**
+ * 검색 상태 → 표시 이름 (예: "제주 + 음식점", "\"해변\" + 강원·경북")
+ * 저장 검색 목록에 표시합니다.
+ * @param state 검색 상태
+ */
+export function getHomeSearchLabel(state: Partial<HomeSearchState>): string {
+  const keyword = state.keyword?.trim();
+  const areaNames = (state.areaCodes ?? [])
+    .map((code) => getAreaName(code) ?? code)
+    .join("·");
+  const typeNames = (state.contentTypeIds ?? [])
+    .map((id) => getContentTypeName(id) ?? id)
+    .join("·");
+
+  const parts = [
+    keyword ? `"${keyword}"` : "",
+    areaNames,
+    typeNames,
+    state.petFriendly ? "반려동물 동반" : "",
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(" + ") : "전체 관광지";
+}
@@ -0,0 +1,115 @@
+/**
+ * @file tour-mock-server.mjs
+ * @description 한국관광공사 KorService2 로컬 목 서버
+ *
+ * fixtures/tour-api의 카세트 파일을 KorService2와 같은 형태의 HTTP 응답으로 제공합니다.
+ * TOUR_API_MODE=mock에서 사용합니다.
+ *
+ * 사용법:
+ *   npm run mock:tour
+ *
+ * 환경변수:
+ * - TOUR_API_MOCK_PORT: 포트 (기본값: 4010)
+ * - TOUR_API_FIXTURES_DIR: 카세트 디렉터리 (기본값: fixtures/tour-api)
+ *
+ * 주의사항:
+ * - 카세트 이름 규칙은 lib/api/tour-cassette.ts의 getCassetteName과 동일하게 유지해야 합니다.
+ * - 요청 경로의 마지막 세그먼트를 엔드포인트 이름으로 사용합니다.
+ *   (예: /B551011/KorService2/areaCode2 → areaCode2)
+ */
+
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+const PORT = Number(process.env.TOUR_API_MOCK_PORT || 4010);
+const FIXTURES_DIR =
+  process.env.TOUR_API_FIXTURES_DIR ||
+  path.join(process.cwd(), "fixtures", "tour-api");
+
+const IGNORED_PARAMS = ["serviceKey", "MobileOS", "MobileApp", "_type"];
+const CASSETTE_NAME_MAX_LENGTH = 200;
+const CASSETTE_NAME_PREFIX_LENGTH = 120;
+
+/**
+ * 요청 파라미터로 카세트 파일 이름 생성 (tour-cassette.ts와 동일한 규칙)
+ */
+function getCassetteName(searchParams) {
+  const entries = [...searchParams.entries()]
+    .filter(([key]) => !IGNORED_PARAMS.includes(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  if (entries.length === 0) {
+    return "index";
+  }
+
+  const name = entries
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+    )
+    .join("&");
+
+  if (name.length <= CASSETTE_NAME_MAX_LENGTH) {
+    return name;
+  }
+
+  const hash = createHash("sha256").update(name).digest("hex");
+  return `${name.slice(0, CASSETTE_NAME_PREFIX_LENGTH)}~${hash}`;
+}
+
+/**
+ * 카세트 파일 읽기 (없으면 null)
+ */
+async function readCassetteFile(filePath) {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8"));
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const endpoint = url.pathname.split("/").filter(Boolean).pop();
+
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+
+  if (!endpoint) {
+    res.writeHead(404);
+    res.end(JSON.stringify({ message: "endpoint required" }));
+    return;
+  }
+
+  try {
+    const name = getCassetteName(url.searchParams);
+    const cassette =
+      (await readCassetteFile(path.join(FIXTURES_DIR, endpoint, `${name}.json`))) ??
+      (await readCassetteFile(path.join(FIXTURES_DIR, endpoint, "_default.json")));
+
+    if (!cassette) {
+      console.warn(`[tour-mock] 카세트 없음: ${endpoint}/${name}.json`);
+      res.writeHead(404);
+      res.end(JSON.stringify({ message: "cassette not found" }));
+      return;
+    }
+
+    console.log(`[tour-mock] ${endpoint}?${url.searchParams.toString()}`);
+    res.writeHead(cassette.status ?? 200);
+    res.end(JSON.stringify(cassette.body));
+  } catch (error) {
+    console.error(`[tour-mock] 카세트 읽기 실패 (${endpoint}):`, error);
+    res.writeHead(500);
+    res.end(JSON.stringify({ message: "cassette read error" }));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[tour-mock] http://localhost:${PORT}/B551011/KorService2`);
+  console.log(`[tour-mock] 카세트 디렉터리: ${FIXTURES_DIR}`);
+});
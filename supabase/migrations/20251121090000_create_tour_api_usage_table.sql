@@ -0,0 +1,75 @@
+-- =====================================================
+-- 마이그레이션: tour_api_usage 테이블 생성
+-- 작성일: 2025-11-21
+-- 설명: 한국관광공사 API(KorService2) 일일 호출량 집계
+--       - 서비스 키별 / 날짜별(KST) / 엔드포인트별 호출 횟수
+--       - 호출 횟수 증가 함수 (increment_tour_api_usage)
+--       - 일일 트래픽 한도에 가까워지면 비필수 호출(사이트맵 샘플링 등)을 먼저 제한하는 데 사용
+--
+-- 참고 문서:
+--   - lib/api/tour-usage.ts: 호출량 기록/조회
+--   - lib/api/tour-rate-limit.ts: 호출 제한 (토큰 버킷, 일일 한도)
+--   - app/admin/tour-usage/page.tsx: 관리자 호출량 화면
+-- =====================================================
+
+-- =====================================================
+-- tour_api_usage 테이블 (API 호출량)
+-- =====================================================
+-- 서비스 키 원문은 저장하지 않고 해시 앞부분(key_id)으로 구분
+
+create table if not exists public.tour_api_usage (
+    key_id text not null,       -- 서비스 키 식별자 (SHA-256 해시 앞 12자리)
+    usage_date date not null,   -- 호출 날짜 (KST, 공공데이터포털 트래픽 기준)
+    endpoint text not null,     -- API 엔드포인트 (예: /areaBasedList2)
+    call_count integer default 0 not null,
+    updated_at timestamp with time zone default now() not null,
+
+    constraint tour_api_usage_pkey primary key (key_id, usage_date, endpoint)
+);
+
+-- 테이블 소유자 설정
+alter table public.tour_api_usage owner to postgres;
+
+-- 인덱스 생성 (날짜별 조회)
+create index if not exists idx_tour_api_usage_date on public.tour_api_usage(usage_date desc);
+
+-- Row Level Security (RLS) 활성화
+-- 서버(Service Role)에서만 기록/조회하므로 anon/authenticated 정책은 두지 않음
+alter table public.tour_api_usage enable row level security;
+
+-- 권한 부여
+grant all on table public.tour_api_usage to service_role;
+
+-- =====================================================
+-- 호출 횟수 증가 함수
+-- =====================================================
+-- 여러 서버 인스턴스가 동시에 기록해도 누락되지 않도록 upsert로 증가
+
+create or replace function public.increment_tour_api_usage(
+    p_key_id text,
+    p_usage_date date,
+    p_endpoint text,
+    p_count integer default 1
+)
+returns integer
+language sql
+as $$
+    insert into public.tour_api_usage (key_id, usage_date, endpoint, call_count, updated_at)
+    values (p_key_id, p_usage_date, p_endpoint, p_count, now())
+    on conflict (key_id, usage_date, endpoint)
+    do update set
+        call_count = public.tour_api_usage.call_count + excluded.call_count,
+        updated_at = now()
+    returning call_count;
+$$;
+
+revoke all on function public.increment_tour_api_usage(text, date, text, integer) from public;
+grant execute on function public.increment_tour_api_usage(text, date, text, integer) to service_role;
+
+-- 테이블 설명
+comment on table public.tour_api_usage is '한국관광공사 API 일일 호출량 (서비스 키/날짜/엔드포인트별)';
+comment on column public.tour_api_usage.key_id is '서비스 키 식별자 (SHA-256 해시 앞 12자리, 원문 미저장)';
+comment on column public.tour_api_usage.usage_date is '호출 날짜 (KST)';
+comment on column public.tour_api_usage.endpoint is 'API 엔드포인트 (예: /areaBasedList2)';
+comment on column public.tour_api_usage.call_count is '호출 횟수';
+comment on column public.tour_api_usage.updated_at is '마지막 기록 시간';
@@ -0,0 +1,56 @@
+-- =====================================================
+-- 마이그레이션: saved_searches 테이블 생성
+-- 작성일: 2025-12-01
+-- 설명: 홈페이지 검색 조건 저장 ("내 저장 검색")
+--       - 검색어, 필터, 정렬을 홈페이지 URL 쿼리 문자열로 저장 (예: area=39&type=39)
+--       - 마지막으로 확인한 시간(last_viewed_at) 이후 수정된 관광지 수를 서버에서 계산
+--       - RLS 비활성화 (개발 환경, bookmarks 테이블과 동일)
+--
+-- 참고 문서:
+--   - lib/utils/search-params.ts: 검색 상태 ↔ URL 쿼리 파라미터 변환
+--   - lib/api/saved-searches.ts: 저장 검색 CRUD
+--   - actions/saved-searches.ts: 저장 검색 Server Actions
+-- =====================================================
+
+-- =====================================================
+-- saved_searches 테이블 (저장 검색)
+-- =====================================================
+-- 각 사용자는 같은 검색 조건을 한 번만 저장 가능 (UNIQUE 제약)
+
+create table if not exists public.saved_searches (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid not null references public.users(id) on delete cascade,
+    name text not null,   -- 표시 이름 (예: "제주 · 음식점")
+    query text not null,  -- 홈페이지 URL 쿼리 문자열 (페이지 번호 제외)
+    last_viewed_at timestamp with time zone default now() not null,
+    created_at timestamp with time zone default now() not null,
+
+    -- 동일 사용자가 같은 검색 조건을 중복 저장하는 것을 방지
+    constraint unique_user_saved_search unique(user_id, query)
+);
+
+-- 테이블 소유자 설정
+alter table public.saved_searches owner to postgres;
+
+-- 인덱스 생성 (성능 최적화)
+create index if not exists idx_saved_searches_user_id on public.saved_searches(user_id);
+create index if not exists idx_saved_searches_created_at on public.saved_searches(created_at desc);
+
+-- Row Level Security (RLS) 비활성화
+-- 개발 환경에서는 RLS를 비활성화하여 권한 에러 방지
+-- 프로덕션 배포 전에는 적절한 RLS 정책을 검토하고 적용 필요
+alter table public.saved_searches disable row level security;
+
+-- 권한 부여
+grant all on table public.saved_searches to anon;
+grant all on table public.saved_searches to authenticated;
+grant all on table public.saved_searches to service_role;
+
+-- 테이블 설명
+comment on table public.saved_searches is '사용자 저장 검색 - 홈페이지 검색어/필터/정렬 조건';
+comment on column public.saved_searches.id is '저장 검색 고유 ID (UUID)';
+comment on column public.saved_searches.user_id is 'users 테이블의 사용자 ID (외래키)';
+comment on column public.saved_searches.name is '표시 이름 (검색어, 지역, 관광 타입으로 생성)';
+comment on column public.saved_searches.query is '홈페이지 URL 쿼리 문자열 (예: q=해변&area=39&type=12)';
+comment on column public.saved_searches.last_viewed_at is '마지막으로 결과를 확인한 시간 (새 항목 수 계산 기준)';
+comment on column public.saved_searches.created_at is '저장 검색 생성 시간';
@@ -0,0 +1,22 @@
+/**
+ * @file vitest.config.ts
+ * @description 단위 테스트 설정 (npm test)
+ *
+ * lib/ 아래 순수 함수의 단위 테스트를 Node 환경에서 실행합니다.
+ * 테스트 파일은 대상 파일 옆에 *.test.ts로 둡니다. (예: lib/utils/geo.test.ts)
+ */
+
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // tsconfig.json의 "@/*" 경로 별칭
+    alias: { "@": path.resolve(__dirname, ".") },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules", ".next"],
+  },
+});